@@ -12,18 +12,166 @@ pub fn login(){
 
 }
 
+pub fn refresh_session(){
+
+}
+
 pub fn create_post(){
 
 }
 
+pub fn create_reply(){
+
+}
+
 pub fn like_post(){
 
 }
 
+pub fn unlike_post(){
+
+}
+
+pub fn repost_post(){
+
+}
+
+pub fn unrepost_post(){
+
+}
+
 pub fn get_post_detail(){
 
 }
 
-pub fn get_post_replies(){
+pub fn get_post_thread(){
+
+}
+
+pub fn get_profile(){
+
+}
+
+pub fn get_hobbies(){
+
+}
+
+pub fn put_hobbies(){
+
+}
+
+pub fn search_posts(){
+
+}
+
+pub fn search_actors(){
+
+}
+
+pub fn search_actors_typeahead(){
+
+}
+
+pub fn search_feeds(){
+
+}
+
+pub fn get_feed_generators(){
+
+}
+
+pub fn get_suggested_feeds(){
+
+}
+
+pub fn get_suggestions(){
+
+}
+
+pub fn get_saved_feeds(){
+
+}
+
+pub fn put_saved_feeds(){
+
+}
+
+pub fn get_feed(){
+
+}
+
+pub fn resolve_handle(){
+
+}
+
+pub fn upload_blob(){
+
+}
+
+pub fn get_author_feed(){
+
+}
+
+pub fn get_actor_likes(){
+
+}
+
+pub fn follow_actor(){
+
+}
+
+pub fn unfollow_actor(){
+
+}
+
+pub fn update_profile(){
+
+}
+
+pub fn list_notifications(){
+
+}
+
+pub fn get_unread_count(){
+
+}
+
+pub fn update_seen(){
 
-}
\ No newline at end of file
+}
+
+pub fn list_convos(){
+
+}
+
+pub fn get_convo(){
+
+}
+
+pub fn get_convo_for_members(){
+
+}
+
+pub fn get_messages(){
+
+}
+
+pub fn send_message(){
+
+}
+
+pub fn update_read(){
+
+}
+
+pub fn mute_convo(){
+
+}
+
+pub fn unmute_convo(){
+
+}
+
+pub fn leave_convo(){
+
+}
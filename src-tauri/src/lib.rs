@@ -2,16 +2,31 @@
 use serde::{Deserialize, Serialize};
 mod bluesky;
 
+// Data structures shared with the frontend. Keep in sync with src/types/models.ts.
+
 #[derive(Serialize, Deserialize, Debug)]
 pub struct Post {
     id: String,
+    cid: String,
     author: Author,
     text: String,
     created_at: String,
-    images: Option<Vec<String>>,
+    facets: Option<Vec<Facet>>,
+    embed: Option<Embed>,
+    reply: Option<ReplyRef>,
+    viewer: Option<ViewerState>,
     likes_count: i32,
     reposts_count: i32,
     replies_count: i32,
+    labels: Option<Vec<String>>,
+    reason: Option<FeedReason>,
+}
+
+// Why a post is in a feed, when it is there because someone reposted it
+#[derive(Serialize, Deserialize, Debug)]
+#[serde(tag = "type", rename_all = "snake_case")]
+pub enum FeedReason {
+    Repost { by: Author, indexed_at: String },
 }
 
 #[derive(Serialize, Deserialize, Debug)]
@@ -22,35 +37,480 @@ pub struct Author {
     avatar: Option<String>,
 }
 
+// Follow records between the signed-in user and an account
+#[derive(Serialize, Deserialize, Debug)]
+pub struct ProfileViewerState {
+    following: Option<String>,
+    followed_by: Option<String>,
+}
+
+#[derive(Serialize, Deserialize, Debug)]
+pub struct Profile {
+    did: String,
+    handle: String,
+    display_name: String,
+    avatar: Option<String>,
+    description: Option<String>,
+    description_facets: Option<Vec<Facet>>,
+    banner: Option<String>,
+    followers_count: i32,
+    follows_count: i32,
+    posts_count: i32,
+    viewer: Option<ProfileViewerState>,
+}
+
+// What to do with the avatar or banner when saving a profile
+#[derive(Serialize, Deserialize, Debug)]
+#[serde(tag = "type", rename_all = "snake_case")]
+pub enum ProfileImageChange {
+    Keep,
+    Remove,
+    Set { image: BlobRef },
+}
+
+// New contents of the app.bsky.actor.profile record (rkey `self`)
+#[derive(Serialize, Deserialize, Debug)]
+pub struct ProfileUpdate {
+    display_name: String,
+    description: String,
+    avatar: ProfileImageChange,
+    banner: ProfileImageChange,
+}
+
+#[derive(Serialize, Deserialize, Debug)]
+pub struct Session {
+    access_jwt: String,
+    refresh_jwt: String,
+    did: String,
+    handle: String,
+    service: String,
+}
+
+#[derive(Serialize, Deserialize, Debug)]
+pub struct StrongRef {
+    uri: String,
+    cid: String,
+}
+
+#[derive(Serialize, Deserialize, Debug)]
+pub struct ReplyRef {
+    root: StrongRef,
+    parent: StrongRef,
+}
+
+#[derive(Serialize, Deserialize, Debug)]
+pub struct AspectRatio {
+    width: u32,
+    height: u32,
+}
+
+#[derive(Serialize, Deserialize, Debug)]
+pub struct BlobRef {
+    #[serde(rename = "ref")]
+    blob_ref: String,
+    mime_type: String,
+    size: u64,
+}
+
+#[derive(Serialize, Deserialize, Debug)]
+pub struct ImageUpload {
+    image: BlobRef,
+    alt: String,
+    aspect_ratio: Option<AspectRatio>,
+}
+
+#[derive(Serialize, Deserialize, Debug)]
+pub struct ImageView {
+    thumb: String,
+    fullsize: String,
+    alt: String,
+    aspect_ratio: Option<AspectRatio>,
+}
+
+#[derive(Serialize, Deserialize, Debug)]
+pub struct ExternalView {
+    uri: String,
+    title: String,
+    description: String,
+    thumb: Option<String>,
+}
+
+#[derive(Serialize, Deserialize, Debug)]
+#[serde(tag = "type", rename_all = "snake_case")]
+pub enum MediaEmbed {
+    Images { images: Vec<ImageView> },
+    External { external: ExternalView },
+}
+
+#[derive(Serialize, Deserialize, Debug)]
+pub struct EmbeddedPost {
+    id: String,
+    cid: String,
+    author: Author,
+    text: String,
+    created_at: String,
+    embed: Option<MediaEmbed>,
+}
+
+// A quoted post, or a tombstone when it was deleted or is hidden by a block
+#[derive(Serialize, Deserialize, Debug)]
+#[serde(tag = "type", rename_all = "snake_case")]
+pub enum EmbeddedRecord {
+    Post { post: EmbeddedPost },
+    NotFound { uri: String },
+    Blocked { uri: String },
+}
+
+#[derive(Serialize, Deserialize, Debug)]
+#[serde(tag = "type", rename_all = "snake_case")]
+pub enum Embed {
+    Images { images: Vec<ImageView> },
+    External { external: ExternalView },
+    Record { record: EmbeddedRecord },
+    RecordWithMedia { record: EmbeddedRecord, media: MediaEmbed },
+}
+
+#[derive(Serialize, Deserialize, Debug)]
+pub struct ByteSlice {
+    byte_start: usize,
+    byte_end: usize,
+}
+
+#[derive(Serialize, Deserialize, Debug)]
+#[serde(tag = "type", rename_all = "snake_case")]
+pub enum FacetFeature {
+    Mention { did: String },
+    Link { uri: String },
+    Tag { tag: String },
+}
+
+#[derive(Serialize, Deserialize, Debug)]
+pub struct Facet {
+    index: ByteSlice,
+    features: Vec<FacetFeature>,
+}
+
+#[derive(Serialize, Deserialize, Debug)]
+pub struct ViewerState {
+    like: Option<String>,
+    repost: Option<String>,
+}
+
+// A notification of the signed-in account. `reason` is "like", "repost", "follow",
+// "mention", "reply" or "quote"; `subject` is the account's post it is about and
+// `post` the post that mentions, replies or quotes. `indexed_at` is ISO 8601, so
+// it can be handed back to update_seen
+#[derive(Serialize, Deserialize, Debug)]
+pub struct Notification {
+    uri: String,
+    reason: String,
+    author: Author,
+    indexed_at: String,
+    is_read: bool,
+    subject: Option<Post>,
+    post: Option<Post>,
+}
+
+// A custom feed generator; `uri` is the AT URI of its record
+#[derive(Serialize, Deserialize, Debug)]
+pub struct FeedGenerator {
+    uri: String,
+    cid: String,
+    creator: Author,
+    display_name: String,
+    description: Option<String>,
+    avatar: Option<String>,
+    like_count: u32,
+}
+
+// An entry of the savedFeedsPrefV2 preference; `type` is feed, list or timeline
+#[derive(Serialize, Deserialize, Debug)]
+pub struct SavedFeed {
+    id: String,
+    #[serde(rename = "type")]
+    feed_type: String,
+    value: String,
+    pinned: bool,
+}
+
+// A direct message; `sender` is the DID of its author
+#[derive(Serialize, Deserialize, Debug)]
+pub struct ChatMessage {
+    id: String,
+    rev: String,
+    text: String,
+    facets: Option<Vec<Facet>>,
+    sender: String,
+    sent_at: String,
+}
+
+// A direct message conversation as seen by the signed-in account
+#[derive(Serialize, Deserialize, Debug)]
+pub struct Conversation {
+    id: String,
+    rev: String,
+    members: Vec<Author>,
+    last_message: Option<ChatMessage>,
+    muted: bool,
+    unread_count: u32,
+}
+
+// One page of a cursor-paginated list. `cursor` is absent on the last page.
+#[derive(Serialize, Deserialize, Debug)]
+pub struct Page<T> {
+    items: Vec<T>,
+    cursor: Option<String>,
+}
+
+// A reply and the replies under it
+#[derive(Serialize, Deserialize, Debug)]
+pub struct ThreadNode {
+    post: Post,
+    replies: Vec<ThreadNode>,
+}
+
+// A post with its parents (root first) and its reply tree
+#[derive(Serialize, Deserialize, Debug)]
+pub struct PostThread {
+    post: Post,
+    parents: Vec<Post>,
+    replies: Vec<ThreadNode>,
+}
+
+// A hobby the user follows; see src/types/models.ts
+#[derive(Serialize, Deserialize, Debug)]
+pub struct Hobby {
+    id: String,
+    name: String,
+    emoji: Option<String>,
+    keywords: Vec<String>,
+    hashtags: Vec<String>,
+    feeds: Vec<String>,
+}
+
+// Contents of the `app.hobbysky.actor.hobbies` record (rkey `self`)
+#[derive(Serialize, Deserialize, Debug)]
+pub struct HobbyPreferences {
+    hobbies: Vec<Hobby>,
+    updated_at: String,
+}
+
 #[tauri::command]
-fn get_timeline(service: &str, session: Option<&str>) -> Result<Vec<Post>, String> {
+fn get_timeline(
+    service: &str,
+    session: Option<Session>,
+    cursor: Option<String>,
+    limit: u32,
+) -> Result<Page<Post>, String> {
     bluesky::get_timeline();
+    return Ok(Page { items: Vec::new(), cursor: None });
+}
+
+// The query is passed on as typed; the AppView understands `from:`, `since:`, `lang:` and `#tag`
+#[tauri::command]
+async fn search_posts(
+    service: &str,
+    session: Option<Session>,
+    query: &str,
+    cursor: Option<String>,
+    limit: u32,
+) -> Result<Page<Post>, String> {
+    bluesky::search_posts();
+    return Ok(Page { items: Vec::new(), cursor: None });
+}
+
+#[tauri::command]
+async fn search_actors(
+    service: &str,
+    session: Option<Session>,
+    query: &str,
+    cursor: Option<String>,
+    limit: u32,
+) -> Result<Page<Profile>, String> {
+    bluesky::search_actors();
+    return Ok(Page { items: Vec::new(), cursor: None });
+}
+
+#[tauri::command]
+async fn search_actors_typeahead(
+    service: &str,
+    session: Option<Session>,
+    query: &str,
+    limit: u32,
+) -> Result<Vec<Author>, String> {
+    bluesky::search_actors_typeahead();
+    return Ok(Vec::new());
+}
+
+#[tauri::command]
+async fn search_feeds(
+    service: &str,
+    session: Option<Session>,
+    query: &str,
+    cursor: Option<String>,
+    limit: u32,
+) -> Result<Page<FeedGenerator>, String> {
+    bluesky::search_feeds();
+    return Ok(Page { items: Vec::new(), cursor: None });
+}
+
+// app.bsky.feed.getFeedGenerators; feeds that no longer exist are left out
+#[tauri::command]
+async fn get_feed_generators(
+    service: &str,
+    session: Option<Session>,
+    feeds: Vec<String>,
+) -> Result<Vec<FeedGenerator>, String> {
+    bluesky::get_feed_generators();
     return Ok(Vec::new());
 }
 
+// app.bsky.feed.getSuggestedFeeds, or app.bsky.unspecced.getPopularFeedGenerators when signed out
 #[tauri::command]
-fn login(service: &str, identifier: &str, password: &str) -> Result<String, String> {
+async fn get_suggested_feeds(
+    service: &str,
+    session: Option<Session>,
+    cursor: Option<String>,
+    limit: u32,
+) -> Result<Page<FeedGenerator>, String> {
+    bluesky::get_suggested_feeds();
+    return Ok(Page { items: Vec::new(), cursor: None });
+}
+
+// app.bsky.actor.getSuggestions
+#[tauri::command]
+async fn get_suggestions(
+    service: &str,
+    session: Option<Session>,
+    cursor: Option<String>,
+    limit: u32,
+) -> Result<Page<Profile>, String> {
+    bluesky::get_suggestions();
+    return Ok(Page { items: Vec::new(), cursor: None });
+}
+
+// Reads the savedFeedsPrefV2 item of app.bsky.actor.getPreferences
+#[tauri::command]
+async fn get_saved_feeds(service: &str, session: Session) -> Result<Vec<SavedFeed>, String> {
+    bluesky::get_saved_feeds();
+    return Ok(Vec::new());
+}
+
+// Replaces the savedFeedsPrefV2 item through app.bsky.actor.putPreferences, keeping the other preferences
+#[tauri::command]
+async fn put_saved_feeds(service: &str, session: Session, feeds: Vec<SavedFeed>) -> Result<(), String> {
+    bluesky::put_saved_feeds();
+    return Err("put_saved_feeds is not implemented yet".to_string());
+}
+
+// `feed` is the AT URI of a feed generator record
+#[tauri::command]
+async fn get_feed(
+    service: &str,
+    session: Option<Session>,
+    feed: &str,
+    cursor: Option<String>,
+    limit: u32,
+) -> Result<Page<Post>, String> {
+    bluesky::get_feed();
+    return Ok(Page { items: Vec::new(), cursor: None });
+}
+
+#[tauri::command]
+fn login(service: &str, identifier: &str, password: &str) -> Result<Session, String> {
     bluesky::login();
-    return Ok("".to_string());
+    return Err("login is not implemented yet".to_string());
+}
+
+// Errors for an expired access token must start with "ExpiredToken" so the
+// frontend knows to refresh and retry.
+#[tauri::command]
+async fn refresh_session(service: &str, refresh_jwt: &str) -> Result<Session, String> {
+    bluesky::refresh_session();
+    return Err("refresh_session is not implemented yet".to_string());
+}
+
+#[tauri::command]
+async fn resolve_handle(service: &str, handle: &str) -> Result<String, String> {
+    bluesky::resolve_handle();
+    return Err("resolve_handle is not implemented yet".to_string());
+}
+
+// `data` is the base64 encoded blob
+#[tauri::command]
+async fn upload_blob(service: &str, session: Session, data: &str, mime_type: &str) -> Result<BlobRef, String> {
+    bluesky::upload_blob();
+    return Err("upload_blob is not implemented yet".to_string());
 }
 
+// Facet offsets are UTF-8 byte offsets into `text`; images become an images embed,
+// or a record with media embed when `quote` is set. `labels` become self-labels.
+// Returns the URI and CID of the new record
 #[tauri::command]
-async fn create_post(service: &str, session: &str, text: &str) -> Result<String, String> {
+async fn create_post(
+    service: &str,
+    session: Session,
+    text: &str,
+    facets: Vec<Facet>,
+    images: Vec<ImageUpload>,
+    langs: Vec<String>,
+    labels: Vec<String>,
+    quote: Option<StrongRef>,
+) -> Result<StrongRef, String> {
     bluesky::create_post();
-    return Ok("".to_string());
+    return Ok(StrongRef { uri: "".to_string(), cid: "".to_string() });
+}
+
+// Same as create_post, with the thread references of the reply
+#[tauri::command]
+async fn create_reply(
+    service: &str,
+    session: Session,
+    text: &str,
+    facets: Vec<Facet>,
+    images: Vec<ImageUpload>,
+    langs: Vec<String>,
+    labels: Vec<String>,
+    reply: ReplyRef,
+) -> Result<StrongRef, String> {
+    bluesky::create_reply();
+    return Err("create_reply is not implemented yet".to_string());
 }
 
+// Creates an app.bsky.feed.like record for `subject` and returns its URI
 #[tauri::command]
-async fn like_post(service: &str, session: &str, post_uri: &str) -> Result<bool, String> {
+async fn like_post(service: &str, session: Session, subject: StrongRef) -> Result<String, String> {
     bluesky::like_post();
-    return Ok(true);
+    return Err("like_post is not implemented yet".to_string());
 }
 
+// Deletes the like record at `like_uri`
 #[tauri::command]
-async fn get_post_detail(service: &str, session: Option<&str>, post_uri: &str) -> Result<Post, String> {
+async fn unlike_post(service: &str, session: Session, like_uri: &str) -> Result<(), String> {
+    bluesky::unlike_post();
+    return Err("unlike_post is not implemented yet".to_string());
+}
+
+// Creates an app.bsky.feed.repost record for `subject` and returns its URI
+#[tauri::command]
+async fn repost_post(service: &str, session: Session, subject: StrongRef) -> Result<String, String> {
+    bluesky::repost_post();
+    return Err("repost_post is not implemented yet".to_string());
+}
+
+// Deletes the repost record at `repost_uri`
+#[tauri::command]
+async fn unrepost_post(service: &str, session: Session, repost_uri: &str) -> Result<(), String> {
+    bluesky::unrepost_post();
+    return Err("unrepost_post is not implemented yet".to_string());
+}
+
+#[tauri::command]
+async fn get_post_detail(service: &str, session: Option<Session>, post_uri: &str) -> Result<Post, String> {
     bluesky::get_post_detail();
     return Ok(Post {
         id: "".to_string(),
+        cid: "".to_string(),
         author: Author {
             did: "".to_string(),
             handle: "".to_string(),
@@ -59,17 +519,195 @@ async fn get_post_detail(service: &str, session: Option<&str>, post_uri: &str) -
         },
         text: "".to_string(),
         created_at: "".to_string(),
-        images: None,
+        facets: None,
+        embed: None,
+        reply: None,
+        viewer: None,
         likes_count: 0,
         reposts_count: 0,
-        replies_count: 0
+        replies_count: 0,
+        labels: None,
+        reason: None
     });
 }
 
+// `sort` is "oldest", "newest" or "top" and applies to each level of replies
 #[tauri::command]
-async fn get_post_replies(service: &str, session: Option<&str>, post_uri: &str) -> Result<Vec<Post>, String> {
-    bluesky::get_post_replies();
-    return Ok(Vec::new());
+async fn get_post_thread(
+    service: &str,
+    session: Option<Session>,
+    post_uri: &str,
+    depth: u32,
+    parent_height: u32,
+    sort: &str,
+) -> Result<PostThread, String> {
+    bluesky::get_post_thread();
+    return Err("get_post_thread is not implemented yet".to_string());
+}
+
+#[tauri::command]
+async fn get_profile(service: &str, session: Option<Session>, actor: &str) -> Result<Profile, String> {
+    bluesky::get_profile();
+    return Err("get_profile is not implemented yet".to_string());
+}
+
+// `filter` is "posts", "replies" or "media"
+#[tauri::command]
+async fn get_author_feed(
+    service: &str,
+    session: Option<Session>,
+    actor: &str,
+    filter: &str,
+    cursor: Option<String>,
+    limit: u32,
+) -> Result<Page<Post>, String> {
+    bluesky::get_author_feed();
+    return Ok(Page { items: Vec::new(), cursor: None });
+}
+
+// Only allowed for the signed-in account
+#[tauri::command]
+async fn get_actor_likes(
+    service: &str,
+    session: Session,
+    actor: &str,
+    cursor: Option<String>,
+    limit: u32,
+) -> Result<Page<Post>, String> {
+    bluesky::get_actor_likes();
+    return Ok(Page { items: Vec::new(), cursor: None });
+}
+
+// Creates an app.bsky.graph.follow record for the DID `subject` and returns its URI
+#[tauri::command]
+async fn follow_actor(service: &str, session: Session, subject: &str) -> Result<String, String> {
+    bluesky::follow_actor();
+    return Err("follow_actor is not implemented yet".to_string());
+}
+
+// Deletes the follow record at `follow_uri`
+#[tauri::command]
+async fn unfollow_actor(service: &str, session: Session, follow_uri: &str) -> Result<(), String> {
+    bluesky::unfollow_actor();
+    return Err("unfollow_actor is not implemented yet".to_string());
+}
+
+// Rewrites the app.bsky.actor.profile record and returns the updated profile
+#[tauri::command]
+async fn update_profile(service: &str, session: Session, profile: ProfileUpdate) -> Result<Profile, String> {
+    bluesky::update_profile();
+    return Err("update_profile is not implemented yet".to_string());
+}
+
+// An empty `reasons` lists every notification
+#[tauri::command]
+async fn list_notifications(
+    service: &str,
+    session: Session,
+    reasons: Vec<String>,
+    cursor: Option<String>,
+    limit: u32,
+) -> Result<Page<Notification>, String> {
+    bluesky::list_notifications();
+    return Ok(Page { items: Vec::new(), cursor: None });
+}
+
+#[tauri::command]
+async fn get_unread_count(service: &str, session: Session) -> Result<u32, String> {
+    bluesky::get_unread_count();
+    return Ok(0);
+}
+
+// Marks notifications received up to `seen_at` (ISO 8601) as read
+#[tauri::command]
+async fn update_seen(service: &str, session: Session, seen_at: &str) -> Result<(), String> {
+    bluesky::update_seen();
+    return Err("update_seen is not implemented yet".to_string());
+}
+
+// Chat commands are proxied by the PDS to the chat service
+#[tauri::command]
+async fn list_convos(
+    service: &str,
+    session: Session,
+    cursor: Option<String>,
+    limit: u32,
+) -> Result<Page<Conversation>, String> {
+    bluesky::list_convos();
+    return Ok(Page { items: Vec::new(), cursor: None });
+}
+
+#[tauri::command]
+async fn get_convo(service: &str, session: Session, convo_id: &str) -> Result<Conversation, String> {
+    bluesky::get_convo();
+    return Err("get_convo is not implemented yet".to_string());
+}
+
+#[tauri::command]
+async fn get_convo_for_members(service: &str, session: Session, members: Vec<String>) -> Result<Conversation, String> {
+    bluesky::get_convo_for_members();
+    return Err("get_convo_for_members is not implemented yet".to_string());
+}
+
+// Messages come back newest first
+#[tauri::command]
+async fn get_messages(
+    service: &str,
+    session: Session,
+    convo_id: &str,
+    cursor: Option<String>,
+    limit: u32,
+) -> Result<Page<ChatMessage>, String> {
+    bluesky::get_messages();
+    return Ok(Page { items: Vec::new(), cursor: None });
+}
+
+#[tauri::command]
+async fn send_message(
+    service: &str,
+    session: Session,
+    convo_id: &str,
+    text: &str,
+    facets: Vec<Facet>,
+) -> Result<ChatMessage, String> {
+    bluesky::send_message();
+    return Err("send_message is not implemented yet".to_string());
+}
+
+#[tauri::command]
+async fn update_read(service: &str, session: Session, convo_id: &str) -> Result<Conversation, String> {
+    bluesky::update_read();
+    return Err("update_read is not implemented yet".to_string());
+}
+
+#[tauri::command]
+async fn mute_convo(service: &str, session: Session, convo_id: &str) -> Result<Conversation, String> {
+    bluesky::mute_convo();
+    return Err("mute_convo is not implemented yet".to_string());
+}
+
+#[tauri::command]
+async fn unmute_convo(service: &str, session: Session, convo_id: &str) -> Result<Conversation, String> {
+    bluesky::unmute_convo();
+    return Err("unmute_convo is not implemented yet".to_string());
+}
+
+#[tauri::command]
+async fn leave_convo(service: &str, session: Session, convo_id: &str) -> Result<(), String> {
+    bluesky::leave_convo();
+    return Err("leave_convo is not implemented yet".to_string());
+}
+
+#[tauri::command]
+async fn get_hobbies(service: &str, session: Option<Session>, actor: &str) -> Result<Option<HobbyPreferences>, String> {
+    bluesky::get_hobbies();
+    return Ok(None);
+}
+
+#[tauri::command]
+async fn put_hobbies(service: &str, session: Session, preferences: HobbyPreferences) -> Result<String, String> {
+    bluesky::put_hobbies();
+    return Err("put_hobbies is not implemented yet".to_string());
 }
 
 #[cfg_attr(mobile, tauri::mobile_entry_point)]
@@ -77,13 +715,51 @@ pub fn run() {
     bluesky::main();
     tauri::Builder::default()
         .plugin(tauri_plugin_opener::init())
+        .plugin(tauri_plugin_notification::init())
         .invoke_handler(tauri::generate_handler![
             get_timeline,
+            search_posts,
+            search_actors,
+            search_actors_typeahead,
+            search_feeds,
+            get_feed_generators,
+            get_suggested_feeds,
+            get_suggestions,
+            get_saved_feeds,
+            put_saved_feeds,
+            get_feed,
             login,
+            refresh_session,
+            resolve_handle,
+            upload_blob,
             create_post,
+            create_reply,
             like_post,
+            unlike_post,
+            repost_post,
+            unrepost_post,
             get_post_detail,
-            get_post_replies
+            get_post_thread,
+            get_profile,
+            get_author_feed,
+            get_actor_likes,
+            follow_actor,
+            unfollow_actor,
+            update_profile,
+            list_notifications,
+            get_unread_count,
+            update_seen,
+            list_convos,
+            get_convo,
+            get_convo_for_members,
+            get_messages,
+            send_message,
+            update_read,
+            mute_convo,
+            unmute_convo,
+            leave_convo,
+            get_hobbies,
+            put_hobbies
         ])
         .run(tauri::generate_context!())
         .expect("error while running tauri application");
@@ -4,131 +4,48 @@
  * This is the root component of the Bluesky client application.
  * It sets up routing and defines the overall page layout with three panels:
  * 1. Left panel: Navigation sidebar
- * 2. Center panel: Main content area (either feed or post detail)
- * 3. Right panel: Widgets (trending feeds, suggested accounts, etc.)
+ * 2. Center panel: Main content area (feed, post detail, profile and other pages)
+ * 3. Right panel: Widgets (search, trending feeds and suggested accounts)
  * 
  * For Rust Backend Integration:
- * - The posts array would be fetched from the Bluesky API using bsky-sdk
- * - The addPost function would make a request to create new posts
- * - Authentication state would be managed here or in a context provider
+ * - The home timeline is loaded page by page by the feed store (see stores/feed-store)
+ * - Posts are written in the composer dialog mounted here (see components/Composer)
+ * - Scheduled posts are sent while the app runs (see stores/scheduler)
+ * - The unread notification count is polled while the app runs (see stores/notification-store)
+ * - So are direct message conversations, for their unread count (see stores/chat-store)
+ * - Authentication state is provided by SessionProvider (see context/SessionContext)
  */
 
-import { useState, useEffect } from "react";
+import { useEffect } from "react";
 import { BrowserRouter as Router, Routes, Route } from "react-router-dom";
 import Sidebar from "./components/Sidebar";
 import Feed from "./components/Feed";
 import Widgets from "./components/Widgets";
 import PostDetail from "./components/PostDetail";
-import { invoke } from "./utils/tauri-api";
-
-/**
- * Author Interface
- * 
- * Defines the structure for user profile data throughout the application.
- * 
- * @property did - Decentralized identifier for the user
- * @property handle - User's handle (username)
- * @property displayName - Display name of the user
- * @property avatar - URL to the profile image
- */
-interface Author {
-  did: string;
-  handle: string;
-  display_name: string;
-  avatar?: string;
-}
-
-/**
- * Post Interface
- * 
- * Defines the structure for post objects throughout the application.
- * This matches the data structure from the Rust backend using bsky-sdk.
- * 
- * @property id - URI identifier for the post
- * @property author - Author information
- * @property text - The content of the post
- * @property created_at - When the post was created (as a formatted string)
- * @property images - Optional array of image URLs attached to the post
- * @property likes_count - Number of likes on the post
- * @property reposts_count - Number of reposts of the post
- * @property replies_count - Number of replies to the post
- */
-interface PostData {
-  id: string;
-  author: Author;
-  text: string;
-  created_at: string;
-  images?: string[];
-  likes_count: number;
-  reposts_count: number;
-  replies_count: number;
-}
+import Hobbies from "./components/Hobbies";
+import Explore from "./components/Explore";
+import Feeds from "./components/Feeds";
+import CustomFeed from "./components/CustomFeed";
+import WhoToFollow from "./components/WhoToFollow";
+import Composer from "./components/Composer";
+import Scheduled from "./components/Scheduled";
+import Profile from "./components/Profile";
+import Notifications from "./components/Notifications";
+import Messages from "./components/Messages";
+import Conversation from "./components/Conversation";
+import { scheduler } from "./stores/scheduler";
+import { unreadNotifications } from "./stores/notification-store";
+import { unreadMessages } from "./stores/chat-store";
 
 function App() {
-  const [posts, setPosts] = useState<PostData[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [session, setSession] = useState<string | null>(null);
-  
-  /**
-   * Fetch the timeline from the Bluesky API
-   * 
-   * Uses the Tauri invoke function to call into our Rust backend
-   */
-  useEffect(() => {
-    async function fetchTimeline() {
-      try {
-        setLoading(true);
-        const timeline = await invoke<PostData[]>('get_timeline', { 
-          service: 'https://bsky.social',
-          session: session
-        });
-        setPosts(timeline);
-      } catch (err) {
-        console.error('Failed to fetch timeline:', err);
-        setError('Failed to load posts. Please try again later.');
-      } finally {
-        setLoading(false);
-      }
-    }
-    
-    fetchTimeline();
-  }, [session]);
+  // Send scheduled posts as they fall due, and flag those missed while closed
+  useEffect(() => scheduler.start(), []);
+
+  // Keep the unread badge current, and show desktop alerts when turned on
+  useEffect(() => unreadNotifications.start(), []);
 
-  /**
-   * Add a new post to the feed
-   * 
-   * For Rust Backend Integration:
-   * 1. This makes a request to the Bluesky API through our Rust backend
-   * 2. The post is created via the AT Protocol
-   * 3. On success, we update the local state with the new post
-   * 
-   * @param postText - The content of the post to add
-   */
-  const addPost = async (postText: string) => {
-    if (!session) {
-      setError('You must be logged in to post');
-      return;
-    }
-    
-    try {
-      /*const postUri = */ await invoke<string>('create_post', {
-        service: 'https://bsky.social',
-        session,
-        text: postText
-      });
-      
-      // Fetch the timeline again to get the updated posts
-      const timeline = await invoke<PostData[]>('get_timeline', { 
-        service: 'https://bsky.social',
-        session
-      });
-      setPosts(timeline);
-    } catch (err) {
-      console.error('Failed to create post:', err);
-      setError('Failed to create post. Please try again later.');
-    }
-  };
+  // Keep the unread message badge current
+  useEffect(() => unreadMessages.start(), []);
 
   return (
     <Router>
@@ -140,36 +57,45 @@ function App() {
         <div className="grid grid-cols-12 mx-auto max-w-7xl">
           {/* Left panel - Menu */}
           <div className="col-span-2 md:col-span-2 lg:col-span-3">
-            <Sidebar session={session} setSession={setSession} />
+            <Sidebar />
           </div>
           
           {/* Center panel - Content */}
           <div className="col-span-10 md:col-span-7 lg:col-span-6 border-x border-gray-200">
-            {error && (
-              <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded m-2">
-                {error}
-                <button 
-                  className="float-right font-bold"
-                  onClick={() => setError(null)}
-                >
-                  &times;
-                </button>
-              </div>
-            )}
-            
-            {loading ? (
-              <div className="flex justify-center items-center h-32">
-                <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-bluesky-500"></div>
-              </div>
-            ) : (
-              <Routes>
-                {/* Home route - shows the main feed */}
-                <Route path="/" element={<Feed posts={posts} addPost={addPost} session={session} />} />
-                
-                {/* Post detail route - shows a single post with replies */}
-                <Route path="/post/:postId" element={<PostDetail session={session} />} />
-              </Routes>
-            )}
+            <Routes>
+              {/* Home route - shows the main feed */}
+              <Route path="/" element={<Feed />} />
+              
+              {/* Post detail route - shows a single post with replies */}
+              <Route path="/post/:postId" element={<PostDetail />} />
+
+              {/* Explore route - search for posts, people and feeds; hashtags land here too */}
+              <Route path="/explore" element={<Explore />} />
+
+              {/* Feed routes - pinned and suggested feeds, and one custom feed as a timeline */}
+              <Route path="/feeds" element={<Feeds />} />
+              <Route path="/feed/:uri" element={<CustomFeed />} />
+
+              {/* Suggestions route - the full list behind "Who to follow" */}
+              <Route path="/suggestions" element={<WhoToFollow />} />
+
+              {/* Hobbies route - pick the hobbies to follow */}
+              <Route path="/hobbies" element={<Hobbies />} />
+
+              {/* Profile routes - the signed-in account, or any account by handle or DID */}
+              <Route path="/profile" element={<Profile />} />
+              <Route path="/profile/:actor" element={<Profile />} />
+
+              {/* Notifications route - likes, reposts, follows, mentions, replies and quotes */}
+              <Route path="/notifications" element={<Notifications />} />
+
+              {/* Messages routes - direct message conversations, and one conversation by id */}
+              <Route path="/messages" element={<Messages />} />
+              <Route path="/messages/:convoId" element={<Conversation />} />
+
+              {/* Scheduled route - scheduled posts and drafts */}
+              <Route path="/scheduled" element={<Scheduled />} />
+            </Routes>
           </div>
           
           {/* Right panel - Widgets (hidden on smaller screens) */}
@@ -178,6 +104,9 @@ function App() {
           </div>
         </div>
       </div>
+
+      {/* Post composer dialog, opened from anywhere in the app */}
+      <Composer />
     </Router>
   );
 }
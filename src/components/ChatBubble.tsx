@@ -0,0 +1,104 @@
+/**
+ * ChatBubble.tsx - Chat Message Bubble Component
+ *
+ * One message of a chat-style list: the signed-in user's messages sit on the
+ * right in a colored bubble, everyone else's on the left with their avatar
+ * and name. Used by direct message conversations and post comments.
+ */
+
+import React from 'react';
+import type { Author, Facet } from '../types/models';
+import RichText from './RichText';
+
+/**
+ * ChatBubbleProps Interface
+ *
+ * @property author - Who wrote the message
+ * @property text - Message text
+ * @property facets - Facets received with the message
+ * @property time - When it was sent, as a formatted string
+ * @property isOwn - Whether the signed-in user wrote it
+ * @property showName - Whether to name the author above the text (other people's messages only)
+ * @property status - Delivery of an own message: sent, on its way, or rejected
+ * @property footer - Shown below the bubble, e.g. actions for a message that was not sent
+ */
+interface ChatBubbleProps {
+  author: Author;
+  text: string;
+  facets?: Facet[];
+  time: string;
+  isOwn: boolean;
+  showName?: boolean;
+  status?: 'sent' | 'sending' | 'failed';
+  footer?: React.ReactNode;
+}
+
+const STATUS_LABELS = {
+  sent: '✓',
+  sending: 'Sending…',
+  failed: 'Not sent'
+};
+
+const avatarOf = (author: Author) => author.avatar || `https://i.pravatar.cc/150?u=${author.handle}`;
+
+/**
+ * ChatBubble Component
+ *
+ * @param author - Who wrote the message
+ * @param text - Message text
+ * @param facets - Facets received with the message
+ * @param time - When it was sent
+ * @param isOwn - Whether the signed-in user wrote it
+ * @param showName - Whether to name the author above the text
+ * @param status - Delivery of an own message
+ * @param footer - Shown below the bubble
+ */
+const ChatBubble: React.FC<ChatBubbleProps> = ({
+  author,
+  text,
+  facets,
+  time,
+  isOwn,
+  showName = true,
+  status = 'sent',
+  footer
+}) => (
+  <div className={`flex ${isOwn ? 'justify-end' : 'justify-start'}`}>
+    {!isOwn && (
+      <img src={avatarOf(author)} alt={author.handle} className="h-8 w-8 rounded-full mr-2 self-end" />
+    )}
+    <div className={`max-w-[85%] flex flex-col ${isOwn ? 'items-end' : 'items-start'}`}>
+      <div
+        className={`rounded-2xl py-2 px-3 ${
+          isOwn
+            ? `bg-bluesky-500 text-white rounded-tr-none ${status === 'sent' ? '' : 'opacity-70'}`
+            : 'bg-white text-gray-800 shadow-sm rounded-tl-none'
+        }`}
+      >
+        {!isOwn && showName && (
+          <p className="text-xs font-medium text-bluesky-500 mb-1">{author.display_name || author.handle}</p>
+        )}
+        <RichText
+          text={text}
+          facets={facets}
+          className="text-sm break-words"
+          linkClassName={isOwn ? 'underline break-words' : undefined}
+        />
+        <span className={`block text-right text-[10px] mt-0.5 ${isOwn ? 'text-bluesky-100' : 'text-gray-500'}`}>
+          {time}
+          {isOwn && (
+            <span className="ml-1" title={status === 'sent' ? 'Sent' : undefined}>
+              {STATUS_LABELS[status]}
+            </span>
+          )}
+        </span>
+      </div>
+      {footer}
+    </div>
+    {isOwn && (
+      <img src={avatarOf(author)} alt={author.handle} className="h-8 w-8 rounded-full ml-2 self-end" />
+    )}
+  </div>
+);
+
+export default ChatBubble;
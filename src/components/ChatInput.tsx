@@ -0,0 +1,137 @@
+/**
+ * ChatInput.tsx - Chat Message Input Component
+ *
+ * Single-line input at the bottom of a chat-style list, with an emoji picker
+ * and a send button. Enter sends; the button stays disabled while the text
+ * is blank or over the length limit, and the remaining length is shown once
+ * it gets close.
+ */
+
+import React, { useRef, useState } from 'react';
+import { FaceSmileIcon, PaperAirplaneIcon } from '@heroicons/react/24/outline';
+import { graphemeLength } from '../utils/rich-text';
+
+// Emoji offered by the picker
+const EMOJI = ['😀', '😂', '😊', '😍', '🤔', '😮', '😢', '🙏', '👍', '👏', '🎉', '❤️', '🔥', '✨', '🌱', '🐦'];
+
+// Show the remaining length once fewer than this many graphemes are left
+const COUNTER_THRESHOLD = 100;
+
+/**
+ * ChatInputProps Interface
+ *
+ * @property value - Text in the input
+ * @property onChange - Called with the new text
+ * @property onSubmit - Called when the text is sent
+ * @property placeholder - Shown while the input is empty
+ * @property maxGraphemes - Longest text that can be sent, if limited
+ * @property disabled - Whether sending is unavailable
+ */
+interface ChatInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  onSubmit: () => void;
+  placeholder?: string;
+  maxGraphemes?: number;
+  disabled?: boolean;
+}
+
+/**
+ * ChatInput Component
+ *
+ * @param value - Text in the input
+ * @param onChange - Called with the new text
+ * @param onSubmit - Called when the text is sent
+ * @param placeholder - Shown while the input is empty
+ * @param maxGraphemes - Longest text that can be sent
+ * @param disabled - Whether sending is unavailable
+ */
+const ChatInput: React.FC<ChatInputProps> = ({
+  value,
+  onChange,
+  onSubmit,
+  placeholder = 'Type a message...',
+  maxGraphemes,
+  disabled = false
+}) => {
+  const [isPickerOpen, setIsPickerOpen] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const remaining = maxGraphemes === undefined ? undefined : maxGraphemes - graphemeLength(value);
+  const canSend = !disabled && value.trim().length > 0 && (remaining === undefined || remaining >= 0);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (canSend) onSubmit();
+  };
+
+  // Insert an emoji where the caret is, and put the caret after it
+  const insertEmoji = (emoji: string) => {
+    const input = inputRef.current;
+    const start = input?.selectionStart ?? value.length;
+    const end = input?.selectionEnd ?? value.length;
+    onChange(value.slice(0, start) + emoji + value.slice(end));
+    setIsPickerOpen(false);
+    requestAnimationFrame(() => {
+      input?.focus();
+      input?.setSelectionRange(start + emoji.length, start + emoji.length);
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="relative flex items-center bg-white rounded-full border border-gray-200 px-4 py-1">
+      <input
+        ref={inputRef}
+        type="text"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={placeholder}
+        className="flex-1 border-0 bg-transparent focus:ring-0 focus:outline-none text-sm px-2 py-1"
+      />
+
+      {remaining !== undefined && remaining < COUNTER_THRESHOLD && (
+        <span className={`text-xs ml-2 ${remaining < 0 ? 'text-red-600 font-semibold' : 'text-gray-400'}`}>
+          {remaining}
+        </span>
+      )}
+
+      <div className="flex items-center space-x-1 ml-2">
+        <button
+          type="button"
+          onClick={() => setIsPickerOpen(!isPickerOpen)}
+          className="icon h-8 w-8 text-gray-500"
+          aria-label="Insert emoji"
+          aria-expanded={isPickerOpen}
+        >
+          <FaceSmileIcon className="h-5 w-5" />
+        </button>
+        <button
+          type="submit"
+          disabled={!canSend}
+          className="icon h-8 w-8 bg-bluesky-500 text-white disabled:bg-gray-300"
+          aria-label="Send"
+        >
+          <PaperAirplaneIcon className="h-5 w-5" />
+        </button>
+      </div>
+
+      {/* Emoji picker */}
+      {isPickerOpen && (
+        <div className="absolute bottom-full right-0 mb-2 grid grid-cols-8 gap-1 bg-white rounded-xl shadow-lg border border-gray-100 p-2 z-10">
+          {EMOJI.map(emoji => (
+            <button
+              key={emoji}
+              type="button"
+              onClick={() => insertEmoji(emoji)}
+              className="h-8 w-8 rounded-lg hover:bg-gray-100 text-lg"
+            >
+              {emoji}
+            </button>
+          ))}
+        </div>
+      )}
+    </form>
+  );
+};
+
+export default ChatInput;
@@ -1,12 +1,22 @@
 import React, { useState } from 'react';
-import { PaperAirplaneIcon, FaceSmileIcon, PaperClipIcon } from '@heroicons/react/24/outline';
+import type { Author } from '../types/models';
+import ChatBubble from './ChatBubble';
+import ChatInput from './ChatInput';
 
+/**
+ * CommentType Interface
+ * 
+ * A single chat-style comment.
+ * 
+ * @property author - Author of the comment
+ * @property created_at - When the comment was written (as a formatted string)
+ * @property isOwn - Whether the signed-in user wrote it
+ */
 export interface CommentType {
-  id: number;
+  id: string;
   text: string;
-  username: string;
-  userImg: string;
-  timestamp: string;
+  author: Author;
+  created_at: string;
   isOwn: boolean;
 }
 
@@ -30,17 +40,19 @@ const Comments: React.FC<CommentsProps> = ({ initialComments = [] }) => {
   const [comments, setComments] = useState<CommentType[]>(initialComments);
   const [newComment, setNewComment] = useState('');
 
-  const handleSendComment = (e: React.FormEvent) => {
-    e.preventDefault();
-    
+  const handleSendComment = () => {
     if (newComment.trim()) {
       // Add new comment
       const comment: CommentType = {
-        id: Date.now(),
+        id: `temp-${Date.now()}`,
         text: newComment,
-        username: 'you',
-        userImg: 'https://i.pravatar.cc/150?img=3',
-        timestamp: 'Just now',
+        author: {
+          did: 'temp-did',
+          handle: 'you',
+          display_name: 'You',
+          avatar: 'https://i.pravatar.cc/150?img=3'
+        },
+        created_at: 'Just now',
         isOwn: true
       };
       
@@ -62,77 +74,20 @@ const Comments: React.FC<CommentsProps> = ({ initialComments = [] }) => {
           <p className="text-center text-gray-400 text-sm py-8">No comments yet</p>
         ) : (
           comments.map((comment) => (
-            <div key={comment.id} className={`flex ${comment.isOwn ? 'justify-end' : 'justify-start'}`}>
-              {!comment.isOwn && (
-                <img 
-                  src={comment.userImg} 
-                  alt={comment.username}
-                  className="h-8 w-8 rounded-full mr-2 self-end"
-                />
-              )}
-              <div 
-                className={`rounded-2xl py-2 px-3 max-w-[85%] relative ${
-                  comment.isOwn 
-                    ? 'bg-orange-500 text-white rounded-tr-none' 
-                    : 'bg-white text-gray-800 shadow-sm rounded-tl-none'
-                }`}
-              >
-                {!comment.isOwn && (
-                  <p className="text-xs font-medium text-orange-500 mb-1">{comment.username}</p>
-                )}
-                <p className="text-sm">{comment.text}</p>
-                <span className={`text-[10px] ${comment.isOwn ? 'text-orange-100' : 'text-gray-500'} absolute bottom-1 right-2`}>
-                  {comment.timestamp}
-                  {comment.isOwn && (
-                    <span className="ml-1">✓✓</span>
-                  )}
-                </span>
-              </div>
-              {comment.isOwn && (
-                <img 
-                  src={comment.userImg} 
-                  alt={comment.username}
-                  className="h-8 w-8 rounded-full ml-2 self-end"
-                />
-              )}
-            </div>
+            <ChatBubble
+              key={comment.id}
+              author={comment.author}
+              text={comment.text}
+              time={comment.created_at}
+              isOwn={comment.isOwn}
+            />
           ))
         )}
       </div>
       
       {/* Comment Input - Fixed at the bottom */}
       <div className="sticky bottom-0 bg-gray-50 pt-2">
-        <form 
-          onSubmit={handleSendComment}
-          className="flex items-center bg-white rounded-full border border-gray-200 px-4 py-1"
-        >
-          <div className="flex items-center space-x-1 mr-2">
-            <button type="button" className="icon h-8 w-8 text-gray-500">
-              <PaperClipIcon className="h-5 w-5" />
-            </button>
-          </div>
-          
-          <input
-            type="text"
-            value={newComment}
-            onChange={(e) => setNewComment(e.target.value)}
-            placeholder="Type a message..."
-            className="flex-1 border-0 bg-transparent focus:ring-0 text-sm px-2 py-1"
-          />
-          
-          <div className="flex items-center space-x-1 ml-2">
-            <button type="button" className="icon h-8 w-8 text-gray-500">
-              <FaceSmileIcon className="h-5 w-5" />
-            </button>
-            <button 
-              type="submit"
-              disabled={!newComment.trim()}
-              className="icon h-8 w-8 bg-orange-500 text-white disabled:bg-gray-300"
-            >
-              <PaperAirplaneIcon className="h-5 w-5" />
-            </button>
-          </div>
-        </form>
+        <ChatInput value={newComment} onChange={setNewComment} onSubmit={handleSendComment} />
       </div>
     </div>
   );
@@ -0,0 +1,698 @@
+/**
+ * Composer.tsx - Post Composer Dialog
+ *
+ * The one place where posts are written: new posts from the sidebar, the
+ * feed and the mobile button, replies from reply buttons, and quote posts
+ * from the repost menu. It is mounted once by App and opened through
+ * stores/composer-store; pressing "n" anywhere outside a text field opens it
+ * too.
+ *
+ * Features:
+ * - Live count of the graphemes left out of the 300 a post may have
+ * - Threads: more posts can be added below the first, and a post that is too
+ *   long can be split at sentence boundaries; posts are numbered "1/3" unless
+ *   turned off, each has its own images, and they are published one after
+ *   the other as a reply chain (see utils/threads). When a post fails, the
+ *   ones before it stay published and sending again continues from it.
+ * - Language of the post, defaulting to the browser's language
+ * - Content warnings for attached images (see utils/labels)
+ * - The post being replied to above the text, the quoted post below it
+ * - Up to four images per post, picked, dropped or pasted, with alt text
+ * - The text is autosaved to the account's drafts while typing; closing a
+ *   non-empty composer asks whether to keep the draft or discard it
+ * - A publish time, to hand the post to the scheduler instead of posting it
+ *   now (see stores/scheduler); scheduled posts are edited here too
+ *
+ * For Rust Backend Integration:
+ * - Replies go through the reply store so they show in their thread at once
+ * - New posts and quotes are created through create_post, after which the
+ *   home timeline is reloaded
+ * - Threads start with create_post or create_reply and continue with
+ *   create_reply, each post replying to the one before it
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { useNavigate } from 'react-router-dom';
+import { ClockIcon, PencilSquareIcon, PlusCircleIcon, ShieldExclamationIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { toEmbeddedPost, type Author, type PostDraft, type StrongRef } from '../types/models';
+import { client } from '../utils/bluesky-client';
+import { fitsInPost } from '../utils/rich-text';
+import { SELF_LABELS } from '../utils/labels';
+import { numberPost, publishThread, splitIntoPosts } from '../utils/threads';
+import { errorMessage } from '../utils/errors';
+import { useSession } from '../context/SessionContext';
+import { composerStore, useComposer, type ComposerContext } from '../stores/composer-store';
+import { draftFor, draftsStore, newDraftId, useDrafts } from '../stores/drafts-store';
+import { scheduler } from '../stores/scheduler';
+import { replyStore } from '../stores/reply-store';
+import { homeFeedStore } from '../stores/feed-store';
+import RichText from './RichText';
+import QuotedPost from './QuotedPost';
+import ComposerSegment from './ComposerSegment';
+import type { ImageAttachmentsState } from './ImageAttachments';
+
+// Languages offered for new posts
+const LANGUAGES: { code: string; name: string }[] = [
+  { code: 'en', name: 'English' },
+  { code: 'es', name: 'Español' },
+  { code: 'fr', name: 'Français' },
+  { code: 'de', name: 'Deutsch' },
+  { code: 'it', name: 'Italiano' },
+  { code: 'pt', name: 'Português' },
+  { code: 'nl', name: 'Nederlands' },
+  { code: 'sv', name: 'Svenska' },
+  { code: 'pl', name: 'Polski' },
+  { code: 'ja', name: '日本語' },
+  { code: 'ko', name: '한국어' },
+  { code: 'zh', name: '中文' }
+];
+
+// Time between the last keystroke and saving the draft, in ms
+const AUTOSAVE_DELAY = 500;
+
+// The browser's language if it is offered, English otherwise
+const defaultLanguage = (): string => {
+  const code = navigator.language?.split('-')[0];
+  return LANGUAGES.some(language => language.code === code) ? code : 'en';
+};
+
+// Value of a datetime-local input for a time, in local time
+const toDateTimeInput = (time: Date): string =>
+  new Date(time.getTime() - time.getTimezoneOffset() * 60_000).toISOString().slice(0, 16);
+
+// Suggested publish time: an hour from now, on the next quarter hour
+const defaultPublishTime = (): Date => {
+  const time = new Date(Date.now() + 60 * 60_000);
+  time.setMinutes(Math.ceil(time.getMinutes() / 15) * 15, 0, 0);
+  return time;
+};
+
+// A post of the composer; the key stays with it when posts are added or removed
+interface Segment {
+  key: number;
+  text: string;
+}
+
+let nextSegmentKey = 0;
+
+// Whether a key press is meant for a text field rather than a shortcut
+const isTyping = (target: EventTarget | null): boolean =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+/**
+ * ComposerDialogProps Interface
+ *
+ * @property context - What the composer was opened for
+ */
+interface ComposerDialogProps {
+  context: ComposerContext;
+}
+
+/**
+ * ComposerDialog Component
+ *
+ * The open composer. Mounted afresh each time the composer opens, starting
+ * from the draft or scheduled post it was opened on, or from a saved draft
+ * for the same reply or quote.
+ *
+ * @param context - What the composer was opened for
+ */
+const ComposerDialog: React.FC<ComposerDialogProps> = ({ context }) => {
+  const navigate = useNavigate();
+  const { session, accounts, profiles } = useSession();
+  const did = session?.did ?? '';
+  const { drafts } = useDrafts(did || undefined);
+  const editing = context.scheduled;
+
+  const [initial] = useState<PostDraft>(
+    () =>
+      editing ??
+      context.draft ??
+      draftFor(drafts, context) ?? {
+        id: newDraftId(),
+        text: '',
+        langs: [defaultLanguage()],
+        labels: [],
+        reply: context.reply,
+        quote: context.quote,
+        updated_at: new Date().toISOString()
+      }
+  );
+  const { id, reply, quote } = initial;
+  const initialTexts = [initial.text, ...(initial.thread ?? [])];
+  const initialPublishAt = editing ? toDateTimeInput(new Date(editing.publish_at)) : '';
+
+  // Posts being written: one, or several for a thread
+  const [segments, setSegments] = useState<Segment[]>(() => initialTexts.map(text => ({ key: nextSegmentKey++, text })));
+  // Images of each post, reported by its segment
+  const [media, setMedia] = useState<Record<number, ImageAttachmentsState>>({});
+  // Whether posts of a thread are numbered "1/3" and so on
+  const [isNumbered, setIsNumbered] = useState(true);
+  // Posts of the thread already published, when publishing failed part way
+  const [published, setPublished] = useState<StrongRef[]>([]);
+  // Segment to focus, once it is added
+  const [focusKey, setFocusKey] = useState(segments[0].key);
+  const [langs, setLangs] = useState(initial.langs);
+  const [labels, setLabels] = useState(initial.labels);
+  const [postAs, setPostAs] = useState(editing?.did ?? did);
+  // Local date and time to publish at, empty to post right away
+  const [publishAt, setPublishAt] = useState(initialPublishAt);
+  const [isPosting, setIsPosting] = useState(false);
+  const [isLabelMenuOpen, setIsLabelMenuOpen] = useState(false);
+  const [isConfirmingClose, setIsConfirmingClose] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const formRef = useRef<HTMLFormElement>(null);
+
+  const texts = segments.map(segment => segment.text);
+  const isThread = segments.length > 1;
+  const isResuming = published.length > 0;
+  // Text of each post as it will be published
+  const outgoing = texts.map((text, index) => (isThread && isNumbered ? numberPost(text, index, texts.length) : text));
+  const segmentImages = segments.map(segment => media[segment.key]?.toPostImages() ?? []);
+  const images = segmentImages.flat();
+  const isProcessing = segments.some(segment => media[segment.key]?.processing);
+  const isEmpty = texts.every(text => !text.trim()) && images.length === 0;
+  const isTooLong = outgoing.some(text => !fitsInPost(text));
+  const isScheduling = publishAt !== '';
+  const publishTime = isScheduling ? new Date(publishAt).getTime() : NaN;
+  // Scheduled posts are kept as text, so they cannot carry images
+  const scheduleProblem = !isScheduling
+    ? null
+    : images.length > 0
+      ? "Posts with images can't be scheduled yet."
+      : isThread
+        ? "Threads can't be scheduled yet."
+        : !(publishTime > Date.now())
+          ? 'Choose a time in the future.'
+          : null;
+  // A quote may go out without text of its own; every post of a thread needs something in it
+  const hasContent = isThread
+    ? segments.every((segment, index) => segment.text.trim() || segmentImages[index].length > 0)
+    : !isEmpty || !!quote;
+  const canPost = !isPosting && !isProcessing && !isTooLong && !scheduleProblem && hasContent;
+  const hasChanges = isResuming || (editing ? texts.join() !== initialTexts.join() || publishAt !== initialPublishAt : !isEmpty);
+  const altWarned = segments.some(segment => media[segment.key]?.altWarned && media[segment.key]?.missingAlt > 0);
+
+  const currentDraft = (): PostDraft => ({
+    id,
+    text: texts[0],
+    thread: isThread ? texts.slice(1) : undefined,
+    langs,
+    labels,
+    reply,
+    quote,
+    updated_at: new Date().toISOString()
+  });
+
+  // Autosave shortly after each change; an emptied composer leaves no draft behind.
+  // Changes to a scheduled post only apply once it is updated, and a thread
+  // that is partly published is not saved, since resuming it later would post
+  // its first posts twice.
+  const savedTexts = texts.join('\u0000');
+  useEffect(() => {
+    if (!did || editing || isResuming) return;
+    const timer = setTimeout(() => {
+      if (texts.some(text => text.trim())) {
+        draftsStore(did).save(currentDraft());
+      } else if (texts.join() !== initialTexts.join()) {
+        draftsStore(did).remove(id);
+      }
+    }, AUTOSAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [did, editing, isResuming, id, savedTexts, langs, labels]);
+
+  const close = () => composerStore.close();
+
+  // Ask before closing with something written, or with changes to a scheduled post
+  const requestClose = () => {
+    if (isPosting) return;
+    if (hasChanges) {
+      setIsConfirmingClose(true);
+    } else {
+      close();
+    }
+  };
+
+  const discard = () => {
+    if (did && !editing) draftsStore(did).remove(id);
+    close();
+  };
+
+  const keepDraft = () => {
+    if (did && texts.some(text => text.trim())) draftsStore(did).save(currentDraft());
+    close();
+  };
+
+  const openDrafts = () => {
+    close();
+    navigate('/scheduled');
+  };
+
+  // Escape closes the composer, or the prompt or label menu in front of it
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== 'Escape') return;
+      if (isLabelMenuOpen) {
+        setIsLabelMenuOpen(false);
+      } else if (isConfirmingClose) {
+        setIsConfirmingClose(false);
+      } else {
+        requestClose();
+      }
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  });
+
+  if (!session) return null;
+
+  const author = accounts.find(account => account.did === postAs) ?? session;
+  const avatar = profiles[author.did]?.avatar || `https://i.pravatar.cc/150?u=${author.handle}`;
+
+  const toggleLabel = (value: string) =>
+    setLabels(current => (current.includes(value) ? current.filter(label => label !== value) : [...current, value]));
+
+  const toggleSchedule = () => setPublishAt(isScheduling ? '' : toDateTimeInput(defaultPublishTime()));
+
+  const setText = (key: number, text: string) =>
+    setSegments(current => current.map(segment => (segment.key === key ? { ...segment, text } : segment)));
+
+  const reportMedia = (key: number) => (state: ImageAttachmentsState) =>
+    setMedia(current => ({ ...current, [key]: state }));
+
+  const addSegment = () => {
+    const key = nextSegmentKey++;
+    setSegments(current => [...current, { key, text: '' }]);
+    setFocusKey(key);
+  };
+
+  const removeSegment = (key: number) => {
+    setSegments(current => current.filter(segment => segment.key !== key));
+    setMedia(({ [key]: _removed, ...rest }) => rest);
+  };
+
+  // Replace a post that is too long by as many posts as it takes; the first keeps its images
+  const splitSegment = (key: number) =>
+    setSegments(current =>
+      current.flatMap(segment => {
+        if (segment.key !== key) return [segment];
+        const [first, ...rest] = splitIntoPosts(segment.text);
+        return [{ ...segment, text: first ?? '' }, ...rest.map(text => ({ key: nextSegmentKey++, text }))];
+      })
+    );
+
+  // Publish a thread, resuming after the posts published by an earlier attempt
+  const sendThread = async () => {
+    const done = [...published];
+    try {
+      await publishThread(
+        outgoing.map((text, index) => ({ text, images: segmentImages[index] })),
+        { as: postAs, langs, labels, reply, quote },
+        done,
+        ref => {
+          done.push(ref);
+          setPublished([...done]);
+          // Reopening the draft would post the published part a second time
+          if (done.length === 1 && did) draftsStore(did).remove(id);
+        }
+      );
+    } catch (err) {
+      console.error('Failed to publish thread:', err);
+      throw new Error(
+        done.length > 0
+          ? `post ${done.length + 1} of ${segments.length} failed (${errorMessage(err)}). The posts before it are published; send again to continue from there`
+          : errorMessage(err)
+      );
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    // Ask about missing alt text in every post at once
+    const confirmed = segments.map(segment => media[segment.key]?.confirmMissingAlt() ?? true);
+    if (!canPost || !confirmed.every(Boolean)) return;
+
+    if (isScheduling) {
+      try {
+        scheduler.schedule(currentDraft(), postAs, new Date(publishAt).toISOString());
+      } catch (err) {
+        setError(errorMessage(err));
+        return;
+      }
+      draftsStore(session.did).remove(id);
+      close();
+      return;
+    }
+
+    const options = { as: postAs, images, langs, labels };
+    setIsPosting(true);
+    setError(null);
+    try {
+      if (isThread) {
+        await sendThread();
+      } else if (reply) {
+        const replyAuthor: Author = {
+          did: author.did,
+          handle: author.handle,
+          display_name: profiles[author.did]?.display_name || author.handle,
+          avatar: profiles[author.did]?.avatar
+        };
+        await replyStore.send(reply, replyAuthor, outgoing[0], options);
+      } else {
+        await client.createPost(outgoing[0], { ...options, quote });
+      }
+    } catch (err) {
+      console.error('Failed to send post:', err);
+      setError(`Your ${isThread ? 'thread' : 'post'} was not sent: ${errorMessage(err)}`);
+      setIsPosting(false);
+      return;
+    }
+
+    draftsStore(session.did).remove(id);
+    // Posted ahead of its time, so it must not go out again
+    if (editing) scheduler.remove(id);
+    close();
+    // Show the new post in the timeline of the account it was posted as
+    if (!reply || isThread) await homeFeedStore(postAs).refresh();
+  };
+
+  // Send with Ctrl+Enter or Cmd+Enter from the text
+  const handleTextKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) formRef.current?.requestSubmit();
+  };
+
+  const title = editing
+    ? 'Edit scheduled post'
+    : reply
+      ? 'Reply'
+      : quote
+        ? 'Quote post'
+        : isThread
+          ? 'New thread'
+          : 'New post';
+  const action = isResuming ? 'Continue' : reply ? 'Reply' : 'Post';
+  const closePrompt = isResuming
+    ? 'Discard the rest of the thread?'
+    : editing
+      ? 'Discard your changes?'
+      : isThread
+        ? 'Discard this thread?'
+        : 'Discard this post?';
+  const placeholder = reply ? `Reply to @${reply.author.handle}` : quote ? 'Add a comment' : "What's on your mind?";
+
+  return createPortal(
+    <div
+      className="fixed inset-0 bg-black/50 flex items-start sm:items-center justify-center z-50 p-4 overflow-y-auto"
+      // Portals still bubble React events; keep clicks from reaching a post card
+      onClick={(e) => {
+        e.stopPropagation();
+        if (e.target === e.currentTarget) requestClose();
+      }}
+    >
+      <form
+        ref={formRef}
+        role="dialog"
+        aria-modal="true"
+        aria-label={title}
+        onSubmit={handleSubmit}
+        className="relative bg-white rounded-2xl p-6 w-full max-w-xl"
+      >
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-xl font-bold">{title}</h3>
+          <div className="flex items-center space-x-3">
+            {/* Saved drafts, offered while nothing is written yet */}
+            {!editing && isEmpty && drafts.length > 0 && (
+              <button type="button" onClick={openDrafts} className="text-sm font-semibold text-bluesky-600 hover:text-bluesky-700">
+                Drafts ({drafts.length})
+              </button>
+            )}
+            <button type="button" onClick={requestClose} className="text-gray-500 hover:text-gray-700" aria-label="Close">
+              <XMarkIcon className="h-6 w-6" />
+            </button>
+          </div>
+        </div>
+
+        {/* Post being replied to */}
+        {reply && (
+          <div className="flex space-x-3 mb-4 pb-4 border-b border-gray-100">
+            <img
+              src={reply.author.avatar || `https://i.pravatar.cc/150?u=${reply.author.handle}`}
+              alt={`${reply.author.handle}'s profile`}
+              className="h-10 w-10 rounded-full border border-gray-200 flex-shrink-0"
+            />
+            <div className="min-w-0">
+              <div className="flex items-center space-x-1 whitespace-nowrap overflow-hidden">
+                <span className="font-semibold truncate">{reply.author.display_name}</span>
+                <span className="text-sm text-gray-500 truncate">@{reply.author.handle}</span>
+              </div>
+              <RichText text={reply.text} facets={reply.facets} className="text-gray-700 max-h-32 overflow-hidden" />
+            </div>
+          </div>
+        )}
+
+        <div className="flex space-x-3">
+          <img src={avatar} alt="Your profile" className="h-10 w-10 rounded-full border border-gray-200 flex-shrink-0" />
+          <div className="flex-1 min-w-0">
+            {/* Account picker, shown when several accounts are signed in */}
+            {accounts.length > 1 && (
+              <select
+                value={postAs}
+                onChange={(e) => setPostAs(e.target.value)}
+                disabled={isResuming}
+                className="mb-2 text-sm text-gray-600 bg-gray-50 border border-gray-200 rounded-full px-3 py-1 focus:outline-none focus:ring-2 focus:ring-bluesky-400"
+                aria-label="Post as"
+              >
+                {accounts.map(account => (
+                  <option key={account.did} value={account.did}>
+                    Post as @{account.handle}
+                  </option>
+                ))}
+              </select>
+            )}
+
+            {/* One segment per post; the quoted post goes with the first */}
+            <div className="space-y-3">
+              {segments.map((segment, index) => (
+                <div key={segment.key} className={index > 0 ? 'pt-3 border-t border-gray-100' : ''}>
+                  <ComposerSegment
+                    text={segment.text}
+                    published={outgoing[index]}
+                    onChange={(text) => setText(segment.key, text)}
+                    onAttachments={reportMedia(segment.key)}
+                    onSplit={isResuming ? undefined : () => splitSegment(segment.key)}
+                    onRemove={isThread && !isResuming ? () => removeSegment(segment.key) : undefined}
+                    onKeyDown={handleTextKeyDown}
+                    placeholder={index === 0 ? placeholder : 'Continue the thread'}
+                    label={isThread ? `${index + 1}/${segments.length}` : undefined}
+                    isPublished={index < published.length}
+                    disabled={isPosting}
+                    autoFocus={segment.key === focusKey}
+                  >
+                    {index === 0 && quote && (
+                      <QuotedPost record={{ type: 'post', post: toEmbeddedPost(quote) }} interactive={false} className="mb-3" />
+                    )}
+                  </ComposerSegment>
+                </div>
+              ))}
+            </div>
+
+            {/* Thread controls */}
+            {!editing && !isResuming && (
+              <div className="flex items-center justify-between mt-2 mb-2">
+                <button
+                  type="button"
+                  onClick={addSegment}
+                  disabled={isPosting}
+                  className="flex items-center text-sm font-semibold text-bluesky-600 hover:text-bluesky-700 disabled:opacity-50"
+                >
+                  <PlusCircleIcon className="h-5 w-5 mr-1" />
+                  Add to thread
+                </button>
+                {isThread && (
+                  <label className="flex items-center space-x-2 text-sm text-gray-600 cursor-pointer">
+                    <input type="checkbox" checked={isNumbered} onChange={(e) => setIsNumbered(e.target.checked)} />
+                    <span>Number posts</span>
+                  </label>
+                )}
+              </div>
+            )}
+
+            {/* Publish time, shown while scheduling */}
+            {isScheduling && (
+              <div className="flex items-center flex-wrap gap-2 mb-2 text-sm">
+                <ClockIcon className="h-5 w-5 text-bluesky-500" />
+                <label htmlFor="composer-publish-at" className="text-gray-600">
+                  Publish at
+                </label>
+                <input
+                  id="composer-publish-at"
+                  type="datetime-local"
+                  value={publishAt}
+                  min={toDateTimeInput(new Date())}
+                  onChange={(e) => setPublishAt(e.target.value)}
+                  className="px-2 py-1 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-bluesky-400"
+                />
+                {scheduleProblem && <span className="text-red-600">{scheduleProblem}</span>}
+              </div>
+            )}
+            {error && <p className="mb-2 text-sm text-red-600">{error}</p>}
+          </div>
+        </div>
+
+        {/* Toolbar */}
+        <div className="flex items-center justify-between pt-3 mt-2 border-t border-gray-100">
+          <div className="flex items-center space-x-2">
+            {/* Content warnings, which only apply to images */}
+            <div className="relative">
+              <button
+                type="button"
+                onClick={() => setIsLabelMenuOpen(open => !open)}
+                disabled={images.length === 0}
+                className={`icon ${labels.length > 0 && images.length > 0 ? 'text-amber-600' : 'text-bluesky-500'} disabled:opacity-40 disabled:cursor-default`}
+                title={images.length === 0 ? 'Add images to set content warnings' : 'Content warnings'}
+                aria-label="Content warnings"
+              >
+                <ShieldExclamationIcon className="h-5 w-5" />
+              </button>
+              {isLabelMenuOpen && images.length > 0 && (
+                <div className="absolute left-0 bottom-full mb-2 z-10 w-64 bg-white rounded-xl shadow-lg border border-gray-100 p-2">
+                  <p className="px-2 py-1 text-xs font-semibold text-gray-500">Warn readers about these images</p>
+                  {SELF_LABELS.map(label => (
+                    <label key={label.value} className="flex items-start space-x-2 px-2 py-1.5 rounded-lg hover:bg-gray-50 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={labels.includes(label.value)}
+                        onChange={() => toggleLabel(label.value)}
+                        className="mt-1"
+                      />
+                      <span>
+                        <span className="block text-sm font-medium">{label.name}</span>
+                        <span className="block text-xs text-gray-500">{label.description}</span>
+                      </span>
+                    </label>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <button
+              type="button"
+              onClick={toggleSchedule}
+              className={`icon ${isScheduling ? 'bg-bluesky-100' : ''} text-bluesky-500`}
+              title={isScheduling ? 'Post right away instead' : 'Schedule for later'}
+              aria-label="Schedule"
+              aria-pressed={isScheduling}
+            >
+              <ClockIcon className="h-5 w-5" />
+            </button>
+
+            <select
+              value={langs[0] ?? ''}
+              onChange={(e) => setLangs([e.target.value])}
+              className="text-sm text-gray-600 bg-gray-50 border border-gray-200 rounded-full px-2 py-1 focus:outline-none focus:ring-2 focus:ring-bluesky-400"
+              aria-label="Post language"
+            >
+              {LANGUAGES.map(language => (
+                <option key={language.code} value={language.code}>
+                  {language.name}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="flex items-center space-x-3">
+            <button
+              type="submit"
+              disabled={!canPost}
+              className="btn-primary px-5 py-2 rounded-full font-bold text-white bg-bluesky-500 hover:bg-bluesky-600 disabled:opacity-50 disabled:cursor-default"
+            >
+              {isPosting
+                ? 'Posting…'
+                : isScheduling
+                  ? editing ? 'Update' : 'Schedule'
+                  : altWarned
+                    ? `${action} anyway`
+                    : isResuming
+                      ? `${action} from post ${published.length + 1}`
+                      : editing ? `${action} now` : action}
+            </button>
+          </div>
+        </div>
+
+        {/* Prompt shown when closing with something written */}
+        {isConfirmingClose && (
+          <div className="absolute inset-0 bg-white/90 rounded-2xl flex items-center justify-center p-6">
+            <div role="alertdialog" aria-label={closePrompt} className="text-center max-w-xs">
+              <PencilSquareIcon className="h-8 w-8 mx-auto text-bluesky-500 mb-2" />
+              <h4 className="text-lg font-bold mb-1">{closePrompt}</h4>
+              <p className="text-sm text-gray-500 mb-4">
+                {isResuming
+                  ? `The first ${published.length} ${published.length === 1 ? 'post is' : 'posts are'} published and stay up.`
+                  : editing
+                    ? 'The post stays scheduled as it was.'
+                    : `Keep it as a draft to finish later${images.length > 0 ? '; images are not kept in drafts' : ''}.`}
+              </p>
+              <div className="flex flex-col space-y-2">
+                <button
+                  type="button"
+                  onClick={discard}
+                  className="px-4 py-2 rounded-full font-bold text-white bg-red-500 hover:bg-red-600"
+                >
+                  Discard
+                </button>
+                {!editing && !isResuming && (
+                  <button
+                    type="button"
+                    onClick={keepDraft}
+                    className="px-4 py-2 rounded-full font-bold border border-gray-200 hover:bg-gray-50"
+                  >
+                    Save draft
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={() => setIsConfirmingClose(false)}
+                  className="px-4 py-2 rounded-full text-gray-500 hover:bg-gray-50"
+                >
+                  Keep editing
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+      </form>
+    </div>,
+    document.body
+  );
+};
+
+/**
+ * Composer Component
+ *
+ * Shows the composer dialog while it is open, and opens it with "n".
+ * Renders nothing while signed out.
+ */
+const Composer: React.FC = () => {
+  const { session } = useSession();
+  const { isOpen, context, session: opening } = useComposer();
+
+  useEffect(() => {
+    if (!session) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== 'n' || e.metaKey || e.ctrlKey || e.altKey || isTyping(e.target)) return;
+      if (composerStore.getState().isOpen) return;
+      e.preventDefault();
+      composerStore.open();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [session]);
+
+  if (!isOpen || !session) return null;
+
+  return <ComposerDialog key={opening} context={context} />;
+};
+
+export default Composer;
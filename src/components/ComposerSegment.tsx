@@ -0,0 +1,180 @@
+/**
+ * ComposerSegment.tsx - One Post in the Composer
+ *
+ * The text and images of a single post in the composer dialog (see
+ * Composer.tsx). A plain post has one segment; a thread has one per post,
+ * each with its own images, which can be picked, dropped onto the segment
+ * or pasted into its text.
+ *
+ * The counter shows the graphemes left in the post as it will be published,
+ * numbering included. A post that is too long offers to split it into a
+ * thread at sentence boundaries.
+ */
+
+import React, { useEffect } from 'react';
+import { CheckCircleIcon, ScissorsIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { fitsInPost, graphemeLength, MAX_POST_GRAPHEMES } from '../utils/rich-text';
+import ImageAttachments, {
+  AltTextReminder,
+  AttachImageButton,
+  useImageAttachments,
+  useImageDrop,
+  type ImageAttachmentsState
+} from './ImageAttachments';
+
+/**
+ * GraphemeCounter Component
+ *
+ * Number of graphemes left in a post, turning red once the text is too long.
+ *
+ * @param text - The text being written
+ */
+export const GraphemeCounter: React.FC<{ text: string }> = ({ text }) => {
+  const remaining = MAX_POST_GRAPHEMES - graphemeLength(text);
+  return (
+    <span
+      className={`text-sm tabular-nums ${
+        remaining < 0 ? 'text-red-600 font-semibold' : remaining <= 20 ? 'text-amber-600' : 'text-gray-400'
+      }`}
+      aria-label={`${remaining} characters left`}
+    >
+      {remaining}
+    </span>
+  );
+};
+
+/**
+ * ComposerSegmentProps Interface
+ *
+ * @property text - Text of the post as it is being edited
+ * @property published - Text of the post as it will be published, numbering included
+ * @property onChange - Called with the new text
+ * @property onAttachments - Called with the segment's images whenever they change
+ * @property onSplit - Split the post into a thread; offered while it is too long
+ * @property onRemove - Remove the post from the thread, if it can be removed
+ * @property onKeyDown - Key handler of the text, e.g. for sending with Ctrl+Enter
+ * @property placeholder - Placeholder of the text
+ * @property label - Position of the post in its thread, e.g. "2/3"
+ * @property isPublished - Already published as part of a thread that failed later on
+ * @property disabled - Lock the text, e.g. while posting
+ * @property autoFocus - Focus the text on mount
+ * @property children - Shown below the images, e.g. the quoted post
+ */
+interface ComposerSegmentProps {
+  text: string;
+  published: string;
+  onChange: (text: string) => void;
+  onAttachments: (state: ImageAttachmentsState) => void;
+  onSplit?: () => void;
+  onRemove?: () => void;
+  onKeyDown?: (e: React.KeyboardEvent) => void;
+  placeholder: string;
+  label?: string;
+  isPublished?: boolean;
+  disabled?: boolean;
+  autoFocus?: boolean;
+  children?: React.ReactNode;
+}
+
+/**
+ * ComposerSegment Component
+ *
+ * @param text - Text of the post as it is being edited
+ * @param published - Text of the post as it will be published
+ * @param onChange - Called with the new text
+ * @param onAttachments - Called with the segment's images whenever they change
+ * @param onSplit - Split the post into a thread
+ * @param onRemove - Remove the post from the thread
+ * @param onKeyDown - Key handler of the text
+ * @param placeholder - Placeholder of the text
+ * @param label - Position of the post in its thread
+ * @param isPublished - Already published
+ * @param disabled - Lock the text
+ * @param autoFocus - Focus the text on mount
+ * @param children - Shown below the images
+ */
+const ComposerSegment: React.FC<ComposerSegmentProps> = ({
+  text,
+  published,
+  onChange,
+  onAttachments,
+  onSplit,
+  onRemove,
+  onKeyDown,
+  placeholder,
+  label,
+  isPublished = false,
+  disabled = false,
+  autoFocus,
+  children
+}) => {
+  const attachments = useImageAttachments();
+  const { isDropTarget, dropHandlers, handlePaste } = useImageDrop(attachments);
+  const isTooLong = !fitsInPost(published);
+
+  // Let the composer know which images go with this post, again whenever
+  // they or the alt text warning change
+  useEffect(() => {
+    onAttachments(attachments);
+  }, [attachments.attachments, attachments.altWarned]);
+
+  return (
+    <div className={`rounded-xl ${isDropTarget ? 'ring-2 ring-bluesky-400' : ''}`} {...dropHandlers}>
+      {label && (
+        <div className="flex items-center text-xs font-semibold text-gray-400 mb-1">
+          {isPublished && <CheckCircleIcon className="h-4 w-4 mr-1 text-green-500" />}
+          {label}
+          {isPublished && <span className="ml-1 font-normal">published</span>}
+        </div>
+      )}
+      <textarea
+        value={text}
+        onChange={(e) => onChange(e.target.value)}
+        onPaste={handlePaste}
+        onKeyDown={onKeyDown}
+        placeholder={placeholder}
+        autoFocus={autoFocus}
+        disabled={disabled || isPublished}
+        className={`w-full border-0 p-0 resize-none mb-2 placeholder-gray-500 focus:outline-none focus:ring-0 disabled:bg-white disabled:opacity-60 ${
+          label ? 'min-h-[80px]' : 'min-h-[120px] text-lg'
+        }`}
+      />
+
+      <ImageAttachments state={attachments} />
+      {children}
+      <AltTextReminder state={attachments} />
+
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          {!isPublished && <AttachImageButton state={attachments} />}
+          {onRemove && !isPublished && (
+            <button
+              type="button"
+              onClick={onRemove}
+              className="icon text-gray-400 hover:text-red-500"
+              title="Remove this post"
+              aria-label="Remove this post"
+            >
+              <TrashIcon className="h-5 w-5" />
+            </button>
+          )}
+        </div>
+        <div className="flex items-center space-x-3">
+          {isTooLong && onSplit && !isPublished && (
+            <button
+              type="button"
+              onClick={onSplit}
+              className="flex items-center text-sm font-semibold text-bluesky-600 hover:text-bluesky-700"
+            >
+              <ScissorsIcon className="h-4 w-4 mr-1" />
+              Split into thread
+            </button>
+          )}
+          <GraphemeCounter text={published} />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ComposerSegment;
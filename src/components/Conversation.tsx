@@ -0,0 +1,306 @@
+/**
+ * Conversation.tsx - Direct Message Conversation Component
+ *
+ * Shows one conversation as chat bubbles, oldest at the top, with an input
+ * at the bottom. New messages are polled for while the page is open and
+ * marked as read while the window is shown.
+ *
+ * Features:
+ * - Older messages load on request
+ * - Messages appear right away while they are sent; those that fail can be
+ *   retried or discarded
+ * - Mute or leave the conversation from the header menu
+ *
+ * For Rust Backend Integration:
+ * - Messages come from get_messages and are sent with send_message
+ * - Reading calls update_read; the menu calls mute_convo, unmute_convo and
+ *   leave_convo (see stores/chat-store)
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import {
+  ArrowLeftIcon,
+  ArrowRightStartOnRectangleIcon,
+  BellIcon,
+  BellSlashIcon,
+  EllipsisHorizontalIcon
+} from '@heroicons/react/24/outline';
+import type { Author } from '../types/models';
+import { MAX_MESSAGE_GRAPHEMES } from '../utils/rich-text';
+import { decodeParam, profilePath } from '../utils/routes';
+import { errorMessage } from '../utils/errors';
+import { useSession } from '../context/SessionContext';
+import { conversationStore, conversationTitle, otherMembers, useConversation } from '../stores/chat-store';
+import ChatBubble from './ChatBubble';
+import ChatInput from './ChatInput';
+
+/**
+ * Conversation Component
+ */
+const Conversation: React.FC = () => {
+  const { convoId: convoParam } = useParams<{ convoId: string }>();
+  const convoId = convoParam ? decodeParam(convoParam) : '';
+  const navigate = useNavigate();
+  const { session, profiles } = useSession();
+  const [text, setText] = useState('');
+  const [isMenuOpen, setIsMenuOpen] = useState(false);
+  const [isConfirmingLeave, setIsConfirmingLeave] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  const store = session && convoId ? conversationStore(session.did, convoId) : null;
+  const { conversation, messages, outgoing, loaded, hasOlder, status, error } = useConversation(store);
+
+  // Load the conversation and poll for new messages while it is open
+  useEffect(() => store?.start(), [store]);
+
+  // Follow the newest message, but not when older ones are loaded above
+  const newestKey = `${messages[messages.length - 1]?.id}:${outgoing.length}`;
+  useEffect(() => {
+    if (loaded) bottomRef.current?.scrollIntoView({ block: 'end' });
+  }, [loaded, newestKey]);
+
+  // Close the menu on a click outside it or Escape
+  useEffect(() => {
+    if (!isMenuOpen) return;
+
+    const handlePointerDown = (e: PointerEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setIsMenuOpen(false);
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setIsMenuOpen(false);
+    };
+    document.addEventListener('pointerdown', handlePointerDown);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('pointerdown', handlePointerDown);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [isMenuOpen]);
+
+  // Members by DID, with the signed-in account's own profile for its bubbles
+  const memberFor = (did: string): Author => {
+    const member = conversation?.members.find(m => m.did === did);
+    if (member) return member;
+    return { did, handle: session?.handle ?? did, display_name: profiles[did]?.display_name, avatar: profiles[did]?.avatar };
+  };
+  const others = session && conversation ? otherMembers(conversation, session.did) : [];
+  const self = session ? memberFor(session.did) : undefined;
+
+  const handleSend = () => {
+    if (!store) return;
+    store.send(text.trim());
+    setText('');
+  };
+
+  const toggleMuted = async () => {
+    if (!store || !conversation) return;
+    setIsMenuOpen(false);
+    setActionError(null);
+    try {
+      await store.setMuted(!conversation.muted);
+    } catch (err) {
+      console.error('Failed to change mute:', err);
+      setActionError(errorMessage(err));
+    }
+  };
+
+  const leave = async () => {
+    if (!store) return;
+    setActionError(null);
+    try {
+      await store.leave();
+      navigate('/messages', { replace: true });
+    } catch (err) {
+      console.error('Failed to leave conversation:', err);
+      setActionError(errorMessage(err));
+      setIsConfirmingLeave(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen px-4 flex flex-col">
+      {/* Header with back button and menu */}
+      <div className="flex items-center py-3 px-4 sticky top-0 z-50 bg-white/80 backdrop-blur-md rounded-xl shadow-sm mb-4">
+        <button onClick={() => navigate('/messages')} className="icon mr-4" aria-label="Back to messages">
+          <ArrowLeftIcon className="h-5 w-5" />
+        </button>
+        {others.length > 0 && (
+          <Link to={profilePath(others[0].handle)} className="flex-shrink-0 mr-3">
+            <img
+              src={others[0].avatar || `https://i.pravatar.cc/150?u=${others[0].handle}`}
+              alt={others[0].handle}
+              className="h-9 w-9 rounded-full"
+            />
+          </Link>
+        )}
+        <div className="min-w-0 flex-1">
+          <h2 className="text-xl font-bold truncate">
+            {session && conversation ? conversationTitle(conversation, session.did) : 'Messages'}
+          </h2>
+          {others.length === 1 && <p className="text-xs text-gray-500 truncate">@{others[0].handle}</p>}
+        </div>
+        {conversation && (
+          <div ref={menuRef} className="relative">
+            <button
+              onClick={() => setIsMenuOpen(!isMenuOpen)}
+              className="icon text-gray-500"
+              aria-label="Conversation options"
+              aria-haspopup="menu"
+              aria-expanded={isMenuOpen}
+            >
+              <EllipsisHorizontalIcon className="h-5 w-5" />
+            </button>
+            {isMenuOpen && (
+              <div
+                role="menu"
+                className="absolute right-0 top-full mt-1 z-20 w-52 bg-white rounded-xl shadow-lg border border-gray-100 py-1 text-gray-900"
+              >
+                <button
+                  role="menuitem"
+                  onClick={toggleMuted}
+                  className="w-full flex items-center px-4 py-2 text-sm hover:bg-gray-50"
+                >
+                  {conversation.muted ? (
+                    <BellIcon className="h-5 w-5 mr-2 text-bluesky-500" />
+                  ) : (
+                    <BellSlashIcon className="h-5 w-5 mr-2 text-gray-500" />
+                  )}
+                  {conversation.muted ? 'Unmute conversation' : 'Mute conversation'}
+                </button>
+                <button
+                  role="menuitem"
+                  onClick={() => {
+                    setIsMenuOpen(false);
+                    setIsConfirmingLeave(true);
+                  }}
+                  className="w-full flex items-center px-4 py-2 text-sm text-red-500 hover:bg-gray-50"
+                >
+                  <ArrowRightStartOnRectangleIcon className="h-5 w-5 mr-2" />
+                  Leave conversation
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Leaving asks first */}
+      {isConfirmingLeave && (
+        <div className="tweet-card mb-4">
+          <p className="font-semibold mb-1">Leave this conversation?</p>
+          <p className="text-sm text-gray-500 mb-3">
+            It disappears from your messages until someone writes in it again.
+          </p>
+          <div className="flex justify-end space-x-2">
+            <button
+              onClick={() => setIsConfirmingLeave(false)}
+              className="px-4 py-1.5 rounded-full text-sm font-semibold text-gray-700 hover:bg-gray-100"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={leave}
+              className="px-4 py-1.5 rounded-full text-sm font-semibold bg-red-500 hover:bg-red-600 text-white"
+            >
+              Leave
+            </button>
+          </div>
+        </div>
+      )}
+
+      {actionError && <p className="px-4 mb-3 text-sm text-red-600">{actionError}</p>}
+
+      {!session ? (
+        <p className="text-gray-500 text-center py-10">Sign in to see your messages.</p>
+      ) : !loaded && status !== 'error' ? (
+        <div className="flex justify-center items-center h-32">
+          <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-bluesky-500"></div>
+        </div>
+      ) : !loaded ? (
+        <div className="text-center py-10">
+          <p className="text-red-600 mb-3">{error ?? 'Failed to load the conversation.'}</p>
+          <button
+            onClick={() => store?.load()}
+            className="btn-primary px-4 py-2 bg-bluesky-500 hover:bg-bluesky-600"
+          >
+            Try again
+          </button>
+        </div>
+      ) : (
+        <>
+          <div className="flex-1 bg-gray-50 rounded-xl p-3 space-y-4">
+            {/* Older messages on request */}
+            {hasOlder && (
+              <div className="flex justify-center">
+                <button
+                  onClick={() => store?.loadOlder()}
+                  disabled={status === 'loading'}
+                  className="px-3 py-1 rounded-full text-sm font-medium bg-bluesky-50 text-bluesky-600 hover:bg-bluesky-100 disabled:opacity-50"
+                >
+                  {status === 'loading' ? 'Loading…' : 'Load older messages'}
+                </button>
+              </div>
+            )}
+            {status === 'error' && <p className="text-center text-sm text-red-600">{error}</p>}
+
+            {messages.length === 0 && outgoing.length === 0 && (
+              <p className="text-center text-gray-400 text-sm py-8">No messages yet. Say hello!</p>
+            )}
+
+            {messages.map(message => (
+              <ChatBubble
+                key={message.id}
+                author={memberFor(message.sender)}
+                text={message.text}
+                facets={message.facets}
+                time={message.sent_at}
+                isOwn={message.sender === session.did}
+                showName={others.length > 1}
+              />
+            ))}
+
+            {self && outgoing.map(message => (
+              <ChatBubble
+                key={message.key}
+                author={self}
+                text={message.text}
+                time=""
+                isOwn
+                status={message.status}
+                footer={message.status === 'failed' && (
+                  <p className="text-xs text-red-600 mt-1">
+                    {message.error ?? 'Not sent.'}{' '}
+                    <button onClick={() => store?.retry(message.key)} className="font-semibold hover:underline">
+                      Retry
+                    </button>
+                    {' · '}
+                    <button onClick={() => store?.discard(message.key)} className="font-semibold hover:underline">
+                      Discard
+                    </button>
+                  </p>
+                )}
+              />
+            ))}
+            <div ref={bottomRef} />
+          </div>
+
+          {/* Message input, fixed at the bottom */}
+          <div className="sticky bottom-0 bg-white py-3">
+            <ChatInput
+              value={text}
+              onChange={setText}
+              onSubmit={handleSend}
+              placeholder="Write a message..."
+              maxGraphemes={MAX_MESSAGE_GRAPHEMES}
+            />
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default Conversation;
@@ -0,0 +1,120 @@
+/**
+ * CustomFeed.tsx - Custom Feed Page Component
+ *
+ * Shows a custom feed as a timeline, below a card describing it: its
+ * avatar, name, creator, description and likes, with a button to pin it.
+ * Reached from a feed's name wherever feeds are listed, or from its tab in
+ * the home feed header.
+ *
+ * For Rust Backend Integration:
+ * - The card comes from get_feed_generators
+ * - Posts come from get_feed, page by page, polled for new posts like the
+ *   home timeline (see stores/feed-store)
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { ArrowLeftIcon, RssIcon } from '@heroicons/react/24/outline';
+import type { FeedGenerator } from '../types/models';
+import { client } from '../utils/bluesky-client';
+import { decodeParam, profilePath } from '../utils/routes';
+import { errorMessage } from '../utils/errors';
+import { useSession } from '../context/SessionContext';
+import { customFeedStore, useNewPostsPoller } from '../stores/feed-store';
+import { savedFeedsStore } from '../stores/saved-feeds-store';
+import { PinFeedButton } from './FeedRow';
+import PostList from './PostList';
+import NewPostsPill from './NewPostsPill';
+
+/**
+ * CustomFeed Component
+ *
+ * Reads the AT URI of the feed generator from the `/feed/:uri` route.
+ */
+const CustomFeed: React.FC = () => {
+  const navigate = useNavigate();
+  const { session } = useSession();
+  const { uri: uriParam } = useParams<{ uri: string }>();
+  const uri = uriParam ? decodeParam(uriParam) : '';
+  const did = session?.did;
+  const [generator, setGenerator] = useState<FeedGenerator | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const store = customFeedStore(did, uri);
+
+  // Fetch the feed's description each time it is opened, showing the saved copy meanwhile
+  useEffect(() => {
+    let cancelled = false;
+    setGenerator((did && savedFeedsStore(did).getState().generators[uri]) || null);
+    setError(null);
+    client
+      .getFeedGenerators([uri])
+      .then(([found]) => {
+        if (cancelled) return;
+        if (found) {
+          setGenerator(found);
+        } else {
+          setError('This feed could not be found. It may have been deleted.');
+        }
+      })
+      .catch(err => {
+        console.error(`Failed to load feed ${uri}:`, err);
+        if (!cancelled) setError(errorMessage(err));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [did, uri]);
+
+  // Look for new posts while the feed is on screen
+  useNewPostsPoller(store);
+
+  return (
+    <div className="min-h-screen px-4">
+      {/* Header with back button */}
+      <div className="flex items-center py-3 px-4 sticky top-0 z-50 bg-white/80 backdrop-blur-md rounded-xl shadow-sm mb-4">
+        <button onClick={() => navigate(-1)} className="icon mr-4" aria-label="Back">
+          <ArrowLeftIcon className="h-5 w-5" />
+        </button>
+        <h2 className="text-xl font-bold truncate">{generator?.display_name ?? 'Feed'}</h2>
+      </div>
+
+      {/* What the feed is */}
+      {generator ? (
+        <div className="tweet-card mb-4">
+          <div className="flex items-start space-x-3">
+            {generator.avatar ? (
+              <img src={generator.avatar} alt="" className="h-16 w-16 rounded-xl flex-shrink-0 object-cover" />
+            ) : (
+              <div className="h-16 w-16 rounded-xl bg-bluesky-500 flex items-center justify-center flex-shrink-0">
+                <RssIcon className="h-8 w-8 text-white" />
+              </div>
+            )}
+            <div className="min-w-0 flex-1">
+              <h3 className="text-lg font-bold truncate">{generator.display_name}</h3>
+              <p className="text-gray-500 text-sm truncate">
+                Feed by{' '}
+                <Link to={profilePath(generator.creator.handle)} className="hover:underline">
+                  @{generator.creator.handle}
+                </Link>
+              </p>
+            </div>
+            <PinFeedButton feed={generator} />
+          </div>
+          {generator.description && <p className="text-gray-700 mt-3 whitespace-pre-wrap">{generator.description}</p>}
+          <p className="text-sm text-gray-500 mt-2">
+            Liked by {generator.like_count} {generator.like_count === 1 ? 'account' : 'accounts'}
+          </p>
+        </div>
+      ) : (
+        error && <p className="px-4 mb-4 text-sm text-red-600">{error}</p>
+      )}
+
+      {/* Posts found since the feed was loaded */}
+      <NewPostsPill store={store} />
+
+      <PostList key={uri} store={store} emptyMessage={<>This feed has no posts yet.</>} />
+    </div>
+  );
+};
+
+export default CustomFeed;
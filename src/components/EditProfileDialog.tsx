@@ -0,0 +1,274 @@
+/**
+ * EditProfileDialog.tsx - Profile Editor
+ *
+ * Edits the signed-in account's display name, bio, avatar and banner, opened
+ * from its profile page. Images are resized and stripped of metadata like
+ * post images (see utils/images) and only uploaded when the profile is saved.
+ *
+ * For Rust Backend Integration:
+ * - New images go through upload_blob, then the profile record is rewritten
+ *   through update_profile, which returns the updated profile
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { CameraIcon, TrashIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import type { Profile } from '../types/models';
+import { client } from '../utils/bluesky-client';
+import { prepareImage } from '../utils/images';
+import { graphemeLength, MAX_DESCRIPTION_GRAPHEMES, MAX_DISPLAY_NAME_GRAPHEMES } from '../utils/rich-text';
+import { errorMessage } from '../utils/errors';
+
+// A new avatar or banner picked in the dialog, or null to remove the current one
+type ImageChoice = { blob: Blob; previewUrl: string } | null;
+
+/**
+ * Graphemes left in a profile field, turning red once the text is too long
+ *
+ * @param text - The text being written
+ * @param max - Longest text allowed, in graphemes
+ */
+const FieldCounter: React.FC<{ text: string; max: number }> = ({ text, max }) => {
+  const remaining = max - graphemeLength(text);
+  return (
+    <span className={`text-xs tabular-nums ${remaining < 0 ? 'text-red-600 font-semibold' : 'text-gray-400'}`}>
+      {remaining}
+    </span>
+  );
+};
+
+/**
+ * EditProfileDialogProps Interface
+ *
+ * @property profile - The profile as it is now
+ * @property onSaved - Called with the updated profile once it is saved
+ * @property onClose - Close the dialog
+ */
+interface EditProfileDialogProps {
+  profile: Profile;
+  onSaved: (profile: Profile) => void;
+  onClose: () => void;
+}
+
+/**
+ * EditProfileDialog Component
+ *
+ * @param profile - The profile as it is now
+ * @param onSaved - Called with the updated profile once it is saved
+ * @param onClose - Close the dialog
+ */
+const EditProfileDialog: React.FC<EditProfileDialogProps> = ({ profile, onSaved, onClose }) => {
+  const [displayName, setDisplayName] = useState(profile.display_name === profile.handle ? '' : profile.display_name);
+  const [description, setDescription] = useState(profile.description ?? '');
+  // Undefined while the current image is kept
+  const [avatar, setAvatar] = useState<ImageChoice | undefined>();
+  const [banner, setBanner] = useState<ImageChoice | undefined>();
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const avatarInput = useRef<HTMLInputElement>(null);
+  const bannerInput = useRef<HTMLInputElement>(null);
+
+  // Release the previews of replaced images, and of the last ones on close
+  useEffect(() => {
+    if (avatar) return () => URL.revokeObjectURL(avatar.previewUrl);
+  }, [avatar]);
+  useEffect(() => {
+    if (banner) return () => URL.revokeObjectURL(banner.previewUrl);
+  }, [banner]);
+
+  // Escape closes the dialog, unless it is saving
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && !isSaving) onClose();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [isSaving, onClose]);
+
+  const isTooLong =
+    graphemeLength(displayName) > MAX_DISPLAY_NAME_GRAPHEMES || graphemeLength(description) > MAX_DESCRIPTION_GRAPHEMES;
+
+  const pickImage = async (e: React.ChangeEvent<HTMLInputElement>, set: (choice: ImageChoice) => void) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setError(null);
+    try {
+      const { blob, previewUrl } = await prepareImage(file);
+      set({ blob, previewUrl });
+    } catch (err) {
+      setError(errorMessage(err));
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isSaving || isTooLong) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      const updated = await client.updateProfile(
+        {
+          display_name: displayName,
+          description,
+          avatar: avatar === undefined ? undefined : avatar?.blob ?? null,
+          banner: banner === undefined ? undefined : banner?.blob ?? null
+        },
+        { as: profile.did }
+      );
+      onSaved(updated);
+    } catch (err) {
+      console.error('Failed to save profile:', err);
+      setError(`Your profile was not saved: ${errorMessage(err)}`);
+      setIsSaving(false);
+    }
+  };
+
+  const avatarUrl = avatar === undefined ? profile.avatar : avatar?.previewUrl;
+  const bannerUrl = banner === undefined ? profile.banner : banner?.previewUrl;
+  const imageButton = 'p-2 rounded-full bg-black/50 hover:bg-black/70 text-white disabled:opacity-50';
+
+  return createPortal(
+    <div
+      className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4"
+      onClick={(e) => {
+        e.stopPropagation();
+        if (e.target === e.currentTarget && !isSaving) onClose();
+      }}
+    >
+      <form
+        onSubmit={handleSubmit}
+        role="dialog"
+        aria-modal="true"
+        aria-label="Edit profile"
+        className="bg-white rounded-2xl w-full max-w-lg overflow-hidden"
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4">
+          <div className="flex items-center space-x-3">
+            <button type="button" onClick={onClose} disabled={isSaving} className="icon" aria-label="Close">
+              <XMarkIcon className="h-5 w-5" />
+            </button>
+            <h3 className="text-xl font-bold">Edit profile</h3>
+          </div>
+          <button
+            type="submit"
+            disabled={isSaving || isTooLong}
+            className="btn-primary px-5 py-2 rounded-full font-bold text-white bg-bluesky-500 hover:bg-bluesky-600 disabled:opacity-50 disabled:cursor-default"
+          >
+            {isSaving ? 'Saving…' : 'Save'}
+          </button>
+        </div>
+
+        {/* Banner */}
+        <div className="relative h-32 bg-gradient-to-r from-bluesky-300 to-bluesky-500">
+          {bannerUrl && <img src={bannerUrl} alt="Banner" className="w-full h-full object-cover" />}
+          <div className="absolute inset-0 flex items-center justify-center space-x-3">
+            <button
+              type="button"
+              onClick={() => bannerInput.current?.click()}
+              disabled={isSaving}
+              className={imageButton}
+              aria-label="Change banner"
+              title="Change banner"
+            >
+              <CameraIcon className="h-5 w-5" />
+            </button>
+            {bannerUrl && (
+              <button
+                type="button"
+                onClick={() => setBanner(null)}
+                disabled={isSaving}
+                className={imageButton}
+                aria-label="Remove banner"
+                title="Remove banner"
+              >
+                <TrashIcon className="h-5 w-5" />
+              </button>
+            )}
+          </div>
+          <input ref={bannerInput} type="file" accept="image/*" className="hidden" onChange={(e) => pickImage(e, setBanner)} />
+        </div>
+
+        <div className="px-6 pb-6">
+          {/* Avatar */}
+          <div className="relative -mt-10 mb-4 h-20 w-20">
+            {avatarUrl ? (
+              <img src={avatarUrl} alt="Avatar" className="h-20 w-20 rounded-full border-4 border-white object-cover bg-white" />
+            ) : (
+              <div className="h-20 w-20 rounded-full border-4 border-white bg-gray-200" />
+            )}
+            <div className="absolute inset-0 flex items-center justify-center space-x-1">
+              <button
+                type="button"
+                onClick={() => avatarInput.current?.click()}
+                disabled={isSaving}
+                className={imageButton}
+                aria-label="Change avatar"
+                title="Change avatar"
+              >
+                <CameraIcon className="h-4 w-4" />
+              </button>
+              {avatarUrl && (
+                <button
+                  type="button"
+                  onClick={() => setAvatar(null)}
+                  disabled={isSaving}
+                  className={imageButton}
+                  aria-label="Remove avatar"
+                  title="Remove avatar"
+                >
+                  <TrashIcon className="h-4 w-4" />
+                </button>
+              )}
+            </div>
+            <input ref={avatarInput} type="file" accept="image/*" className="hidden" onChange={(e) => pickImage(e, setAvatar)} />
+          </div>
+
+          {/* Display name */}
+          <div className="mb-4">
+            <div className="flex items-center justify-between mb-1">
+              <label htmlFor="profile-display-name" className="text-sm font-semibold text-gray-700">
+                Display name
+              </label>
+              <FieldCounter text={displayName} max={MAX_DISPLAY_NAME_GRAPHEMES} />
+            </div>
+            <input
+              id="profile-display-name"
+              type="text"
+              value={displayName}
+              onChange={(e) => setDisplayName(e.target.value)}
+              placeholder={profile.handle}
+              disabled={isSaving}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-bluesky-500"
+            />
+          </div>
+
+          {/* Bio */}
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <label htmlFor="profile-description" className="text-sm font-semibold text-gray-700">
+                Bio
+              </label>
+              <FieldCounter text={description} max={MAX_DESCRIPTION_GRAPHEMES} />
+            </div>
+            <textarea
+              id="profile-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="Tell people about your hobbies"
+              disabled={isSaving}
+              rows={4}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg resize-none focus:outline-none focus:ring-2 focus:ring-bluesky-500"
+            />
+          </div>
+
+          {error && <p className="mt-3 text-sm text-red-600">{error}</p>}
+        </div>
+      </form>
+    </div>,
+    document.body
+  );
+};
+
+export default EditProfileDialog;
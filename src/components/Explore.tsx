@@ -0,0 +1,329 @@
+/**
+ * Explore.tsx - Explore Page Component
+ *
+ * Search for posts, people and feeds. The search is kept in `?q=` and the
+ * tab in `?tab=`, so searches can be linked to, e.g. from a hashtag in a
+ * post, and going back returns to the same results.
+ *
+ * Features:
+ * - Post search with operators (from:, since:, lang:, #tag), summarized
+ *   above the results
+ * - People and feed results, loaded as the user scrolls
+ * - Saving a search, and the saved and recent searches to run again when
+ *   nothing is searched for
+ *
+ * For Rust Backend Integration:
+ * - Results come from search_posts, search_actors and search_feeds
+ * - Feeds found can be pinned (see components/FeedRow)
+ * - Saved and recent searches stay on this machine (see stores/search-store)
+ */
+
+import React, { useEffect } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { BookmarkIcon, ClockIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import type { FeedGenerator, Profile } from '../types/models';
+import { parseSearchQuery, searchTerms, SEARCH_OPERATORS } from '../utils/search';
+import { profilePath, searchPath } from '../utils/routes';
+import { useSession } from '../context/SessionContext';
+import {
+  feedResults,
+  isSavedSearch,
+  peopleResults,
+  postResults,
+  searchHistory,
+  useSearchHistory
+} from '../stores/search-store';
+import { usePaginatedList, type PaginatedList } from '../stores/paginated-list';
+import FeedRow from './FeedRow';
+import ListFooter from './ListFooter';
+import PostList from './PostList';
+import SearchBox from './SearchBox';
+
+type ExploreTab = 'posts' | 'people' | 'feeds';
+
+// Tabs in the order shown
+const TABS: { id: ExploreTab; label: string }[] = [
+  { id: 'posts', label: 'Posts' },
+  { id: 'people', label: 'People' },
+  { id: 'feeds', label: 'Feeds' }
+];
+
+/**
+ * ResultListProps Interface
+ *
+ * @property results - Results to show
+ * @property renderItem - Renders one result
+ * @property itemKey - Identifies a result
+ * @property emptyMessage - Shown when nothing matched
+ */
+interface ResultListProps<T> {
+  results: PaginatedList<T>;
+  renderItem: (item: T) => React.ReactNode;
+  itemKey: (item: T) => string;
+  emptyMessage: React.ReactNode;
+}
+
+/**
+ * ResultList Component
+ *
+ * Account or feed results, with infinite scroll like PostList.
+ */
+const ResultList = <T,>({ results, renderItem, itemKey, emptyMessage }: ResultListProps<T>) => {
+  const { items, loaded, status } = usePaginatedList(results);
+
+  // Load the first page the first time these results are shown
+  useEffect(() => {
+    if (!results.getState().loaded) results.loadMore();
+  }, [results]);
+
+  if (!loaded && status !== 'error') {
+    return (
+      <div className="flex justify-center items-center h-32">
+        <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-bluesky-500"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="pb-20">
+      {loaded && items.length === 0 ? (
+        <div className="text-center py-12 text-gray-500">{emptyMessage}</div>
+      ) : (
+        items.map(item => <React.Fragment key={itemKey(item)}>{renderItem(item)}</React.Fragment>)
+      )}
+
+      <ListFooter list={results} errorFallback="Search failed." />
+    </div>
+  );
+};
+
+/**
+ * PersonRow Component
+ *
+ * An account found by a search, linking to its profile.
+ */
+const PersonRow: React.FC<{ profile: Profile }> = ({ profile }) => (
+  <Link to={profilePath(profile.handle)} className="tweet-card mb-4 flex items-start space-x-3">
+    <img
+      src={profile.avatar || `https://i.pravatar.cc/150?u=${profile.handle}`}
+      alt={profile.handle}
+      className="h-12 w-12 rounded-full flex-shrink-0"
+    />
+    <div className="min-w-0 flex-1">
+      <div className="flex items-center space-x-2">
+        <span className="font-bold truncate">{profile.display_name || profile.handle}</span>
+        {profile.viewer?.followed_by && (
+          <span className="px-2 py-0.5 rounded bg-gray-100 text-xs font-semibold text-gray-600 flex-shrink-0">Follows you</span>
+        )}
+      </div>
+      <p className="text-gray-500 text-sm truncate">@{profile.handle}</p>
+      {profile.description && <p className="text-sm text-gray-700 mt-1 line-clamp-2">{profile.description}</p>}
+    </div>
+    {profile.viewer?.following && <span className="text-sm text-gray-500 flex-shrink-0">Following</span>}
+  </Link>
+);
+
+/**
+ * QuerySummary Component
+ *
+ * What a post search looks for, one chip per operator.
+ */
+const QuerySummary: React.FC<{ query: string }> = ({ query }) => {
+  const { words, tags, from, since, lang } = parseSearchQuery(query);
+  const chips = [
+    ...(words.length > 0 ? [`“${words.join(' ')}”`] : []),
+    ...tags.map(tag => `#${tag}`),
+    ...(from ? [from === 'me' ? 'by you' : `by @${from}`] : []),
+    ...(since ? [`since ${since}`] : []),
+    ...(lang ? [`in ${lang}`] : [])
+  ];
+  if (chips.length < 2 && words.length > 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {chips.map(chip => (
+        <span key={chip} className="px-2 py-0.5 rounded-full bg-bluesky-50 text-bluesky-600 text-xs font-medium">
+          {chip}
+        </span>
+      ))}
+    </div>
+  );
+};
+
+/**
+ * Explore Component
+ */
+const Explore: React.FC = () => {
+  const { session } = useSession();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = (searchParams.get('q') ?? '').trim();
+  const tab = TABS.find(t => t.id === searchParams.get('tab'))?.id ?? 'posts';
+  const history = searchHistory(session?.did);
+  const { recent, saved } = useSearchHistory(session?.did);
+  const isSaved = isSavedSearch(saved, query);
+  const key = query.toLowerCase();
+
+  // Remember each search that is run
+  useEffect(() => {
+    if (query) history.addRecent(query);
+  }, [history, query]);
+
+  const selectTab = (id: ExploreTab) => {
+    const next = new URLSearchParams(searchParams);
+    if (id === 'posts') {
+      next.delete('tab');
+    } else {
+      next.set('tab', id);
+    }
+    setSearchParams(next, { replace: true });
+  };
+
+  // Accounts and feeds are matched on the words of the query, without operators
+  const terms = searchTerms(query);
+
+  return (
+    <div className="min-h-screen px-4">
+      {/* Header with search field and tabs */}
+      <div className="py-3 px-4 sticky top-0 z-50 bg-white/80 backdrop-blur-md rounded-xl shadow-sm mb-4">
+        <h2 className="text-xl sm:text-2xl font-bold mb-3">Explore</h2>
+        <SearchBox key={query} initialQuery={query} autoFocus={!query} />
+
+        {query && (
+          <>
+            <div className="flex items-center justify-between mt-3 gap-2">
+              <QuerySummary query={query} />
+              <button
+                onClick={() => (isSaved ? history.unsave(query) : history.save(query))}
+                className={`ml-auto flex items-center space-x-1 px-3 py-1.5 rounded-full text-sm font-semibold hover:bg-bluesky-50 ${
+                  isSaved ? 'text-bluesky-600' : 'text-gray-600'
+                }`}
+                aria-pressed={isSaved}
+              >
+                <BookmarkIcon className={`h-4 w-4 ${isSaved ? 'fill-current' : ''}`} />
+                <span>{isSaved ? 'Saved' : 'Save search'}</span>
+              </button>
+            </div>
+
+            <div className="flex border-b border-gray-200 mt-3 -mb-3" role="tablist">
+              {TABS.map(({ id, label }) => (
+                <button
+                  key={id}
+                  role="tab"
+                  aria-selected={tab === id}
+                  onClick={() => selectTab(id)}
+                  className={`flex-1 py-2 text-sm sm:text-base border-b-2 transition-colors ${
+                    tab === id
+                      ? 'border-bluesky-500 font-bold text-gray-900'
+                      : 'border-transparent text-gray-500 hover:bg-gray-50'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+
+      {!query ? (
+        <div className="pb-20 space-y-6">
+          {saved.length > 0 && (
+            <section>
+              <h3 className="font-bold text-lg px-2 mb-2">Saved searches</h3>
+              <div className="flex flex-wrap gap-2 px-2">
+                {saved.map(q => (
+                  <span key={q} className="flex items-center rounded-full bg-bluesky-50 text-bluesky-600 text-sm">
+                    <Link to={searchPath(q)} className="flex items-center pl-3 py-1 hover:underline">
+                      <BookmarkIcon className="h-4 w-4 mr-1" />
+                      {q}
+                    </Link>
+                    <button
+                      onClick={() => history.unsave(q)}
+                      className="px-2 py-1 hover:text-bluesky-800"
+                      aria-label={`Remove saved search ${q}`}
+                    >
+                      <XMarkIcon className="h-4 w-4" />
+                    </button>
+                  </span>
+                ))}
+              </div>
+            </section>
+          )}
+
+          {recent.length > 0 && (
+            <section>
+              <div className="flex items-center justify-between px-2 mb-2">
+                <h3 className="font-bold text-lg">Recent searches</h3>
+                <button onClick={() => history.clearRecent()} className="text-sm font-semibold text-bluesky-500 hover:underline">
+                  Clear
+                </button>
+              </div>
+              <ul className="divide-y divide-gray-100">
+                {recent.map(q => (
+                  <li key={q} className="flex items-center justify-between px-2">
+                    <Link to={searchPath(q)} className="flex items-center flex-1 min-w-0 py-2 text-gray-700 hover:text-bluesky-600">
+                      <ClockIcon className="h-5 w-5 mr-3 text-gray-400 flex-shrink-0" />
+                      <span className="truncate">{q}</span>
+                    </Link>
+                    <button
+                      onClick={() => history.removeRecent(q)}
+                      className="icon h-8 w-8 text-gray-400"
+                      aria-label={`Remove recent search ${q}`}
+                    >
+                      <XMarkIcon className="h-4 w-4" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </section>
+          )}
+
+          <section className="px-2">
+            <h3 className="font-bold text-lg mb-2">Search tips</h3>
+            <p className="text-sm text-gray-500 mb-3">Combine words with these to narrow down post results:</p>
+            <dl className="grid grid-cols-[auto,1fr] gap-x-4 gap-y-2 text-sm">
+              {SEARCH_OPERATORS.map(({ syntax, description }) => (
+                <React.Fragment key={syntax}>
+                  <dt className="font-mono text-bluesky-600">{syntax}</dt>
+                  <dd className="text-gray-700">{description}</dd>
+                </React.Fragment>
+              ))}
+            </dl>
+          </section>
+        </div>
+      ) : tab === 'posts' ? (
+        <PostList
+          key={key}
+          store={postResults(session?.did, query)}
+          emptyMessage={<>No posts match “{query}”.</>}
+        />
+      ) : !terms ? (
+        <div className="text-center py-12 text-gray-500">
+          Operators only narrow down posts. Add some words to search for {tab === 'people' ? 'people' : 'feeds'}.
+        </div>
+      ) : tab === 'people' ? (
+        <ResultList<Profile>
+          key={key}
+          results={peopleResults(session?.did, terms)}
+          renderItem={profile => <PersonRow profile={profile} />}
+          itemKey={profile => profile.did}
+          emptyMessage={<>Nobody matches “{terms}”.</>}
+        />
+      ) : (
+        <ResultList<FeedGenerator>
+          key={key}
+          results={feedResults(session?.did, terms)}
+          renderItem={feed => (
+            <div className="tweet-card mb-4">
+              <FeedRow feed={feed} />
+            </div>
+          )}
+          itemKey={feed => feed.uri}
+          emptyMessage={<>No feeds match “{terms}”.</>}
+        />
+      )}
+    </div>
+  );
+};
+
+export default Explore;
@@ -2,106 +2,39 @@
  * Feed.tsx - Main Feed Component
  * 
  * Displays the main feed of Bluesky posts.
- * Allows users to create new posts.
+ * New posts are written in the composer dialog, opened from the top of the
+ * feed or the floating button on mobile.
  * 
  * For Rust Backend Integration:
- * - Fetches posts from the Bluesky API via our Rust backend
- * - Handles post creation through the Rust backend
+ * - Fetches posts page by page from the Bluesky API via our Rust backend
+ * - Polls the first page for new posts and offers to show them
+ * - Each pinned custom feed gets its own tab, synced with the saved feeds
+ *   preference each time the feed is shown (see stores/saved-feeds-store)
+ * - Each followed hobby gets its own tab, assembled from follows, search and custom feeds
  */
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { SparklesIcon } from '@heroicons/react/24/outline';
-import Post from './Post';
+import PostList from './PostList';
+import NewPostsPill from './NewPostsPill';
+import FeedPicker from './FeedPicker';
+import { useSession } from '../context/SessionContext';
+import { customFeedStore, homeFeedStore, useNewPostsPoller } from '../stores/feed-store';
+import { hobbyFeedStore } from '../stores/hobby-feed';
+import { useHobbies } from '../stores/hobby-store';
+import { pinnedFeedGenerators, savedFeedsStore, useSavedFeeds } from '../stores/saved-feeds-store';
+import { openComposer } from '../stores/composer-store';
 
 /**
- * Author Interface
+ * PostLauncher Component
  * 
- * Defines the structure for user profile data.
- * 
- * @property did - Decentralized identifier for the user
- * @property handle - User's handle (username)
- * @property display_name - Display name of the user
- * @property avatar - URL to the profile image
- */
-interface Author {
-  did: string;
-  handle: string;
-  display_name: string;
-  avatar?: string;
-}
-
-/**
- * PostData Interface
- * 
- * Defines the structure for post objects.
- * 
- * @property id - URI identifier for the post
- * @property author - Author information
- * @property text - The content of the post
- * @property created_at - When the post was created (as a formatted string)
- * @property images - Optional array of image URLs attached to the post
- * @property likes_count - Number of likes on the post
- * @property reposts_count - Number of reposts of the post
- * @property replies_count - Number of replies to the post
- */
-interface PostData {
-  id: string;
-  author: Author;
-  text: string;
-  created_at: string;
-  images?: string[];
-  likes_count: number;
-  reposts_count: number;
-  replies_count: number;
-}
-
-/**
- * PostInput Interface
- * 
- * Props for the PostInput component.
- * 
- * @property addPost - Function to call when a new post is submitted
- * @property session - User session data for authentication
- */
-interface PostInputProps {
-  addPost: (text: string) => void;
-  session: string | null;
-}
-
-/**
- * PostInput Component
- * 
- * Allows users to compose and submit new posts.
- * Contains a textarea and submit button with attachment options.
- * 
- * For Rust Backend Integration:
- * - Would include file upload functionality
- * - Could include mentions, hashtags, and other rich text features
- * - Would submit the post to the Bluesky API
- * 
- * @param addPost - Function to call when the post is submitted
- * @param session - User session data for authentication
+ * Collapsed composer at the top of the feed. Clicking it opens the composer
+ * dialog (see Composer.tsx), where the post is written.
+ * Signed-out users are asked to sign in instead.
  */
-const PostInput: React.FC<PostInputProps> = ({ addPost, session }) => {
-  // State for the post input field
-  const [input, setInput] = useState('');
-
-  /**
-   * Handle post submission
-   * 
-   * Prevents the default form submission behavior,
-   * calls the addPost function with the input text if not empty,
-   * and resets the input field.
-   * 
-   * @param e - The form submission event
-   */
-  const handleSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
-    if (input.trim()) {
-      addPost(input);
-      setInput('');
-    }
-  };
+const PostLauncher: React.FC = () => {
+  const { session, profiles } = useSession();
 
   if (!session) {
     return (
@@ -116,115 +49,160 @@ const PostInput: React.FC<PostInputProps> = ({ addPost, session }) => {
 
   return (
     <div className="bg-white rounded-xl shadow-md p-4 mb-6 transition-shadow duration-300 hover:shadow-lg">
-      <div className="flex space-x-4">
-        {/* User profile picture */}
+      <div className="flex items-center space-x-4">
+        {/* Profile picture of the active account */}
         <img 
-          src="https://i.pravatar.cc/150?img=3" 
+          src={profiles[session.did]?.avatar || `https://i.pravatar.cc/150?u=${session.handle}`} 
           alt="User avatar" 
-          className="h-12 w-12 rounded-full cursor-pointer border-2 border-white shadow-sm"
+          className="h-12 w-12 rounded-full border-2 border-white shadow-sm"
         />
-        <div className="w-full">
-          {/* Post text input area */}
-          <div className="mb-3">
-            <textarea
-              value={input}
-              onChange={(e) => setInput(e.target.value)}
-              placeholder="What's on your mind?"
-              rows={2}
-              className="bg-transparent outline-none text-gray-900 text-lg placeholder-gray-500 tracking-wide w-full min-h-[60px] focus:ring-0 border-0"
-            />
-          </div>
-          <div className="flex items-center justify-between pt-2 border-t border-gray-100">
-            {/* Media attachment buttons */}
-            <div className="flex items-center space-x-2">
-              {/* Image attachment button */}
-              <button className="icon bg-white">
-                <svg className="w-5 h-5 text-bluesky-500" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14" />
-                </svg>
-              </button>
-              {/* Emoji button */}
-              <button className="icon bg-white rotate-90">
-                <svg className="w-5 h-5 text-bluesky-500" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M14.828 14.828a4 4 0 01-5.656 0M9 10h.01M15 10h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
-                </svg>
-              </button>
-            </div>
-            {/* Post submit button */}
-            <button
-              onClick={handleSubmit}
-              disabled={!input.trim()}
-              className="btn-primary px-5 py-2 rounded-full font-bold text-white shadow-md hover:shadow-lg transition-all disabled:opacity-50 disabled:cursor-default bg-bluesky-500 hover:bg-bluesky-600"
-            >
-              Post
-            </button>
-          </div>
-        </div>
+        <button
+          onClick={() => openComposer()}
+          className="flex-1 text-left text-lg text-gray-500 tracking-wide py-2 hover:text-gray-700"
+        >
+          What's on your mind?
+        </button>
+        <button
+          onClick={() => openComposer()}
+          className="btn-primary px-5 py-2 rounded-full font-bold text-white shadow-md hover:shadow-lg transition-all bg-bluesky-500 hover:bg-bluesky-600"
+        >
+          Post
+        </button>
       </div>
     </div>
   );
 };
 
-/**
- * FeedProps Interface
- * 
- * Props for the Feed component.
- * 
- * @property posts - Array of post data objects to display
- * @property addPost - Function to call when a new post is created
- * @property session - User session data for authentication
- */
-interface FeedProps {
-  posts: PostData[];
-  addPost: (text: string) => void;
-  session: string | null;
-}
-
 /**
  * Feed Component
  * 
- * Displays the main timeline of posts with a composition area at the top.
- * 
- * For Rust Backend Integration:
- * - Would fetch posts from the Bluesky API
- * - Would include pagination or infinite scrolling
- * - Could implement real-time updates via polling
- * 
- * @param posts - Array of post data to display
- * @param addPost - Function to call when a new post is created
- * @param session - User session data for authentication
+ * Displays the main timeline of posts with a collapsed composer at the top.
+ * The timeline is cursor-paginated and kept per account in a feed store,
+ * so it is not refetched when navigating away and back.
+ * Newer posts are polled for in the background and announced with a pill
+ * that inserts them on click. Tabs next to "Home" show each pinned custom
+ * feed, then the feed of each followed hobby; the selected tab is kept in the
+ * `?feed=` query parameter, as the feed's URI or the hobby's id.
  */
-const Feed: React.FC<FeedProps> = ({ posts, addPost, session }) => {
+const Feed: React.FC = () => {
+  const { session } = useSession();
+  const { hobbies } = useHobbies(session?.did);
+  const savedFeeds = session ? savedFeedsStore(session.did) : null;
+  const pinnedFeeds = pinnedFeedGenerators(useSavedFeeds(savedFeeds));
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [isPickerOpen, setIsPickerOpen] = useState(false);
+
+  // Custom feed or hobby whose feed is shown; neither for the home timeline
+  const selectedId = searchParams.get('feed');
+  const pinnedFeed = pinnedFeeds.find(f => f.uri === selectedId);
+  const hobby = pinnedFeed ? undefined : hobbies.find(h => h.id === selectedId);
+  const store = pinnedFeed
+    ? customFeedStore(session?.did, pinnedFeed.uri)
+    : hobby
+      ? hobbyFeedStore(session?.did, hobby)
+      : homeFeedStore(session?.did);
+
+  const selectFeed = (id: string | null) => {
+    setSearchParams(id ? { feed: id } : {});
+  };
+
+  // Pick up feeds pinned or unpinned elsewhere, e.g. in the official app
+  useEffect(() => {
+    savedFeeds?.load();
+  }, [savedFeeds]);
+
+  // Look for new posts while the feed is on screen
+  useNewPostsPoller(store);
+
   return (
     <div className="min-h-screen px-4">
-      {/* Header with title and options button */}
+      {/* Header with feed tabs and the feed picker */}
       <div className="flex items-center justify-between py-3 px-4 sticky top-0 z-50 bg-white/80 backdrop-blur-md rounded-xl shadow-sm mb-4">
-        <h2 className="text-xl sm:text-2xl font-bold">Home</h2>
-        <div className="floating-icon bg-white cursor-pointer">
-          <SparklesIcon className="h-5 w-5 text-bluesky-500" />
+        <div className="flex items-center space-x-4 overflow-x-auto min-w-0 mr-3">
+          <button
+            onClick={() => selectFeed(null)}
+            className={`text-xl sm:text-2xl whitespace-nowrap ${
+              pinnedFeed || hobby ? 'text-gray-400 hover:text-gray-600' : 'font-bold'
+            }`}
+          >
+            Home
+          </button>
+          {pinnedFeeds.map(f => (
+            <button
+              key={f.uri}
+              onClick={() => selectFeed(f.uri)}
+              className={`text-base sm:text-lg whitespace-nowrap ${
+                pinnedFeed?.uri === f.uri ? 'font-bold text-bluesky-600' : 'text-gray-400 hover:text-gray-600'
+              }`}
+            >
+              {f.display_name}
+            </button>
+          ))}
+          {hobbies.map(h => (
+            <button
+              key={h.id}
+              onClick={() => selectFeed(h.id)}
+              className={`text-base sm:text-lg whitespace-nowrap ${
+                hobby?.id === h.id ? 'font-bold text-bluesky-600' : 'text-gray-400 hover:text-gray-600'
+              }`}
+            >
+              {h.emoji && <span className="mr-1">{h.emoji}</span>}
+              {h.name}
+            </button>
+          ))}
+        </div>
+        <div className="relative flex-shrink-0">
+          <button
+            className="floating-icon bg-white cursor-pointer"
+            onClick={() => setIsPickerOpen(!isPickerOpen)}
+            aria-label="Choose feed"
+          >
+            <SparklesIcon className="h-5 w-5 text-bluesky-500" />
+          </button>
+          {isPickerOpen && (
+            <FeedPicker
+              feeds={pinnedFeeds}
+              hobbies={hobbies}
+              selectedId={pinnedFeed?.uri ?? hobby?.id ?? null}
+              onSelect={selectFeed}
+              onClose={() => setIsPickerOpen(false)}
+            />
+          )}
         </div>
       </div>
 
-      {/* Post composition area */}
-      <PostInput addPost={addPost} session={session} />
+      {/* Posts found since the feed was loaded */}
+      <NewPostsPill store={store} />
+
+      {/* Opens the composer */}
+      <PostLauncher />
       
-      {/* Posts list */}
-      <div className="pb-20">
-        {posts.length === 0 ? (
-          <div className="text-center py-12 text-gray-500">
-            No posts in your timeline yet. 
-            {session ? "Follow some users to see their posts here!" : "Sign in to see posts from people you follow."}
-          </div>
-        ) : (
-          posts.map(post => (
-            <Post key={post.id} post={post} session={session} />
-          ))
-        )}
-      </div>
+      {/* Posts list, remounted per feed so each keeps its own scroll position */}
+      <PostList
+        key={pinnedFeed?.uri ?? hobby?.id ?? 'home'}
+        store={store}
+        emptyMessage={
+          pinnedFeed ? (
+            <>{pinnedFeed.display_name} has no posts yet.</>
+          ) : hobby ? (
+            <>No {hobby.name.toLowerCase()} posts found yet. Add keywords or hashtags to the hobby to find more.</>
+          ) : (
+            <>
+              No posts in your timeline yet. 
+              {session ? "Follow some users to see their posts here!" : "Sign in to see posts from people you follow."}
+            </>
+          )
+        }
+      />
       
       {/* Floating action button for mobile */}
       <div className="fixed right-6 bottom-6 md:hidden">
-        <button className="bg-bluesky-500 text-white rounded-full w-14 h-14 flex items-center justify-center shadow-lg hover:shadow-xl transition-all duration-200">
+        <button
+          onClick={() => openComposer()}
+          disabled={!session}
+          aria-label="New post"
+          className="bg-bluesky-500 text-white rounded-full w-14 h-14 flex items-center justify-center shadow-lg hover:shadow-xl transition-all duration-200 disabled:opacity-50"
+        >
           <svg className="w-6 h-6" fill="currentColor" viewBox="0 0 24 24">
             <path d="M21 11h-8V3h-2v8H3v2h8v8h2v-8h8z"></path>
           </svg>
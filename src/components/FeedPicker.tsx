@@ -0,0 +1,116 @@
+/**
+ * FeedPicker.tsx - Feed Picker Menu
+ *
+ * Dropdown opened from the Feed header to switch between the home timeline,
+ * the pinned custom feeds and the feeds of the hobbies the user follows, or
+ * to manage those hobbies and find more feeds.
+ */
+
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { CheckIcon, HomeIcon, PuzzlePieceIcon, RssIcon } from '@heroicons/react/24/outline';
+import type { FeedGenerator, Hobby } from '../types/models';
+
+/**
+ * FeedPickerProps Interface
+ *
+ * @property feeds - Pinned custom feeds
+ * @property hobbies - Followed hobbies, each with its own feed
+ * @property selectedId - URI of the custom feed or id of the hobby being shown, or null for the home timeline
+ * @property onSelect - Called with a feed URI, a hobby id, or null for the home timeline
+ * @property onClose - Called when the menu should close
+ */
+interface FeedPickerProps {
+  feeds: FeedGenerator[];
+  hobbies: Hobby[];
+  selectedId: string | null;
+  onSelect: (hobbyId: string | null) => void;
+  onClose: () => void;
+}
+
+/**
+ * FeedPicker Component
+ *
+ * @param feeds - Pinned custom feeds
+ * @param hobbies - Followed hobbies, each with its own feed
+ * @param selectedId - URI of the custom feed or id of the hobby being shown, or null for the home timeline
+ * @param onSelect - Called with a feed URI, a hobby id, or null for the home timeline
+ * @param onClose - Called when the menu should close
+ */
+const FeedPicker: React.FC<FeedPickerProps> = ({ feeds, hobbies, selectedId, onSelect, onClose }) => {
+  const select = (id: string | null) => {
+    onSelect(id);
+    onClose();
+  };
+
+  return (
+    <>
+      {/* Invisible backdrop closing the menu on outside clicks */}
+      <div className="fixed inset-0 z-40" onClick={onClose} />
+
+      <div className="absolute right-0 top-full mt-2 w-64 bg-white rounded-2xl shadow-lg border border-gray-100 py-2 z-50">
+        <p className="px-4 py-1 text-xs font-bold uppercase tracking-wide text-gray-400">Feeds</p>
+
+        <button
+          onClick={() => select(null)}
+          className="w-full flex items-center justify-between px-4 py-2 hover:bg-gray-50 text-left"
+        >
+          <span className="flex items-center space-x-2">
+            <HomeIcon className="h-5 w-5 text-gray-500" />
+            <span>Home</span>
+          </span>
+          {selectedId === null && <CheckIcon className="h-5 w-5 text-bluesky-500" />}
+        </button>
+
+        {feeds.map(feed => (
+          <button
+            key={feed.uri}
+            onClick={() => select(feed.uri)}
+            className="w-full flex items-center justify-between px-4 py-2 hover:bg-gray-50 text-left"
+          >
+            <span className="flex items-center space-x-2 min-w-0">
+              <RssIcon className="h-5 w-5 text-gray-500 flex-shrink-0" />
+              <span className="truncate">{feed.display_name}</span>
+            </span>
+            {selectedId === feed.uri && <CheckIcon className="h-5 w-5 text-bluesky-500 flex-shrink-0" />}
+          </button>
+        ))}
+
+        {hobbies.map(hobby => (
+          <button
+            key={hobby.id}
+            onClick={() => select(hobby.id)}
+            className="w-full flex items-center justify-between px-4 py-2 hover:bg-gray-50 text-left"
+          >
+            <span className="flex items-center space-x-2 min-w-0">
+              <span className="w-5 text-center">{hobby.emoji ?? '•'}</span>
+              <span className="truncate">{hobby.name}</span>
+            </span>
+            {selectedId === hobby.id && <CheckIcon className="h-5 w-5 text-bluesky-500 flex-shrink-0" />}
+          </button>
+        ))}
+
+        <div className="border-t border-gray-100 my-2"></div>
+
+        <Link
+          to="/hobbies"
+          onClick={onClose}
+          className="w-full flex items-center space-x-2 px-4 py-2 hover:bg-gray-50 text-sm text-bluesky-600"
+        >
+          <PuzzlePieceIcon className="h-5 w-5" />
+          <span>{hobbies.length > 0 ? 'Manage hobbies' : 'Pick hobbies to get their feeds'}</span>
+        </Link>
+        <Link
+          to="/feeds"
+          onClick={onClose}
+          className="w-full flex items-center space-x-2 px-4 py-2 hover:bg-gray-50 text-sm text-bluesky-600"
+        >
+          <RssIcon className="h-5 w-5" />
+          <span>{feeds.length > 0 ? 'Manage feeds' : 'Discover feeds to pin'}</span>
+        </Link>
+      </div>
+    </>
+  );
+};
+
+export default FeedPicker;
@@ -0,0 +1,137 @@
+/**
+ * FeedRow.tsx - Feed Generator Row Component
+ *
+ * A custom feed as listed in search results, suggestions and the widgets
+ * column: its avatar, name, creator, description and likes, with a button to
+ * pin or unpin it while signed in. The name opens the feed.
+ *
+ * For Rust Backend Integration:
+ * - Pinning writes the saved feeds preference with put_saved_feeds (see
+ *   stores/saved-feeds-store)
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { CheckIcon, PlusIcon, RssIcon } from '@heroicons/react/24/outline';
+import type { FeedGenerator } from '../types/models';
+import { feedPath, profilePath } from '../utils/routes';
+import { errorMessage } from '../utils/errors';
+import { useSession } from '../context/SessionContext';
+import { isPinnedFeed, savedFeedsStore, useSavedFeeds } from '../stores/saved-feeds-store';
+
+/**
+ * PinFeedButtonProps Interface
+ *
+ * @property feed - The feed generator
+ * @property compact - Show an icon only
+ */
+interface PinFeedButtonProps {
+  feed: FeedGenerator;
+  compact?: boolean;
+}
+
+/**
+ * PinFeedButton Component
+ *
+ * Pins or unpins a feed for the signed-in account; renders nothing signed out.
+ *
+ * @param feed - The feed generator
+ * @param compact - Show an icon only
+ */
+export const PinFeedButton: React.FC<PinFeedButtonProps> = ({ feed, compact = false }) => {
+  const { session } = useSession();
+  const [error, setError] = useState<string | null>(null);
+  const store = session ? savedFeedsStore(session.did) : null;
+  const { feeds, loaded, pending } = useSavedFeeds(store);
+
+  // Read the account's pinned feeds the first time a pin button shows
+  useEffect(() => {
+    if (store && !store.getState().loaded) store.load();
+  }, [store]);
+
+  if (!store) return null;
+
+  const isPinned = isPinnedFeed(feeds, feed.uri);
+
+  const togglePin = async () => {
+    setError(null);
+    try {
+      await store.togglePin(feed);
+    } catch (err) {
+      console.error('Failed to change pinned feeds:', err);
+      setError(errorMessage(err));
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-end flex-shrink-0">
+      <button
+        onClick={togglePin}
+        disabled={!loaded || pending.includes(feed.uri)}
+        aria-pressed={isPinned}
+        title={isPinned ? 'Unpin feed' : 'Pin feed'}
+        className={`flex items-center rounded-full font-semibold disabled:opacity-60 ${
+          compact ? 'p-1.5' : 'px-3 py-1.5 text-sm space-x-1'
+        } ${isPinned ? 'bg-bluesky-500 text-white' : 'bg-bluesky-50 text-bluesky-600 hover:bg-bluesky-100'}`}
+      >
+        {isPinned ? <CheckIcon className="h-4 w-4" /> : <PlusIcon className="h-4 w-4" />}
+        {!compact && <span>{isPinned ? 'Pinned' : 'Pin'}</span>}
+      </button>
+      {error && <p className="text-xs text-red-600 mt-1 max-w-[10rem] text-right">{error}</p>}
+    </div>
+  );
+};
+
+/**
+ * FeedRowProps Interface
+ *
+ * @property feed - The feed generator
+ * @property compact - Smaller layout for the widgets column, without the like count
+ */
+interface FeedRowProps {
+  feed: FeedGenerator;
+  compact?: boolean;
+}
+
+/**
+ * FeedRow Component
+ *
+ * @param feed - The feed generator
+ * @param compact - Smaller layout for the widgets column, without the like count
+ */
+const FeedRow: React.FC<FeedRowProps> = ({ feed, compact = false }) => (
+  <div className="flex items-start space-x-3">
+    {feed.avatar ? (
+      <img
+        src={feed.avatar}
+        alt=""
+        className={`${compact ? 'h-10 w-10' : 'h-12 w-12'} rounded-xl flex-shrink-0 object-cover`}
+      />
+    ) : (
+      <div
+        className={`${compact ? 'h-10 w-10' : 'h-12 w-12'} rounded-xl bg-bluesky-500 flex items-center justify-center flex-shrink-0`}
+      >
+        <RssIcon className="h-6 w-6 text-white" />
+      </div>
+    )}
+    <div className="min-w-0 flex-1">
+      <Link to={feedPath(feed.uri)} className="block font-bold truncate hover:underline">
+        {feed.display_name}
+      </Link>
+      <p className="text-gray-500 text-sm truncate">
+        Feed by <Link to={profilePath(feed.creator.handle)} className="hover:underline">@{feed.creator.handle}</Link>
+      </p>
+      {feed.description && (
+        <p className={`text-sm text-gray-700 mt-1 ${compact ? 'line-clamp-2' : ''}`}>{feed.description}</p>
+      )}
+      {!compact && (
+        <p className="text-xs text-gray-500 mt-1">
+          Liked by {feed.like_count} {feed.like_count === 1 ? 'account' : 'accounts'}
+        </p>
+      )}
+    </div>
+    <PinFeedButton feed={feed} compact={compact} />
+  </div>
+);
+
+export default FeedRow;
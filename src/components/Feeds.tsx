@@ -0,0 +1,112 @@
+/**
+ * Feeds.tsx - Feeds Page Component
+ *
+ * The feeds the user pinned, then custom feeds to discover, also opened
+ * from "Show more" under the trending feeds widget. Feeds about the user's
+ * hobbies come first on each page of suggestions. Any feed can be opened,
+ * pinned or unpinned.
+ *
+ * For Rust Backend Integration:
+ * - Pinned feeds come from the saved feeds preference (see stores/saved-feeds-store)
+ * - Suggestions come from get_suggested_feeds (see stores/suggestion-store)
+ * - Pinning writes the saved feeds preference (see components/FeedRow)
+ */
+
+import React, { useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeftIcon } from '@heroicons/react/24/outline';
+import { useSession } from '../context/SessionContext';
+import { pinnedFeedGenerators, savedFeedsStore, useSavedFeeds } from '../stores/saved-feeds-store';
+import { suggestedFeeds } from '../stores/suggestion-store';
+import { usePaginatedList } from '../stores/paginated-list';
+import FeedRow from './FeedRow';
+import ListFooter from './ListFooter';
+
+/**
+ * Feeds Component
+ */
+const Feeds: React.FC = () => {
+  const navigate = useNavigate();
+  const { session } = useSession();
+  const list = suggestedFeeds(session?.did);
+  const { items, loaded, status } = usePaginatedList(list);
+  const savedFeeds = session ? savedFeedsStore(session.did) : null;
+  const saved = useSavedFeeds(savedFeeds);
+  const pinnedFeeds = pinnedFeedGenerators(saved);
+
+  // Load the suggestions, unless they were loaded recently
+  useEffect(() => {
+    list.load();
+  }, [list]);
+
+  // Read the pinned feeds again, in case they changed elsewhere
+  useEffect(() => {
+    savedFeeds?.load();
+  }, [savedFeeds]);
+
+  return (
+    <div className="min-h-screen px-4">
+      {/* Header with back button */}
+      <div className="flex items-center py-3 px-4 sticky top-0 z-50 bg-white/80 backdrop-blur-md rounded-xl shadow-sm mb-4">
+        <button onClick={() => navigate(-1)} className="icon mr-4" aria-label="Back">
+          <ArrowLeftIcon className="h-5 w-5" />
+        </button>
+        <h2 className="text-xl font-bold">Feeds</h2>
+      </div>
+
+      {/* Pinned feeds, shown as tabs on the home feed */}
+      {savedFeeds && (
+        <section className="mb-6">
+          <h3 className="font-bold text-lg px-2 mb-2">My feeds</h3>
+          {!saved.loaded && saved.status !== 'error' ? (
+            <div className="flex justify-center py-6">
+              <div className="animate-spin rounded-full h-6 w-6 border-t-2 border-b-2 border-bluesky-500"></div>
+            </div>
+          ) : saved.status === 'error' && !saved.loaded ? (
+            <div className="px-2 text-sm">
+              <p className="text-red-600 mb-2">{saved.error ?? 'Failed to load your feeds.'}</p>
+              <button onClick={() => savedFeeds.load()} className="font-semibold text-bluesky-500 hover:underline">
+                Try again
+              </button>
+            </div>
+          ) : pinnedFeeds.length === 0 ? (
+            <p className="px-2 text-sm text-gray-500">Pin feeds below to show them as tabs on your home feed.</p>
+          ) : (
+            pinnedFeeds.map(feed => (
+              <div key={feed.uri} className="tweet-card mb-4">
+                <FeedRow feed={feed} />
+              </div>
+            ))
+          )}
+        </section>
+      )}
+
+      <h3 className="font-bold text-lg px-2 mb-2">Discover feeds</h3>
+
+      {!loaded && status !== 'error' ? (
+        <div className="flex justify-center items-center h-32">
+          <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-bluesky-500"></div>
+        </div>
+      ) : (
+        <div className="pb-20">
+          {loaded && items.length === 0 && (
+            <div className="text-center py-12 text-gray-500">No feeds to suggest right now.</div>
+          )}
+          {items.map(feed => (
+            <div key={feed.uri} className="tweet-card mb-4">
+              <FeedRow feed={feed} />
+            </div>
+          ))}
+
+          <ListFooter
+            list={list}
+            errorFallback="Failed to load feeds."
+            onRetry={() => (loaded ? list.loadMore() : list.load())}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Feeds;
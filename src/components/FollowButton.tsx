@@ -0,0 +1,84 @@
+/**
+ * FollowButton.tsx - Follow Button Component
+ *
+ * Follows or unfollows an account listed outside its profile page, e.g. a
+ * suggested account. The follow state is shared with the profile page of the
+ * same account (see stores/profile-store), so following here shows there.
+ *
+ * For Rust Backend Integration:
+ * - Calls follow_actor and unfollow_actor
+ */
+
+import React, { useEffect, useState } from 'react';
+import type { Profile } from '../types/models';
+import { errorMessage } from '../utils/errors';
+import { useSession } from '../context/SessionContext';
+import { profileStore, useProfile } from '../stores/profile-store';
+
+/**
+ * FollowButtonProps Interface
+ *
+ * @property profile - The account, as listed
+ * @property size - Smaller button for the widgets column
+ */
+interface FollowButtonProps {
+  profile: Profile;
+  size?: 'sm' | 'md';
+}
+
+/**
+ * FollowButton Component
+ *
+ * Renders nothing while signed out or for the signed-in account itself.
+ *
+ * @param profile - The account, as listed
+ * @param size - Smaller button for the widgets column
+ */
+const FollowButton: React.FC<FollowButtonProps> = ({ profile, size = 'md' }) => {
+  const { session } = useSession();
+  const [error, setError] = useState<string | null>(null);
+  const store = session ? profileStore(session.did, profile.handle) : null;
+  const { profile: shown, isFollowPending } = useProfile(store);
+
+  // Hand the listed profile to a store that has none yet, so it can be followed
+  useEffect(() => {
+    if (store && !store.getState().profile) store.setProfile(profile);
+  }, [store, profile]);
+
+  if (!session || !store || profile.did === session.did) return null;
+
+  const isFollowing = !!(shown ?? profile).viewer?.following;
+
+  const toggleFollow = async (e: React.MouseEvent) => {
+    // Rows around the button may link to the profile
+    e.preventDefault();
+    e.stopPropagation();
+    setError(null);
+    try {
+      await store.toggleFollow();
+    } catch (err) {
+      console.error('Failed to change follow:', err);
+      setError(errorMessage(err));
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-end flex-shrink-0">
+      <button
+        onClick={toggleFollow}
+        disabled={isFollowPending}
+        title={isFollowing ? `Unfollow @${profile.handle}` : `Follow @${profile.handle}`}
+        className={`rounded-full font-bold disabled:opacity-60 ${size === 'sm' ? 'text-sm py-1.5 px-4' : 'px-4 py-1.5'} ${
+          isFollowing
+            ? 'border border-gray-300 hover:bg-red-50 hover:text-red-600 hover:border-red-200'
+            : 'text-white bg-bluesky-500 hover:bg-bluesky-600'
+        }`}
+      >
+        {isFollowing ? 'Following' : 'Follow'}
+      </button>
+      {error && <p className="text-xs text-red-600 mt-1 max-w-[10rem] text-right">{error}</p>}
+    </div>
+  );
+};
+
+export default FollowButton;
@@ -0,0 +1,211 @@
+/**
+ * Hobbies.tsx - Hobby Picker Page
+ *
+ * Lets the user choose the hobbies they follow from the catalog or define
+ * their own with keywords, hashtags and custom feeds. Followed hobbies are
+ * used to tag posts with hobby chips.
+ *
+ * For Rust Backend Integration:
+ * - The selection is saved locally and written to the account's
+ *   `app.hobbysky.actor.hobbies` record through the backend
+ */
+
+import React, { useState } from 'react';
+import { ArrowPathIcon, CheckIcon, PlusIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { useSession } from '../context/SessionContext';
+import { useHobbies } from '../stores/hobby-store';
+import { createCustomHobby, HOBBY_CATALOG } from '../utils/hobbies';
+
+// Empty state of the custom hobby form
+const EMPTY_FORM = { name: '', emoji: '', keywords: '', hashtags: '', feeds: '' };
+
+/**
+ * Hobbies Component
+ *
+ * Catalog of hobbies to follow, the user's own hobbies and a form to add one.
+ */
+const Hobbies: React.FC = () => {
+  const { session } = useSession();
+  const { hobbies, status, error, toggleHobby, setHobbies, sync } = useHobbies(session?.did);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const followed = new Set(hobbies.map(hobby => hobby.id));
+  const customHobbies = hobbies.filter(hobby => !HOBBY_CATALOG.some(entry => entry.id === hobby.id));
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setForm(prev => ({ ...prev, [name]: value }));
+  };
+
+  /**
+   * Add a custom hobby from the form
+   *
+   * A hobby needs a name and at least one keyword or hashtag to match posts.
+   *
+   * @param e - The form submission event
+   */
+  const handleAddCustom = (e: React.FormEvent) => {
+    e.preventDefault();
+    const hobby = createCustomHobby(form.name, form.keywords, form.hashtags, form.feeds, form.emoji);
+    if (!hobby.name) {
+      setFormError('Give your hobby a name.');
+      return;
+    }
+    if (hobby.keywords.length === 0 && hobby.hashtags.length === 0) {
+      setFormError('Add at least one keyword or hashtag so posts can be matched.');
+      return;
+    }
+    if (followed.has(hobby.id)) {
+      setFormError(`You already follow ${hobby.name}.`);
+      return;
+    }
+    setFormError(null);
+    setHobbies([...hobbies, hobby]);
+    setForm(EMPTY_FORM);
+  };
+
+  const statusText = !session
+    ? 'Sign in to save your hobbies to your Bluesky account.'
+    : status === 'syncing'
+      ? 'Saving…'
+      : status === 'error'
+        ? `Not saved to your account: ${error}`
+        : status === 'synced'
+          ? 'Saved to your account'
+          : null;
+
+  return (
+    <div className="min-h-screen px-4">
+      {/* Header */}
+      <div className="flex items-center justify-between py-3 px-4 sticky top-0 z-50 bg-white/80 backdrop-blur-md rounded-xl shadow-sm mb-4">
+        <h2 className="text-xl sm:text-2xl font-bold">Hobbies</h2>
+        {session && status === 'error' && (
+          <button onClick={() => sync()} className="floating-icon bg-white" title="Try again">
+            <ArrowPathIcon className="h-5 w-5 text-bluesky-500" />
+          </button>
+        )}
+      </div>
+
+      {statusText && (
+        <p className={`text-sm mb-4 px-1 ${status === 'error' ? 'text-red-600' : 'text-gray-500'}`}>{statusText}</p>
+      )}
+
+      {/* Catalog */}
+      <section className="mb-8">
+        <h3 className="font-bold text-lg mb-3">Pick your hobbies</h3>
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+          {HOBBY_CATALOG.map(hobby => {
+            const isFollowed = followed.has(hobby.id);
+            return (
+              <button
+                key={hobby.id}
+                onClick={() => toggleHobby(hobby)}
+                className={`flex items-center justify-between px-4 py-3 rounded-xl border transition-colors ${
+                  isFollowed
+                    ? 'border-bluesky-500 bg-bluesky-50 text-bluesky-600'
+                    : 'border-gray-200 bg-white text-gray-700 hover:bg-gray-50'
+                }`}
+                aria-pressed={isFollowed}
+              >
+                <span className="flex items-center space-x-2">
+                  {hobby.emoji && <span className="text-xl">{hobby.emoji}</span>}
+                  <span className="font-medium">{hobby.name}</span>
+                </span>
+                {isFollowed && <CheckIcon className="h-5 w-5" />}
+              </button>
+            );
+          })}
+        </div>
+      </section>
+
+      {/* Custom hobbies */}
+      <section className="mb-8">
+        <h3 className="font-bold text-lg mb-3">Your own hobbies</h3>
+        {customHobbies.length === 0 ? (
+          <p className="text-gray-500 text-sm mb-4">Can't find yours? Create it below.</p>
+        ) : (
+          <ul className="space-y-2 mb-4">
+            {customHobbies.map(hobby => (
+              <li key={hobby.id} className="flex items-start justify-between px-4 py-3 rounded-xl border border-gray-200">
+                <div>
+                  <p className="font-medium">
+                    {hobby.emoji && <span className="mr-2">{hobby.emoji}</span>}
+                    {hobby.name}
+                  </p>
+                  <p className="text-sm text-gray-500">
+                    {[...hobby.keywords, ...hobby.hashtags.map(tag => `#${tag}`)].join(', ')}
+                  </p>
+                  {hobby.feeds.length > 0 && (
+                    <p className="text-xs text-gray-400 mt-1">
+                      {hobby.feeds.length} custom {hobby.feeds.length === 1 ? 'feed' : 'feeds'}
+                    </p>
+                  )}
+                </div>
+                <button
+                  onClick={() => toggleHobby(hobby)}
+                  className="icon bg-white hover:bg-gray-100"
+                  title={`Remove ${hobby.name}`}
+                >
+                  <XMarkIcon className="h-5 w-5 text-gray-500" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <form onSubmit={handleAddCustom} className="space-y-3 bg-gray-50 rounded-xl p-4">
+          <div className="flex space-x-3">
+            <input
+              name="emoji"
+              value={form.emoji}
+              onChange={handleInputChange}
+              placeholder="🎨"
+              maxLength={4}
+              className="w-16 px-3 py-2 border border-gray-300 rounded-lg text-center focus:outline-none focus:ring-2 focus:ring-bluesky-500"
+              aria-label="Emoji"
+            />
+            <input
+              name="name"
+              value={form.name}
+              onChange={handleInputChange}
+              placeholder="Hobby name, e.g. Watercolour"
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-bluesky-500"
+            />
+          </div>
+          <input
+            name="keywords"
+            value={form.keywords}
+            onChange={handleInputChange}
+            placeholder="Keywords, comma separated: watercolour, wet on wet"
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-bluesky-500"
+          />
+          <input
+            name="hashtags"
+            value={form.hashtags}
+            onChange={handleInputChange}
+            placeholder="Hashtags: #watercolor #urbansketching"
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-bluesky-500"
+          />
+          <input
+            name="feeds"
+            value={form.feeds}
+            onChange={handleInputChange}
+            placeholder="Custom feed URIs (optional): at://…/app.bsky.feed.generator/…"
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-bluesky-500"
+          />
+          {formError && <p className="text-sm text-red-600">{formError}</p>}
+          <button
+            type="submit"
+            className="btn-primary flex items-center space-x-1 px-4 py-2 bg-bluesky-500 hover:bg-bluesky-600"
+          >
+            <PlusIcon className="h-5 w-5" />
+            <span>Add hobby</span>
+          </button>
+        </form>
+      </section>
+    </div>
+  );
+};
+
+export default Hobbies;
@@ -0,0 +1,52 @@
+/**
+ * HobbyChips.tsx - Hobby Chips Component
+ *
+ * Shows the hobbies a post is about as small chips under its text.
+ * Posts are matched against the hobbies the active account follows.
+ */
+
+import React from 'react';
+import type { PostData } from '../types/models';
+import { matchHobbies } from '../utils/hobbies';
+import { useHobbies } from '../stores/hobby-store';
+import { useSession } from '../context/SessionContext';
+
+/**
+ * HobbyChipsProps Interface
+ *
+ * @property post - The post to classify
+ */
+interface HobbyChipsProps {
+  post: Pick<PostData, 'text' | 'facets'>;
+}
+
+/**
+ * HobbyChips Component
+ *
+ * Renders nothing when the post matches none of the followed hobbies.
+ *
+ * @param post - The post to classify
+ */
+const HobbyChips: React.FC<HobbyChipsProps> = ({ post }) => {
+  const { session } = useSession();
+  const { hobbies } = useHobbies(session?.did);
+  const matched = matchHobbies(post, hobbies);
+
+  if (matched.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-1 mt-1 mb-2">
+      {matched.map(hobby => (
+        <span
+          key={hobby.id}
+          className="inline-flex items-center space-x-1 px-2 py-0.5 rounded-full bg-bluesky-50 text-bluesky-600 text-xs font-medium"
+        >
+          {hobby.emoji && <span>{hobby.emoji}</span>}
+          <span>{hobby.name}</span>
+        </span>
+      ))}
+    </div>
+  );
+};
+
+export default HobbyChips;
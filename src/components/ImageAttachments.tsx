@@ -0,0 +1,438 @@
+/**
+ * ImageAttachments.tsx - Composer Image Attachments
+ *
+ * Image handling shared by the post composers: the `useImageAttachments`
+ * hook keeps the attached images, `AttachImageButton` opens the file picker,
+ * and `ImageAttachments` shows the previews with reorder, remove and alt text
+ * controls.
+ *
+ * Images can be picked, dropped onto the composer or pasted into the text.
+ * Each one is resized and stripped of metadata as soon as it is added (see
+ * `utils/images.ts`).
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { ChevronLeftIcon, ChevronRightIcon, PhotoIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { MAX_ALT_TEXT_LENGTH, MAX_IMAGES, prepareImage, type PreparedImage } from '../utils/images';
+import type { PostImage } from '../utils/bluesky-client';
+
+/**
+ * Attachment Interface
+ *
+ * @property id - Stable key while the image is reordered
+ * @property image - The prepared image, once processing has finished
+ * @property alt - Alt text typed by the user
+ */
+export interface Attachment {
+  id: number;
+  image?: PreparedImage;
+  alt: string;
+}
+
+/**
+ * ImageAttachmentsState Interface
+ *
+ * Returned by `useImageAttachments`.
+ *
+ * @property attachments - Attached images in post order
+ * @property error - Why the last added file was rejected, if it was
+ * @property processing - Whether any image is still being resized
+ * @property canAddMore - Whether another image fits in the post
+ * @property missingAlt - Number of images without alt text
+ * @property altWarned - Whether posting was held back once to ask for alt text
+ * @property confirmMissingAlt - Call before posting; false the first time images lack alt text
+ */
+export interface ImageAttachmentsState {
+  attachments: Attachment[];
+  error: string | null;
+  processing: boolean;
+  canAddMore: boolean;
+  missingAlt: number;
+  altWarned: boolean;
+  confirmMissingAlt: () => boolean;
+  addFiles: (files: FileList | File[]) => void;
+  remove: (id: number) => void;
+  move: (from: number, to: number) => void;
+  setAlt: (id: number, alt: string) => void;
+  clear: () => void;
+  toPostImages: () => PostImage[];
+}
+
+let nextAttachmentId = 1;
+
+/**
+ * Keep the images attached to a post being composed
+ */
+export const useImageAttachments = (): ImageAttachmentsState => {
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  // Set after warning about missing alt text, so the next attempt posts anyway
+  const [altWarned, setAltWarned] = useState(false);
+  // Mirror of the attachments for releasing object URLs on unmount
+  const current = useRef(attachments);
+  current.current = attachments;
+
+  useEffect(
+    () => () => current.current.forEach(a => a.image && URL.revokeObjectURL(a.image.previewUrl)),
+    []
+  );
+
+  const addFiles = (files: FileList | File[]) => {
+    const images = Array.from(files).filter(file => file.type.startsWith('image/'));
+    if (images.length === 0) return;
+
+    const room = MAX_IMAGES - current.current.length;
+    setError(images.length > room ? `You can attach up to ${MAX_IMAGES} images.` : null);
+
+    images.slice(0, Math.max(0, room)).forEach(file => {
+      const id = nextAttachmentId++;
+      setAttachments(prev => [...prev, { id, alt: '' }]);
+      prepareImage(file)
+        .then(image => {
+          setAttachments(prev => {
+            // Removed while it was being processed
+            if (!prev.some(a => a.id === id)) {
+              URL.revokeObjectURL(image.previewUrl);
+              return prev;
+            }
+            return prev.map(a => (a.id === id ? { ...a, image } : a));
+          });
+        })
+        .catch(err => {
+          console.error('Failed to prepare image:', err);
+          setError(err instanceof Error ? err.message : 'Could not attach the image.');
+          setAttachments(prev => prev.filter(a => a.id !== id));
+        });
+    });
+  };
+
+  const remove = (id: number) => {
+    const attachment = current.current.find(a => a.id === id);
+    if (attachment?.image) URL.revokeObjectURL(attachment.image.previewUrl);
+    setAttachments(prev => prev.filter(a => a.id !== id));
+    setError(null);
+  };
+
+  const move = (from: number, to: number) => {
+    setAttachments(prev => {
+      if (from === to || to < 0 || to >= prev.length) return prev;
+      const next = [...prev];
+      const [moved] = next.splice(from, 1);
+      next.splice(to, 0, moved);
+      return next;
+    });
+  };
+
+  const setAlt = (id: number, alt: string) =>
+    setAttachments(prev => prev.map(a => (a.id === id ? { ...a, alt: alt.slice(0, MAX_ALT_TEXT_LENGTH) } : a)));
+
+  // Forget the attachments after posting; the previews stay valid until then
+  const clear = () => {
+    current.current.forEach(a => a.image && URL.revokeObjectURL(a.image.previewUrl));
+    setAttachments([]);
+    setError(null);
+  };
+
+  const missingAlt = attachments.filter(a => a.image && !a.alt.trim()).length;
+
+  // Ask again about alt text whenever the images change
+  useEffect(() => {
+    setAltWarned(false);
+  }, [missingAlt, attachments.length]);
+
+  const confirmMissingAlt = (): boolean => {
+    if (missingAlt === 0 || altWarned) return true;
+    setAltWarned(true);
+    return false;
+  };
+
+  const toPostImages = (): PostImage[] =>
+    attachments.flatMap(({ image, alt }) =>
+      image ? [{ blob: image.blob, alt, width: image.width, height: image.height }] : []
+    );
+
+  return {
+    attachments,
+    error,
+    processing: attachments.some(a => !a.image),
+    canAddMore: attachments.length < MAX_IMAGES,
+    missingAlt,
+    altWarned,
+    confirmMissingAlt,
+    addFiles,
+    remove,
+    move,
+    setAlt,
+    clear,
+    toPostImages
+  };
+};
+
+// Whether a drag carries files rather than a preview being reordered
+const isFileDrag = (e: React.DragEvent): boolean => Array.from(e.dataTransfer.types).includes('Files');
+
+/**
+ * Attach images dropped onto a composer or pasted into its text
+ *
+ * Spread `dropHandlers` on the composer's container and pass `handlePaste`
+ * to its textarea; `isDropTarget` is true while files are dragged over it.
+ *
+ * @param state - Attachments of the composer
+ */
+export const useImageDrop = (state: ImageAttachmentsState) => {
+  const [isDropTarget, setIsDropTarget] = useState(false);
+
+  const dropHandlers = {
+    onDragOver: (e: React.DragEvent) => {
+      if (!isFileDrag(e)) return;
+      e.preventDefault();
+      setIsDropTarget(true);
+    },
+    onDragLeave: () => setIsDropTarget(false),
+    onDrop: (e: React.DragEvent) => {
+      setIsDropTarget(false);
+      if (!isFileDrag(e)) return;
+      e.preventDefault();
+      state.addFiles(e.dataTransfer.files);
+    }
+  };
+
+  // Pasted text goes into the textarea as usual
+  const handlePaste = (e: React.ClipboardEvent) => {
+    const files = Array.from(e.clipboardData.files).filter(file => file.type.startsWith('image/'));
+    if (files.length === 0) return;
+    e.preventDefault();
+    state.addFiles(files);
+  };
+
+  return { isDropTarget, dropHandlers, handlePaste };
+};
+
+/**
+ * AltTextReminder Component
+ *
+ * Shown after a first attempt to post images without alt text.
+ *
+ * @param state - Attachments of the composer
+ */
+export const AltTextReminder: React.FC<{ state: ImageAttachmentsState }> = ({ state }) =>
+  state.altWarned && state.missingAlt > 0 ? (
+    <p className="mb-3 text-sm text-yellow-800 bg-yellow-50 rounded-lg px-3 py-2">
+      {state.missingAlt === 1 ? 'An image has' : `${state.missingAlt} images have`} no alt
+      text. Add a description so everyone can enjoy it, or post anyway.
+    </p>
+  ) : null;
+
+/**
+ * AttachImageButtonProps Interface
+ *
+ * @property state - Attachments of the composer
+ * @property className - Classes of the button
+ * @property iconClassName - Classes of the photo icon
+ */
+interface AttachImageButtonProps {
+  state: ImageAttachmentsState;
+  className?: string;
+  iconClassName?: string;
+}
+
+/**
+ * AttachImageButton Component
+ *
+ * Opens the file picker; disabled once the post has the maximum number of images.
+ */
+export const AttachImageButton: React.FC<AttachImageButtonProps> = ({ state, className, iconClassName }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => inputRef.current?.click()}
+        disabled={!state.canAddMore}
+        className={`${className ?? 'icon bg-white'} disabled:opacity-40 disabled:cursor-default`}
+        title={state.canAddMore ? 'Add images' : `Up to ${MAX_IMAGES} images`}
+        aria-label="Add images"
+      >
+        <PhotoIcon className={iconClassName ?? 'w-5 h-5 text-bluesky-500'} />
+      </button>
+      <input
+        ref={inputRef}
+        type="file"
+        accept="image/*"
+        multiple
+        className="hidden"
+        onChange={(e) => {
+          if (e.target.files) state.addFiles(e.target.files);
+          e.target.value = '';
+        }}
+      />
+    </>
+  );
+};
+
+/**
+ * ImageAttachments Component
+ *
+ * Preview grid of the attached images. Previews can be reordered by dragging
+ * or with the arrow buttons; the ALT badge opens the alt text editor.
+ *
+ * @param state - Attachments of the composer
+ */
+const ImageAttachments: React.FC<{ state: ImageAttachmentsState }> = ({ state }) => {
+  const { attachments, error, remove, move, setAlt } = state;
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [altDraft, setAltDraft] = useState('');
+
+  const editing = attachments.find(a => a.id === editingId);
+
+  const openAltEditor = (attachment: Attachment) => {
+    setEditingId(attachment.id);
+    setAltDraft(attachment.alt);
+  };
+
+  const saveAlt = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (editingId !== null) setAlt(editingId, altDraft);
+    setEditingId(null);
+  };
+
+  if (attachments.length === 0 && !error) return null;
+
+  return (
+    <div className="mb-3">
+      {attachments.length > 0 && (
+        <div className={`grid gap-2 ${attachments.length === 1 ? 'grid-cols-1' : 'grid-cols-2'}`}>
+          {attachments.map((attachment, index) => (
+            <div
+              key={attachment.id}
+              draggable={!!attachment.image}
+              onDragStart={(e) => {
+                setDragIndex(index);
+                e.dataTransfer.effectAllowed = 'move';
+              }}
+              onDragOver={(e) => {
+                if (dragIndex !== null) e.preventDefault();
+              }}
+              onDrop={(e) => {
+                if (dragIndex === null) return;
+                e.preventDefault();
+                e.stopPropagation();
+                move(dragIndex, index);
+                setDragIndex(null);
+              }}
+              onDragEnd={() => setDragIndex(null)}
+              className={`relative rounded-xl overflow-hidden bg-gray-100 ${
+                attachments.length === 1 ? 'aspect-video' : 'aspect-square'
+              } ${dragIndex === index ? 'opacity-50' : ''}`}
+            >
+              {attachment.image ? (
+                <img
+                  src={attachment.image.previewUrl}
+                  alt={attachment.alt || `Attached image ${index + 1}`}
+                  className="w-full h-full object-cover"
+                />
+              ) : (
+                <div className="flex items-center justify-center w-full h-full">
+                  <div className="animate-spin rounded-full h-6 w-6 border-t-2 border-b-2 border-bluesky-500"></div>
+                </div>
+              )}
+
+              {/* Remove */}
+              <button
+                type="button"
+                onClick={() => remove(attachment.id)}
+                className="absolute top-2 right-2 p-1 rounded-full bg-black/60 hover:bg-black/80 text-white"
+                aria-label={`Remove image ${index + 1}`}
+              >
+                <XMarkIcon className="h-4 w-4" />
+              </button>
+
+              {attachment.image && (
+                <>
+                  {/* Alt text */}
+                  <button
+                    type="button"
+                    onClick={() => openAltEditor(attachment)}
+                    className={`absolute bottom-2 left-2 px-2 py-0.5 rounded text-xs font-bold ${
+                      attachment.alt.trim() ? 'bg-black/60 text-white' : 'bg-yellow-400 text-gray-900'
+                    }`}
+                  >
+                    {attachment.alt.trim() ? 'ALT' : '+ ALT'}
+                  </button>
+
+                  {/* Reorder */}
+                  {attachments.length > 1 && (
+                    <div className="absolute bottom-2 right-2 flex space-x-1">
+                      <button
+                        type="button"
+                        onClick={() => move(index, index - 1)}
+                        disabled={index === 0}
+                        className="p-1 rounded-full bg-black/60 hover:bg-black/80 text-white disabled:opacity-30"
+                        aria-label="Move image earlier"
+                      >
+                        <ChevronLeftIcon className="h-4 w-4" />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => move(index, index + 1)}
+                        disabled={index === attachments.length - 1}
+                        className="p-1 rounded-full bg-black/60 hover:bg-black/80 text-white disabled:opacity-30"
+                        aria-label="Move image later"
+                      >
+                        <ChevronRightIcon className="h-4 w-4" />
+                      </button>
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600 mt-2">{error}</p>}
+
+      {/* Alt text editor */}
+      {editing?.image && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <form onSubmit={saveAlt} className="bg-white rounded-xl p-6 w-full max-w-md">
+            <h2 className="text-xl font-bold mb-4">Describe this image</h2>
+            <img
+              src={editing.image.previewUrl}
+              alt=""
+              className="w-full max-h-60 object-contain rounded-lg bg-gray-100 mb-4"
+            />
+            <textarea
+              value={altDraft}
+              onChange={(e) => setAltDraft(e.target.value)}
+              maxLength={MAX_ALT_TEXT_LENGTH}
+              rows={4}
+              autoFocus
+              placeholder="What's in the image? Alt text helps people using screen readers."
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-bluesky-500"
+            />
+            <p className="text-xs text-gray-400 text-right mb-4">
+              {altDraft.length}/{MAX_ALT_TEXT_LENGTH}
+            </p>
+            <div className="flex justify-end space-x-3">
+              <button
+                type="button"
+                onClick={() => setEditingId(null)}
+                className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-lg"
+              >
+                Cancel
+              </button>
+              <button type="submit" className="btn-primary px-4 py-2 bg-bluesky-500 hover:bg-bluesky-600">
+                Save
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ImageAttachments;
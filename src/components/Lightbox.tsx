@@ -0,0 +1,331 @@
+/**
+ * Lightbox.tsx - Full-Screen Image Viewer
+ *
+ * Shows the images of a post one at a time over the whole window, with their
+ * alt text. Opened from a media grid (see MediaGrid.tsx).
+ *
+ * - Arrow keys, the side buttons or a horizontal swipe move between images
+ * - The wheel, double-click, the +/- keys or the zoom buttons zoom in; a
+ *   zoomed image is panned by dragging
+ * - Escape, a swipe down or a click beside the image closes the viewer
+ */
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import {
+  ArrowDownTrayIcon,
+  ChevronLeftIcon,
+  ChevronRightIcon,
+  MagnifyingGlassMinusIcon,
+  MagnifyingGlassPlusIcon,
+  XMarkIcon
+} from '@heroicons/react/24/outline';
+import type { ImageView } from '../types/models';
+import { downloadImage } from '../utils/images';
+import { openExternal } from '../utils/open-url';
+
+/**
+ * LightboxProps Interface
+ *
+ * @property images - Images of the post, in order
+ * @property initialIndex - Image shown first
+ * @property onClose - Called when the viewer is dismissed
+ */
+interface LightboxProps {
+  images: ImageView[];
+  initialIndex: number;
+  onClose: () => void;
+}
+
+const MAX_ZOOM = 4;
+
+// Zoom factor of one key press or button click, and of one wheel notch
+const ZOOM_STEP = 1.5;
+const WHEEL_ZOOM_STEP = 1.2;
+
+// Zoom applied by double-clicking an image that is not zoomed
+const DOUBLE_CLICK_ZOOM = 2.5;
+
+// Distance in pixels a pointer must travel to count as a swipe
+const SWIPE_DISTANCE = 50;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Name for a downloaded image, from the blob CID at the end of CDN URLs
+const downloadName = (url: string, index: number): string => {
+  const last = url.startsWith('http') ? url.split(/[?#]/)[0].split('/').pop()?.split('@')[0] : undefined;
+  return last || `image-${index + 1}`;
+};
+
+/**
+ * Pointer Interface
+ *
+ * A pointer pressed on the image area.
+ *
+ * @property x - Where it went down
+ * @property y - Where it went down
+ * @property offset - Pan offset when it went down
+ * @property onBackdrop - Whether it went down beside the image
+ */
+interface Pointer {
+  x: number;
+  y: number;
+  offset: { x: number; y: number };
+  onBackdrop: boolean;
+}
+
+/**
+ * Lightbox Component
+ *
+ * Rendered into the document body so it covers sticky headers and sidebars.
+ *
+ * @param images - Images of the post, in order
+ * @param initialIndex - Image shown first
+ * @param onClose - Called when the viewer is dismissed
+ */
+const Lightbox: React.FC<LightboxProps> = ({ images, initialIndex, onClose }) => {
+  const [index, setIndex] = useState(clamp(initialIndex, 0, images.length - 1));
+  const [zoom, setZoom] = useState(1);
+  const [offset, setOffset] = useState({ x: 0, y: 0 });
+  const [isDragging, setIsDragging] = useState(false);
+  const [isAltExpanded, setIsAltExpanded] = useState(false);
+  const [isDownloading, setIsDownloading] = useState(false);
+  const dialogRef = useRef<HTMLDivElement>(null);
+  const pointer = useRef<Pointer | null>(null);
+
+  const image = images[index];
+  const hasPrevious = index > 0;
+  const hasNext = index < images.length - 1;
+
+  const go = useCallback(
+    (delta: number) => setIndex(i => clamp(i + delta, 0, images.length - 1)),
+    [images.length]
+  );
+
+  const zoomBy = useCallback((factor: number) => setZoom(z => clamp(z * factor, 1, MAX_ZOOM)), []);
+
+  // Each image starts unzoomed with its alt text collapsed
+  useEffect(() => {
+    setZoom(1);
+    setIsAltExpanded(false);
+  }, [index]);
+
+  // Recenter once fully zoomed out
+  useEffect(() => {
+    if (zoom === 1) setOffset({ x: 0, y: 0 });
+  }, [zoom]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      switch (e.key) {
+        case 'Escape':
+          onClose();
+          break;
+        case 'ArrowLeft':
+          go(-1);
+          break;
+        case 'ArrowRight':
+          go(1);
+          break;
+        case '+':
+        case '=':
+          zoomBy(ZOOM_STEP);
+          break;
+        case '-':
+          zoomBy(1 / ZOOM_STEP);
+          break;
+        case '0':
+          setZoom(1);
+          break;
+        default:
+          return;
+      }
+      e.preventDefault();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [go, zoomBy, onClose]);
+
+  // Keep the page from scrolling underneath, and give focus back when closed
+  useEffect(() => {
+    const previousFocus = document.activeElement as HTMLElement | null;
+    const previousOverflow = document.body.style.overflow;
+    document.body.style.overflow = 'hidden';
+    dialogRef.current?.focus();
+    return () => {
+      document.body.style.overflow = previousOverflow;
+      previousFocus?.focus();
+    };
+  }, []);
+
+  // Load the neighbouring images ahead of navigation
+  useEffect(() => {
+    [index - 1, index + 1].forEach(i => {
+      if (images[i]) new Image().src = images[i].fullsize;
+    });
+  }, [index, images]);
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (e.button !== 0) return;
+    pointer.current = { x: e.clientX, y: e.clientY, offset, onBackdrop: e.target === e.currentTarget };
+    e.currentTarget.setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const start = pointer.current;
+    if (!start || zoom === 1) return;
+    setIsDragging(true);
+    setOffset({ x: start.offset.x + e.clientX - start.x, y: start.offset.y + e.clientY - start.y });
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    const start = pointer.current;
+    pointer.current = null;
+    setIsDragging(false);
+    if (!start || zoom > 1) return;
+
+    const dx = e.clientX - start.x;
+    const dy = e.clientY - start.y;
+    if (Math.abs(dx) > SWIPE_DISTANCE && Math.abs(dx) > Math.abs(dy)) {
+      go(dx < 0 ? 1 : -1);
+    } else if (dy > SWIPE_DISTANCE * 2) {
+      onClose();
+    } else if (start.onBackdrop && Math.abs(dx) < 5 && Math.abs(dy) < 5) {
+      onClose();
+    }
+  };
+
+  const handleDownload = async () => {
+    setIsDownloading(true);
+    try {
+      await downloadImage(image.fullsize, downloadName(image.fullsize, index));
+    } catch (err) {
+      // Fall back to the browser, which can save the image itself
+      console.error('Failed to download image:', err);
+      openExternal(image.fullsize).catch(openErr => console.error('Failed to open image:', openErr));
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  const toolbarButton = 'p-2 rounded-full text-white hover:bg-white/10 disabled:opacity-30 disabled:hover:bg-transparent';
+  const sideButton = 'absolute top-1/2 -translate-y-1/2 p-2 rounded-full bg-black/50 hover:bg-black/70 text-white';
+
+  return createPortal(
+    <div
+      ref={dialogRef}
+      role="dialog"
+      aria-modal="true"
+      aria-label="Image viewer"
+      tabIndex={-1}
+      className="fixed inset-0 z-[100] flex flex-col bg-black/90 outline-none"
+      // Portals still bubble React events; keep clicks from reaching the post card
+      onClick={(e) => e.stopPropagation()}
+    >
+      {/* Toolbar */}
+      <div className="flex items-center justify-between px-4 py-2 text-white">
+        <span className="text-sm tabular-nums">
+          {images.length > 1 && `${index + 1} / ${images.length}`}
+        </span>
+        <div className="flex items-center space-x-1">
+          <button onClick={() => zoomBy(1 / ZOOM_STEP)} disabled={zoom === 1} className={toolbarButton} aria-label="Zoom out">
+            <MagnifyingGlassMinusIcon className="h-6 w-6" />
+          </button>
+          <button onClick={() => zoomBy(ZOOM_STEP)} disabled={zoom === MAX_ZOOM} className={toolbarButton} aria-label="Zoom in">
+            <MagnifyingGlassPlusIcon className="h-6 w-6" />
+          </button>
+          <button onClick={handleDownload} disabled={isDownloading} className={toolbarButton} aria-label="Download image">
+            <ArrowDownTrayIcon className="h-6 w-6" />
+          </button>
+          <button onClick={onClose} className={toolbarButton} aria-label="Close">
+            <XMarkIcon className="h-6 w-6" />
+          </button>
+        </div>
+      </div>
+
+      {/* Image */}
+      <div
+        className="relative flex-1 min-h-0 flex items-center justify-center overflow-hidden select-none touch-none"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={() => {
+          pointer.current = null;
+          setIsDragging(false);
+        }}
+        onWheel={(e) => zoomBy(e.deltaY < 0 ? WHEEL_ZOOM_STEP : 1 / WHEEL_ZOOM_STEP)}
+      >
+        <img
+          key={image.fullsize}
+          src={image.fullsize}
+          alt={image.alt || `Image ${index + 1} of ${images.length}`}
+          draggable={false}
+          onDoubleClick={() => setZoom(zoom === 1 ? DOUBLE_CLICK_ZOOM : 1)}
+          className={`max-w-full max-h-full object-contain ${isDragging ? '' : 'transition-transform duration-150'} ${
+            zoom > 1 ? 'cursor-grab active:cursor-grabbing' : 'cursor-zoom-in'
+          }`}
+          style={{ transform: `translate(${offset.x}px, ${offset.y}px) scale(${zoom})` }}
+        />
+
+        {hasPrevious && (
+          <button
+            onPointerDown={(e) => e.stopPropagation()}
+            onClick={() => go(-1)}
+            className={`${sideButton} left-4`}
+            aria-label="Previous image"
+          >
+            <ChevronLeftIcon className="h-6 w-6" />
+          </button>
+        )}
+        {hasNext && (
+          <button
+            onPointerDown={(e) => e.stopPropagation()}
+            onClick={() => go(1)}
+            className={`${sideButton} right-4`}
+            aria-label="Next image"
+          >
+            <ChevronRightIcon className="h-6 w-6" />
+          </button>
+        )}
+      </div>
+
+      {/* Alt text */}
+      {image.alt && (
+        <div className="px-6 py-3 text-white">
+          <p
+            className={`text-sm whitespace-pre-wrap max-w-2xl mx-auto ${
+              isAltExpanded ? 'max-h-[40vh] overflow-y-auto' : 'max-h-10 overflow-hidden'
+            }`}
+          >
+            {image.alt}
+          </p>
+          {image.alt.length > 120 && (
+            <div className="max-w-2xl mx-auto">
+              <button onClick={() => setIsAltExpanded(!isAltExpanded)} className="text-xs text-gray-300 hover:underline">
+                {isAltExpanded ? 'Show less' : 'Show more'}
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Position dots */}
+      {images.length > 1 && (
+        <div className="flex justify-center space-x-2 pb-4">
+          {images.map((_, i) => (
+            <button
+              key={i}
+              onClick={() => setIndex(i)}
+              className={`h-2 w-2 rounded-full ${i === index ? 'bg-white' : 'bg-white/40 hover:bg-white/70'}`}
+              aria-label={`Show image ${i + 1}`}
+              aria-current={i === index}
+            />
+          ))}
+        </div>
+      )}
+    </div>,
+    document.body
+  );
+};
+
+export default Lightbox;
@@ -0,0 +1,67 @@
+/**
+ * ListFooter.tsx - Footer of a paginated list
+ *
+ * Goes after the last item of an infinitely scrolling list (see
+ * stores/paginated-list). It holds the sentinel that loads the next page as
+ * it comes into view, and shows whether a page is loading, failed or was the
+ * last one.
+ */
+
+import { useLoadMoreSentinel, usePaginatedList, type PaginatedList } from '../stores/paginated-list';
+
+/**
+ * ListFooterProps Interface
+ *
+ * @property list - The list being shown
+ * @property errorFallback - Shown when a page failed without a message
+ * @property onRetry - Load again after an error; loads the next page by default
+ * @property showEnd - Say so once the whole list is loaded
+ */
+interface ListFooterProps<T> {
+  list: PaginatedList<T> | null;
+  errorFallback: string;
+  onRetry?: () => void;
+  showEnd?: boolean;
+}
+
+/**
+ * ListFooter Component
+ *
+ * @param list - The list being shown
+ * @param errorFallback - Shown when a page failed without a message
+ * @param onRetry - Load again after an error
+ * @param showEnd - Say so once the whole list is loaded
+ */
+const ListFooter = <T,>({ list, errorFallback, onRetry, showEnd = false }: ListFooterProps<T>) => {
+  const { items, loaded, hasMore, status, error } = usePaginatedList(list);
+  const sentinelRef = useLoadMoreSentinel(list);
+
+  return (
+    <>
+      {/* Sentinel watched by the observer to trigger the next page */}
+      <div ref={sentinelRef} />
+
+      {loaded && status === 'loading' && (
+        <div className="flex justify-center py-6">
+          <div className="animate-spin rounded-full h-6 w-6 border-t-2 border-b-2 border-bluesky-500"></div>
+        </div>
+      )}
+      {status === 'error' && (
+        <div className="text-center py-6">
+          <p className="text-red-600 mb-3">{error ?? errorFallback}</p>
+          <button
+            onClick={() => (onRetry ? onRetry() : list?.loadMore())}
+            className="btn-primary px-4 py-2 bg-bluesky-500 hover:bg-bluesky-600"
+          >
+            Try again
+          </button>
+        </div>
+      )}
+      {showEnd && loaded && !hasMore && items.length > 0 && (
+        <p className="text-center py-6 text-sm text-gray-400">You're all caught up</p>
+      )}
+    </>
+  );
+};
+
+export default ListFooter;
@@ -0,0 +1,186 @@
+/**
+ * MediaGrid.tsx - Post Images Component
+ *
+ * Lays out the one to four images of a post and opens them in the lightbox
+ * when clicked. Used by the feed card, the post detail view and replies.
+ *
+ * The layout follows the images' aspect ratios:
+ * - One image keeps its own shape, within limits so it never gets too tall
+ * - Two landscape images are stacked, otherwise they sit side by side
+ * - Of three images the first gets half the grid, on top if it is landscape
+ *   and on the left otherwise
+ * - Four images form a two by two grid
+ *
+ * Images of a post labelled with a content warning stay hidden behind the
+ * warning until the reader chooses to show them.
+ */
+
+import React, { useState } from 'react';
+import type { ImageView } from '../types/models';
+import { labelName } from '../utils/labels';
+import Lightbox from './Lightbox';
+
+/**
+ * MediaGridProps Interface
+ *
+ * @property images - Images of the post, in order
+ * @property size - Where the grid is shown: full resolution in the detail view, smaller for replies
+ * @property className - Classes for the grid container, e.g. margins
+ * @property labels - Content warnings of the post, if any
+ */
+interface MediaGridProps {
+  images: ImageView[];
+  size?: 'feed' | 'detail' | 'reply';
+  className?: string;
+  labels?: string[];
+}
+
+// Width over height of the container when an image's ratio is unknown
+const DEFAULT_RATIO = 4 / 3;
+
+// Most portrait and most panoramic shape a single image is shown at
+const MIN_SINGLE_RATIO = 3 / 4;
+const MAX_SINGLE_RATIO = 2;
+
+// An image wider than this counts as landscape
+const LANDSCAPE_RATIO = 1.2;
+
+const MAX_HEIGHT = {
+  feed: 'max-h-[32rem]',
+  detail: 'max-h-[40rem]',
+  reply: 'max-h-72'
+};
+
+const ratioOf = (image: ImageView): number =>
+  image.aspect_ratio && image.aspect_ratio.height > 0
+    ? image.aspect_ratio.width / image.aspect_ratio.height
+    : DEFAULT_RATIO;
+
+const isLandscape = (image: ImageView) => ratioOf(image) >= LANDSCAPE_RATIO;
+
+/**
+ * GridLayout Interface
+ *
+ * @property ratio - Width over height of the whole grid
+ * @property grid - Grid template classes
+ * @property cells - Extra classes of each cell, by image index
+ */
+interface GridLayout {
+  ratio: number;
+  grid: string;
+  cells: string[];
+}
+
+/**
+ * Choose the grid for a set of images
+ *
+ * @param images - One to four images
+ */
+const gridLayout = (images: ImageView[]): GridLayout => {
+  switch (images.length) {
+    case 1:
+      return {
+        ratio: Math.min(MAX_SINGLE_RATIO, Math.max(MIN_SINGLE_RATIO, ratioOf(images[0]))),
+        grid: 'grid-cols-1',
+        cells: ['']
+      };
+    case 2:
+      return images.every(isLandscape)
+        ? { ratio: 1, grid: 'grid-rows-2', cells: ['', ''] }
+        : { ratio: 2, grid: 'grid-cols-2', cells: ['', ''] };
+    case 3:
+      return isLandscape(images[0])
+        ? { ratio: 1, grid: 'grid-cols-2 grid-rows-2', cells: ['col-span-2', '', ''] }
+        : { ratio: 4 / 3, grid: 'grid-cols-2 grid-rows-2', cells: ['row-span-2', '', ''] };
+    default:
+      return { ratio: 3 / 2, grid: 'grid-cols-2 grid-rows-2', cells: ['', '', '', ''] };
+  }
+};
+
+/**
+ * MediaGrid Component
+ *
+ * Clicks on the images do not reach the surrounding post card.
+ *
+ * @param images - Images of the post, in order; only the first four are shown
+ * @param size - Where the grid is shown
+ * @param className - Classes for the grid container
+ * @param labels - Content warnings of the post
+ */
+const MediaGrid: React.FC<MediaGridProps> = ({ images, size = 'feed', className, labels = [] }) => {
+  // Index of the image open in the lightbox
+  const [openIndex, setOpenIndex] = useState<number | null>(null);
+  const [isRevealed, setIsRevealed] = useState(false);
+
+  const shown = images.slice(0, 4);
+  if (shown.length === 0) return null;
+
+  if (labels.length > 0 && !isRevealed) {
+    return (
+      <div
+        className={`flex items-center justify-between px-4 py-3 rounded-xl bg-gray-100 text-sm text-gray-700 ${className ?? ''}`}
+      >
+        <span>Content warning: {labels.map(labelName).join(', ')}</span>
+        <button
+          type="button"
+          onClick={(e) => {
+            e.stopPropagation();
+            setIsRevealed(true);
+          }}
+          className="font-semibold text-bluesky-600 hover:text-bluesky-700"
+        >
+          Show
+        </button>
+      </div>
+    );
+  }
+
+  const layout = gridLayout(shown);
+
+  const handleOpen = (e: React.MouseEvent, index: number) => {
+    e.stopPropagation();
+    setOpenIndex(index);
+  };
+
+  return (
+    <>
+      <div
+        className={`grid gap-0.5 rounded-xl overflow-hidden shadow-sm bg-gray-100 ${layout.grid} ${
+          shown.length === 1 ? MAX_HEIGHT[size] : ''
+        } ${className ?? ''}`}
+        style={{ aspectRatio: layout.ratio }}
+      >
+        {shown.map((image, index) => (
+          <button
+            key={index}
+            type="button"
+            onClick={(e) => handleOpen(e, index)}
+            className={`relative min-h-0 min-w-0 overflow-hidden focus:outline-none focus-visible:ring-2 focus-visible:ring-bluesky-400 ${layout.cells[index]}`}
+            aria-label={`Open image ${index + 1} of ${shown.length}`}
+          >
+            <img
+              src={size === 'detail' ? image.fullsize : image.thumb}
+              alt={image.alt || `Image ${index + 1}`}
+              loading="lazy"
+              className="w-full h-full object-cover"
+            />
+            {image.alt && (
+              <span
+                className="absolute bottom-1.5 left-1.5 px-1.5 py-0.5 rounded bg-black/60 text-white text-[10px] font-bold"
+                title={image.alt}
+              >
+                ALT
+              </span>
+            )}
+          </button>
+        ))}
+      </div>
+
+      {openIndex !== null && (
+        <Lightbox images={shown} initialIndex={openIndex} onClose={() => setOpenIndex(null)} />
+      )}
+    </>
+  );
+};
+
+export default MediaGrid;
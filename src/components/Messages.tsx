@@ -0,0 +1,143 @@
+/**
+ * Messages.tsx - Direct Messages Page Component
+ *
+ * Lists the active account's conversations, most recently active first,
+ * each with the other members, the last message and how many messages are
+ * unread. Muted conversations are marked and left out of the sidebar badge.
+ *
+ * Features:
+ * - Infinite scroll through an IntersectionObserver sentinel
+ * - The list is kept current by the unread message poller
+ *
+ * For Rust Backend Integration:
+ * - Pages come from list_convos (see stores/chat-store)
+ */
+
+import React, { useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { BellSlashIcon } from '@heroicons/react/24/outline';
+import type { Conversation } from '../types/models';
+import { conversationPath } from '../utils/routes';
+import { useSession } from '../context/SessionContext';
+import { conversationList, conversationTitle, otherMembers } from '../stores/chat-store';
+import { usePaginatedList } from '../stores/paginated-list';
+import ListFooter from './ListFooter';
+
+/**
+ * ConversationRowProps Interface
+ *
+ * @property conversation - The conversation to show
+ * @property did - The account reading it
+ */
+interface ConversationRowProps {
+  conversation: Conversation;
+  did: string;
+}
+
+/**
+ * ConversationRow Component
+ *
+ * One conversation of the list; opens it when clicked.
+ */
+const ConversationRow: React.FC<ConversationRowProps> = ({ conversation, did }) => {
+  const navigate = useNavigate();
+  const others = otherMembers(conversation, did);
+  const first = others[0];
+  const last = conversation.last_message;
+  const unread = conversation.unread_count > 0;
+
+  return (
+    <div
+      className="tweet-card mb-4 cursor-pointer flex items-center space-x-3"
+      onClick={() => navigate(conversationPath(conversation.id))}
+    >
+      <img
+        src={first?.avatar || `https://i.pravatar.cc/150?u=${first?.handle ?? conversation.id}`}
+        alt={first?.handle ?? ''}
+        className="h-12 w-12 rounded-full flex-shrink-0"
+      />
+      <div className="flex-1 min-w-0">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-1 min-w-0">
+            <span className={`truncate ${unread ? 'font-bold' : 'font-semibold'}`}>
+              {conversationTitle(conversation, did)}
+            </span>
+            {others.length === 1 && <span className="text-gray-500 text-sm truncate">@{first.handle}</span>}
+            {conversation.muted && (
+              <BellSlashIcon className="h-4 w-4 text-gray-400 flex-shrink-0" aria-label="Muted" />
+            )}
+          </div>
+          {last && <span className="text-gray-500 text-xs flex-shrink-0 ml-2">{last.sent_at}</span>}
+        </div>
+        <div className="flex items-center justify-between">
+          <p className={`text-sm truncate ${unread ? 'text-gray-900' : 'text-gray-500'}`}>
+            {last ? `${last.sender === did ? 'You: ' : ''}${last.text}` : 'No messages yet'}
+          </p>
+          {unread && (
+            <span
+              className={`min-w-[1.25rem] h-5 px-1 ml-2 rounded-full text-white text-[10px] font-bold flex items-center justify-center flex-shrink-0 ${
+                conversation.muted ? 'bg-gray-400' : 'bg-bluesky-500'
+              }`}
+              aria-label={`${conversation.unread_count} unread`}
+            >
+              {conversation.unread_count > 99 ? '99+' : conversation.unread_count}
+            </span>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Messages Component
+ */
+const Messages: React.FC = () => {
+  const { session } = useSession();
+
+  const list = session ? conversationList(session.did) : null;
+  const { items: conversations, loaded, status } = usePaginatedList(list);
+
+  // Load the first page, or catch up with conversations that changed since
+  useEffect(() => {
+    if (!list) return;
+    if (!list.getState().loaded) {
+      list.loadMore();
+    } else {
+      list.refresh();
+    }
+  }, [list]);
+
+  return (
+    <div className="min-h-screen px-4">
+      {/* Header */}
+      <div className="py-3 px-4 sticky top-0 z-50 bg-white/80 backdrop-blur-md rounded-xl shadow-sm mb-4">
+        <h2 className="text-xl sm:text-2xl font-bold">Messages</h2>
+      </div>
+
+      {!session ? (
+        <p className="text-gray-500 text-center py-10">Sign in to see your messages.</p>
+      ) : !loaded && status !== 'error' ? (
+        <div className="flex justify-center items-center h-32">
+          <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-bluesky-500"></div>
+        </div>
+      ) : (
+        <div className="pb-20">
+          {loaded && conversations.length === 0 ? (
+            <div className="text-center py-12 text-gray-500">
+              No conversations yet. Start one with the Message button on someone's profile.
+            </div>
+          ) : (
+            conversations.map(conversation => (
+              <ConversationRow key={conversation.id} conversation={conversation} did={session.did} />
+            ))
+          )}
+
+          <ListFooter list={list} errorFallback="Failed to load conversations." />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Messages;
@@ -0,0 +1,38 @@
+/**
+ * NewPostsPill.tsx - New Posts Button
+ *
+ * Sticky "N new posts" button above a feed, shown once polling found posts
+ * newer than the top of the list (see stores/feed-store). Clicking it puts
+ * them at the top.
+ */
+
+import React from 'react';
+import { ArrowUpIcon } from '@heroicons/react/24/outline';
+import { useFeedState, type FeedStore } from '../stores/feed-store';
+
+/**
+ * NewPostsPill Component
+ *
+ * Renders nothing while there are no new posts. It has no height, so showing
+ * it does not push the feed down.
+ *
+ * @param store - Feed store holding the new posts
+ */
+const NewPostsPill: React.FC<{ store: FeedStore }> = ({ store }) => {
+  const { newPosts } = useFeedState(store);
+  if (newPosts.length === 0) return null;
+
+  return (
+    <div className="sticky top-20 z-40 h-0 flex justify-center">
+      <button
+        onClick={() => store.showNew()}
+        className="flex items-center space-x-1 px-4 py-2 rounded-full bg-bluesky-500 hover:bg-bluesky-600 text-white text-sm font-bold shadow-lg transition-colors"
+      >
+        <ArrowUpIcon className="h-4 w-4" />
+        <span>{newPosts.length} new {newPosts.length === 1 ? 'post' : 'posts'}</span>
+      </button>
+    </div>
+  );
+};
+
+export default NewPostsPill;
@@ -0,0 +1,321 @@
+/**
+ * Notifications.tsx - Notifications Page Component
+ *
+ * Lists the active account's notifications, newest first. Likes and reposts
+ * of the same post are grouped into one row ("Alice and 4 others liked your
+ * post"), as are follows; mentions, replies and quotes are shown as posts.
+ * Unread notifications carry a dot until they are marked as read.
+ *
+ * Features:
+ * - Filter chips for mentions (with replies and quotes), likes, reposts and follows
+ * - Infinite scroll through an IntersectionObserver sentinel
+ * - Optional desktop alerts for new mentions and replies
+ *
+ * For Rust Backend Integration:
+ * - Pages come from list_notifications, filtered by reason
+ * - Marking as read calls update_seen; the unread count behind the sidebar
+ *   badge comes from get_unread_count (see stores/notification-store)
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import {
+  ArrowPathRoundedSquareIcon,
+  BellAlertIcon,
+  BellSlashIcon,
+  CheckIcon,
+  HeartIcon,
+  UserPlusIcon
+} from '@heroicons/react/24/outline';
+import { postPath, profilePath } from '../utils/routes';
+import { desktopAlertsSupported } from '../utils/desktop-alerts';
+import { errorMessage } from '../utils/errors';
+import { formatTimestamp } from '../utils/time';
+import { useSession } from '../context/SessionContext';
+import {
+  groupNotifications,
+  notificationList,
+  unreadNotifications,
+  useUnreadNotifications,
+  type NotificationFilter,
+  type NotificationGroup
+} from '../stores/notification-store';
+import { usePaginatedList } from '../stores/paginated-list';
+import Post from './Post';
+import ListFooter from './ListFooter';
+
+// Most avatars shown on a grouped row
+const MAX_AVATARS = 6;
+
+// Filter chips in the order shown
+const FILTERS: { id: NotificationFilter; label: string }[] = [
+  { id: 'all', label: 'All' },
+  { id: 'mentions', label: 'Mentions' },
+  { id: 'likes', label: 'Likes' },
+  { id: 'reposts', label: 'Reposts' },
+  { id: 'follows', label: 'Follows' }
+];
+
+const EMPTY_MESSAGES: Record<NotificationFilter, string> = {
+  all: 'No notifications yet.',
+  mentions: 'Nobody has mentioned, replied to or quoted you yet.',
+  likes: 'Nobody has liked your posts yet.',
+  reposts: 'Nobody has reposted your posts yet.',
+  follows: 'Nobody has followed you yet.'
+};
+
+// What the accounts of a grouped row did
+const ACTIONS: Partial<Record<NotificationGroup['reason'], string>> = {
+  like: 'liked your post',
+  repost: 'reposted your post',
+  follow: 'followed you'
+};
+
+/**
+ * Names of the accounts behind a group: "Alice", "Alice and Bob" or
+ * "Alice and 4 others"
+ */
+const GroupAuthors: React.FC<{ group: NotificationGroup }> = ({ group }) => {
+  const [first, ...others] = group.authors;
+  const name = (author: typeof first) => (
+    <Link
+      to={profilePath(author.handle)}
+      onClick={(e) => e.stopPropagation()}
+      className="font-bold text-gray-900 hover:underline"
+    >
+      {author.display_name || author.handle}
+    </Link>
+  );
+  if (others.length === 0) return name(first);
+  if (others.length === 1) return <>{name(first)} and {name(others[0])}</>;
+  return <>{name(first)} and {others.length} others</>;
+};
+
+/**
+ * GroupRow Component
+ *
+ * A row for likes, reposts or follows, with the avatars of the accounts
+ * behind them and the post they are about. Clicking opens the post, or the
+ * follower's profile for a single follow.
+ *
+ * @param group - The grouped notifications
+ */
+const GroupRow: React.FC<{ group: NotificationGroup }> = ({ group }) => {
+  const navigate = useNavigate();
+  const target = group.subject
+    ? postPath(group.subject.id)
+    : group.authors.length === 1
+      ? profilePath(group.authors[0].handle)
+      : undefined;
+
+  const icon =
+    group.reason === 'like' ? (
+      <HeartIcon className="h-7 w-7 text-red-500" />
+    ) : group.reason === 'repost' ? (
+      <ArrowPathRoundedSquareIcon className="h-7 w-7 text-green-500" />
+    ) : (
+      <UserPlusIcon className="h-7 w-7 text-bluesky-500" />
+    );
+
+  return (
+    <div
+      className={`tweet-card mb-4 ${target ? 'cursor-pointer' : ''}`}
+      onClick={() => target && navigate(target)}
+    >
+      <div className="flex space-x-4">
+        <div className="w-12 flex justify-end flex-shrink-0">{icon}</div>
+        <div className="flex-1 min-w-0">
+          <div className="flex flex-wrap gap-1 mb-2">
+            {group.authors.slice(0, MAX_AVATARS).map(author => (
+              <Link key={author.did} to={profilePath(author.handle)} onClick={(e) => e.stopPropagation()}>
+                <img
+                  src={author.avatar || `https://i.pravatar.cc/150?u=${author.handle}`}
+                  alt={`${author.handle}'s avatar`}
+                  className="h-8 w-8 rounded-full"
+                />
+              </Link>
+            ))}
+            {group.authors.length > MAX_AVATARS && (
+              <span className="h-8 px-2 rounded-full bg-gray-100 text-xs font-semibold text-gray-600 flex items-center">
+                +{group.authors.length - MAX_AVATARS}
+              </span>
+            )}
+          </div>
+          <p className="text-[15px] sm:text-base text-gray-700">
+            <GroupAuthors group={group} /> {ACTIONS[group.reason]}
+            <span className="text-gray-500"> · {formatTimestamp(Date.parse(group.indexed_at))}</span>
+          </p>
+          {group.subject && (
+            <p className="mt-1 text-sm text-gray-500 line-clamp-3 break-words">{group.subject.text}</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Notifications Component
+ *
+ * The selected filter is kept in `?filter=` so returning from a post shows
+ * the same list.
+ */
+const Notifications: React.FC = () => {
+  const { session } = useSession();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filter = FILTERS.find(f => f.id === searchParams.get('filter'))?.id ?? 'all';
+  const { count, alertsEnabled } = useUnreadNotifications();
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [isMarking, setIsMarking] = useState(false);
+
+  const list = session ? notificationList(session.did, filter) : null;
+  const { items: notifications, loaded, status } = usePaginatedList(list);
+  const groups = groupNotifications(notifications);
+  const unreadLoaded = notifications.filter(n => !n.is_read).length;
+  const hasUnread = count > 0 || unreadLoaded > 0;
+  // Unread count when the newest notification was loaded; more than that means newer ones arrived
+  const [countAtLoad, setCountAtLoad] = useState(count);
+  const newestUri = notifications[0]?.uri;
+  const hasNew = loaded && status !== 'loading' && count > Math.max(countAtLoad, unreadLoaded);
+
+  useEffect(() => {
+    setCountAtLoad(unreadNotifications.getState().count);
+  }, [list, newestUri]);
+
+  // Load the first page, or the latest notifications when there are unread ones
+  useEffect(() => {
+    if (!list) return;
+    if (!list.getState().loaded) {
+      list.loadMore();
+    } else if (unreadNotifications.getState().count > 0) {
+      list.refresh();
+    }
+  }, [list]);
+
+  const selectFilter = (id: NotificationFilter) =>
+    setSearchParams(id === 'all' ? {} : { filter: id }, { replace: true });
+
+  const showNew = () => {
+    setCountAtLoad(count);
+    list?.refresh();
+  };
+
+  const markAllRead = async () => {
+    setActionError(null);
+    setIsMarking(true);
+    try {
+      await unreadNotifications.markAllRead();
+    } catch (err) {
+      console.error('Failed to mark notifications as read:', err);
+      setActionError(errorMessage(err));
+    } finally {
+      setIsMarking(false);
+    }
+  };
+
+  const toggleAlerts = async () => {
+    setActionError(null);
+    const enabled = await unreadNotifications.setAlertsEnabled(!alertsEnabled);
+    if (!alertsEnabled && !enabled) {
+      setActionError('Desktop alerts are blocked. Allow notifications for HobbySky in your system settings.');
+    }
+  };
+
+  return (
+    <div className="min-h-screen px-4">
+      {/* Header with filters */}
+      <div className="py-3 px-4 sticky top-0 z-50 bg-white/80 backdrop-blur-md rounded-xl shadow-sm mb-4">
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl sm:text-2xl font-bold">Notifications</h2>
+          {session && (
+            <div className="flex items-center space-x-2">
+              {desktopAlertsSupported() && (
+                <button
+                  onClick={toggleAlerts}
+                  className={`icon ${alertsEnabled ? 'text-bluesky-500' : 'text-gray-500'}`}
+                  title={alertsEnabled ? 'Turn off desktop alerts' : 'Alert me about mentions and replies'}
+                  aria-label={alertsEnabled ? 'Turn off desktop alerts' : 'Turn on desktop alerts'}
+                  aria-pressed={alertsEnabled}
+                >
+                  {alertsEnabled ? <BellAlertIcon className="h-5 w-5" /> : <BellSlashIcon className="h-5 w-5" />}
+                </button>
+              )}
+              <button
+                onClick={markAllRead}
+                disabled={!hasUnread || isMarking}
+                className="flex items-center space-x-1 px-3 py-1.5 rounded-full text-sm font-semibold text-bluesky-600 hover:bg-bluesky-50 disabled:text-gray-400 disabled:hover:bg-transparent"
+              >
+                <CheckIcon className="h-4 w-4" />
+                <span>Mark all as read</span>
+              </button>
+            </div>
+          )}
+        </div>
+
+        {session && (
+          <div className="flex flex-wrap gap-2 mt-3" role="tablist">
+            {FILTERS.map(({ id, label }) => (
+              <button
+                key={id}
+                role="tab"
+                aria-selected={filter === id}
+                onClick={() => selectFilter(id)}
+                className={`px-3 py-1 rounded-full text-sm font-medium transition-colors ${
+                  filter === id
+                    ? 'bg-bluesky-500 text-white'
+                    : 'bg-bluesky-50 text-bluesky-600 hover:bg-bluesky-100'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {!session ? (
+        <p className="text-gray-500 text-center py-10">Sign in to see your notifications.</p>
+      ) : !loaded && status !== 'error' ? (
+        <div className="flex justify-center items-center h-32">
+          <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-bluesky-500"></div>
+        </div>
+      ) : (
+        <div className="pb-20">
+          {actionError && <p className="px-4 mb-3 text-sm text-red-600">{actionError}</p>}
+
+          {/* Newer notifications arrived since the list was loaded */}
+          {hasNew && (
+            <div className="flex justify-center mb-2">
+              <button
+                onClick={showNew}
+                className="px-4 py-2 rounded-full bg-bluesky-500 hover:bg-bluesky-600 text-white text-sm font-bold shadow-lg transition-colors"
+              >
+                Show new notifications
+              </button>
+            </div>
+          )}
+
+          {loaded && groups.length === 0 ? (
+            <div className="text-center py-12 text-gray-500">{EMPTY_MESSAGES[filter]}</div>
+          ) : (
+            groups.map(group => (
+              <div key={group.key} className="relative">
+                {!group.is_read && (
+                  <span
+                    className="absolute top-5 left-0 h-2.5 w-2.5 rounded-full bg-bluesky-500 z-10"
+                    aria-label="Unread"
+                  />
+                )}
+                {group.post ? <Post post={group.post} /> : <GroupRow group={group} />}
+              </div>
+            ))
+          )}
+
+          <ListFooter list={list} errorFallback="Failed to load notifications." showEnd />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Notifications;
@@ -0,0 +1,70 @@
+/**
+ * ParentChain.tsx - Thread Context Component
+ *
+ * Shows the posts a reply answers, from the start of the thread down to its
+ * direct parent, joined by a line that leads into the focused post below.
+ * Clicking a parent opens it.
+ */
+
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import { embedImages, type PostData } from '../types/models';
+import { postPath } from '../utils/routes';
+import RichText from './RichText';
+import MediaGrid from './MediaGrid';
+
+/**
+ * ParentChainProps Interface
+ *
+ * @property parents - Posts above the focused post, thread root first
+ */
+interface ParentChainProps {
+  parents: PostData[];
+}
+
+/**
+ * ParentChain Component
+ *
+ * Renders nothing for a post that is not a reply.
+ *
+ * @param parents - Posts above the focused post, thread root first
+ */
+const ParentChain: React.FC<ParentChainProps> = ({ parents }) => {
+  const navigate = useNavigate();
+
+  if (parents.length === 0) return null;
+
+  return (
+    <div className="px-4">
+      {parents.map(parent => (
+        <div
+          key={parent.id}
+          onClick={() => navigate(postPath(parent.id))}
+          className="flex space-x-4 cursor-pointer group"
+        >
+          {/* Avatar with the line down to the next post */}
+          <div className="flex flex-col items-center flex-shrink-0">
+            <img
+              src={parent.author.avatar || `https://i.pravatar.cc/150?u=${parent.author.handle}`}
+              alt={`${parent.author.handle}'s profile`}
+              className="h-12 w-12 rounded-full border-2 border-white shadow-sm"
+            />
+            <span className="w-0.5 flex-1 bg-gray-200 my-1" />
+          </div>
+
+          <div className="flex-1 min-w-0 pb-4">
+            <div className="flex items-center space-x-1 whitespace-nowrap overflow-hidden">
+              <span className="font-bold truncate group-hover:underline">{parent.author.display_name}</span>
+              <span className="text-sm text-gray-500 truncate">@{parent.author.handle}</span>
+              <span className="text-sm text-gray-500">· {parent.created_at}</span>
+            </div>
+            <RichText text={parent.text} facets={parent.facets} className="text-gray-900 my-1" />
+            <MediaGrid images={embedImages(parent.embed)} size="reply" className="mt-2" />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ParentChain;
@@ -4,35 +4,36 @@
  * This component displays an individual Bluesky post in the feed.
  * It shows the user profile, post content, engagement stats,
  * and allows interaction through likes, reposts, and replies.
- * The entire post card is clickable and navigates to a detailed view.
+ * Posts about a followed hobby are tagged with hobby chips.
+ * Attached images are shown in a grid that opens a full-screen viewer,
+ * and a quoted post as a card below them. Posts reposted into the timeline
+ * say who reposted them.
+ * The entire post card is clickable and navigates to a detailed view; the
+ * author's avatar and name lead to their profile.
  * 
  * For Rust Backend Integration:
  * - Clicking on the post navigates to a detail view with replies
- * - Action buttons (like, repost) call the Bluesky API through our Rust backend
+ * - The reply button opens the composer to reply to the post
+ * - The repost button offers a plain repost or a quote post
+ * - Action buttons (like, repost) call the Bluesky API through our Rust backend,
+ *   sharing their state with other views of the post (see stores/interaction-store)
  * - Engagement counts are fetched from the Bluesky API
+ * - Mentions, links and hashtags are rendered from the post's facets
  */
 
-import React, { useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import React from 'react';
+import { Link, useNavigate } from 'react-router-dom';
 import { ChatBubbleOvalLeftIcon, ArrowPathRoundedSquareIcon, HeartIcon, ShareIcon } from '@heroicons/react/24/outline';
-import { invoke } from '../utils/tauri-api';
-
-/**
- * Author Interface
- * 
- * Defines the structure for user profile data.
- * 
- * @property did - Decentralized identifier for the user
- * @property handle - User's handle (username)
- * @property display_name - Display name of the user
- * @property avatar - URL to the profile image
- */
-interface Author {
-  did: string;
-  handle: string;
-  display_name: string;
-  avatar?: string;
-}
+import { embedImages, embedRecord, type PostData } from '../types/models';
+import { postPath, profilePath } from '../utils/routes';
+import { useSession } from '../context/SessionContext';
+import { useInteractions, type InteractionKind } from '../stores/interaction-store';
+import { openComposer } from '../stores/composer-store';
+import HobbyChips from './HobbyChips';
+import RichText from './RichText';
+import MediaGrid from './MediaGrid';
+import RepostMenu from './RepostMenu';
+import QuotedPost from './QuotedPost';
 
 /**
  * PostProps Interface
@@ -40,20 +41,9 @@ interface Author {
  * Props for the Post component, containing all data needed to display a post.
  * 
  * @property post - The post data object with all required fields
- * @property session - User session data for authentication
  */
 interface PostProps {
-  post: {
-    id: string;
-    author: Author;
-    text: string;
-    created_at: string;
-    images?: string[];
-    likes_count: number;
-    reposts_count: number;
-    replies_count: number;
-  };
-  session: string | null;
+  post: PostData;
 }
 
 /**
@@ -63,48 +53,64 @@ interface PostProps {
  * The entire component is clickable, navigating to a detailed view.
  * 
  * @param post - The post data to display
- * @param session - User session data for authentication
  */
-const Post: React.FC<PostProps> = ({ post, session }) => {
+const Post: React.FC<PostProps> = ({ post }) => {
   // React Router's navigation hook for programmatic navigation
   const navigate = useNavigate();
+  const { session } = useSession();
+  const images = embedImages(post.embed);
+  const quoted = embedRecord(post.embed);
   
-  // Local state for like functionality
-  const [liked, setLiked] = useState(false);
-  const [likeCount, setLikeCount] = useState(post.likes_count);
+  // Likes and reposts are shared with every other view of this post
+  const { liked, reposted, likes_count, reposts_count, toggle } = useInteractions(post);
+
+  /**
+   * Like or repost the post, or undo it
+   * 
+   * The change shows immediately and is rolled back by the interaction
+   * store if the backend rejects it.
+   * 
+   * @param kind - Whether to toggle the like or the repost
+   */
+  const toggleInteraction = async (kind: InteractionKind) => {
+    if (!session) {
+      console.error(`Must be logged in to ${kind} posts`);
+      return;
+    }
+    
+    try {
+      await toggle(kind);
+    } catch (err) {
+      console.error(`Failed to ${kind} post:`, err);
+    }
+  };
 
   /**
    * Handle the like button click
    * 
-   * Toggles the liked state and updates the count accordingly.
-   * Makes an API call to the Bluesky service through our Rust backend.
    * Stops event propagation to prevent navigation when clicking the like button.
    * 
    * @param e - The click event object
    */
-  const handleLike = async (e: React.MouseEvent) => {
+  const handleLike = (e: React.MouseEvent) => {
     e.stopPropagation(); // Prevent navigation when liking
+    toggleInteraction('like');
+  };
+
+  /**
+   * Open the composer to reply to this post
+   * 
+   * @param e - The click event object
+   */
+  const handleReply = (e: React.MouseEvent) => {
+    e.stopPropagation();
     
     if (!session) {
-      console.error('Must be logged in to like posts');
+      console.error('Must be logged in to reply to posts');
       return;
     }
     
-    try {
-      const success = await invoke<boolean>('like_post', {
-        service: 'https://bsky.social',
-        session,
-        post_uri: post.id
-      });
-      
-      if (success) {
-        // Toggle like state and update count
-        setLiked(!liked);
-        setLikeCount(liked ? likeCount - 1 : likeCount + 1);
-      }
-    } catch (err) {
-      console.error('Failed to like post:', err);
-    }
+    openComposer({ reply: post });
   };
 
   /**
@@ -113,7 +119,7 @@ const Post: React.FC<PostProps> = ({ post, session }) => {
    * Called when clicking anywhere on the post card.
    */
   const handleNavigateToDetail = () => {
-    navigate(`/post/${post.id}`);
+    navigate(postPath(post.id));
   };
 
   /**
@@ -132,60 +138,76 @@ const Post: React.FC<PostProps> = ({ post, session }) => {
       className="tweet-card mb-4 cursor-pointer transition-transform hover:scale-[1.01]" 
       onClick={handleNavigateToDetail}
     >
+      {/* Why the post is in the timeline, when someone reposted it */}
+      {post.reason?.type === 'repost' && (
+        <div className="flex items-center space-x-1 mb-2 ml-8 text-sm text-gray-500 whitespace-nowrap overflow-hidden">
+          <ArrowPathRoundedSquareIcon className="h-4 w-4 flex-shrink-0" />
+          <span className="truncate">Reposted by {post.reason.by.display_name}</span>
+        </div>
+      )}
+      
       <div className="flex space-x-4">
         {/* User Profile Picture */}
-        <img
-          src={post.author.avatar || `https://i.pravatar.cc/150?u=${post.author.handle}`}
-          alt="Profile Picture"
-          className="h-12 w-12 rounded-full border-2 border-white shadow-sm"
-        />
+        <Link to={profilePath(post.author.handle)} onClick={handleActionClick} className="flex-shrink-0">
+          <img
+            src={post.author.avatar || `https://i.pravatar.cc/150?u=${post.author.handle}`}
+            alt="Profile Picture"
+            className="h-12 w-12 rounded-full border-2 border-white shadow-sm"
+          />
+        </Link>
         
         <div className="flex-1">
           {/* User Info and Timestamp */}
           <div className="flex items-center space-x-1 whitespace-nowrap">
-            <h4 className="font-bold text-[15px] sm:text-base">{post.author.display_name}</h4>
-            <span className="text-sm sm:text-[15px] text-gray-500">@{post.author.handle}</span>
+            <Link
+              to={profilePath(post.author.handle)}
+              onClick={handleActionClick}
+              className="flex items-center space-x-1 hover:underline"
+            >
+              <h4 className="font-bold text-[15px] sm:text-base">{post.author.display_name}</h4>
+              <span className="text-sm sm:text-[15px] text-gray-500">@{post.author.handle}</span>
+            </Link>
             <span className="text-sm sm:text-[15px] text-gray-500">· {post.created_at}</span>
           </div>
           
           {/* Post Text Content */}
-          <p className="text-gray-900 text-[15px] sm:text-base my-2">{post.text}</p>
+          <RichText text={post.text} facets={post.facets} className="text-gray-900 text-[15px] sm:text-base my-2" />
           
-          {/* Optional Post Image */}
-          {post.images && post.images.length > 0 && (
-            <div className="rounded-xl overflow-hidden mt-3 mb-2 shadow-sm">
-              <img
-                src={post.images[0]}
-                alt="Post image"
-                className="w-full max-h-80 object-cover"
-              />
-            </div>
-          )}
+          {/* Hobbies the post is about */}
+          <HobbyChips post={post} />
+          
+          {/* Attached images */}
+          <MediaGrid images={images} labels={post.labels} className="mt-3 mb-2" />
+          
+          {/* Quoted post */}
+          {quoted && <QuotedPost record={quoted} className="mt-3 mb-2" />}
           
           {/* Engagement Actions (Reply, Repost, Like, Share) */}
           <div className="flex justify-between text-gray-500 mt-4 w-full sm:w-10/12" onClick={handleActionClick}>
             {/* Reply Button */}
-            <div className="flex items-center space-x-1 group">
+            <div className="flex items-center space-x-1 group" onClick={handleReply}>
               <div className="icon group-hover:bg-bluesky-100">
                 <ChatBubbleOvalLeftIcon className="h-5 group-hover:text-bluesky-400" />
               </div>
               <span className="group-hover:text-bluesky-400 text-sm">{post.replies_count}</span>
             </div>
             
-            {/* Repost Button */}
-            <div className="flex items-center space-x-1 group">
-              <div className="icon group-hover:bg-green-100">
-                <ArrowPathRoundedSquareIcon className="h-5 group-hover:text-green-500" />
+            {/* Repost Button - opens the repost / quote menu */}
+            <RepostMenu post={post} reposted={reposted} onRepost={() => toggleInteraction('repost')} disabled={!session}>
+              <div className="flex items-center space-x-1 group">
+                <div className={`icon ${reposted ? 'bg-green-100' : 'group-hover:bg-green-100'}`}>
+                  <ArrowPathRoundedSquareIcon className={`h-5 ${reposted ? 'text-green-500' : 'group-hover:text-green-500'}`} />
+                </div>
+                <span className={`${reposted ? 'text-green-500' : 'group-hover:text-green-500'} text-sm`}>{reposts_count}</span>
               </div>
-              <span className="group-hover:text-green-500 text-sm">{post.reposts_count}</span>
-            </div>
+            </RepostMenu>
             
             {/* Like Button - with active state styling */}
             <div className="flex items-center space-x-1 group" onClick={handleLike}>
               <div className={`icon ${liked ? 'bg-red-100' : 'group-hover:bg-red-100'}`}>
                 <HeartIcon className={`h-5 ${liked ? 'text-red-500 fill-red-500' : 'group-hover:text-red-500'}`} />
               </div>
-              <span className={`${liked ? 'text-red-500' : 'group-hover:text-red-500'} text-sm`}>{likeCount}</span>
+              <span className={`${liked ? 'text-red-500' : 'group-hover:text-red-500'} text-sm`}>{likes_count}</span>
             </div>
             
             {/* Share Button */}
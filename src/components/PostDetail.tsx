@@ -1,139 +1,108 @@
-import React, { useState, useEffect } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import React, { useState, useEffect, useLayoutEffect, useRef } from 'react';
+import { Link, useParams, useNavigate } from 'react-router-dom';
 import { ArrowLeftIcon, HeartIcon, ArrowPathRoundedSquareIcon, ShareIcon } from '@heroicons/react/24/outline';
-import { invoke } from '../utils/tauri-api';
+import { client } from '../utils/bluesky-client';
+import { embedImages, embedRecord, uriDid, type PostData, type ThreadNode, type ThreadSort } from '../types/models';
+import { ModelValidationError } from '../types/validate';
+import { decodeParam, profilePath } from '../utils/routes';
+import { useSession } from '../context/SessionContext';
+import { usePendingReplies, withPendingReplies } from '../stores/reply-store';
+import { interactionStore, interactionsFor, useInteractionState, type InteractionKind } from '../stores/interaction-store';
+import RichText from './RichText';
+import MediaGrid from './MediaGrid';
+import ParentChain from './ParentChain';
+import ReplyTree from './ReplyTree';
+import ReplyComposer from './ReplyComposer';
+import RepostMenu from './RepostMenu';
+import QuotedPost from './QuotedPost';
 
-interface Author {
-  did: string;
-  handle: string;
-  display_name: string;
-  avatar?: string;
-}
-
-interface PostData {
-  id: string;
-  author: Author;
-  text: string;
-  created_at: string;
-  images?: string[];
-  likes_count: number;
-  reposts_count: number;
-  replies_count: number;
-}
-
-interface Reply {
-  id: string;
-  author: Author;
-  text: string;
-  created_at: string;
-  images?: string[];
-  isOwn?: boolean;
-}
-
-interface PostDetailProps {
-  session: string | null;
-}
+// Labels of the reply orders offered above the replies
+const SORT_LABELS: Record<ThreadSort, string> = {
+  oldest: 'Oldest first',
+  newest: 'Newest first',
+  top: 'Most liked'
+};
 
-const PostDetail: React.FC<PostDetailProps> = ({ session }) => {
-  const { postId } = useParams<{ postId: string }>();
+const PostDetail: React.FC = () => {
+  const { postId: postParam } = useParams<{ postId: string }>();
+  const postId = postParam ? decodeParam(postParam) : undefined;
   const navigate = useNavigate();
-  const [liked, setLiked] = useState(false);
+  const { session } = useSession();
   const [post, setPost] = useState<PostData | null>(null);
-  const [replies, setReplies] = useState<Reply[]>([]);
+  // Posts above the focused one, thread root first
+  const [parents, setParents] = useState<PostData[]>([]);
+  const [replies, setReplies] = useState<ThreadNode[]>([]);
+  const [sort, setSort] = useState<ThreadSort>('oldest');
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [replyText, setReplyText] = useState('');
+  // Message of the last failed like or repost, shown under the actions
+  const [actionError, setActionError] = useState<string | null>(null);
+  // Likes and reposts are shared with the feed cards of the same post
+  const interactions = useInteractionState();
+  // Replies sent during this session, shown before the backend returns them
+  const pending = usePendingReplies();
+  const focusedRef = useRef<HTMLDivElement>(null);
+  
+  // Start at the top, rather than at the scroll position of the previous page,
+  // and show a spinner until the new thread arrives
+  useEffect(() => {
+    window.scrollTo(0, 0);
+    setLoading(true);
+    setActionError(null);
+  }, [postId]);
   
-  // Fetch post details and replies
+  // Fetch the thread; changing the sort order refetches it in place
   useEffect(() => {
-    async function fetchPostDetails() {
+    let cancelled = false;
+
+    async function fetchThread() {
       if (!postId) return;
       
       try {
-        setLoading(true);
-        const postDetail = await invoke<PostData>('get_post_detail', {
-          service: 'https://bsky.social',
-          session,
-          post_uri: postId
-        });
-        
-        setPost(postDetail);
-        
-        const postReplies = await invoke<Reply[]>('get_post_replies', {
-          service: 'https://bsky.social',
-          session,
-          post_uri: postId
-        });
+        const thread = await client.getPostThread(postId, sort);
+        if (cancelled) return;
         
-        setReplies(postReplies);
+        setPost(thread.post);
+        setParents(thread.parents);
+        setReplies(thread.replies);
+        setError(null);
       } catch (err) {
-        console.error('Failed to fetch post details:', err);
-        setError('Failed to load post. Please try again later.');
+        if (cancelled) return;
+        console.error('Failed to fetch post thread:', err);
+        setError(err instanceof ModelValidationError
+          ? err.message
+          : 'Failed to load post. Please try again later.');
       } finally {
-        setLoading(false);
+        if (!cancelled) setLoading(false);
       }
     }
     
-    fetchPostDetails();
-  }, [postId, session]);
+    fetchThread();
+    return () => {
+      cancelled = true;
+    };
+  }, [postId, session, sort]);
+
+  // Bring a reply into view below its parents once its thread has loaded
+  useLayoutEffect(() => {
+    if (!loading && parents.length > 0) {
+      focusedRef.current?.scrollIntoView({ block: 'start' });
+    }
+    // Only when a different post loads, not when the replies are re-sorted
+  }, [loading, post?.id]);
   
-  const handleLike = async () => {
+  const handleToggle = async (kind: InteractionKind) => {
     if (!session || !post) {
-      setError('You need to be logged in to like posts');
+      setActionError(`You need to be logged in to ${kind} posts`);
       return;
     }
     
+    setActionError(null);
     try {
-      const success = await invoke<boolean>('like_post', {
-        service: 'https://bsky.social',
-        session,
-        post_uri: post.id
-      });
-      
-      if (success) {
-        setLiked(!liked);
-        // Update the like count in the UI
-        if (liked) {
-          post.likes_count--;
-        } else {
-          post.likes_count++;
-        }
-      }
+      await interactionStore.toggle(post, kind);
     } catch (err) {
-      console.error('Failed to like post:', err);
-      setError('Failed to like post. Please try again later.');
-    }
-  };
-  
-  const handleSubmitReply = async (e: React.FormEvent) => {
-    e.preventDefault();
-    
-    if (!session || !post || !replyText.trim()) {
-      setError('You need to be logged in and write something to reply');
-      return;
-    }
-    
-    try {
-      // This would need to be implemented in the backend
-      // For now, just add a local placeholder reply
-      const newReply: Reply = {
-        id: `temp-${Date.now()}`,
-        author: {
-          did: 'temp-did',
-          handle: 'you',
-          display_name: 'You',
-          avatar: 'https://i.pravatar.cc/150?img=3'
-        },
-        text: replyText,
-        created_at: 'now',
-        isOwn: true
-      };
-      
-      setReplies([...replies, newReply]);
-      setReplyText('');
-    } catch (err) {
-      console.error('Failed to reply to post:', err);
-      setError('Failed to reply. Please try again later.');
+      console.error(`Failed to ${kind} post:`, err);
+      setActionError(`Failed to ${kind} post. Please try again later.`);
     }
   };
   
@@ -178,6 +147,14 @@ const PostDetail: React.FC<PostDetailProps> = ({ session }) => {
     );
   }
   
+  const postImages = embedImages(post.embed);
+  const quoted = embedRecord(post.embed);
+  const { liked, reposted, likes_count, reposts_count } = interactionsFor(post, interactions);
+  const threadReplies = withPendingReplies(post.id, replies, pending);
+  const ownReplies = new Map(
+    Object.values(pending.byParent).flatMap(sent => sent.map(reply => [reply.post.id, reply.status] as const))
+  );
+  
   return (
     <div className="min-h-screen pb-20">
       {/* Header */}
@@ -191,32 +168,34 @@ const PostDetail: React.FC<PostDetailProps> = ({ session }) => {
         <h2 className="text-xl font-bold">Post</h2>
       </div>
       
+      {/* Posts this one replies to */}
+      <ParentChain parents={parents} />
+      
       {/* Post */}
-      <div className="px-4 mb-6">
+      <div ref={focusedRef} className="px-4 mb-6 scroll-mt-16">
         <div className="flex space-x-4">
-          <img
-            src={post.author.avatar || `https://i.pravatar.cc/150?u=${post.author.handle}`}
-            alt="Profile"
-            className="h-12 w-12 rounded-full cursor-pointer border-2 border-white shadow-sm"
-          />
+          <Link to={profilePath(post.author.handle)} className="flex-shrink-0">
+            <img
+              src={post.author.avatar || `https://i.pravatar.cc/150?u=${post.author.handle}`}
+              alt="Profile"
+              className="h-12 w-12 rounded-full cursor-pointer border-2 border-white shadow-sm"
+            />
+          </Link>
           
           <div className="flex-1">
-            <div className="flex items-center space-x-1 whitespace-nowrap">
+            <Link
+              to={profilePath(post.author.handle)}
+              className="flex items-center space-x-1 whitespace-nowrap hover:underline"
+            >
               <h4 className="font-bold text-[16px] sm:text-lg">{post.author.display_name}</h4>
               <span className="text-sm sm:text-[15px] text-gray-500">@{post.author.handle}</span>
-            </div>
+            </Link>
             
-            <p className="text-gray-900 text-[16px] sm:text-lg my-3">{post.text}</p>
+            <RichText text={post.text} facets={post.facets} className="text-gray-900 text-[16px] sm:text-lg my-3" />
             
-            {post.images && post.images.length > 0 && (
-              <div className="rounded-xl overflow-hidden my-3 shadow-sm">
-                <img
-                  src={post.images[0]}
-                  alt="Post image"
-                  className="w-full max-h-80 object-cover"
-                />
-              </div>
-            )}
+            <MediaGrid images={postImages} labels={post.labels} size="detail" className="my-3" />
+            
+            {quoted && <QuotedPost record={quoted} className="my-3" />}
             
             <p className="text-gray-500 text-sm py-3 border-b border-gray-100">
               {post.created_at} · Bluesky
@@ -224,106 +203,78 @@ const PostDetail: React.FC<PostDetailProps> = ({ session }) => {
             
             <div className="flex justify-between text-gray-500 py-3 border-b border-gray-100">
               <div className="flex items-center space-x-1">
-                <span className="font-semibold">{post.replies_count}</span>
+                <span className="font-semibold">{Math.max(post.replies_count, threadReplies.length)}</span>
                 <span className="text-sm">Replies</span>
               </div>
               
               <div className="flex items-center space-x-1">
-                <span className="font-semibold">{post.reposts_count}</span>
+                <span className="font-semibold">{reposts_count}</span>
                 <span className="text-sm">Reposts</span>
               </div>
               
               <div className="flex items-center space-x-1">
-                <span className="font-semibold">{post.likes_count}</span>
+                <span className="font-semibold">{likes_count}</span>
                 <span className="text-sm">Likes</span>
               </div>
             </div>
             
             <div className="flex justify-around text-gray-500 py-2 border-b border-gray-100">
-              <div className="icon group-hover:bg-blue-100">
-                <ArrowPathRoundedSquareIcon className="h-5 group-hover:text-green-500" />
-              </div>
+              <RepostMenu post={post} reposted={reposted} onRepost={() => handleToggle('repost')} disabled={!session}>
+                <div className={`icon ${reposted ? 'bg-green-100' : 'hover:bg-green-100'}`}>
+                  <ArrowPathRoundedSquareIcon className={`h-5 ${reposted ? 'text-green-500' : 'hover:text-green-500'}`} />
+                </div>
+              </RepostMenu>
               
-              <div className="icon" onClick={handleLike}>
-                <HeartIcon className={`h-5 ${liked ? 'text-red-500 fill-red-500' : ''}`} />
+              <div className={`icon ${liked ? 'bg-red-100' : 'hover:bg-red-100'}`} onClick={() => handleToggle('like')}>
+                <HeartIcon className={`h-5 ${liked ? 'text-red-500 fill-red-500' : 'hover:text-red-500'}`} />
               </div>
               
               <div className="icon group-hover:bg-blue-100">
                 <ShareIcon className="h-5 group-hover:text-blue-400" />
               </div>
             </div>
+            {actionError && <p className="mt-2 text-sm text-red-600">{actionError}</p>}
           </div>
         </div>
       </div>
       
-      {/* Reply input */}
+      {/* Reply composer */}
       {session && (
         <div className="px-4 mb-6">
-          <form onSubmit={handleSubmitReply} className="flex space-x-2">
-            <img
-              src="https://i.pravatar.cc/150?img=3"
-              alt="Your profile"
-              className="h-10 w-10 rounded-full border border-gray-200"
-            />
-            <div className="flex-1 relative">
-              <textarea
-                value={replyText}
-                onChange={(e) => setReplyText(e.target.value)}
-                placeholder="Write your reply..."
-                className="w-full border border-gray-200 rounded-xl p-2 pl-3 pr-12 resize-none h-14 focus:outline-none focus:ring-2 focus:ring-bluesky-400 focus:border-bluesky-400"
-              />
-              <button
-                type="submit"
-                disabled={!replyText.trim()}
-                className="absolute bottom-2 right-2 bg-bluesky-500 text-white rounded-full p-2 w-8 h-8 flex items-center justify-center disabled:opacity-50"
-              >
-                <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-4 h-4">
-                  <path d="M3.105 2.289a.75.75 0 00-.826.95l1.414 4.925A1.5 1.5 0 005.135 9.25h6.115a.75.75 0 010 1.5H5.135a1.5 1.5 0 00-1.442 1.086l-1.414 4.926a.75.75 0 00.826.95 28.896 28.896 0 0015.293-7.154.75.75 0 000-1.115A28.897 28.897 0 003.105 2.289z" />
-                </svg>
-              </button>
-            </div>
-          </form>
+          <ReplyComposer parent={post} />
         </div>
       )}
       
       {/* Replies section */}
       <div className="px-4">
-        <h3 className="font-bold text-xl mb-4">Replies</h3>
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="font-bold text-xl">Replies</h3>
+          {threadReplies.length > 1 && (
+            <select
+              value={sort}
+              onChange={(e) => setSort(e.target.value as ThreadSort)}
+              className="text-sm text-gray-600 bg-gray-50 border border-gray-200 rounded-full px-3 py-1 focus:outline-none focus:ring-2 focus:ring-bluesky-400"
+              aria-label="Sort replies"
+            >
+              {(Object.keys(SORT_LABELS) as ThreadSort[]).map(option => (
+                <option key={option} value={option}>
+                  {SORT_LABELS[option]}
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
         
-        {replies.length === 0 ? (
+        {threadReplies.length === 0 ? (
           <div className="text-center py-8 text-gray-500">
             No replies yet. Be the first to reply!
           </div>
         ) : (
-          <div className="space-y-4">
-            {replies.map(reply => (
-              <div key={reply.id} className="flex space-x-3">
-                <img 
-                  src={reply.author.avatar || `https://i.pravatar.cc/150?u=${reply.author.handle}`}
-                  alt={`${reply.author.handle}'s profile`}
-                  className="h-10 w-10 rounded-full border border-gray-200"
-                />
-                <div className={`flex-1 p-3 rounded-lg ${reply.isOwn ? 'bg-bluesky-50 text-bluesky-800' : 'bg-gray-50'}`}>
-                  <div className="flex items-center space-x-1 mb-1">
-                    <span className="font-semibold">{reply.author.display_name}</span>
-                    <span className="text-sm text-gray-500">@{reply.author.handle}</span>
-                    <span className="text-sm text-gray-500">· {reply.created_at}</span>
-                  </div>
-                  <p>{reply.text}</p>
-                  
-                  {reply.images && reply.images.length > 0 && (
-                    <div className="mt-2 rounded-lg overflow-hidden">
-                      <img
-                        src={reply.images[0]}
-                        alt="Reply image"
-                        className="w-full max-h-60 object-cover"
-                      />
-                    </div>
-                  )}
-                </div>
-              </div>
-            ))}
-          </div>
+          <ReplyTree
+            nodes={threadReplies}
+            opDid={post.reply ? uriDid(post.reply.root.uri) : post.author.did}
+            ownReplies={ownReplies}
+          />
         )}
       </div>
     </div>
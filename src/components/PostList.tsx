@@ -0,0 +1,104 @@
+/**
+ * PostList.tsx - Paginated Post List Component
+ *
+ * Renders the posts of a feed store and loads the next page as the user
+ * scrolls near the bottom. Shared by every timeline-like view.
+ *
+ * Features:
+ * - Infinite scroll through an IntersectionObserver sentinel
+ * - Loading footer, and an error footer with a retry button
+ * - Restores the scroll position when returning from a post detail page
+ * - Keeps the visible posts in place when newer posts are inserted above them
+ */
+
+import React, { useEffect, useLayoutEffect, useRef } from 'react';
+import Post from './Post';
+import { useFeedState, type FeedStore } from '../stores/feed-store';
+import ListFooter from './ListFooter';
+
+/**
+ * PostListProps Interface
+ *
+ * @property store - Feed store providing the posts
+ * @property emptyMessage - Shown when the feed has no posts at all
+ */
+interface PostListProps {
+  store: FeedStore;
+  emptyMessage: React.ReactNode;
+}
+
+/**
+ * PostList Component
+ *
+ * @param store - Feed store providing the posts
+ * @param emptyMessage - Shown when the feed has no posts at all
+ */
+const PostList: React.FC<PostListProps> = ({ store, emptyMessage }) => {
+  const { items: posts, loaded, status } = useFeedState(store);
+  const listRef = useRef<HTMLDivElement>(null);
+  // Post that was at the top of the list on the previous render
+  const firstPostId = useRef<string | undefined>(undefined);
+
+  // Load the first page the first time this feed is shown
+  useEffect(() => {
+    if (!store.getState().loaded) {
+      store.loadMore();
+    }
+  }, [store]);
+
+  // Return to where the user was
+  useLayoutEffect(() => {
+    window.scrollTo(0, store.savedScroll());
+  }, [store]);
+
+  // When posts are inserted above what the reader is looking at, scroll down by
+  // the height they added so the content on screen does not move
+  useLayoutEffect(() => {
+    const previousFirst = firstPostId.current;
+    firstPostId.current = posts[0]?.id;
+    const list = listRef.current;
+    if (!list || !previousFirst || previousFirst === posts[0]?.id) return;
+
+    const listTop = list.getBoundingClientRect().top;
+    if (listTop >= 0) return;
+    const anchor = list.querySelector(`[data-post-id="${CSS.escape(previousFirst)}"]`);
+    if (anchor) {
+      window.scrollBy(0, anchor.getBoundingClientRect().top - listTop);
+    }
+  }, [posts]);
+
+  // Remember the position while scrolling, so it survives leaving the page
+  useEffect(() => {
+    const handleScroll = () => store.saveScroll(window.scrollY);
+    window.addEventListener('scroll', handleScroll, { passive: true });
+    return () => window.removeEventListener('scroll', handleScroll);
+  }, [store]);
+
+  if (!loaded && status === 'loading') {
+    return (
+      <div className="flex justify-center items-center h-32">
+        <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-bluesky-500"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="pb-20">
+      {loaded && posts.length === 0 ? (
+        <div className="text-center py-12 text-gray-500">{emptyMessage}</div>
+      ) : (
+        <div ref={listRef}>
+          {posts.map(post => (
+            <div key={post.id} data-post-id={post.id}>
+              <Post post={post} />
+            </div>
+          ))}
+        </div>
+      )}
+
+      <ListFooter list={store} errorFallback="Failed to load posts." showEnd />
+    </div>
+  );
+};
+
+export default PostList;
@@ -0,0 +1,288 @@
+/**
+ * Profile.tsx - Profile Page Component
+ *
+ * Shows an account's banner, avatar, bio and follow counts, with its posts
+ * below in tabs: posts, replies, media and, on the signed-in account's own
+ * profile, the posts it liked. Each tab is a cursor-paginated list.
+ *
+ * Reached at `/profile/:actor` with a handle or DID, e.g. by clicking an
+ * author's name; `/profile` shows the signed-in account, which can edit its
+ * display name, bio, avatar and banner there.
+ *
+ * For Rust Backend Integration:
+ * - The profile comes from get_profile, with the follow state of the viewer
+ * - Tabs are loaded through get_author_feed, and likes through get_actor_likes
+ * - Following creates a follow record (follow_actor) and unfollowing deletes
+ *   it (unfollow_actor), shown optimistically (see stores/profile-store)
+ * - Messaging opens the conversation with the account (get_convo_for_members),
+ *   starting one if there is none
+ */
+
+import React, { useEffect, useState } from 'react';
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { ArrowLeftIcon, EnvelopeIcon } from '@heroicons/react/24/outline';
+import type { AuthorFeedFilter, Profile as ProfileData } from '../types/models';
+import { client } from '../utils/bluesky-client';
+import { conversationPath, decodeParam } from '../utils/routes';
+import { errorMessage } from '../utils/errors';
+import { useSession } from '../context/SessionContext';
+import { getFeedStore } from '../stores/feed-store';
+import { profileStore, useProfile } from '../stores/profile-store';
+import { conversationList } from '../stores/chat-store';
+import PostList from './PostList';
+import RichText from './RichText';
+import EditProfileDialog from './EditProfileDialog';
+
+type ProfileTab = AuthorFeedFilter | 'likes';
+
+// Tabs in the order shown; likes are only listed on the viewer's own profile
+const TABS: { id: ProfileTab; label: string }[] = [
+  { id: 'posts', label: 'Posts' },
+  { id: 'replies', label: 'Replies' },
+  { id: 'media', label: 'Media' },
+  { id: 'likes', label: 'Likes' }
+];
+
+const EMPTY_MESSAGES: Record<ProfileTab, string> = {
+  posts: 'No posts yet.',
+  replies: 'No posts or replies yet.',
+  media: 'No posts with images yet.',
+  likes: "You haven't liked any posts yet."
+};
+
+const formatCount = (count: number): string => count.toLocaleString();
+
+/**
+ * ProfileHeader Component
+ *
+ * Banner, avatar, names, bio and counts of a profile, with the follow or
+ * edit button.
+ *
+ * @param profile - The profile to show
+ * @param isOwn - Whether it is the signed-in account's profile
+ * @param actionButton - Follow or edit button, if any
+ */
+const ProfileHeader: React.FC<{ profile: ProfileData; isOwn: boolean; actionButton?: React.ReactNode }> = ({
+  profile,
+  isOwn,
+  actionButton
+}) => (
+  <div className="mb-4">
+    {profile.banner ? (
+      <img src={profile.banner} alt="" className="w-full h-36 sm:h-48 object-cover rounded-xl" />
+    ) : (
+      <div className="w-full h-36 sm:h-48 rounded-xl bg-gradient-to-r from-bluesky-300 to-bluesky-500" />
+    )}
+
+    <div className="px-4">
+      <div className="flex items-end justify-between -mt-12 mb-3">
+        <img
+          src={profile.avatar || `https://i.pravatar.cc/150?u=${profile.handle}`}
+          alt={`${profile.handle}'s avatar`}
+          className="h-24 w-24 rounded-full border-4 border-white bg-white object-cover shadow-sm"
+        />
+        {actionButton}
+      </div>
+
+      <h2 className="text-2xl font-bold break-words">{profile.display_name || profile.handle}</h2>
+      <div className="flex items-center space-x-2 text-gray-500 mb-3">
+        <span className="truncate">@{profile.handle}</span>
+        {!isOwn && profile.viewer?.followed_by && (
+          <span className="px-2 py-0.5 rounded bg-gray-100 text-xs font-semibold text-gray-600">Follows you</span>
+        )}
+      </div>
+
+      {profile.description && (
+        <RichText text={profile.description} facets={profile.description_facets} className="text-gray-900 mb-3" />
+      )}
+
+      <div className="flex flex-wrap gap-x-4 text-sm text-gray-500">
+        <span>
+          <span className="font-bold text-gray-900">{formatCount(profile.followers_count)}</span> followers
+        </span>
+        <span>
+          <span className="font-bold text-gray-900">{formatCount(profile.follows_count)}</span> following
+        </span>
+        <span>
+          <span className="font-bold text-gray-900">{formatCount(profile.posts_count)}</span> posts
+        </span>
+      </div>
+    </div>
+  </div>
+);
+
+/**
+ * Profile Component
+ *
+ * Reads the account from the `/profile/:actor` route, or shows the
+ * signed-in account at `/profile`. The selected tab is kept in `?tab=` so
+ * returning from a post opens the same tab.
+ */
+const Profile: React.FC = () => {
+  const navigate = useNavigate();
+  const { session, setProfile } = useSession();
+  const actorParam = useParams<{ actor: string }>().actor;
+  const [searchParams, setSearchParams] = useSearchParams();
+  const actor = actorParam ? decodeParam(actorParam) : session?.did;
+  const viewer = session?.did;
+  const store = actor ? profileStore(viewer, actor) : null;
+  const { profile, status, error, isFollowPending } = useProfile(store);
+  const [isEditing, setIsEditing] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [isOpeningChat, setIsOpeningChat] = useState(false);
+
+  const isOwn = !!session && (!actorParam || profile?.did === session.did);
+  const tabs = TABS.filter(tab => tab.id !== 'likes' || isOwn);
+  const tab = tabs.find(t => t.id === searchParams.get('tab'))?.id ?? 'posts';
+
+  // Load the profile each time it is shown, keeping the one cached meanwhile
+  useEffect(() => {
+    setActionError(null);
+    store?.load();
+  }, [store]);
+
+  if (!actor || !store) {
+    return (
+      <div className="min-h-screen px-4">
+        <div className="flex items-center py-3 px-4 sticky top-0 z-50 bg-white/80 backdrop-blur-md rounded-xl shadow-sm mb-4">
+          <h2 className="text-xl sm:text-2xl font-bold">Profile</h2>
+        </div>
+        <p className="text-gray-500 text-center py-10">Sign in to see your profile.</p>
+      </div>
+    );
+  }
+
+  const feedStore = getFeedStore(`profile:${viewer ?? 'anonymous'}:${actor.toLowerCase()}:${tab}`, cursor =>
+    tab === 'likes' ? client.getActorLikes(actor, cursor) : client.getAuthorFeed(actor, tab, cursor)
+  );
+
+  const selectTab = (id: ProfileTab) => setSearchParams(id === 'posts' ? {} : { tab: id }, { replace: true });
+
+  const toggleFollow = async () => {
+    setActionError(null);
+    try {
+      await store.toggleFollow();
+    } catch (err) {
+      console.error('Failed to change follow:', err);
+      setActionError(errorMessage(err));
+    }
+  };
+
+  const openChat = async () => {
+    if (!session || !profile) return;
+    setActionError(null);
+    setIsOpeningChat(true);
+    try {
+      const conversation = await client.getConversationWith([profile.did]);
+      conversationList(session.did).update(conversation);
+      navigate(conversationPath(conversation.id));
+    } catch (err) {
+      console.error('Failed to open conversation:', err);
+      setActionError(errorMessage(err));
+    } finally {
+      setIsOpeningChat(false);
+    }
+  };
+
+  const handleSaved = (updated: ProfileData) => {
+    store.setProfile(updated);
+    setProfile(updated);
+    setIsEditing(false);
+  };
+
+  const isFollowing = !!profile?.viewer?.following;
+  const actionButton = !session || !profile ? undefined : isOwn ? (
+    <button
+      onClick={() => setIsEditing(true)}
+      className="px-4 py-1.5 rounded-full font-bold border border-gray-300 hover:bg-gray-50"
+    >
+      Edit profile
+    </button>
+  ) : (
+    <div className="flex items-center space-x-2">
+      <button
+        onClick={openChat}
+        disabled={isOpeningChat}
+        className="icon border border-gray-300 hover:bg-gray-50 disabled:opacity-60"
+        title={`Message @${profile.handle}`}
+        aria-label={`Message @${profile.handle}`}
+      >
+        <EnvelopeIcon className="h-5 w-5" />
+      </button>
+      <button
+        onClick={toggleFollow}
+        disabled={isFollowPending}
+        title={isFollowing ? `Unfollow @${profile.handle}` : undefined}
+        className={`px-4 py-1.5 rounded-full font-bold disabled:opacity-60 ${
+          isFollowing
+            ? 'border border-gray-300 hover:bg-red-50 hover:text-red-600 hover:border-red-200'
+            : 'text-white bg-bluesky-500 hover:bg-bluesky-600'
+        }`}
+      >
+        {isFollowing ? 'Following' : 'Follow'}
+      </button>
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen px-4">
+      {/* Header with back button */}
+      <div className="flex items-center py-3 px-4 sticky top-0 z-50 bg-white/80 backdrop-blur-md rounded-xl shadow-sm mb-4">
+        {actorParam && (
+          <button onClick={() => navigate(-1)} className="icon mr-4" aria-label="Back">
+            <ArrowLeftIcon className="h-5 w-5" />
+          </button>
+        )}
+        <div className="min-w-0">
+          <h2 className="text-xl font-bold truncate">{profile ? profile.display_name || profile.handle : 'Profile'}</h2>
+          {profile && <p className="text-xs text-gray-500">{formatCount(profile.posts_count)} posts</p>}
+        </div>
+      </div>
+
+      {profile ? (
+        <>
+          <ProfileHeader profile={profile} isOwn={isOwn} actionButton={actionButton} />
+          {actionError && <p className="px-4 mb-3 text-sm text-red-600">{actionError}</p>}
+
+          {/* Tabs */}
+          <div className="flex border-b border-gray-200 mb-4" role="tablist">
+            {tabs.map(({ id, label }) => (
+              <button
+                key={id}
+                role="tab"
+                aria-selected={tab === id}
+                onClick={() => selectTab(id)}
+                className={`flex-1 py-3 text-sm sm:text-base border-b-2 transition-colors ${
+                  tab === id
+                    ? 'border-bluesky-500 font-bold text-gray-900'
+                    : 'border-transparent text-gray-500 hover:bg-gray-50'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+
+          <PostList key={`${actor}:${tab}`} store={feedStore} emptyMessage={EMPTY_MESSAGES[tab]} />
+        </>
+      ) : status === 'error' ? (
+        <div className="text-center py-10">
+          <p className="text-red-600 mb-3">{error ?? 'Failed to load the profile.'}</p>
+          <button onClick={() => store.load()} className="btn-primary px-4 py-2 bg-bluesky-500 hover:bg-bluesky-600">
+            Try again
+          </button>
+        </div>
+      ) : (
+        <div className="flex justify-center items-center h-32">
+          <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-bluesky-500"></div>
+        </div>
+      )}
+
+      {isEditing && profile && (
+        <EditProfileDialog profile={profile} onSaved={handleSaved} onClose={() => setIsEditing(false)} />
+      )}
+    </div>
+  );
+};
+
+export default Profile;
@@ -0,0 +1,90 @@
+/**
+ * QuotedPost.tsx - Quoted Post Card Component
+ *
+ * Shows the post quoted by another post as a small card with its author,
+ * text and images. Clicking the card opens the quoted post. When the quoted
+ * post was deleted, or a block stands between the viewer and its author, a
+ * placeholder explains why it cannot be shown.
+ */
+
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import { NoSymbolIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { embedImages, type EmbeddedRecord } from '../types/models';
+import { postPath } from '../utils/routes';
+import RichText from './RichText';
+import MediaGrid from './MediaGrid';
+
+/**
+ * QuotedPostProps Interface
+ *
+ * @property record - The quoted post, or its tombstone
+ * @property interactive - Whether clicking the card opens the post (off in composer previews)
+ * @property className - Extra classes for the card
+ */
+interface QuotedPostProps {
+  record: EmbeddedRecord;
+  interactive?: boolean;
+  className?: string;
+}
+
+/**
+ * QuotedPost Component
+ *
+ * @param record - The quoted post, or its tombstone
+ * @param interactive - Whether clicking the card opens the post
+ * @param className - Extra classes for the card
+ */
+const QuotedPost: React.FC<QuotedPostProps> = ({ record, interactive = true, className = '' }) => {
+  const navigate = useNavigate();
+
+  if (record.type !== 'post') {
+    const Icon = record.type === 'blocked' ? NoSymbolIcon : TrashIcon;
+    return (
+      <div className={`flex items-center space-x-2 rounded-xl border border-gray-200 bg-gray-50 px-3 py-2 text-sm text-gray-500 ${className}`}>
+        <Icon className="h-4 w-4 flex-shrink-0" />
+        <span>
+          {record.type === 'blocked'
+            ? 'This post is hidden because of a block between you and its author.'
+            : 'This post has been deleted.'}
+        </span>
+      </div>
+    );
+  }
+
+  const { post } = record;
+
+  /**
+   * Open the quoted post without also opening the post that quotes it
+   *
+   * @param e - The click event object
+   */
+  const handleClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    navigate(postPath(post.id));
+  };
+
+  return (
+    <div
+      onClick={interactive ? handleClick : undefined}
+      className={`rounded-xl border border-gray-200 px-3 py-2 ${
+        interactive ? 'cursor-pointer hover:bg-gray-50' : ''
+      } ${className}`}
+    >
+      <div className="flex items-center space-x-1 whitespace-nowrap overflow-hidden text-sm">
+        <img
+          src={post.author.avatar || `https://i.pravatar.cc/150?u=${post.author.handle}`}
+          alt={`${post.author.handle}'s profile`}
+          className="h-5 w-5 rounded-full border border-gray-200 flex-shrink-0"
+        />
+        <span className="font-semibold truncate">{post.author.display_name}</span>
+        <span className="text-gray-500 truncate">@{post.author.handle}</span>
+        <span className="text-gray-500">· {post.created_at}</span>
+      </div>
+      <RichText text={post.text} className="text-gray-900 text-sm mt-1" />
+      <MediaGrid images={embedImages(post.embed)} size="reply" className="mt-2" />
+    </div>
+  );
+};
+
+export default QuotedPost;
@@ -0,0 +1,132 @@
+/**
+ * ReplyComposer.tsx - Reply Composer Component
+ *
+ * Writes a reply to a post, with the same mentions, links, hashtags and
+ * images as a new post, and the same limit of 300 graphemes. Used inline
+ * under the post on its detail page; reply buttons elsewhere open the
+ * composer dialog (see Composer.tsx).
+ *
+ * The reply shows up in the thread as soon as it is sent (see
+ * stores/reply-store). The composer keeps its text and images until the
+ * backend has created the reply, so nothing is lost if sending fails.
+ */
+
+import React, { useState } from 'react';
+import type { Author, PostData } from '../types/models';
+import { useSession } from '../context/SessionContext';
+import { replyStore } from '../stores/reply-store';
+import { graphemeLength, MAX_POST_GRAPHEMES } from '../utils/rich-text';
+import { errorMessage } from '../utils/errors';
+import { GraphemeCounter } from './ComposerSegment';
+import ImageAttachments, { AltTextReminder, AttachImageButton, useImageAttachments, useImageDrop } from './ImageAttachments';
+
+/**
+ * ReplyComposerProps Interface
+ *
+ * @property parent - The post being replied to
+ * @property onSent - Called once the backend has created the reply
+ * @property autoFocus - Focus the text on mount
+ */
+interface ReplyComposerProps {
+  parent: PostData;
+  onSent?: () => void;
+  autoFocus?: boolean;
+}
+
+/**
+ * ReplyComposer Component
+ *
+ * Renders nothing while signed out.
+ *
+ * @param parent - The post being replied to
+ * @param onSent - Called once the backend has created the reply
+ * @param autoFocus - Focus the text on mount
+ */
+const ReplyComposer: React.FC<ReplyComposerProps> = ({ parent, onSent, autoFocus }) => {
+  const { session, profiles } = useSession();
+  const [text, setText] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const attachments = useImageAttachments();
+  const { isDropTarget, dropHandlers, handlePaste } = useImageDrop(attachments);
+
+  if (!session) return null;
+
+  const profile = profiles[session.did];
+  const avatar = profile?.avatar || `https://i.pravatar.cc/150?u=${session.handle}`;
+  const images = attachments.toPostImages();
+  const canSend =
+    !isSending &&
+    !attachments.processing &&
+    graphemeLength(text) <= MAX_POST_GRAPHEMES &&
+    (!!text.trim() || images.length > 0);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSend || !attachments.confirmMissingAlt()) return;
+
+    const author: Author = {
+      did: session.did,
+      handle: session.handle,
+      display_name: profile?.display_name || session.handle,
+      avatar: profile?.avatar
+    };
+
+    setIsSending(true);
+    setError(null);
+    try {
+      await replyStore.send(parent, author, text, { as: session.did, images });
+      setText('');
+      attachments.clear();
+      onSent?.();
+    } catch (err) {
+      console.error('Failed to reply to post:', err);
+      setError(`Your reply was not sent: ${errorMessage(err)}`);
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className={`flex space-x-2 rounded-xl ${isDropTarget ? 'ring-2 ring-bluesky-400' : ''}`}
+      {...dropHandlers}
+    >
+      <img src={avatar} alt="Your profile" className="h-10 w-10 rounded-full border border-gray-200 flex-shrink-0" />
+      <div className="flex-1 min-w-0">
+        <textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          onPaste={handlePaste}
+          placeholder={`Reply to @${parent.author.handle}`}
+          autoFocus={autoFocus}
+          disabled={isSending}
+          className="w-full border border-gray-200 rounded-xl p-2 pl-3 resize-none h-20 mb-2 focus:outline-none focus:ring-2 focus:ring-bluesky-400 focus:border-bluesky-400 disabled:bg-gray-50"
+        />
+        <ImageAttachments state={attachments} />
+        <AltTextReminder state={attachments} />
+        {error && <p className="mb-2 text-sm text-red-600">{error}</p>}
+        <div className="flex items-center justify-between">
+          <AttachImageButton state={attachments} />
+          <div className="flex items-center space-x-3">
+            <GraphemeCounter text={text} />
+            <button
+              type="submit"
+              disabled={!canSend}
+              className="btn-primary px-4 py-1.5 rounded-full font-bold text-white bg-bluesky-500 hover:bg-bluesky-600 disabled:opacity-50 disabled:cursor-default"
+            >
+              {isSending
+                ? 'Sending…'
+                : attachments.altWarned && attachments.missingAlt > 0
+                  ? 'Reply anyway'
+                  : 'Reply'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </form>
+  );
+};
+
+export default ReplyComposer;
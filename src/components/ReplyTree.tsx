@@ -0,0 +1,180 @@
+/**
+ * ReplyTree.tsx - Threaded Replies Component
+ *
+ * Renders the replies of a thread as a nested tree. Each reply is indented
+ * under the one it answers, and a branch can be collapsed by clicking the
+ * line running down its side. Branches deeper than the thread returned by
+ * the backend end in a "Continue thread" link that opens the last reply on
+ * its own page. Replies by the original poster are marked "Author", and
+ * replies sent during this session are highlighted while and after sending.
+ */
+
+import React, { useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { ChatBubbleOvalLeftIcon, ChevronRightIcon } from '@heroicons/react/24/outline';
+import { embedImages, type ThreadNode } from '../types/models';
+import { postPath, profilePath } from '../utils/routes';
+import { useSession } from '../context/SessionContext';
+import type { PendingReply } from '../stores/reply-store';
+import { useInteractions } from '../stores/interaction-store';
+import { openComposer } from '../stores/composer-store';
+import RichText from './RichText';
+import MediaGrid from './MediaGrid';
+
+/**
+ * ReplyTreeProps Interface
+ *
+ * @property nodes - Replies at this level, already sorted
+ * @property opDid - DID of the author of the thread's root post
+ * @property ownReplies - Status of the replies sent during this session, by id
+ */
+interface ReplyTreeProps {
+  nodes: ThreadNode[];
+  opDid: string;
+  ownReplies: Map<string, PendingReply['status']>;
+}
+
+// Number of replies under a node, counting those not loaded yet
+const countReplies = (node: ThreadNode): number =>
+  node.replies.length > 0
+    ? node.replies.reduce((total, child) => total + 1 + countReplies(child), 0)
+    : node.post.replies_count;
+
+/**
+ * ReplyNode Component
+ *
+ * One reply with its own replies below it.
+ */
+const ReplyNode: React.FC<{ node: ThreadNode } & Omit<ReplyTreeProps, 'nodes'>> = ({
+  node,
+  opDid,
+  ownReplies
+}) => {
+  const navigate = useNavigate();
+  const { session } = useSession();
+  const [collapsed, setCollapsed] = useState(false);
+  const { post: reply, replies } = node;
+  const { likes_count } = useInteractions(reply);
+
+  const isOwn = ownReplies.has(reply.id);
+  // Not created by the backend yet, so it cannot be opened or replied to
+  const isSending = ownReplies.get(reply.id) === 'sending';
+  const isOp = reply.author.did === opDid;
+  const hiddenCount = countReplies(node);
+  // Replies exist below the depth the backend returned
+  const continues = replies.length === 0 && reply.replies_count > 0;
+
+  return (
+    <div>
+      <div className="flex space-x-3">
+        <Link to={profilePath(reply.author.handle)} className="flex-shrink-0">
+          <img
+            src={reply.author.avatar || `https://i.pravatar.cc/150?u=${reply.author.handle}`}
+            alt={`${reply.author.handle}'s profile`}
+            className="h-10 w-10 rounded-full border border-gray-200"
+          />
+        </Link>
+        <div
+          onClick={() => !isSending && navigate(postPath(reply.id))}
+          className={`flex-1 min-w-0 p-3 rounded-lg ${
+            isOwn ? 'bg-bluesky-50 text-bluesky-800' : 'bg-gray-50 hover:bg-gray-100'
+          } ${isOp ? 'ring-1 ring-bluesky-200' : ''} ${isSending ? 'opacity-60' : 'cursor-pointer'}`}
+        >
+          <div className="flex items-center space-x-1 mb-1 whitespace-nowrap overflow-hidden">
+            <Link
+              to={profilePath(reply.author.handle)}
+              onClick={(e) => e.stopPropagation()}
+              className="font-semibold truncate hover:underline"
+            >
+              {reply.author.display_name}
+            </Link>
+            {isOp && (
+              <span className="px-1.5 rounded bg-bluesky-100 text-bluesky-700 text-xs font-semibold">Author</span>
+            )}
+            <span className="text-sm text-gray-500 truncate">@{reply.author.handle}</span>
+            <span className="text-sm text-gray-500">· {reply.created_at}</span>
+          </div>
+          <RichText text={reply.text} facets={reply.facets} />
+          <MediaGrid images={embedImages(reply.embed)} labels={reply.labels} size="reply" className="mt-2" />
+          <div className="flex items-center space-x-4 text-xs text-gray-500 mt-1">
+            {isSending ? (
+              <span>Sending…</span>
+            ) : (
+              session && (
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    openComposer({ reply });
+                  }}
+                  className="flex items-center hover:text-bluesky-500"
+                >
+                  <ChatBubbleOvalLeftIcon className="h-4 w-4 mr-1" />
+                  Reply
+                </button>
+              )
+            )}
+            {likes_count > 0 && (
+              <span>
+                {likes_count} {likes_count === 1 ? 'like' : 'likes'}
+              </span>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* Replies to this reply */}
+      {replies.length > 0 && (
+        collapsed ? (
+          <button
+            onClick={() => setCollapsed(false)}
+            className="ml-[3.25rem] mt-2 text-sm text-bluesky-500 hover:underline"
+          >
+            Show {hiddenCount} {hiddenCount === 1 ? 'reply' : 'replies'}
+          </button>
+        ) : (
+          <div className="flex mt-3">
+            {/* Thread line; clicking it collapses the branch */}
+            <button
+              onClick={() => setCollapsed(true)}
+              className="group w-10 flex-shrink-0 flex justify-center"
+              aria-label="Collapse replies"
+              title="Collapse replies"
+            >
+              <span className="w-0.5 h-full bg-gray-200 group-hover:bg-bluesky-400 rounded" />
+            </button>
+            <div className="flex-1 min-w-0 pl-2">
+              <ReplyTree nodes={replies} opDid={opDid} ownReplies={ownReplies} />
+            </div>
+          </div>
+        )
+      )}
+
+      {continues && (
+        <Link
+          to={postPath(reply.id)}
+          className="ml-[3.25rem] mt-2 inline-flex items-center text-sm text-bluesky-500 hover:underline"
+        >
+          Continue thread
+          <ChevronRightIcon className="h-4 w-4 ml-0.5" />
+        </Link>
+      )}
+    </div>
+  );
+};
+
+/**
+ * ReplyTree Component
+ *
+ * @param nodes - Replies at this level, already sorted
+ * @param opDid - DID of the author of the thread's root post
+ * @param ownReplies - Status of the replies sent during this session, by id
+ */
+const ReplyTree: React.FC<ReplyTreeProps> = ({ nodes, opDid, ownReplies }) => (
+  <div className="space-y-4">
+    {nodes.map(node => (
+      <ReplyNode key={node.post.id} node={node} opDid={opDid} ownReplies={ownReplies} />
+    ))}
+  </div>
+);
+
+export default ReplyTree;
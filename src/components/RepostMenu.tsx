@@ -0,0 +1,119 @@
+/**
+ * RepostMenu.tsx - Repost Menu Component
+ *
+ * Wraps a repost button so that clicking it offers a choice: repost the
+ * post as it is (or undo an earlier repost), or open the composer to
+ * quote it in a new post.
+ * The menu closes on a choice, a click elsewhere or Escape.
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { ArrowPathRoundedSquareIcon, PencilSquareIcon } from '@heroicons/react/24/outline';
+import type { PostData } from '../types/models';
+import { openComposer } from '../stores/composer-store';
+
+/**
+ * RepostMenuProps Interface
+ *
+ * @property post - The post the menu acts on
+ * @property reposted - Whether the signed-in account has reposted the post
+ * @property onRepost - Called to repost the post, or undo the repost
+ * @property disabled - Keep the menu closed, e.g. while signed out
+ * @property children - The repost button
+ * @property className - Extra classes for the wrapper
+ */
+interface RepostMenuProps {
+  post: PostData;
+  reposted: boolean;
+  onRepost: () => void;
+  disabled?: boolean;
+  children: React.ReactNode;
+  className?: string;
+}
+
+/**
+ * RepostMenu Component
+ *
+ * @param post - The post the menu acts on
+ * @param reposted - Whether the signed-in account has reposted the post
+ * @param onRepost - Called to repost the post, or undo the repost
+ * @param disabled - Keep the menu closed
+ * @param children - The repost button
+ * @param className - Extra classes for the wrapper
+ */
+const RepostMenu: React.FC<RepostMenuProps> = ({
+  post,
+  reposted,
+  onRepost,
+  disabled = false,
+  children,
+  className = ''
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close on a click outside the menu or Escape
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handlePointerDown = (e: PointerEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setIsOpen(false);
+    };
+    document.addEventListener('pointerdown', handlePointerDown);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('pointerdown', handlePointerDown);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [isOpen]);
+
+  const choose = (action: () => void) => (e: React.MouseEvent) => {
+    e.stopPropagation();
+    setIsOpen(false);
+    action();
+  };
+
+  return (
+    <div ref={menuRef} className={`relative ${className}`}>
+      <div
+        onClick={(e) => {
+          e.stopPropagation();
+          if (!disabled) setIsOpen(open => !open);
+        }}
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+      >
+        {children}
+      </div>
+
+      {isOpen && (
+        <div
+          role="menu"
+          className="absolute left-0 top-full mt-1 z-20 w-44 bg-white rounded-xl shadow-lg border border-gray-100 py-1 text-gray-900"
+        >
+          <button
+            role="menuitem"
+            onClick={choose(onRepost)}
+            className="w-full flex items-center px-4 py-2 text-sm hover:bg-gray-50"
+          >
+            <ArrowPathRoundedSquareIcon className="h-5 w-5 mr-2 text-green-500" />
+            {reposted ? 'Undo repost' : 'Repost'}
+          </button>
+          <button
+            role="menuitem"
+            onClick={choose(() => openComposer({ quote: post }))}
+            className="w-full flex items-center px-4 py-2 text-sm hover:bg-gray-50"
+          >
+            <PencilSquareIcon className="h-5 w-5 mr-2 text-bluesky-500" />
+            Quote post
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RepostMenu;
@@ -0,0 +1,83 @@
+/**
+ * RichText.tsx - Post Text Component
+ *
+ * Renders post text with its facets: mentions link to the profile page,
+ * hashtags to the hashtag page, and links open in the user's browser.
+ * Clicks on these never reach the surrounding post card.
+ */
+
+import React from 'react';
+import { Link } from 'react-router-dom';
+import type { Facet } from '../types/models';
+import { segmentRichText } from '../utils/rich-text';
+import { hashtagPath, profilePath } from '../utils/routes';
+import { openExternal } from '../utils/open-url';
+
+/**
+ * RichTextProps Interface
+ *
+ * @property text - Post text
+ * @property facets - Facets received with the post
+ * @property className - Classes for the paragraph
+ * @property linkClassName - Classes for mentions, hashtags and links, e.g. on a colored background
+ */
+interface RichTextProps {
+  text: string;
+  facets?: Facet[];
+  className?: string;
+  linkClassName?: string;
+}
+
+const LINK_CLASS = 'text-bluesky-500 hover:underline break-words';
+
+// Keep clicks on facets from opening the post
+const stopPropagation = (e: React.MouseEvent) => e.stopPropagation();
+
+/**
+ * RichText Component
+ *
+ * @param text - Post text
+ * @param facets - Facets received with the post
+ * @param className - Classes for the paragraph
+ * @param linkClassName - Classes for mentions, hashtags and links
+ */
+const RichText: React.FC<RichTextProps> = ({ text, facets, className, linkClassName = LINK_CLASS }) => {
+  const handleOpenLink = (e: React.MouseEvent, uri: string) => {
+    e.preventDefault();
+    e.stopPropagation();
+    openExternal(uri).catch(err => console.error('Failed to open link:', err));
+  };
+
+  return (
+    <p className={`whitespace-pre-wrap ${className ?? ''}`}>
+      {segmentRichText(text, facets).map((segment, i) => {
+        switch (segment.feature?.type) {
+          case 'mention':
+            return (
+              <Link key={i} to={profilePath(segment.feature.did)} onClick={stopPropagation} className={linkClassName}>
+                {segment.text}
+              </Link>
+            );
+          case 'tag':
+            return (
+              <Link key={i} to={hashtagPath(segment.feature.tag)} onClick={stopPropagation} className={linkClassName}>
+                {segment.text}
+              </Link>
+            );
+          case 'link': {
+            const uri = segment.feature.uri;
+            return (
+              <a key={i} href={uri} onClick={e => handleOpenLink(e, uri)} className={linkClassName} rel="noopener noreferrer">
+                {segment.text}
+              </a>
+            );
+          }
+          default:
+            return <React.Fragment key={i}>{segment.text}</React.Fragment>;
+        }
+      })}
+    </p>
+  );
+};
+
+export default RichText;
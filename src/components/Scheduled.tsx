@@ -0,0 +1,214 @@
+/**
+ * Scheduled.tsx - Scheduled Posts and Drafts Page
+ *
+ * Lists the posts the active account has scheduled, soonest first, with
+ * their status, and the drafts it has saved. Scheduled posts can be edited,
+ * posted right away or deleted; missed and failed ones wait here for the
+ * user to decide. Drafts open in the composer to finish them.
+ *
+ * For Rust Backend Integration:
+ * - Scheduled posts are created through create_post or create_reply by the
+ *   scheduler while the app is running (see stores/scheduler)
+ */
+
+import React from 'react';
+import {
+  ArrowPathRoundedSquareIcon,
+  ChatBubbleOvalLeftIcon,
+  PaperAirplaneIcon,
+  PencilSquareIcon,
+  TrashIcon
+} from '@heroicons/react/24/outline';
+import type { PostDraft, ScheduledPost } from '../types/models';
+import { useSession } from '../context/SessionContext';
+import { openComposer } from '../stores/composer-store';
+import { draftsStore, useDrafts } from '../stores/drafts-store';
+import { scheduler, useScheduledPosts } from '../stores/scheduler';
+
+const formatTime = (iso: string): string =>
+  new Date(iso).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+/**
+ * Line saying what a draft replies to or quotes, if anything
+ *
+ * @param draft - The draft
+ */
+const DraftTarget: React.FC<{ draft: PostDraft }> = ({ draft }) => {
+  if (draft.reply) {
+    return (
+      <p className="flex items-center text-xs text-gray-500 mb-1">
+        <ChatBubbleOvalLeftIcon className="h-4 w-4 mr-1" />
+        Reply to @{draft.reply.author.handle}
+      </p>
+    );
+  }
+  if (draft.quote) {
+    return (
+      <p className="flex items-center text-xs text-gray-500 mb-1">
+        <ArrowPathRoundedSquareIcon className="h-4 w-4 mr-1" />
+        Quoting @{draft.quote.author.handle}
+      </p>
+    );
+  }
+  return null;
+};
+
+/**
+ * Status line of a scheduled post
+ *
+ * @param post - The scheduled post
+ */
+const ScheduleStatusLine: React.FC<{ post: ScheduledPost }> = ({ post }) => {
+  switch (post.status) {
+    case 'sending':
+      return <p className="text-sm text-bluesky-600">Posting…</p>;
+    case 'missed':
+      return (
+        <p className="text-sm text-amber-600">
+          Missed: the app was closed at {formatTime(post.publish_at)}. Post it now or pick a new time.
+        </p>
+      );
+    case 'failed':
+      return <p className="text-sm text-red-600">Not posted: {post.error}</p>;
+    default:
+      return post.retry_at ? (
+        <p className="text-sm text-amber-600">
+          Attempt {post.attempts} failed ({post.error}); trying again at {formatTime(post.retry_at)}
+        </p>
+      ) : (
+        <p className="text-sm text-gray-500">Posts at {formatTime(post.publish_at)}</p>
+      );
+  }
+};
+
+/**
+ * Scheduled Component
+ *
+ * Renders a sign-in prompt while signed out.
+ */
+const Scheduled: React.FC = () => {
+  const { session } = useSession();
+  const { posts } = useScheduledPosts(session?.did);
+  const { drafts } = useDrafts(session?.did);
+
+  return (
+    <div className="min-h-screen px-4">
+      {/* Header */}
+      <div className="flex items-center justify-between py-3 px-4 sticky top-0 z-50 bg-white/80 backdrop-blur-md rounded-xl shadow-sm mb-4">
+        <h2 className="text-xl sm:text-2xl font-bold">Scheduled</h2>
+      </div>
+
+      {!session ? (
+        <p className="text-gray-500 text-center py-10">Sign in to schedule posts and keep drafts.</p>
+      ) : (
+        <>
+          {/* Scheduled posts */}
+          <section className="mb-8">
+            <h3 className="font-bold text-lg mb-1">Scheduled posts</h3>
+            <p className="text-sm text-gray-500 mb-3">Scheduled posts are only sent while HobbySky is running.</p>
+            {posts.length === 0 ? (
+              <p className="text-gray-500 text-sm">
+                Nothing scheduled. Pick a time with the clock button in the composer.
+              </p>
+            ) : (
+              <ul className="space-y-2">
+                {posts.map(post => {
+                  const isSending = post.status === 'sending';
+                  return (
+                    <li
+                      key={post.id}
+                      className={`px-4 py-3 rounded-xl border ${
+                        post.status === 'failed'
+                          ? 'border-red-200 bg-red-50'
+                          : post.status === 'missed'
+                            ? 'border-amber-200 bg-amber-50'
+                            : 'border-gray-200'
+                      }`}
+                    >
+                      <DraftTarget draft={post} />
+                      <p className="whitespace-pre-wrap break-words mb-1">{post.text}</p>
+                      <div className="flex items-end justify-between space-x-3">
+                        <ScheduleStatusLine post={post} />
+                        <div className="flex items-center space-x-1 flex-shrink-0">
+                          <button
+                            onClick={() => scheduler.publishNow(post.id)}
+                            disabled={isSending}
+                            className="icon bg-white hover:bg-gray-100 disabled:opacity-40"
+                            title="Post now"
+                          >
+                            <PaperAirplaneIcon className="h-5 w-5 text-bluesky-500" />
+                          </button>
+                          <button
+                            onClick={() => openComposer({ scheduled: post })}
+                            disabled={isSending}
+                            className="icon bg-white hover:bg-gray-100 disabled:opacity-40"
+                            title="Edit"
+                          >
+                            <PencilSquareIcon className="h-5 w-5 text-gray-500" />
+                          </button>
+                          <button
+                            onClick={() => scheduler.remove(post.id)}
+                            disabled={isSending}
+                            className="icon bg-white hover:bg-gray-100 disabled:opacity-40"
+                            title="Delete"
+                          >
+                            <TrashIcon className="h-5 w-5 text-gray-500" />
+                          </button>
+                        </div>
+                      </div>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </section>
+
+          {/* Drafts */}
+          <section className="mb-8">
+            <h3 className="font-bold text-lg mb-3">Drafts</h3>
+            {drafts.length === 0 ? (
+              <p className="text-gray-500 text-sm">
+                No drafts. Anything you write in the composer is kept here until you post it.
+              </p>
+            ) : (
+              <ul className="space-y-2">
+                {drafts.map(draft => (
+                  <li key={draft.id} className="px-4 py-3 rounded-xl border border-gray-200">
+                    <DraftTarget draft={draft} />
+                    <p className="whitespace-pre-wrap break-words mb-1">{draft.text}</p>
+                    {draft.thread && draft.thread.length > 0 && (
+                      <p className="text-sm text-gray-500 mb-1">
+                        Thread: {draft.thread.length} more {draft.thread.length === 1 ? 'post' : 'posts'}
+                      </p>
+                    )}
+                    <div className="flex items-end justify-between space-x-3">
+                      <p className="text-sm text-gray-500">Edited {formatTime(draft.updated_at)}</p>
+                      <div className="flex items-center space-x-1 flex-shrink-0">
+                        <button
+                          onClick={() => openComposer({ draft })}
+                          className="icon bg-white hover:bg-gray-100"
+                          title="Edit"
+                        >
+                          <PencilSquareIcon className="h-5 w-5 text-gray-500" />
+                        </button>
+                        <button
+                          onClick={() => draftsStore(session.did).remove(draft.id)}
+                          className="icon bg-white hover:bg-gray-100"
+                          title="Delete"
+                        >
+                          <TrashIcon className="h-5 w-5 text-gray-500" />
+                        </button>
+                      </div>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default Scheduled;
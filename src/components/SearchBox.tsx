@@ -0,0 +1,265 @@
+/**
+ * SearchBox.tsx - Search Input Component
+ *
+ * Search field with a suggestion dropdown, used in the widgets column and on
+ * the explore page. Submitting opens the explore page with the results.
+ *
+ * Features:
+ * - Account suggestions while typing, fetched once typing pauses; picking
+ *   one opens the profile
+ * - While typing a `from:` operator, picking an account completes it
+ * - With an empty field, saved and recent searches to run again
+ * - Arrow keys move through the suggestions, Enter picks one, Escape closes
+ *
+ * For Rust Backend Integration:
+ * - Suggestions come from search_actors_typeahead
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { BookmarkIcon, ClockIcon, MagnifyingGlassIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import type { Author } from '../types/models';
+import { client } from '../utils/bluesky-client';
+import { profilePath, searchPath } from '../utils/routes';
+import { useSession } from '../context/SessionContext';
+import { searchHistory, useSearchHistory } from '../stores/search-store';
+
+// Wait this long after the last keystroke before fetching suggestions, in ms
+const TYPEAHEAD_DELAY = 250;
+
+/**
+ * SearchBoxProps Interface
+ *
+ * @property initialQuery - Text the field starts with
+ * @property autoFocus - Whether to focus the field when shown
+ */
+interface SearchBoxProps {
+  initialQuery?: string;
+  autoFocus?: boolean;
+}
+
+// A row of the dropdown
+interface Suggestion {
+  key: string;
+  icon: React.ReactNode;
+  label: React.ReactNode;
+  pick: () => void;
+  remove?: () => void;
+}
+
+// What suggestions are fetched for: the whole text, or the value of a trailing `from:` operator
+const typeaheadTarget = (text: string): { prefix: string; operator: boolean } | null => {
+  const from = text.match(/(?:^|\s)from:@?(\S*)$/i);
+  if (from) return from[1] ? { prefix: from[1], operator: true } : null;
+  const trimmed = text.trim();
+  // Hashtags and operators are not names
+  if (!trimmed || /(^|\s)(#|\w+:)/.test(trimmed)) return null;
+  return { prefix: trimmed, operator: false };
+};
+
+const avatarOf = (author: Author) => author.avatar || `https://i.pravatar.cc/150?u=${author.handle}`;
+
+/**
+ * SearchBox Component
+ *
+ * @param initialQuery - Text the field starts with
+ * @param autoFocus - Whether to focus the field when shown
+ */
+const SearchBox: React.FC<SearchBoxProps> = ({ initialQuery = '', autoFocus = false }) => {
+  const navigate = useNavigate();
+  const { session } = useSession();
+  const { recent, saved } = useSearchHistory(session?.did);
+  const [text, setText] = useState(initialQuery);
+  const [isOpen, setIsOpen] = useState(false);
+  const [actors, setActors] = useState<Author[]>([]);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const target = typeaheadTarget(text);
+  const prefix = target?.prefix.toLowerCase();
+
+  // Fetch account suggestions once typing pauses
+  useEffect(() => {
+    if (!prefix) {
+      setActors([]);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      client
+        .searchActorsTypeahead(prefix)
+        .then(found => {
+          if (!cancelled) setActors(found);
+        })
+        .catch(err => console.warn('Failed to suggest accounts:', err));
+    }, TYPEAHEAD_DELAY);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [prefix]);
+
+  // Close on a click outside
+  useEffect(() => {
+    if (!isOpen) return;
+    const handlePointerDown = (e: PointerEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('pointerdown', handlePointerDown);
+    return () => document.removeEventListener('pointerdown', handlePointerDown);
+  }, [isOpen]);
+
+  const runSearch = (query: string) => {
+    const trimmed = query.trim();
+    if (!trimmed) return;
+    setText(trimmed);
+    setIsOpen(false);
+    inputRef.current?.blur();
+    navigate(searchPath(trimmed));
+  };
+
+  const openProfile = (actor: Author) => {
+    setIsOpen(false);
+    navigate(profilePath(actor.handle));
+  };
+
+  // Replace the trailing `from:` value with the account's handle
+  const completeOperator = (actor: Author) => {
+    setText(text.replace(/from:@?\S*$/i, `from:${actor.handle} `));
+    setActiveIndex(-1);
+    inputRef.current?.focus();
+  };
+
+  const history = searchHistory(session?.did);
+  const suggestions: Suggestion[] = text.trim()
+    ? [
+        ...(target?.operator
+          ? []
+          : [{
+              key: 'search',
+              icon: <MagnifyingGlassIcon className="h-5 w-5 text-gray-400" />,
+              label: <span>Search for “<span className="font-semibold">{text.trim()}</span>”</span>,
+              pick: () => runSearch(text)
+            }]),
+        ...(target ? actors : []).map(actor => ({
+          key: `actor:${actor.did}`,
+          icon: <img src={avatarOf(actor)} alt="" className="h-8 w-8 rounded-full" />,
+          label: (
+            <span className="min-w-0">
+              <span className="block font-semibold truncate">{actor.display_name || actor.handle}</span>
+              <span className="block text-xs text-gray-500 truncate">@{actor.handle}</span>
+            </span>
+          ),
+          pick: () => (target?.operator ? completeOperator(actor) : openProfile(actor))
+        }))
+      ]
+    : [
+        ...saved.map(query => ({
+          key: `saved:${query}`,
+          icon: <BookmarkIcon className="h-5 w-5 text-bluesky-500" />,
+          label: <span className="truncate">{query}</span>,
+          pick: () => runSearch(query)
+        })),
+        ...recent.map(query => ({
+          key: `recent:${query}`,
+          icon: <ClockIcon className="h-5 w-5 text-gray-400" />,
+          label: <span className="truncate">{query}</span>,
+          pick: () => runSearch(query),
+          remove: () => history.removeRecent(query)
+        }))
+      ];
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      setIsOpen(true);
+      if (suggestions.length === 0) return;
+      // Moving past either end goes back to the text field (-1)
+      const next = activeIndex + (e.key === 'ArrowDown' ? 1 : -1);
+      setActiveIndex(next >= suggestions.length ? -1 : next < -1 ? suggestions.length - 1 : next);
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      const active = suggestions[activeIndex];
+      if (isOpen && active) {
+        active.pick();
+      } else {
+        runSearch(text);
+      }
+    } else if (e.key === 'Escape') {
+      setIsOpen(false);
+    }
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <MagnifyingGlassIcon className="absolute left-3 top-3 h-5 w-5 text-gray-400" />
+      <input
+        ref={inputRef}
+        type="search"
+        value={text}
+        autoFocus={autoFocus}
+        onChange={(e) => {
+          setText(e.target.value);
+          setActiveIndex(-1);
+          setIsOpen(true);
+        }}
+        onFocus={() => setIsOpen(true)}
+        onKeyDown={handleKeyDown}
+        placeholder="Search Bluesky"
+        className="w-full bg-gray-100 rounded-full py-3 pl-10 pr-4 focus:outline-none focus:ring-2 focus:ring-bluesky-400 focus:bg-white border border-gray-200"
+        role="combobox"
+        aria-expanded={isOpen && suggestions.length > 0}
+        aria-autocomplete="list"
+      />
+
+      {isOpen && suggestions.length > 0 && (
+        <div
+          role="listbox"
+          className="absolute left-0 right-0 top-full mt-2 bg-white rounded-2xl shadow-lg border border-gray-100 py-2 z-50 max-h-96 overflow-y-auto"
+        >
+          {!text.trim() && recent.length > 0 && (
+            <div className="flex items-center justify-between px-4 py-1">
+              <p className="text-xs font-bold uppercase tracking-wide text-gray-400">
+                {saved.length > 0 ? 'Saved and recent' : 'Recent'}
+              </p>
+              <button
+                onClick={() => history.clearRecent()}
+                className="text-xs font-semibold text-bluesky-500 hover:underline"
+              >
+                Clear recent
+              </button>
+            </div>
+          )}
+          {suggestions.map((suggestion, i) => (
+            <div
+              key={suggestion.key}
+              role="option"
+              aria-selected={i === activeIndex}
+              onMouseEnter={() => setActiveIndex(i)}
+              onClick={suggestion.pick}
+              className={`flex items-center space-x-3 px-4 py-2 cursor-pointer ${i === activeIndex ? 'bg-gray-50' : ''}`}
+            >
+              <span className="flex-shrink-0">{suggestion.icon}</span>
+              <span className="flex-1 min-w-0 flex text-sm">{suggestion.label}</span>
+              {suggestion.remove && (
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    suggestion.remove?.();
+                  }}
+                  className="icon h-7 w-7 text-gray-400"
+                  aria-label="Remove from recent searches"
+                >
+                  <XMarkIcon className="h-4 w-4" />
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SearchBox;
@@ -3,12 +3,14 @@
  * 
  * This component displays the main navigation sidebar with links to different sections
  * of the Bluesky application. It also contains user authentication controls and 
- * the compose post button.
+ * the compose post button, which opens the composer (or asks to sign in first).
+ * The bell shows how many notifications are unread, the envelope how many
+ * direct messages.
  * 
  * For Rust Backend Integration:
  * - Handles user authentication with the Bluesky API
- * - Provides login/logout functionality
- * - Shows user profile information when logged in
+ * - Provides login/logout functionality for one or more accounts
+ * - Shows the signed-in accounts and switches between them
  */
 
 import React, { useState } from 'react';
@@ -20,36 +22,49 @@ import {
   EnvelopeIcon, 
   UserIcon, 
   Cog6ToothIcon,
-  PencilSquareIcon
+  PuzzlePieceIcon,
+  RssIcon,
+  ClockIcon,
+  PencilSquareIcon,
+  CheckIcon,
+  EllipsisHorizontalIcon,
+  UserPlusIcon,
+  ArrowRightStartOnRectangleIcon
 } from '@heroicons/react/24/outline';
-import { invoke } from '../utils/tauri-api';
-
-// Interface for Sidebar props
-interface SidebarProps {
-  session: string | null;
-  setSession: React.Dispatch<React.SetStateAction<string | null>>;
-}
+import { useSession } from '../context/SessionContext';
+import { openComposer } from '../stores/composer-store';
+import { useUnreadNotifications } from '../stores/notification-store';
+import { useUnreadMessages } from '../stores/chat-store';
 
 // Navigation item interface
 interface NavItem {
   name: string;
   icon: React.ReactNode;
   path: string;
+  // Count shown over the icon, e.g. of unread notifications
+  badge?: number;
 }
 
-const Sidebar: React.FC<SidebarProps> = ({ session, setSession }) => {
+const Sidebar: React.FC = () => {
   const location = useLocation();
+  const { session, accounts, profiles, login, logout, switchAccount } = useSession();
+  const [isAccountMenuOpen, setIsAccountMenuOpen] = useState(false);
   const [loginForm, setLoginForm] = useState({ identifier: '', password: '' });
   const [isLoginModalOpen, setIsLoginModalOpen] = useState(false);
   const [loginError, setLoginError] = useState<string | null>(null);
   const [isLoggingIn, setIsLoggingIn] = useState(false);
+  const { count: unreadCount } = useUnreadNotifications();
+  const { count: unreadMessageCount } = useUnreadMessages();
   
   // Navigation items
   const navItems: NavItem[] = [
     { name: 'Home', icon: <HomeIcon className="h-7 w-7" />, path: '/' },
     { name: 'Explore', icon: <MagnifyingGlassIcon className="h-7 w-7" />, path: '/explore' },
-    { name: 'Notifications', icon: <BellIcon className="h-7 w-7" />, path: '/notifications' },
-    { name: 'Messages', icon: <EnvelopeIcon className="h-7 w-7" />, path: '/messages' },
+    { name: 'Notifications', icon: <BellIcon className="h-7 w-7" />, path: '/notifications', badge: session ? unreadCount : 0 },
+    { name: 'Messages', icon: <EnvelopeIcon className="h-7 w-7" />, path: '/messages', badge: session ? unreadMessageCount : 0 },
+    { name: 'Feeds', icon: <RssIcon className="h-7 w-7" />, path: '/feeds' },
+    { name: 'Hobbies', icon: <PuzzlePieceIcon className="h-7 w-7" />, path: '/hobbies' },
+    { name: 'Scheduled', icon: <ClockIcon className="h-7 w-7" />, path: '/scheduled' },
     { name: 'Profile', icon: <UserIcon className="h-7 w-7" />, path: '/profile' },
     { name: 'Settings', icon: <Cog6ToothIcon className="h-7 w-7" />, path: '/settings' }
   ];
@@ -61,13 +76,8 @@ const Sidebar: React.FC<SidebarProps> = ({ session, setSession }) => {
     setIsLoggingIn(true);
     
     try {
-      const sessionData = await invoke<string>('login', {
-        service: 'https://bsky.social',
-        identifier: loginForm.identifier,
-        password: loginForm.password
-      });
+      await login(loginForm.identifier, loginForm.password);
       
-      setSession(sessionData);
       setIsLoginModalOpen(false);
       setLoginForm({ identifier: '', password: '' });
     } catch (err) {
@@ -84,11 +94,30 @@ const Sidebar: React.FC<SidebarProps> = ({ session, setSession }) => {
     setLoginForm(prev => ({ ...prev, [name]: value }));
   };
   
-  // Handle logout
+  // Handle logout of the active account; the next signed-in account takes over
   const handleLogout = () => {
-    setSession(null);
+    setIsAccountMenuOpen(false);
+    logout();
+  };
+  
+  // Make another signed-in account active
+  const handleSwitchAccount = (did: string) => {
+    setIsAccountMenuOpen(false);
+    switchAccount(did);
   };
   
+  // Open the login modal to sign in an additional account
+  const handleAddAccount = () => {
+    setIsAccountMenuOpen(false);
+    setIsLoginModalOpen(true);
+  };
+  
+  // Avatar and name for an account, falling back to the handle until its profile loads
+  const avatarFor = (did: string, handle: string) =>
+    profiles[did]?.avatar || `https://i.pravatar.cc/150?u=${handle}`;
+  const nameFor = (did: string, handle: string) =>
+    profiles[did]?.display_name || handle;
+  
   return (
     <div className="flex flex-col h-screen p-4 justify-between sticky top-0">
       {/* Logo */}
@@ -117,11 +146,21 @@ const Sidebar: React.FC<SidebarProps> = ({ session, setSession }) => {
                     : 'text-gray-700 hover:bg-gray-100'}
                 `}
               >
-                {React.cloneElement(item.icon as React.ReactElement, { 
-                  className: `${(item.icon as React.ReactElement).props.className} ${
-                    location.pathname === item.path ? 'text-bluesky-500' : ''
-                  }`
-                })}
+                <span className="relative">
+                  {React.cloneElement(item.icon as React.ReactElement, { 
+                    className: `${(item.icon as React.ReactElement).props.className} ${
+                      location.pathname === item.path ? 'text-bluesky-500' : ''
+                    }`
+                  })}
+                  {!!item.badge && (
+                    <span
+                      className="absolute -top-1.5 -right-2 min-w-[1.25rem] h-5 px-1 rounded-full bg-bluesky-500 border-2 border-white text-white text-[10px] font-bold flex items-center justify-center"
+                      aria-label={`${item.badge} unread`}
+                    >
+                      {item.badge > 99 ? '99+' : item.badge}
+                    </span>
+                  )}
+                </span>
                 <span className="hidden xl:inline-block">{item.name}</span>
               </Link>
             </li>
@@ -132,6 +171,7 @@ const Sidebar: React.FC<SidebarProps> = ({ session, setSession }) => {
       {/* Post Button */}
       <div className="my-4">
         <button
+          onClick={() => (session ? openComposer() : setIsLoginModalOpen(true))}
           className="w-full bg-bluesky-500 hover:bg-bluesky-600 text-white rounded-full p-3 font-bold flex items-center justify-center xl:justify-start space-x-2 transition-colors shadow-md hover:shadow-lg"
         >
           <PencilSquareIcon className="h-6 w-6" />
@@ -142,24 +182,69 @@ const Sidebar: React.FC<SidebarProps> = ({ session, setSession }) => {
       {/* User Account Section */}
       <div className="mt-auto mb-4">
         {session ? (
-          <div
-            className="flex items-center justify-between p-3 rounded-full hover:bg-gray-100 cursor-pointer"
-            onClick={handleLogout}
-          >
-            <div className="flex items-center space-x-2">
-              <img 
-                src="https://i.pravatar.cc/150?img=3" 
-                alt="Your Profile" 
-                className="h-10 w-10 rounded-full"
-              />
-              <div className="hidden xl:block">
-                <p className="font-bold text-sm">Your Name</p>
-                <p className="text-gray-500 text-xs">@yourhandle</p>
+          <div className="relative">
+            {/* Account switcher menu */}
+            {isAccountMenuOpen && (
+              <div className="absolute bottom-full left-0 mb-2 w-72 bg-white rounded-2xl shadow-lg border border-gray-100 py-2 z-50">
+                {accounts.map(account => (
+                  <button
+                    key={account.did}
+                    onClick={() => handleSwitchAccount(account.did)}
+                    className="w-full flex items-center justify-between px-4 py-2 hover:bg-gray-50 text-left"
+                  >
+                    <div className="flex items-center space-x-2 min-w-0">
+                      <img 
+                        src={avatarFor(account.did, account.handle)} 
+                        alt={account.handle} 
+                        className="h-9 w-9 rounded-full"
+                      />
+                      <div className="min-w-0">
+                        <p className="font-bold text-sm truncate">{nameFor(account.did, account.handle)}</p>
+                        <p className="text-gray-500 text-xs truncate">@{account.handle}</p>
+                      </div>
+                    </div>
+                    {account.did === session.did && (
+                      <CheckIcon className="h-5 w-5 text-bluesky-500 flex-shrink-0" />
+                    )}
+                  </button>
+                ))}
+                
+                <div className="border-t border-gray-100 my-2"></div>
+                
+                <button
+                  onClick={handleAddAccount}
+                  className="w-full flex items-center space-x-2 px-4 py-2 hover:bg-gray-50 text-sm"
+                >
+                  <UserPlusIcon className="h-5 w-5" />
+                  <span>Add another account</span>
+                </button>
+                <button
+                  onClick={handleLogout}
+                  className="w-full flex items-center space-x-2 px-4 py-2 hover:bg-gray-50 text-sm text-red-500"
+                >
+                  <ArrowRightStartOnRectangleIcon className="h-5 w-5" />
+                  <span>Log out @{session.handle}</span>
+                </button>
+              </div>
+            )}
+            
+            <div
+              className="flex items-center justify-between p-3 rounded-full hover:bg-gray-100 cursor-pointer"
+              onClick={() => setIsAccountMenuOpen(!isAccountMenuOpen)}
+            >
+              <div className="flex items-center space-x-2 min-w-0">
+                <img 
+                  src={avatarFor(session.did, session.handle)} 
+                  alt="Your Profile" 
+                  className="h-10 w-10 rounded-full"
+                />
+                <div className="hidden xl:block min-w-0">
+                  <p className="font-bold text-sm truncate">{nameFor(session.did, session.handle)}</p>
+                  <p className="text-gray-500 text-xs truncate">@{session.handle}</p>
+                </div>
               </div>
+              <EllipsisHorizontalIcon className="h-5 w-5 text-gray-500 hidden xl:block" />
             </div>
-            <button className="text-sm text-red-500 hover:text-red-600 hidden xl:block">
-              Logout
-            </button>
           </div>
         ) : (
           <button
@@ -176,7 +261,9 @@ const Sidebar: React.FC<SidebarProps> = ({ session, setSession }) => {
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
           <div className="bg-white rounded-2xl p-6 w-full max-w-md">
             <div className="flex justify-between items-center mb-6">
-              <h3 className="text-xl font-bold">Sign in to Bluesky</h3>
+              <h3 className="text-xl font-bold">
+                {session ? 'Add another account' : 'Sign in to Bluesky'}
+              </h3>
               <button 
                 onClick={() => setIsLoginModalOpen(false)}
                 className="text-gray-500 hover:text-gray-700"
@@ -15,6 +15,7 @@
 import React, { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { ChatBubbleOvalLeftIcon, ArrowPathRoundedSquareIcon, HeartIcon, ShareIcon } from '@heroicons/react/24/outline';
+import { embedImages, type PostData } from '../types/models';
 
 /**
  * TweetProps Interface
@@ -24,15 +25,7 @@ import { ChatBubbleOvalLeftIcon, ArrowPathRoundedSquareIcon, HeartIcon, ShareIco
  * @property tweet - The tweet data object with all required fields
  */
 interface TweetProps {
-  tweet: {
-    id: number;
-    name: string;
-    username: string;
-    userImg: string;
-    img?: string;
-    text: string;
-    timestamp: string;
-  };
+  tweet: PostData;
 }
 
 /**
@@ -49,7 +42,8 @@ const Tweet: React.FC<TweetProps> = ({ tweet }) => {
   
   // Local state for like functionality
   const [liked, setLiked] = useState(false);
-  const [likeCount, setLikeCount] = useState(35);
+  const [likeCount, setLikeCount] = useState(tweet.likes_count);
+  const image = embedImages(tweet.embed)[0];
 
   /**
    * Handle the like button click
@@ -106,7 +100,7 @@ const Tweet: React.FC<TweetProps> = ({ tweet }) => {
       <div className="flex space-x-4">
         {/* User Profile Picture */}
         <img
-          src={tweet.userImg}
+          src={tweet.author.avatar || `https://i.pravatar.cc/150?u=${tweet.author.handle}`}
           alt="Profile Picture"
           className="h-12 w-12 rounded-full border-2 border-white shadow-sm"
         />
@@ -114,20 +108,20 @@ const Tweet: React.FC<TweetProps> = ({ tweet }) => {
         <div className="flex-1">
           {/* User Info and Timestamp */}
           <div className="flex items-center space-x-1 whitespace-nowrap">
-            <h4 className="font-bold text-[15px] sm:text-base">{tweet.name}</h4>
-            <span className="text-sm sm:text-[15px] text-gray-500">@{tweet.username}</span>
-            <span className="text-sm sm:text-[15px] text-gray-500">· {tweet.timestamp}</span>
+            <h4 className="font-bold text-[15px] sm:text-base">{tweet.author.display_name}</h4>
+            <span className="text-sm sm:text-[15px] text-gray-500">@{tweet.author.handle}</span>
+            <span className="text-sm sm:text-[15px] text-gray-500">· {tweet.created_at}</span>
           </div>
           
           {/* Tweet Text Content */}
           <p className="text-gray-900 text-[15px] sm:text-base my-2">{tweet.text}</p>
           
           {/* Optional Tweet Image */}
-          {tweet.img && (
+          {image && (
             <div className="rounded-xl overflow-hidden mt-3 mb-2 shadow-sm">
               <img
-                src={tweet.img}
-                alt="Tweet image"
+                src={image.thumb}
+                alt={image.alt || "Tweet image"}
                 className="w-full max-h-80 object-cover"
               />
             </div>
@@ -140,7 +134,7 @@ const Tweet: React.FC<TweetProps> = ({ tweet }) => {
               <div className="icon group-hover:bg-blue-100">
                 <ChatBubbleOvalLeftIcon className="h-5 group-hover:text-blue-400" />
               </div>
-              <span className="group-hover:text-blue-400 text-sm">5</span>
+              <span className="group-hover:text-blue-400 text-sm">{tweet.replies_count}</span>
             </div>
             
             {/* Retweet Button */}
@@ -148,7 +142,7 @@ const Tweet: React.FC<TweetProps> = ({ tweet }) => {
               <div className="icon group-hover:bg-green-100">
                 <ArrowPathRoundedSquareIcon className="h-5 group-hover:text-green-500" />
               </div>
-              <span className="group-hover:text-green-500 text-sm">12</span>
+              <span className="group-hover:text-green-500 text-sm">{tweet.reposts_count}</span>
             </div>
             
             {/* Like Button - with active state styling */}
@@ -0,0 +1,87 @@
+/**
+ * WhoToFollow.tsx - Suggested Accounts Page Component
+ *
+ * Accounts suggested to follow, opened from "Show more" under the widget of
+ * the same name. Each can be followed from the list.
+ *
+ * For Rust Backend Integration:
+ * - Accounts come from get_suggestions (see stores/suggestion-store)
+ * - Following calls follow_actor and unfollow_actor (see components/FollowButton)
+ */
+
+import React, { useEffect } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { ArrowLeftIcon } from '@heroicons/react/24/outline';
+import { profilePath } from '../utils/routes';
+import { useSession } from '../context/SessionContext';
+import { suggestedFollows } from '../stores/suggestion-store';
+import { usePaginatedList } from '../stores/paginated-list';
+import FollowButton from './FollowButton';
+import ListFooter from './ListFooter';
+
+/**
+ * WhoToFollow Component
+ */
+const WhoToFollow: React.FC = () => {
+  const navigate = useNavigate();
+  const { session } = useSession();
+  const list = suggestedFollows(session?.did);
+  const { items, loaded, status } = usePaginatedList(list);
+
+  // Load the suggestions, unless they were loaded recently
+  useEffect(() => {
+    list.load();
+  }, [list]);
+
+  return (
+    <div className="min-h-screen px-4">
+      {/* Header with back button */}
+      <div className="flex items-center py-3 px-4 sticky top-0 z-50 bg-white/80 backdrop-blur-md rounded-xl shadow-sm mb-4">
+        <button onClick={() => navigate(-1)} className="icon mr-4" aria-label="Back">
+          <ArrowLeftIcon className="h-5 w-5" />
+        </button>
+        <h2 className="text-xl font-bold">Who to follow</h2>
+      </div>
+
+      {!loaded && status !== 'error' ? (
+        <div className="flex justify-center items-center h-32">
+          <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-bluesky-500"></div>
+        </div>
+      ) : (
+        <div className="pb-20">
+          {loaded && items.length === 0 && (
+            <div className="text-center py-12 text-gray-500">No one to suggest right now.</div>
+          )}
+          {items.map(profile => (
+            <Link key={profile.did} to={profilePath(profile.handle)} className="tweet-card mb-4 flex items-start space-x-3">
+              <img
+                src={profile.avatar || `https://i.pravatar.cc/150?u=${profile.handle}`}
+                alt={profile.handle}
+                className="h-12 w-12 rounded-full flex-shrink-0"
+              />
+              <div className="min-w-0 flex-1">
+                <div className="flex items-center space-x-2">
+                  <span className="font-bold truncate">{profile.display_name || profile.handle}</span>
+                  {profile.viewer?.followed_by && (
+                    <span className="px-2 py-0.5 rounded bg-gray-100 text-xs font-semibold text-gray-600 flex-shrink-0">Follows you</span>
+                  )}
+                </div>
+                <p className="text-gray-500 text-sm truncate">@{profile.handle}</p>
+                {profile.description && <p className="text-sm text-gray-700 mt-1 line-clamp-2">{profile.description}</p>}
+              </div>
+              <FollowButton profile={profile} />
+            </Link>
+          ))}
+
+          <ListFooter
+            list={list}
+            errorFallback="Failed to load suggestions."
+            onRetry={() => (loaded ? list.loadMore() : list.load())}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WhoToFollow;
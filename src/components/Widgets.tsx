@@ -2,48 +2,86 @@
  * Widgets.tsx - Widgets Component
  * 
  * This component displays the right sidebar widgets including search,
- * trending topics/feeds, and suggested accounts to follow.
+ * trending feeds, and suggested accounts to follow.
  * These widgets provide additional functionality and discovery options
  * for the Bluesky social network.
  * 
+ * Both lists are cached per account (see stores/suggestion-store), so moving
+ * between pages does not fetch them again; "Show more" opens the full lists.
+ * 
  * For Rust Backend Integration:
- * - Trending feeds could be fetched from the Bluesky API
- * - Suggested accounts could be fetched based on user interests
- * - Search would query the Bluesky API for posts/users
+ * - Trending feeds come from get_suggested_feeds, those about the user's
+ *   hobbies first, and can be pinned (see components/FeedRow)
+ * - Suggested accounts come from get_suggestions and can be followed
+ *   (see components/FollowButton)
+ * - Searching opens the explore page (see components/SearchBox)
  */
 
-import React from 'react';
-import { MagnifyingGlassIcon } from '@heroicons/react/24/outline';
+import React, { useEffect } from 'react';
+import { Link, useLocation } from 'react-router-dom';
+import { profilePath } from '../utils/routes';
+import { useSession } from '../context/SessionContext';
+import { suggestedFeeds, suggestedFollows } from '../stores/suggestion-store';
+import { usePaginatedList, type PaginatedListState } from '../stores/paginated-list';
+import FeedRow from './FeedRow';
+import FollowButton from './FollowButton';
+import SearchBox from './SearchBox';
+
+// Number of feeds and accounts shown in the widgets
+const WIDGET_FEEDS = 4;
+const WIDGET_ACCOUNTS = 3;
+
+/**
+ * WidgetStatus Component
+ *
+ * Spinner while a list loads for the first time, or its error with a retry.
+ */
+const WidgetStatus: React.FC<{ state: PaginatedListState<unknown>; onRetry: () => void }> = ({ state, onRetry }) => {
+  if (state.status === 'loading' && !state.loaded) {
+    return (
+      <div className="flex justify-center p-6">
+        <div className="animate-spin rounded-full h-6 w-6 border-t-2 border-b-2 border-bluesky-500"></div>
+      </div>
+    );
+  }
+  if (state.status === 'error' && state.items.length === 0) {
+    return (
+      <div className="p-4 text-sm">
+        <p className="text-red-600 mb-2">{state.error ?? 'Failed to load.'}</p>
+        <button onClick={onRetry} className="font-semibold text-bluesky-500 hover:underline">
+          Try again
+        </button>
+      </div>
+    );
+  }
+  return null;
+};
 
 const Widgets: React.FC = () => {
-  // Sample trending feeds
-  const trendingFeeds = [
-    { id: 1, name: "What's Hot", description: 'Popular posts from across Bluesky', imageUrl: 'https://i.pravatar.cc/150?img=1' },
-    { id: 2, name: 'In My Network', description: 'Posts popular among people you follow', imageUrl: 'https://i.pravatar.cc/150?img=2' },
-    { id: 3, name: 'Developer', description: 'Topics and posts from the developer community', imageUrl: 'https://i.pravatar.cc/150?img=3' },
-    { id: 4, name: 'Photography', description: 'Beautiful images from Bluesky photographers', imageUrl: 'https://i.pravatar.cc/150?img=4' },
-  ];
-  
-  // Sample suggested accounts
-  const suggestedAccounts = [
-    { id: 1, name: 'Bluesky', handle: 'bsky.app', avatar: 'https://i.pravatar.cc/150?img=10' },
-    { id: 2, name: 'Jay Graber', handle: 'jay.bsky.social', avatar: 'https://i.pravatar.cc/150?img=11' },
-    { id: 3, name: 'Paul Frazee', handle: 'pfrazee.com', avatar: 'https://i.pravatar.cc/150?img=12' },
-  ];
-  
+  const { session } = useSession();
+  // The explore page has its own search field
+  const isExploring = useLocation().pathname === '/explore';
+  const feedList = suggestedFeeds(session?.did);
+  const followList = suggestedFollows(session?.did);
+  const feeds = usePaginatedList(feedList);
+  const follows = usePaginatedList(followList);
+
+  // Load both lists, unless they were loaded recently
+  useEffect(() => {
+    feedList.load();
+  }, [feedList]);
+  useEffect(() => {
+    followList.load();
+  }, [followList]);
+
   return (
     <div className="px-6 py-4">
       {/* Search Bar */}
-      <div className="sticky top-0 py-2 z-10 bg-white">
-        <div className="relative">
-          <MagnifyingGlassIcon className="absolute left-3 top-3 h-5 w-5 text-gray-400" />
-          <input
-            type="text"
-            placeholder="Search Bluesky"
-            className="w-full bg-gray-100 rounded-full py-3 pl-10 pr-4 focus:outline-none focus:ring-2 focus:ring-bluesky-400 focus:bg-white border border-gray-200"
-          />
+      {!isExploring && (
+        <div className="sticky top-0 py-2 z-10 bg-white">
+          <SearchBox />
         </div>
-      </div>
+      )}
       
       {/* Trending Feeds */}
       <div className="widget-card mt-6">
@@ -52,23 +90,21 @@ const Widgets: React.FC = () => {
         </div>
         
         <div className="divide-y divide-gray-100">
-          {trendingFeeds.map(feed => (
-            <div key={feed.id} className="p-4 hover:bg-gray-50 transition-colors duration-200 cursor-pointer">
-              <div className="flex items-center space-x-3">
-                <div className="h-12 w-12 rounded-full overflow-hidden">
-                  <img src={feed.imageUrl} alt={feed.name} className="h-full w-full object-cover" />
-                </div>
-                <div>
-                  <h3 className="font-bold">{feed.name}</h3>
-                  <p className="text-sm text-gray-500">{feed.description}</p>
-                </div>
-              </div>
+          <WidgetStatus state={feeds} onRetry={() => feedList.load()} />
+          {feeds.loaded && feeds.items.length === 0 && (
+            <p className="p-4 text-sm text-gray-500">No feeds to suggest right now.</p>
+          )}
+          {feeds.items.slice(0, WIDGET_FEEDS).map(feed => (
+            <div key={feed.uri} className="p-4 hover:bg-gray-50 transition-colors duration-200">
+              <FeedRow feed={feed} compact />
             </div>
           ))}
           
-          <div className="p-4 text-bluesky-500 hover:bg-gray-50 transition-colors duration-200 cursor-pointer">
-            <span className="font-semibold">Show more</span>
-          </div>
+          {feeds.items.length > 0 && (
+            <Link to="/feeds" className="block p-4 text-bluesky-500 hover:bg-gray-50 transition-colors duration-200">
+              <span className="font-semibold">Show more</span>
+            </Link>
+          )}
         </div>
       </div>
       
@@ -79,28 +115,40 @@ const Widgets: React.FC = () => {
         </div>
         
         <div className="divide-y divide-gray-100">
-          {suggestedAccounts.map(account => (
-            <div key={account.id} className="p-4 hover:bg-gray-50 transition-colors duration-200 cursor-pointer">
-              <div className="flex items-center justify-between">
-                <div className="flex items-center space-x-3">
-                  <div className="h-10 w-10 rounded-full overflow-hidden">
-                    <img src={account.avatar} alt={account.name} className="h-full w-full object-cover" />
+          <WidgetStatus state={follows} onRetry={() => followList.load()} />
+          {follows.loaded && follows.items.length === 0 && (
+            <p className="p-4 text-sm text-gray-500">No one to suggest right now.</p>
+          )}
+          {follows.items.slice(0, WIDGET_ACCOUNTS).map(account => (
+            <Link
+              key={account.did}
+              to={profilePath(account.handle)}
+              className="block p-4 hover:bg-gray-50 transition-colors duration-200"
+            >
+              <div className="flex items-center justify-between space-x-3">
+                <div className="flex items-center space-x-3 min-w-0">
+                  <div className="h-10 w-10 rounded-full overflow-hidden flex-shrink-0">
+                    <img
+                      src={account.avatar || `https://i.pravatar.cc/150?u=${account.handle}`}
+                      alt={account.handle}
+                      className="h-full w-full object-cover"
+                    />
                   </div>
-                  <div>
-                    <h3 className="font-bold">{account.name}</h3>
-                    <p className="text-sm text-gray-500">@{account.handle}</p>
+                  <div className="min-w-0">
+                    <h3 className="font-bold truncate">{account.display_name || account.handle}</h3>
+                    <p className="text-sm text-gray-500 truncate">@{account.handle}</p>
                   </div>
                 </div>
-                <button className="btn-primary bg-bluesky-500 hover:bg-bluesky-600 text-sm py-1.5 px-4">
-                  Follow
-                </button>
+                <FollowButton profile={account} size="sm" />
               </div>
-            </div>
+            </Link>
           ))}
           
-          <div className="p-4 text-bluesky-500 hover:bg-gray-50 transition-colors duration-200 cursor-pointer">
-            <span className="font-semibold">Show more</span>
-          </div>
+          {follows.items.length > 0 && (
+            <Link to="/suggestions" className="block p-4 text-bluesky-500 hover:bg-gray-50 transition-colors duration-200">
+              <span className="font-semibold">Show more</span>
+            </Link>
+          )}
         </div>
       </div>
       
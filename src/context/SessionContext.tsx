@@ -0,0 +1,102 @@
+/**
+ * SessionContext.tsx - Current Account Context
+ *
+ * Exposes the signed-in accounts to the component tree so components no longer
+ * receive the session as a prop. Sessions live in the shared client, which
+ * persists them, restores them on launch and refreshes them when they expire;
+ * this provider mirrors them into React state and loads each account's profile
+ * for display in the account switcher and composer.
+ *
+ * Usage:
+ *   const { session, accounts, switchAccount } = useSession();
+ */
+
+import React, { createContext, useContext, useEffect, useRef, useState } from 'react';
+import { client } from '../utils/bluesky-client';
+import type { AccountsState } from '../utils/session';
+import type { Profile, Session } from '../types/models';
+
+/**
+ * SessionContextValue Interface
+ *
+ * @property session - The active account's session, or null when signed out
+ * @property accounts - Every signed-in account's session
+ * @property profiles - Profiles of the signed-in accounts keyed by DID, once loaded
+ * @property login - Sign in an additional account and make it active
+ * @property logout - Sign out an account (the active one by default)
+ * @property switchAccount - Make another signed-in account active
+ * @property setProfile - Replace a signed-in account's profile, e.g. after it was edited
+ */
+interface SessionContextValue {
+  session: Session | null;
+  accounts: Session[];
+  profiles: Record<string, Profile>;
+  login: (identifier: string, password: string) => Promise<Session>;
+  logout: (did?: string) => void;
+  switchAccount: (did: string) => void;
+  setProfile: (profile: Profile) => void;
+}
+
+const SessionContext = createContext<SessionContextValue | null>(null);
+
+/**
+ * SessionProvider Component
+ *
+ * Wraps the application and keeps the accounts in sync with the client.
+ */
+export const SessionProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [state, setState] = useState<AccountsState>(() => client.getAccounts());
+  const [profiles, setProfiles] = useState<Record<string, Profile>>({});
+  // DIDs whose profile has been requested, so each is only fetched once
+  const requested = useRef(new Set<string>());
+
+  // Follow sign in, token refresh, switching and sign out, including a failed refresh
+  useEffect(() => client.onAccountsChange(setState), []);
+
+  // Load the profile of any account we have not seen yet
+  useEffect(() => {
+    // Forget accounts that were signed out, so signing them back in loads them again
+    const signedIn = new Set(state.sessions.map(session => session.did));
+    requested.current.forEach(did => {
+      if (!signedIn.has(did)) requested.current.delete(did);
+    });
+
+    state.sessions
+      .filter(session => !requested.current.has(session.did))
+      .forEach(async session => {
+        requested.current.add(session.did);
+        try {
+          const profile = await client.getProfile(session.did);
+          setProfiles(prev => ({ ...prev, [profile.did]: profile }));
+        } catch (err) {
+          console.error(`Failed to load profile for ${session.handle}:`, err);
+          requested.current.delete(session.did);
+        }
+      });
+  }, [state.sessions]);
+
+  const value: SessionContextValue = {
+    session: state.sessions.find(s => s.did === state.activeDid) ?? null,
+    accounts: state.sessions,
+    profiles,
+    login: client.login,
+    logout: client.logout,
+    switchAccount: client.switchAccount,
+    setProfile: (profile) => setProfiles(prev => ({ ...prev, [profile.did]: profile }))
+  };
+
+  return <SessionContext.Provider value={value}>{children}</SessionContext.Provider>;
+};
+
+/**
+ * Access the signed-in accounts
+ *
+ * Must be used inside a SessionProvider.
+ */
+export const useSession = (): SessionContextValue => {
+  const value = useContext(SessionContext);
+  if (!value) {
+    throw new Error('useSession must be used inside a SessionProvider');
+  }
+  return value;
+};
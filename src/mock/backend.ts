@@ -0,0 +1,1355 @@
+/**
+ * backend.ts - In-memory mock of the Rust backend
+ *
+ * Implements every backend command against a small fake AT Protocol network
+ * seeded from `./fixtures`. It lets the whole app run in a plain browser
+ * (`npm run dev`) and gives automated UI tests a deterministic backend.
+ *
+ * Features:
+ * - Login with any fixture handle or email and `MOCK_PASSWORD`
+ * - Access tokens expire after `accessTokenTtl` and can be refreshed
+ * - Created posts appear at the top of the timeline, which is cursor-paginated
+ * - Reposts appear in the timeline, and quotes show deleted or blocked posts as tombstones
+ * - Post search by word, hashtag, author, date and language; account search with
+ *   typeahead; custom feeds from `fixtureFeeds`, which can be searched too
+ * - Feeds are suggested most liked first, and accounts to follow by how many
+ *   of the viewer's follows follow them; each account has a saved feeds preference
+ * - Uploaded images are kept in memory and served back as data URLs
+ * - Likes and reposts are stored per account and reflected in counts and viewer state
+ * - Threads come back as a parent chain and a reply tree, sorted per level
+ * - Profiles list their posts, replies and media; accounts follow each other
+ *   from `follows` in the fixtures and can edit their own profile
+ * - Notifications are derived from the likes, reposts, follows, replies, quotes
+ *   and mentions of each account; those of the last hours start out unread
+ * - A chat service with the conversations in `fixtureConversations`; the other
+ *   member answers each message after `chatReplyDelay`
+ * - Each account has a hobbies record that can be read by anyone and written by its owner
+ * - Optional simulated activity: other accounts post every `activityInterval`
+ * - Configurable latency and error injection
+ *
+ * Usage:
+ *   const backend = createMockBackend({ latency: 300, errorRate: 0.1 });
+ *   setBackend(backend);
+ */
+
+import type { Backend, CommandArgs, CommandName, CommandResult } from '../utils/commands';
+import {
+  embedMedia,
+  toEmbeddedPost,
+  uriDid,
+  type Author,
+  type ChatMessage,
+  type Conversation,
+  type Embed,
+  type EmbeddedRecord,
+  type FeedGenerator,
+  type Facet,
+  type FeedReason,
+  type HobbyPreferences,
+  type ImageUpload,
+  type NotificationData,
+  type NotificationReason,
+  type Page,
+  type PostData,
+  type Profile,
+  type ProfileImageChange,
+  type ReplyRef,
+  type SavedFeed,
+  type Session,
+  type StrongRef,
+  type ThreadNode
+} from '../types/models';
+import { HOBBY_CATALOG, postHashtags } from '../utils/hobbies';
+import { isEmptySearchQuery, parseSearchQuery, searchTerms } from '../utils/search';
+import {
+  detectFacets,
+  graphemeLength,
+  MAX_DESCRIPTION_GRAPHEMES,
+  MAX_DISPLAY_NAME_GRAPHEMES,
+  MAX_MESSAGE_GRAPHEMES,
+  MAX_POST_BYTES,
+  MAX_POST_GRAPHEMES,
+  utf8Length
+} from '../utils/rich-text';
+import { SELF_LABELS } from '../utils/labels';
+import { MAX_IMAGE_BYTES, MAX_IMAGES } from '../utils/images';
+import { formatTimestamp } from '../utils/time';
+import {
+  fixtureChatReplies,
+  fixtureConversations,
+  fixtureFeeds,
+  fixtureHobbies,
+  fixtureLivePosts,
+  fixturePosts,
+  fixtureUsers,
+  MOCK_PASSWORD,
+  type FixtureConversation,
+  type FixtureFeed,
+  type FixturePost,
+  type FixtureUser
+} from './fixtures';
+
+/**
+ * MockBackendOptions Interface
+ *
+ * @property latency - Delay before each response in ms, or a [min, max] range
+ * @property errorRate - Probability (0 to 1) that any command fails
+ * @property failingCommands - Commands that always fail
+ * @property accessTokenTtl - Lifetime of access tokens in ms (default 15 minutes)
+ * @property activityInterval - How often another account publishes a post, in ms (default 0, never)
+ * @property chatReplyDelay - How long the other member of a conversation takes to answer a message, in ms (default 0, never)
+ * @property seed - Whether to load the fixture network (default true)
+ * @property now - Clock used for timestamps, in ms since the epoch
+ * @property random - Source of randomness for latency and error injection
+ */
+export interface MockBackendOptions {
+  latency?: number | [number, number];
+  errorRate?: number;
+  failingCommands?: CommandName[];
+  accessTokenTtl?: number;
+  activityInterval?: number;
+  chatReplyDelay?: number;
+  seed?: boolean;
+  now?: () => number;
+  random?: () => number;
+}
+
+/**
+ * MockBackend Interface
+ *
+ * A backend that can also be reconfigured or reset, e.g. between tests.
+ */
+export interface MockBackend extends Backend {
+  configure(options: Pick<MockBackendOptions, 'latency' | 'errorRate' | 'failingCommands'>): void;
+  reset(): void;
+}
+
+// A post as stored by the mock, before it is shaped for the frontend
+interface StoredPost {
+  uri: string;
+  cid: string;
+  author: string;
+  text: string;
+  facets?: Facet[];
+  createdAt: number;
+  // Images attached to the post; quotes are kept in `quote` and shown as they are when read
+  embed?: Embed;
+  quote?: StrongRef;
+  reply?: ReplyRef;
+  langs?: string[];
+  labels?: string[];
+  // Like records keyed by the DID of the account that liked the post
+  likes: Map<string, StoredRecord>;
+  // Repost records keyed by the DID of the account that reposted the post
+  reposts: Map<string, StoredRecord>;
+}
+
+// A like or repost record
+interface StoredRecord {
+  uri: string;
+  createdAt: number;
+}
+
+// A notification before it is shaped for the frontend
+interface StoredNotification {
+  uri: string;
+  reason: NotificationReason;
+  author: string;
+  createdAt: number;
+  subject?: StoredPost;
+  post?: StoredPost;
+}
+
+// A direct message as stored by the chat service
+interface StoredMessage {
+  id: string;
+  rev: string;
+  text: string;
+  facets?: Facet[];
+  sender: string;
+  sentAt: number;
+}
+
+// A conversation of the chat service
+interface StoredConvo {
+  id: string;
+  members: string[];
+  // Oldest first
+  messages: StoredMessage[];
+  rev: string;
+  // DIDs of the members who left or muted it, and the revision each member has read up to
+  left: Set<string>;
+  muted: Set<string>;
+  readRev: Map<string, string>;
+}
+
+// An answer the chat service will send on behalf of a member
+interface ChatReply {
+  convoId: string;
+  sender: string;
+  dueAt: number;
+}
+
+// An item of the timeline: a post, or a repost of one
+interface TimelineEntry {
+  post: StoredPost;
+  createdAt: number;
+  repostedBy?: string;
+}
+
+interface MockState {
+  users: Map<string, FixtureUser>;
+  posts: Map<string, StoredPost>;
+  // Hobbies record keyed by the DID of the repo it lives in
+  hobbies: Map<string, HobbyPreferences>;
+  // Follow records of each account, keyed by the DID of the account followed
+  follows: Map<string, Map<string, StoredRecord>>;
+  // Saved feeds preference of each account, keyed by DID; absent until first written
+  savedFeeds: Map<string, SavedFeed[]>;
+  // Time up to which each account has read its notifications, keyed by DID
+  seenAt: Map<string, number>;
+  // Uploaded blobs as data URLs keyed by their ref
+  blobs: Map<string, string>;
+  // Conversations of the chat service keyed by id, the answers still to send and the next canned answer
+  convos: Map<string, StoredConvo>;
+  chatReplies: ChatReply[];
+  nextChatReply: number;
+  nextId: number;
+  // Time up to which simulated activity has been published, and the next live post to use
+  activityUntil: number;
+  nextLivePost: number;
+}
+
+// Signature of the handler for a single command
+type MockHandlers = {
+  [K in CommandName]: (args: CommandArgs<K>) => CommandResult<K>;
+};
+
+const MINUTE = 60 * 1000;
+
+// Most simulated posts published at once, e.g. after the machine was asleep
+const MAX_ACTIVITY_BURST = 20;
+
+// How far back notifications start out unread
+const UNREAD_WINDOW = 3 * 60 * MINUTE;
+
+// Saved feeds of an account that never changed them: just the home timeline, as in the official app
+const DEFAULT_SAVED_FEEDS: SavedFeed[] = [{ id: 'following', type: 'timeline', value: 'following', pinned: true }];
+
+// Tokens are self-describing so sessions stay valid across mock restarts:
+// `mock-access <did> <expiry>` and `mock-refresh <did>`
+const ACCESS_PREFIX = 'mock-access';
+const REFRESH_PREFIX = 'mock-refresh';
+
+/**
+ * Take one page from posts sorted newest first. The cursor is the creation
+ * time of the last post returned, so pages stay stable as new posts arrive.
+ */
+const paginate = <T extends { createdAt: number }>(
+  sorted: T[],
+  cursor: string | null,
+  limit: number
+): { items: T[]; cursor?: string } => {
+  const start = cursor ? sorted.filter(item => item.createdAt >= Number(cursor)).length : 0;
+  const items = sorted.slice(start, start + limit);
+  const hasMore = start + limit < sorted.length;
+  return { items, cursor: hasMore ? String(items[items.length - 1].createdAt) : undefined };
+};
+
+// One page of ranked results, where the cursor is the offset of the next item
+const offsetPage = <T>(ranked: T[], cursor: string | null, limit: number): { items: T[]; cursor?: string } => {
+  const start = cursor ? Number(cursor) || 0 : 0;
+  const items = ranked.slice(start, start + limit);
+  return { items, cursor: start + limit < ranked.length ? String(start + limit) : undefined };
+};
+
+const toAuthor = (user: FixtureUser): Author => ({
+  did: user.did,
+  handle: user.handle,
+  display_name: user.display_name,
+  avatar: user.avatar
+});
+
+/**
+ * Create a mock backend
+ *
+ * @param options - Latency, error injection and clock configuration
+ */
+export const createMockBackend = (options: MockBackendOptions = {}): MockBackend => {
+  const now = options.now ?? Date.now;
+  const random = options.random ?? Math.random;
+  let latency = options.latency ?? 0;
+  let errorRate = options.errorRate ?? 0;
+  let failingCommands = options.failingCommands ?? [];
+  const accessTokenTtl = options.accessTokenTtl ?? 15 * MINUTE;
+  const activityInterval = options.activityInterval ?? 0;
+  const chatReplyDelay = options.chatReplyDelay ?? 0;
+
+  let state: MockState = createState();
+
+  function createState(): MockState {
+    const fresh: MockState = {
+      users: new Map(),
+      posts: new Map(),
+      hobbies: new Map(),
+      follows: new Map(),
+      savedFeeds: new Map(),
+      seenAt: new Map(),
+      blobs: new Map(),
+      convos: new Map(),
+      chatReplies: [],
+      nextChatReply: 0,
+      nextId: 1,
+      activityUntil: now(),
+      nextLivePost: 0
+    };
+    fixtureUsers.forEach(user => fresh.users.set(user.did, user));
+    fixtureUsers.forEach(user => fresh.seenAt.set(user.did, now() - UNREAD_WINDOW));
+    fixtureUsers.forEach((user, i) =>
+      fresh.follows.set(
+        user.did,
+        new Map(
+          (user.follows ?? []).map((handle, j): [string, StoredRecord] => [
+            userByHandle(fresh, handle).did,
+            { uri: `at://${user.did}/app.bsky.graph.follow/3kmockf${i}${j}`, createdAt: now() - (i + j + 1) * 24 * 60 * MINUTE }
+          ])
+        )
+      )
+    );
+    if (options.seed !== false) {
+      const startedAt = now();
+      fixturePosts.forEach(post => seedPost(fresh, post, startedAt));
+      Object.entries(fixtureHobbies).forEach(([handle, ids]) =>
+        fresh.hobbies.set(userByHandle(fresh, handle).did, {
+          hobbies: ids.flatMap(id => (typeof id === 'string' ? HOBBY_CATALOG.filter(hobby => hobby.id === id) : [id])),
+          updated_at: new Date(startedAt - 30 * 24 * 60 * MINUTE).toISOString()
+        })
+      );
+      fixtureConversations.forEach((convo, i) => seedConvo(fresh, convo, i, startedAt));
+      fixtureFeeds.forEach(feed =>
+        (feed.pinnedBy ?? []).forEach(handle => {
+          const user = userByHandle(fresh, handle);
+          const owner = userByHandle(fresh, feed.owner);
+          fresh.savedFeeds.set(user.did, [
+            ...(fresh.savedFeeds.get(user.did) ?? DEFAULT_SAVED_FEEDS),
+            { id: `3kmocksf${feed.rkey}`, type: 'feed', value: `at://${owner.did}/app.bsky.feed.generator/${feed.rkey}`, pinned: true }
+          ]);
+        })
+      );
+    }
+    return fresh;
+  }
+
+  // Load a fixture conversation into the chat service
+  function seedConvo(target: MockState, fixture: FixtureConversation, index: number, startedAt: number) {
+    const messages = fixture.messages.map((message, i): StoredMessage => {
+      const sentAt = startedAt - message.minutesAgo * MINUTE;
+      return {
+        id: `3kmockm${index}${i}`,
+        rev: chatRev(sentAt, i),
+        text: message.text,
+        facets: fixtureFacets(target, message.text),
+        sender: userByHandle(target, message.from).did,
+        sentAt
+      };
+    });
+    const rev = messages[messages.length - 1]?.rev ?? chatRev(startedAt, 0);
+    const convo: StoredConvo = {
+      id: `3kmockc${index}`,
+      members: fixture.members.map(handle => userByHandle(target, handle).did),
+      messages,
+      rev,
+      left: new Set(),
+      muted: new Set(),
+      readRev: new Map()
+    };
+    // Members have read what they sent themselves, and everything when listed in `readBy`
+    convo.members.forEach(did => {
+      const read = fixture.readBy.some(handle => userByHandle(target, handle).did === did)
+        ? rev
+        : [...messages].reverse().find(message => message.sender === did)?.rev;
+      if (read) convo.readRev.set(did, read);
+    });
+    target.convos.set(convo.id, convo);
+  }
+
+  // Load a fixture post and its replies into the store
+  function seedPost(target: MockState, fixture: FixturePost, startedAt: number, reply?: ReplyRef) {
+    const author = userByHandle(target, fixture.author);
+    const uri = `at://${author.did}/app.bsky.feed.post/${fixture.rkey}`;
+    const cid = `bafymock${fixture.rkey}`;
+    const stored: StoredPost = {
+      uri,
+      cid,
+      author: author.did,
+      text: fixture.text,
+      facets: fixtureFacets(target, fixture.text),
+      createdAt: startedAt - fixture.minutesAgo * MINUTE,
+      reply,
+      langs: fixture.langs ?? ['en'],
+      likes: new Map(),
+      reposts: new Map()
+    };
+
+    if (fixture.images) {
+      stored.embed = {
+        type: 'images',
+        images: fixture.images.map(image => ({
+          thumb: `https://picsum.photos/seed/${image.seed}/${Math.round(image.width / 2)}/${Math.round(image.height / 2)}`,
+          fullsize: `https://picsum.photos/seed/${image.seed}/${image.width}/${image.height}`,
+          alt: image.alt,
+          aspect_ratio: { width: image.width, height: image.height }
+        }))
+      };
+    }
+
+    if (fixture.quote) {
+      const quoted = userByHandle(target, fixture.quote.author);
+      stored.quote = {
+        uri: `at://${quoted.did}/app.bsky.feed.post/${fixture.quote.rkey}`,
+        cid: `bafymock${fixture.quote.rkey}`
+      };
+    }
+
+    // Likes and reposts happened spread out between the post and now
+    const seedRecords = (handles: string[] | undefined, records: Map<string, StoredRecord>, collection: string) =>
+      (handles ?? []).forEach((handle, i, all) => {
+        const user = userByHandle(target, handle);
+        records.set(user.did, {
+          uri: `at://${user.did}/${collection}/${fixture.rkey}`,
+          createdAt: stored.createdAt + ((startedAt - stored.createdAt) * (i + 1)) / (all.length + 1)
+        });
+      });
+    seedRecords(fixture.likedBy, stored.likes, 'app.bsky.feed.like');
+    seedRecords(fixture.repostedBy, stored.reposts, 'app.bsky.feed.repost');
+
+    target.posts.set(uri, stored);
+
+    const ref = { uri, cid };
+    (fixture.replies ?? []).forEach(child =>
+      seedPost(target, child, startedAt, { root: reply?.root ?? ref, parent: ref })
+    );
+  }
+
+  // Facets as a client would have sent them, resolving mentions against the fixture users
+  function fixtureFacets(target: MockState, text: string): Facet[] | undefined {
+    const facets = detectFacets(text).flatMap((facet): Facet[] => {
+      const { feature } = facet;
+      if (feature.type !== 'mention_handle') return [{ index: facet.index, features: [feature] }];
+      const user = [...target.users.values()].find(u => u.handle === feature.handle);
+      return user ? [{ index: facet.index, features: [{ type: 'mention', did: user.did }] }] : [];
+    });
+    return facets.length > 0 ? facets : undefined;
+  }
+
+  function userByHandle(target: MockState, handle: string): FixtureUser {
+    const user = [...target.users.values()].find(u => u.handle === handle);
+    if (!user) throw new Error(`Unknown fixture user: ${handle}`);
+    return user;
+  }
+
+  const nextKey = () => `3kmock${(state.nextId++).toString(36).padStart(6, '0')}`;
+
+  // Chat revisions sort by time, then by `sequence` among messages sent at the same time
+  function chatRev(time: number, sequence: number): string {
+    return `${time.toString(36).padStart(10, '0')}${sequence.toString(36).padStart(6, '0')}`;
+  }
+
+  // Publish the live posts that would have appeared since the last command
+  const simulateActivity = () => {
+    if (activityInterval <= 0) return;
+    const due = Math.floor((now() - state.activityUntil) / activityInterval);
+    if (due > MAX_ACTIVITY_BURST) {
+      state.activityUntil += (due - MAX_ACTIVITY_BURST) * activityInterval;
+    }
+    for (let i = 0; i < Math.min(due, MAX_ACTIVITY_BURST); i++) {
+      state.activityUntil += activityInterval;
+      const live = fixtureLivePosts[state.nextLivePost++ % fixtureLivePosts.length];
+      const author = userByHandle(state, live.author);
+      const rkey = nextKey();
+      const uri = `at://${author.did}/app.bsky.feed.post/${rkey}`;
+      state.posts.set(uri, {
+        uri,
+        cid: `bafymock${rkey}`,
+        author: author.did,
+        text: live.text,
+        facets: fixtureFacets(state, live.text),
+        createdAt: state.activityUntil,
+        langs: ['en'],
+        likes: new Map(),
+        reposts: new Map()
+      });
+    }
+  };
+
+  // Send the chat answers that are due
+  const deliverChatReplies = () => {
+    const due = state.chatReplies.filter(reply => reply.dueAt <= now());
+    if (due.length === 0) return;
+    state.chatReplies = state.chatReplies.filter(reply => reply.dueAt > now());
+    due.forEach(reply => {
+      const convo = state.convos.get(reply.convoId);
+      if (!convo) return;
+      const text = fixtureChatReplies[state.nextChatReply++ % fixtureChatReplies.length];
+      storeMessage(convo, reply.sender, text, undefined, reply.dueAt);
+    });
+  };
+
+  // Issue a fresh session for an account
+  const createSession = (user: FixtureUser, service: string): Session => ({
+    access_jwt: `${ACCESS_PREFIX} ${user.did} ${now() + accessTokenTtl}`,
+    refresh_jwt: `${REFRESH_PREFIX} ${user.did}`,
+    did: user.did,
+    handle: user.handle,
+    service
+  });
+
+  // Resolve the account behind a session, rejecting unknown or expired tokens
+  const accountFor = (session: Session | null): string => {
+    const [prefix, did, expiresAt] = (session?.access_jwt ?? '').split(' ');
+    if (prefix !== ACCESS_PREFIX || !state.users.has(did)) {
+      throw 'InvalidToken: Invalid session, please sign in again';
+    }
+    if (Number(expiresAt) <= now()) {
+      throw 'ExpiredToken: Token has expired';
+    }
+    return did;
+  };
+
+  // Like accountFor, but anonymous access is allowed
+  const viewerFor = (session: Session | null): string | undefined =>
+    session ? accountFor(session) : undefined;
+
+  // Find an account by DID or handle
+  const findUser = (actor: string): FixtureUser => {
+    const id = actor.replace(/^@/, '').toLowerCase();
+    const user = state.users.get(actor) ?? [...state.users.values()].find(u => u.handle === id);
+    if (!user) throw `Profile not found: ${actor}`;
+    return user;
+  };
+
+  // Whether a post matches every word and operator of a search (see utils/search)
+  const matchesQuery = (post: StoredPost, query: string, viewer?: string): boolean => {
+    const parsed = parseSearchQuery(query);
+    if (isEmptySearchQuery(parsed)) return false;
+    if (parsed.from) {
+      const author = parsed.from === 'me' ? viewer : [...state.users.values()].find(u => u.handle === parsed.from || u.did === parsed.from)?.did;
+      if (post.author !== author) return false;
+    }
+    if (parsed.since && post.createdAt < Date.parse(parsed.since)) return false;
+    if (parsed.lang && !(post.langs ?? []).some(lang => lang.toLowerCase().split('-')[0] === parsed.lang?.split('-')[0])) {
+      return false;
+    }
+    const tags = postHashtags(post);
+    const text = post.text.toLowerCase();
+    return parsed.tags.every(tag => tags.has(tag)) && parsed.words.every(word => text.includes(word));
+  };
+
+  // How well an account matches the terms of a search, 0 when some term does not match
+  const actorScore = (user: FixtureUser, terms: string[]): number =>
+    terms.reduce((score, term) => {
+      const name = (user.display_name ?? '').toLowerCase();
+      const match = user.handle.startsWith(term)
+        ? 3
+        : name.split(/\s+/).some(word => word.startsWith(term))
+          ? 2
+          : user.handle.includes(term) || name.includes(term)
+            ? 1
+            : (user.description ?? '').toLowerCase().includes(term)
+              ? 0.5
+              : 0;
+      return match === 0 ? -Infinity : score + match;
+    }, 0);
+
+  const feedUri = (feed: FixtureFeed) => `at://${findUser(feed.owner).did}/app.bsky.feed.generator/${feed.rkey}`;
+
+  const toFeedGenerator = (feed: FixtureFeed): FeedGenerator => ({
+    uri: feedUri(feed),
+    cid: `bafymockfeed${feed.rkey}`,
+    creator: toAuthor(findUser(feed.owner)),
+    display_name: feed.name,
+    description: feed.description,
+    like_count: feed.likedBy?.length ?? 0
+  });
+
+  // Feed generators most liked first
+  const popularFeeds = (feeds: FixtureFeed[]): FeedGenerator[] =>
+    feeds
+      .map(toFeedGenerator)
+      .sort((a, b) => b.like_count - a.like_count || a.display_name.localeCompare(b.display_name));
+
+  const findPost = (uri: string): StoredPost => {
+    const post = state.posts.get(uri);
+    if (!post) throw `Post not found: ${uri}`;
+    return post;
+  };
+
+  // Find the post an account likes, reposts or quotes, which must not have changed since it was fetched
+  const findSubject = (subject: StrongRef, did: string): StoredPost => {
+    const post = findPost(subject.uri);
+    if (subject.cid !== post.cid) throw `InvalidSubject: ${subject.uri} has changed`;
+    if (blockedBetween(did, post.author)) throw `BlockedActor: cannot interact with ${subject.uri}`;
+    return post;
+  };
+
+  // Delete a like or repost record from an account's repo; deleting one that is already gone succeeds
+  const deleteRecord = (did: string, uri: string, records: (post: StoredPost) => Map<string, StoredRecord>) => {
+    if (uriDid(uri) !== did) throw `InvalidRequest: ${uri} is not in the repo of ${did}`;
+    const post = [...state.posts.values()].find(p => records(p).get(did)?.uri === uri);
+    if (post) records(post).delete(did);
+  };
+
+  // Create a like or repost record, or return the one the account already has
+  const createRecord = (did: string, records: Map<string, StoredRecord>, collection: string): string => {
+    const record = records.get(did) ?? { uri: `at://${did}/${collection}/${nextKey()}`, createdAt: now() };
+    records.set(did, record);
+    return record.uri;
+  };
+
+  // Whether either account blocks the other
+  const blockedBetween = (a: string, b: string): boolean => {
+    const blocks = (from: string, to: string) =>
+      (state.users.get(from)?.blocks ?? []).some(handle => userByHandle(state, handle).did === to);
+    return blocks(a, b) || blocks(b, a);
+  };
+
+  // A quoted post as the viewer sees it, or a tombstone when it is gone or blocked
+  const quoteView = (ref: StrongRef, viewer?: string): EmbeddedRecord => {
+    const quoted = state.posts.get(ref.uri);
+    if (!quoted) return { type: 'not_found', uri: ref.uri };
+    if (viewer && blockedBetween(viewer, quoted.author)) return { type: 'blocked', uri: ref.uri };
+    return { type: 'post', post: toEmbeddedPost(toPostData(quoted, viewer)) };
+  };
+
+  // The images of a post, next to the post it quotes if any
+  const embedView = (post: StoredPost, viewer?: string): Embed | undefined => {
+    if (!post.quote) return post.embed;
+    const record = quoteView(post.quote, viewer);
+    const media = embedMedia(post.embed);
+    return media ? { type: 'record_with_media', record, media } : { type: 'record', record };
+  };
+
+  // Shape a stored post as the backend would serialize it, with the account that reposted it into a feed
+  const toPostData = (post: StoredPost, viewer?: string, repostedBy?: string): PostData => {
+    const author = state.users.get(post.author);
+    if (!author) throw `Unknown author: ${post.author}`;
+    const replies = [...state.posts.values()].filter(p => p.reply?.parent.uri === post.uri);
+    return {
+      id: post.uri,
+      cid: post.cid,
+      author: toAuthor(author),
+      text: post.text,
+      facets: post.facets,
+      created_at: formatTimestamp(post.createdAt, now()),
+      embed: embedView(post, viewer),
+      reply: post.reply,
+      viewer: viewer ? { like: post.likes.get(viewer)?.uri, repost: post.reposts.get(viewer)?.uri } : undefined,
+      likes_count: post.likes.size,
+      reposts_count: post.reposts.size,
+      replies_count: replies.length,
+      labels: post.labels,
+      reason: repostedBy ? repostReason(post, repostedBy) : undefined
+    };
+  };
+
+  // Who reposted a post into a feed, and when
+  const repostReason = (post: StoredPost, did: string): FeedReason => {
+    const user = state.users.get(did);
+    const record = post.reposts.get(did);
+    if (!user || !record) throw `Unknown repost of ${post.uri} by ${did}`;
+    return { type: 'repost', by: toAuthor(user), indexed_at: formatTimestamp(record.createdAt, now()) };
+  };
+
+  // One page of timeline entries sorted newest first, shaped for the frontend
+  const entryPage = (sorted: TimelineEntry[], cursor: string | null, limit: number, viewer?: string): Page<PostData> => {
+    const page = paginate(sorted, cursor, limit);
+    return { items: page.items.map(entry => toPostData(entry.post, viewer, entry.repostedBy)), cursor: page.cursor };
+  };
+
+  // Follow records of an account, keyed by the DID of the account followed
+  const followsOf = (did: string): Map<string, StoredRecord> => {
+    let records = state.follows.get(did);
+    if (!records) {
+      records = new Map();
+      state.follows.set(did, records);
+    }
+    return records;
+  };
+
+  // Shape an account as the backend would serialize its profile for a viewer
+  const toProfile = (user: FixtureUser, viewer?: string): Profile => ({
+    ...toAuthor(user),
+    description: user.description,
+    description_facets: user.description ? fixtureFacets(state, user.description) : undefined,
+    banner: user.banner,
+    followers_count: [...state.follows.values()].filter(records => records.has(user.did)).length,
+    follows_count: followsOf(user.did).size,
+    posts_count: [...state.posts.values()].filter(post => post.author === user.did).length,
+    viewer: viewer
+      ? { following: followsOf(viewer).get(user.did)?.uri, followed_by: followsOf(user.did).get(viewer)?.uri }
+      : undefined
+  });
+
+  // URL of the avatar or banner after a profile update
+  const profileImage = (change: ProfileImageChange, current: string | undefined): string | undefined => {
+    switch (change.type) {
+      case 'keep':
+        return current;
+      case 'remove':
+        return undefined;
+      case 'set': {
+        const url = state.blobs.get(change.image.ref);
+        if (!url) throw `BlobNotFound: ${change.image.ref}`;
+        return url;
+      }
+    }
+  };
+
+  // Everything that notifies an account, newest first, without blocked accounts
+  const notificationsFor = (did: string): StoredNotification[] => {
+    const fromOthers = (author: string) => author !== did && !blockedBetween(did, author);
+    const posts = [...state.posts.values()];
+    const interactions = (post: StoredPost, reason: 'like' | 'repost'): StoredNotification[] =>
+      [...(reason === 'like' ? post.likes : post.reposts)]
+        .filter(([author]) => fromOthers(author))
+        .map(([author, record]) => ({ uri: record.uri, reason, author, createdAt: record.createdAt, subject: post }));
+    const mentions = (post: StoredPost) =>
+      (post.facets ?? []).some(facet => facet.features.some(f => f.type === 'mention' && f.did === did));
+
+    return [
+      ...posts.filter(post => post.author === did).flatMap(post => [
+        ...interactions(post, 'like'),
+        ...interactions(post, 'repost')
+      ]),
+      ...[...state.follows]
+        .filter(([author, records]) => records.has(did) && fromOthers(author))
+        .map(([author, records]): StoredNotification => {
+          const record = records.get(did) as StoredRecord;
+          return { uri: record.uri, reason: 'follow', author, createdAt: record.createdAt };
+        }),
+      // A post that both replies to or quotes the account and mentions it only notifies once
+      ...posts
+        .filter(post => fromOthers(post.author))
+        .flatMap((post): StoredNotification[] => {
+          const parent = post.reply && state.posts.get(post.reply.parent.uri);
+          const quoted = post.quote && state.posts.get(post.quote.uri);
+          const notify = (reason: NotificationReason, subject?: StoredPost): StoredNotification[] => [
+            { uri: post.uri, reason, author: post.author, createdAt: post.createdAt, subject, post }
+          ];
+          if (parent?.author === did) return notify('reply', parent);
+          if (quoted?.author === did) return notify('quote', quoted);
+          return mentions(post) ? notify('mention') : [];
+        })
+    ].sort((a, b) => b.createdAt - a.createdAt);
+  };
+
+  // Shape a notification as the backend would serialize it for its account
+  const toNotificationData = (notification: StoredNotification, did: string): NotificationData => {
+    const author = state.users.get(notification.author);
+    if (!author) throw `Unknown author: ${notification.author}`;
+    return {
+      uri: notification.uri,
+      reason: notification.reason,
+      author: toAuthor(author),
+      indexed_at: new Date(notification.createdAt).toISOString(),
+      is_read: notification.createdAt <= (state.seenAt.get(did) ?? 0),
+      subject: notification.subject && toPostData(notification.subject, did),
+      post: notification.post && toPostData(notification.post, did)
+    };
+  };
+
+  // One page of posts sorted newest first, shaped for the frontend
+  const postPage = (sorted: StoredPost[], cursor: string | null, limit: number, viewer?: string): Page<PostData> => {
+    const page = paginate(sorted, cursor, limit);
+    return { items: page.items.map(post => toPostData(post, viewer)), cursor: page.cursor };
+  };
+
+  // Build the images embed of a new post from uploaded blobs
+  const imagesEmbed = (images: ImageUpload[]): Embed | undefined => {
+    if (images.length === 0) return undefined;
+    if (images.length > MAX_IMAGES) throw `A post can have at most ${MAX_IMAGES} images`;
+    return {
+      type: 'images',
+      images: images.map(({ image, alt, aspect_ratio }) => {
+        const url = state.blobs.get(image.ref);
+        if (!url) throw `BlobNotFound: ${image.ref}`;
+        return { thumb: url, fullsize: url, alt, aspect_ratio };
+      })
+    };
+  };
+
+  // Find a conversation the account is a member of and has not left
+  const findConvo = (convoId: string, did: string): StoredConvo => {
+    const convo = state.convos.get(convoId);
+    if (!convo || !convo.members.includes(did) || convo.left.has(did)) throw `InvalidConvo: ${convoId} not found`;
+    return convo;
+  };
+
+  // Add a message to a conversation; members who left see it listed again
+  const storeMessage = (
+    convo: StoredConvo,
+    sender: string,
+    text: string,
+    facets: Facet[] | undefined,
+    sentAt: number
+  ): StoredMessage => {
+    const message: StoredMessage = { id: nextKey(), rev: chatRev(sentAt, state.nextId), text, facets, sender, sentAt };
+    convo.messages.push(message);
+    convo.rev = message.rev;
+    convo.readRev.set(sender, message.rev);
+    convo.left.clear();
+    return message;
+  };
+
+  const toChatMessage = (message: StoredMessage): ChatMessage => ({
+    id: message.id,
+    rev: message.rev,
+    text: message.text,
+    facets: message.facets,
+    sender: message.sender,
+    sent_at: formatTimestamp(message.sentAt, now())
+  });
+
+  // Shape a conversation as the chat service would serialize it for one of its members
+  const toConversation = (convo: StoredConvo, did: string): Conversation => {
+    const readRev = convo.readRev.get(did) ?? '';
+    const last = convo.messages[convo.messages.length - 1];
+    return {
+      id: convo.id,
+      rev: convo.rev,
+      members: convo.members.map(member => toAuthor(state.users.get(member) as FixtureUser)),
+      last_message: last && toChatMessage(last),
+      muted: convo.muted.has(did),
+      unread_count: convo.messages.filter(message => message.sender !== did && message.rev > readRev).length
+    };
+  };
+
+  // A page of items sorted by revision, newest first; the cursor is the revision of the last item returned
+  const revPage = <T extends { rev: string }>(sorted: T[], cursor: string | null, limit: number): { items: T[]; cursor?: string } => {
+    const start = cursor ? sorted.filter(item => item.rev >= cursor).length : 0;
+    const items = sorted.slice(start, start + limit);
+    return { items, cursor: start + limit < sorted.length ? items[items.length - 1].rev : undefined };
+  };
+
+  // Create a post or reply by an account, as createRecord would
+  const storeNewPost = (
+    did: string,
+    text: string,
+    facets: Facet[],
+    images: ImageUpload[],
+    refs: { reply?: ReplyRef; quote?: StrongRef; langs?: string[]; labels?: string[] } = {}
+  ): StoredPost => {
+    const { reply, quote, langs = [], labels = [] } = refs;
+    if (!text.trim() && images.length === 0 && !quote) throw 'Post text cannot be empty';
+    if (graphemeLength(text) > MAX_POST_GRAPHEMES) {
+      throw `InvalidRecord: post text is longer than ${MAX_POST_GRAPHEMES} graphemes`;
+    }
+    if (utf8Length(text) > MAX_POST_BYTES) {
+      throw `InvalidRecord: post text is longer than ${MAX_POST_BYTES} bytes`;
+    }
+    const unknown = labels.find(label => !SELF_LABELS.some(known => known.value === label));
+    if (unknown) throw `InvalidRecord: unknown self-label ${unknown}`;
+    if (quote) findSubject(quote, did);
+    const embed = imagesEmbed(images);
+    const rkey = nextKey();
+    const uri = `at://${did}/app.bsky.feed.post/${rkey}`;
+    const post: StoredPost = {
+      uri,
+      cid: `bafymock${rkey}`,
+      author: did,
+      text,
+      facets: facets.length > 0 ? facets : undefined,
+      embed,
+      quote,
+      createdAt: now(),
+      reply,
+      langs: langs.length > 0 ? langs : undefined,
+      labels: labels.length > 0 ? labels : undefined,
+      likes: new Map(),
+      reposts: new Map()
+    };
+    state.posts.set(uri, post);
+    return post;
+  };
+
+  const handlers: MockHandlers = {
+    login: ({ service, identifier, password }) => {
+      const id = identifier.trim().replace(/^@/, '').toLowerCase();
+      const user = [...state.users.values()].find(u => u.handle === id || u.email === id);
+      if (!user || password !== MOCK_PASSWORD) {
+        throw 'Invalid identifier or password';
+      }
+      return createSession(user, service);
+    },
+
+    refresh_session: ({ service, refresh_jwt }) => {
+      const [prefix, did] = refresh_jwt.split(' ');
+      const user = state.users.get(did);
+      if (prefix !== REFRESH_PREFIX || !user) {
+        throw 'InvalidToken: Refresh token is not valid';
+      }
+      return createSession(user, service);
+    },
+
+    // Top-level posts, and reposts of any post at the time they were made, without blocked accounts
+    get_timeline: ({ session, cursor, limit }) => {
+      const viewer = viewerFor(session);
+      const visible = (did: string) => !viewer || !blockedBetween(viewer, did);
+      const entries = [...state.posts.values()]
+        .filter(post => visible(post.author))
+        .flatMap((post): TimelineEntry[] => [
+          ...(post.reply ? [] : [{ post, createdAt: post.createdAt }]),
+          ...[...post.reposts]
+            .filter(([did]) => visible(did))
+            .map(([did, record]) => ({ post, createdAt: record.createdAt, repostedBy: did }))
+        ])
+        .sort((a, b) => b.createdAt - a.createdAt);
+      return entryPage(entries, cursor, limit, viewer);
+    },
+
+    search_posts: ({ session, query, cursor, limit }) => {
+      const viewer = viewerFor(session);
+      const sorted = [...state.posts.values()]
+        .filter(post => matchesQuery(post, query, viewer))
+        .sort((a, b) => b.createdAt - a.createdAt);
+      return postPage(sorted, cursor, limit, viewer);
+    },
+
+    get_feed: ({ session, feed, cursor, limit }) => {
+      const viewer = viewerFor(session);
+      const generator = fixtureFeeds.find(f => feedUri(f) === feed);
+      if (!generator) throw `Feed not found: ${feed}`;
+      const authors = generator.authors.map(handle => findUser(handle).did);
+      const sorted = [...state.posts.values()]
+        .filter(post => !post.reply && authors.includes(post.author))
+        .sort((a, b) => b.createdAt - a.createdAt);
+      return postPage(sorted, cursor, limit, viewer);
+    },
+
+    search_actors: ({ session, query, cursor, limit }) => {
+      const viewer = viewerFor(session);
+      const terms = searchTerms(query).replace(/@/g, '').split(' ').filter(Boolean);
+      if (terms.length === 0) return { items: [] };
+      const ranked = [...state.users.values()]
+        .filter(user => !viewer || !blockedBetween(viewer, user.did))
+        .map(user => ({ user, score: actorScore(user, terms) }))
+        .filter(({ score }) => score > 0)
+        .sort((a, b) => b.score - a.score || a.user.handle.localeCompare(b.user.handle));
+      const page = offsetPage(ranked, cursor, limit);
+      return { items: page.items.map(({ user }) => toProfile(user, viewer)), cursor: page.cursor };
+    },
+
+    search_actors_typeahead: ({ session, query, limit }) => {
+      const viewer = viewerFor(session);
+      const prefix = query.trim().replace(/^@/, '').toLowerCase();
+      if (!prefix) return [];
+      return [...state.users.values()]
+        .filter(user => !viewer || !blockedBetween(viewer, user.did))
+        .filter(user =>
+          user.handle.startsWith(prefix) ||
+          (user.display_name ?? '').toLowerCase().split(/\s+/).some(word => word.startsWith(prefix))
+        )
+        .sort((a, b) => a.handle.localeCompare(b.handle))
+        .slice(0, limit)
+        .map(toAuthor);
+    },
+
+    search_feeds: ({ query, cursor, limit }) => {
+      const terms = searchTerms(query).split(' ').filter(Boolean);
+      const ranked = popularFeeds(
+        fixtureFeeds.filter(feed => {
+          const text = `${feed.name} ${feed.description}`.toLowerCase();
+          return terms.every(term => text.includes(term));
+        })
+      );
+      return offsetPage(ranked, cursor, limit);
+    },
+
+    get_feed_generators: ({ session, feeds }) => {
+      viewerFor(session);
+      return feeds.flatMap(uri => {
+        const feed = fixtureFeeds.find(f => feedUri(f) === uri);
+        return feed ? [toFeedGenerator(feed)] : [];
+      });
+    },
+
+    get_suggested_feeds: ({ session, cursor, limit }) => {
+      viewerFor(session);
+      return offsetPage(popularFeeds(fixtureFeeds), cursor, limit);
+    },
+
+    get_suggestions: ({ session, cursor, limit }) => {
+      const viewer = viewerFor(session);
+      const followed = viewer ? followsOf(viewer) : new Map<string, StoredRecord>();
+      const followers = (did: string) => [...state.follows.values()].filter(records => records.has(did)).length;
+      // Accounts followed by more of the viewer's follows come first, then the most followed
+      const ranked = [...state.users.values()]
+        .filter(user => user.did !== viewer && !followed.has(user.did))
+        .filter(user => !viewer || !blockedBetween(viewer, user.did))
+        .map(user => ({
+          user,
+          friends: [...followed.keys()].filter(did => followsOf(did).has(user.did)).length,
+          followers: followers(user.did)
+        }))
+        .sort((a, b) => b.friends - a.friends || b.followers - a.followers || a.user.handle.localeCompare(b.user.handle));
+      const page = offsetPage(ranked, cursor, limit);
+      return { items: page.items.map(({ user }) => toProfile(user, viewer)), cursor: page.cursor };
+    },
+
+    get_saved_feeds: ({ session }) => state.savedFeeds.get(accountFor(session)) ?? DEFAULT_SAVED_FEEDS,
+
+    put_saved_feeds: ({ session, feeds }) => {
+      const did = accountFor(session);
+      const ids = new Set(feeds.map(feed => feed.id));
+      if (ids.size !== feeds.length) throw 'InvalidRequest: saved feed ids must be unique';
+      const invalid = feeds.find(feed => (feed.type === 'timeline' ? feed.value !== 'following' : !feed.value.startsWith('at://')));
+      if (invalid) throw `InvalidRequest: ${invalid.value} is not a ${invalid.type}`;
+      state.savedFeeds.set(did, feeds.map(feed => ({ ...feed })));
+      return null;
+    },
+
+    resolve_handle: ({ handle }) => {
+      const user = [...state.users.values()].find(u => u.handle === handle.toLowerCase());
+      if (!user) throw `Unable to resolve handle: ${handle}`;
+      return user.did;
+    },
+
+    upload_blob: ({ session, data, mime_type }) => {
+      accountFor(session);
+      const size = Math.floor((data.length * 3) / 4) - (data.match(/=*$/)?.[0].length ?? 0);
+      if (size > MAX_IMAGE_BYTES) throw `BlobTooLarge: ${size} bytes is over the ${MAX_IMAGE_BYTES} byte limit`;
+      const ref = `bafkmock${nextKey()}`;
+      state.blobs.set(ref, `data:${mime_type};base64,${data}`);
+      return { ref, mime_type, size };
+    },
+
+    create_post: ({ session, text, facets, images, langs, labels, quote }) => {
+      const { uri, cid } = storeNewPost(accountFor(session), text, facets, images, { quote: quote ?? undefined, langs, labels });
+      return { uri, cid };
+    },
+
+    create_reply: ({ session, text, facets, images, langs, labels, reply }) => {
+      const did = accountFor(session);
+      const parent = findPost(reply.parent.uri);
+      const root = parent.reply?.root ?? { uri: parent.uri, cid: parent.cid };
+      if (reply.parent.cid !== parent.cid) throw `InvalidReply: parent ${parent.uri} has changed`;
+      if (reply.root.uri !== root.uri || reply.root.cid !== root.cid) {
+        throw `InvalidReply: root does not match the thread of ${parent.uri}`;
+      }
+      const { uri, cid } = storeNewPost(did, text, facets, images, { reply, langs, labels });
+      return { uri, cid };
+    },
+
+    like_post: ({ session, subject }) => {
+      const did = accountFor(session);
+      return createRecord(did, findSubject(subject, did).likes, 'app.bsky.feed.like');
+    },
+
+    unlike_post: ({ session, like_uri }) => {
+      const did = accountFor(session);
+      deleteRecord(did, like_uri, post => post.likes);
+      return null;
+    },
+
+    repost_post: ({ session, subject }) => {
+      const did = accountFor(session);
+      return createRecord(did, findSubject(subject, did).reposts, 'app.bsky.feed.repost');
+    },
+
+    unrepost_post: ({ session, repost_uri }) => {
+      const did = accountFor(session);
+      deleteRecord(did, repost_uri, post => post.reposts);
+      return null;
+    },
+
+    get_post_detail: ({ session, post_uri }) => toPostData(findPost(post_uri), viewerFor(session)),
+
+    get_post_thread: ({ session, post_uri, depth, parent_height, sort }) => {
+      const viewer = viewerFor(session);
+      const focused = findPost(post_uri);
+
+      // Walk up the thread; a deleted parent ends the chain
+      const parents: PostData[] = [];
+      let parent = focused.reply && state.posts.get(focused.reply.parent.uri);
+      while (parent && parents.length < parent_height) {
+        parents.unshift(toPostData(parent, viewer));
+        parent = parent.reply && state.posts.get(parent.reply.parent.uri);
+      }
+
+      const order = (a: StoredPost, b: StoredPost): number => {
+        switch (sort) {
+          case 'newest':
+            return b.createdAt - a.createdAt;
+          case 'top':
+            return b.likes.size - a.likes.size || a.createdAt - b.createdAt;
+          default:
+            return a.createdAt - b.createdAt;
+        }
+      };
+
+      const repliesTo = (uri: string, level: number): ThreadNode[] =>
+        level > depth
+          ? []
+          : [...state.posts.values()]
+              .filter(post => post.reply?.parent.uri === uri)
+              .sort(order)
+              .map(post => ({ post: toPostData(post, viewer), replies: repliesTo(post.uri, level + 1) }));
+
+      return { post: toPostData(focused, viewer), parents, replies: repliesTo(focused.uri, 1) };
+    },
+
+    get_profile: ({ session, actor }) => toProfile(findUser(actor), viewerFor(session)),
+
+    get_author_feed: ({ session, actor, filter, cursor, limit }) => {
+      const viewer = viewerFor(session);
+      const user = findUser(actor);
+      if (viewer && blockedBetween(viewer, user.did)) throw `BlockedActor: posts of @${user.handle} are not available`;
+      const posts = [...state.posts.values()];
+      const own = posts.filter(post => post.author === user.did);
+      const entries: TimelineEntry[] =
+        filter === 'posts'
+          ? [
+              ...own.filter(post => !post.reply).map(post => ({ post, createdAt: post.createdAt })),
+              ...posts.flatMap((post): TimelineEntry[] => {
+                const record = post.reposts.get(user.did);
+                return record ? [{ post, createdAt: record.createdAt, repostedBy: user.did }] : [];
+              })
+            ]
+          : own
+              .filter(post => filter === 'replies' || post.embed?.type === 'images')
+              .map(post => ({ post, createdAt: post.createdAt }));
+      return entryPage(entries.sort((a, b) => b.createdAt - a.createdAt), cursor, limit, viewer);
+    },
+
+    get_actor_likes: ({ session, actor, cursor, limit }) => {
+      const did = accountFor(session);
+      if (findUser(actor).did !== did) throw 'InvalidRequest: likes can only be listed for the signed-in account';
+      const entries = [...state.posts.values()]
+        .flatMap((post): TimelineEntry[] => {
+          const record = post.likes.get(did);
+          return record ? [{ post, createdAt: record.createdAt }] : [];
+        })
+        .sort((a, b) => b.createdAt - a.createdAt);
+      return entryPage(entries, cursor, limit, did);
+    },
+
+    follow_actor: ({ session, subject }) => {
+      const did = accountFor(session);
+      const followed = findUser(subject);
+      if (followed.did === did) throw 'InvalidRequest: an account cannot follow itself';
+      if (blockedBetween(did, followed.did)) throw `BlockedActor: cannot follow @${followed.handle}`;
+      const records = followsOf(did);
+      const record = records.get(followed.did) ?? { uri: `at://${did}/app.bsky.graph.follow/${nextKey()}`, createdAt: now() };
+      records.set(followed.did, record);
+      return record.uri;
+    },
+
+    unfollow_actor: ({ session, follow_uri }) => {
+      const did = accountFor(session);
+      if (uriDid(follow_uri) !== did) throw `InvalidRequest: ${follow_uri} is not in the repo of ${did}`;
+      const records = followsOf(did);
+      const followed = [...records].find(([, record]) => record.uri === follow_uri)?.[0];
+      if (followed) records.delete(followed);
+      return null;
+    },
+
+    update_profile: ({ session, profile }) => {
+      const did = accountFor(session);
+      const user = state.users.get(did) as FixtureUser;
+      if (graphemeLength(profile.display_name) > MAX_DISPLAY_NAME_GRAPHEMES) {
+        throw `InvalidRecord: display name is longer than ${MAX_DISPLAY_NAME_GRAPHEMES} graphemes`;
+      }
+      if (graphemeLength(profile.description) > MAX_DESCRIPTION_GRAPHEMES) {
+        throw `InvalidRecord: description is longer than ${MAX_DESCRIPTION_GRAPHEMES} graphemes`;
+      }
+      const updated: FixtureUser = {
+        ...user,
+        // Like the app view, accounts without a display name are shown by handle
+        display_name: profile.display_name || user.handle,
+        description: profile.description || undefined,
+        avatar: profileImage(profile.avatar, user.avatar),
+        banner: profileImage(profile.banner, user.banner)
+      };
+      state.users.set(did, updated);
+      return toProfile(updated, did);
+    },
+
+    list_notifications: ({ session, reasons, cursor, limit }) => {
+      const did = accountFor(session);
+      const matching = notificationsFor(did).filter(n => reasons.length === 0 || reasons.includes(n.reason));
+      const page = paginate(matching, cursor, limit);
+      return { items: page.items.map(n => toNotificationData(n, did)), cursor: page.cursor };
+    },
+
+    get_unread_count: ({ session }) => {
+      const did = accountFor(session);
+      const seenAt = state.seenAt.get(did) ?? 0;
+      return notificationsFor(did).filter(n => n.createdAt > seenAt).length;
+    },
+
+    update_seen: ({ session, seen_at }) => {
+      const did = accountFor(session);
+      const time = Date.parse(seen_at);
+      if (Number.isNaN(time)) throw `InvalidRequest: seen_at is not a valid date: ${seen_at}`;
+      // Like the app view, the time only moves forward
+      state.seenAt.set(did, Math.max(state.seenAt.get(did) ?? 0, time));
+      return null;
+    },
+
+    list_convos: ({ session, cursor, limit }) => {
+      const did = accountFor(session);
+      const convos = [...state.convos.values()]
+        .filter(convo => convo.members.includes(did) && !convo.left.has(did))
+        .sort((a, b) => (a.rev < b.rev ? 1 : -1));
+      const page = revPage(convos, cursor, limit);
+      return { items: page.items.map(convo => toConversation(convo, did)), cursor: page.cursor };
+    },
+
+    get_convo: ({ session, convo_id }) => {
+      const did = accountFor(session);
+      return toConversation(findConvo(convo_id, did), did);
+    },
+
+    get_convo_for_members: ({ session, members }) => {
+      const did = accountFor(session);
+      const dids = [...new Set([did, ...members.map(member => findUser(member).did)])];
+      if (dids.length < 2) throw 'InvalidRequest: a conversation needs another member';
+      if (dids.some(member => blockedBetween(did, member))) throw 'BlockedActor: cannot message a blocked account';
+      const key = [...dids].sort().join(' ');
+      let convo = [...state.convos.values()].find(existing => [...existing.members].sort().join(' ') === key);
+      if (!convo) {
+        convo = {
+          id: nextKey(),
+          members: dids,
+          messages: [],
+          rev: chatRev(now(), state.nextId),
+          left: new Set(),
+          muted: new Set(),
+          readRev: new Map()
+        };
+        state.convos.set(convo.id, convo);
+      }
+      convo.left.delete(did);
+      return toConversation(convo, did);
+    },
+
+    get_messages: ({ session, convo_id, cursor, limit }) => {
+      const did = accountFor(session);
+      const newestFirst = [...findConvo(convo_id, did).messages].reverse();
+      const page = revPage(newestFirst, cursor, limit);
+      return { items: page.items.map(toChatMessage), cursor: page.cursor };
+    },
+
+    send_message: ({ session, convo_id, text, facets }) => {
+      const did = accountFor(session);
+      const convo = findConvo(convo_id, did);
+      if (!text.trim()) throw 'Message text cannot be empty';
+      if (graphemeLength(text) > MAX_MESSAGE_GRAPHEMES) {
+        throw `InvalidRequest: message is longer than ${MAX_MESSAGE_GRAPHEMES} graphemes`;
+      }
+      const others = convo.members.filter(member => member !== did);
+      if (others.some(member => blockedBetween(did, member))) throw 'BlockedActor: cannot message a blocked account';
+      const message = storeMessage(convo, did, text, facets.length > 0 ? facets : undefined, now());
+      if (chatReplyDelay > 0) {
+        state.chatReplies.push({ convoId: convo.id, sender: others[0], dueAt: now() + chatReplyDelay });
+      }
+      return toChatMessage(message);
+    },
+
+    update_read: ({ session, convo_id }) => {
+      const did = accountFor(session);
+      const convo = findConvo(convo_id, did);
+      convo.readRev.set(did, convo.rev);
+      return toConversation(convo, did);
+    },
+
+    mute_convo: ({ session, convo_id }) => {
+      const did = accountFor(session);
+      const convo = findConvo(convo_id, did);
+      convo.muted.add(did);
+      return toConversation(convo, did);
+    },
+
+    unmute_convo: ({ session, convo_id }) => {
+      const did = accountFor(session);
+      const convo = findConvo(convo_id, did);
+      convo.muted.delete(did);
+      return toConversation(convo, did);
+    },
+
+    leave_convo: ({ session, convo_id }) => {
+      const did = accountFor(session);
+      findConvo(convo_id, did).left.add(did);
+      return null;
+    },
+
+    get_hobbies: ({ session, actor }) => {
+      viewerFor(session);
+      return state.hobbies.get(findUser(actor).did) ?? null;
+    },
+
+    put_hobbies: ({ session, preferences }) => {
+      const did = accountFor(session);
+      state.hobbies.set(did, preferences);
+      return `at://${did}/app.hobbysky.actor.hobbies/self`;
+    }
+  };
+
+  const delay = (): Promise<void> => {
+    const ms = Array.isArray(latency)
+      ? latency[0] + random() * (latency[1] - latency[0])
+      : latency;
+    return ms > 0 ? new Promise(resolve => setTimeout(resolve, ms)) : Promise.resolve();
+  };
+
+  return {
+    invoke: async <K extends CommandName>(command: K, args: CommandArgs<K>): Promise<CommandResult<K>> => {
+      await delay();
+      if (failingCommands.includes(command) || (errorRate > 0 && random() < errorRate)) {
+        throw `Mock backend: injected failure for ${command}`;
+      }
+      simulateActivity();
+      deliverChatReplies();
+      const handler = handlers[command] as (args: CommandArgs<K>) => CommandResult<K>;
+      return handler(args);
+    },
+
+    configure: (next) => {
+      if (next.latency !== undefined) latency = next.latency;
+      if (next.errorRate !== undefined) errorRate = next.errorRate;
+      if (next.failingCommands !== undefined) failingCommands = next.failingCommands;
+    },
+
+    reset: () => {
+      state = createState();
+    }
+  };
+};
+
+/**
+ * Read mock options from the environment
+ *
+ * Values come from the URL query (`?mockLatency=300&mockErrorRate=0.1&mockFail=like_post&mockTokenTtl=60000&mockActivity=20000&mockChatReply=4000`)
+ * or, failing that, from `VITE_MOCK_LATENCY`, `VITE_MOCK_ERROR_RATE`, `VITE_MOCK_FAIL`,
+ * `VITE_MOCK_TOKEN_TTL`, `VITE_MOCK_ACTIVITY` and `VITE_MOCK_CHAT_REPLY`.
+ */
+export const mockOptionsFromEnvironment = (): MockBackendOptions => {
+  const params = new URLSearchParams(typeof window !== 'undefined' ? window.location.search : '');
+  const read = (param: string, env: string | undefined) => params.get(param) ?? env;
+
+  const latency = read('mockLatency', import.meta.env.VITE_MOCK_LATENCY);
+  const tokenTtl = read('mockTokenTtl', import.meta.env.VITE_MOCK_TOKEN_TTL);
+  const errorRate = read('mockErrorRate', import.meta.env.VITE_MOCK_ERROR_RATE);
+  const failing = read('mockFail', import.meta.env.VITE_MOCK_FAIL);
+  const activity = read('mockActivity', import.meta.env.VITE_MOCK_ACTIVITY);
+  const chatReply = read('mockChatReply', import.meta.env.VITE_MOCK_CHAT_REPLY);
+
+  return {
+    latency: latency ? Number(latency) : undefined,
+    errorRate: errorRate ? Number(errorRate) : undefined,
+    accessTokenTtl: tokenTtl ? Number(tokenTtl) : undefined,
+    activityInterval: activity ? Number(activity) : undefined,
+    chatReplyDelay: chatReply ? Number(chatReply) : undefined,
+    failingCommands: failing ? (failing.split(',').map(c => c.trim()) as CommandName[]) : undefined
+  };
+};
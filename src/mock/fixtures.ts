@@ -0,0 +1,645 @@
+/**
+ * fixtures.ts - Seed data for the mock backend
+ *
+ * A small hobby-themed network used when the app runs without the Tauri
+ * backend. Every fixture user can sign in with `MOCK_PASSWORD`.
+ *
+ * Times are expressed in minutes before the moment the backend is created,
+ * so the timeline always looks recent.
+ */
+
+import type { Hobby } from '../types/models';
+
+// Password accepted for every fixture account
+export const MOCK_PASSWORD = 'hobbysky';
+
+/**
+ * FixtureUser Interface
+ *
+ * An account in the mock network.
+ *
+ * @property description - Bio, with mentions, links and hashtags detected as in posts
+ * @property banner - URL of the banner image
+ * @property follows - Handles of the accounts it follows
+ * @property blocks - Handles of the accounts it blocks
+ */
+export interface FixtureUser {
+  did: string;
+  handle: string;
+  display_name: string;
+  avatar?: string;
+  description?: string;
+  banner?: string;
+  email: string;
+  follows?: string[];
+  blocks?: string[];
+}
+
+/**
+ * FixtureImage Interface
+ *
+ * An image attached to a fixture post. `seed` picks a stable placeholder photo.
+ */
+export interface FixtureImage {
+  seed: string;
+  alt: string;
+  width: number;
+  height: number;
+}
+
+/**
+ * FixturePost Interface
+ *
+ * A post and, recursively, the replies under it.
+ *
+ * @property rkey - Record key, unique per author
+ * @property author - Handle of the author
+ * @property minutesAgo - Age of the post when the backend starts
+ * @property likedBy - Handles of the accounts that liked the post
+ * @property repostedBy - Handles of the accounts that reposted the post
+ * @property quote - Post quoted by this one, which need not exist
+ * @property langs - Languages of the text (default English)
+ */
+export interface FixturePost {
+  rkey: string;
+  author: string;
+  text: string;
+  minutesAgo: number;
+  images?: FixtureImage[];
+  likedBy?: string[];
+  repostedBy?: string[];
+  quote?: { author: string; rkey: string };
+  langs?: string[];
+  replies?: FixturePost[];
+}
+
+/**
+ * FixtureLivePost Interface
+ *
+ * A post published while the app is running, to simulate other accounts being
+ * active. They are posted in order and the list starts over when exhausted.
+ */
+export interface FixtureLivePost {
+  author: string;
+  text: string;
+}
+
+/**
+ * FixtureFeed Interface
+ *
+ * A custom feed generator. Its AT URI is built from the owner's DID and `rkey`.
+ *
+ * @property owner - Handle of the account that published the feed
+ * @property authors - Handles whose top-level posts make up the feed
+ * @property likedBy - Handles of the accounts that liked the feed
+ * @property pinnedBy - Handles of the accounts that pinned the feed
+ */
+export interface FixtureFeed {
+  rkey: string;
+  owner: string;
+  name: string;
+  description: string;
+  authors: string[];
+  likedBy?: string[];
+  pinnedBy?: string[];
+}
+
+/**
+ * FixtureConversation Interface
+ *
+ * A direct message conversation. Messages are listed oldest first.
+ *
+ * @property members - Handles of everyone in it
+ * @property readBy - Handles of the members who have read every message; the
+ *                    others have read none they did not send
+ */
+export interface FixtureConversation {
+  members: string[];
+  messages: { from: string; text: string; minutesAgo: number }[];
+  readBy: string[];
+}
+
+const avatar = (seed: string) => `https://i.pravatar.cc/150?u=${seed}`;
+const banner = (seed: string) => `https://picsum.photos/seed/${seed}/1500/500`;
+
+export const fixtureUsers: FixtureUser[] = [
+  {
+    did: 'did:plc:mockmaplewood',
+    handle: 'maple.woodshop.test',
+    display_name: 'Maple Turner',
+    avatar: avatar('maple'),
+    description: 'Furniture maker on weekends, software on weekdays. Hand tools over power tools. #woodworking\nShop notes: https://maple.example.com',
+    banner: banner('walnut-shop'),
+    email: 'maple@example.com',
+    follows: ['wren.birds.test', 'kiln.pottery.test', 'purl.knits.test']
+  },
+  {
+    did: 'did:plc:mockwren',
+    handle: 'wren.birds.test',
+    display_name: 'Wren Okafor',
+    avatar: avatar('wren'),
+    description: 'Birder, mostly in city parks. Ask me about warblers 🐦 #birding',
+    banner: banner('marsh-morning'),
+    email: 'wren@example.com',
+    follows: ['maple.woodshop.test', 'fern.garden.test']
+  },
+  {
+    did: 'did:plc:mockpurl',
+    handle: 'purl.knits.test',
+    display_name: 'Priya Purl',
+    avatar: avatar('purl'),
+    description: 'Knitting socks nobody asked for. Tea in mugs by @kiln.pottery.test, always. #knitting',
+    banner: banner('yarn-basket'),
+    email: 'purl@example.com',
+    follows: ['kiln.pottery.test', 'maple.woodshop.test', 'fern.garden.test']
+  },
+  {
+    did: 'did:plc:mockkiln',
+    handle: 'kiln.pottery.test',
+    display_name: 'Kenji Kiln',
+    avatar: avatar('kiln'),
+    description: 'Potter. Wheel-thrown stoneware, wood-fired when I can get kiln time. #pottery',
+    banner: banner('kiln-shelves'),
+    email: 'kiln@example.com',
+    follows: ['maple.woodshop.test', 'purl.knits.test']
+  },
+  {
+    did: 'did:plc:mockgauge',
+    handle: 'gauge.trains.test',
+    display_name: 'Ottilie Gauge',
+    avatar: avatar('gauge'),
+    description: 'N scale layout builder, currently on the third rebuild of the same bridge. #modeltrains',
+    email: 'gauge@example.com',
+    follows: ['maple.woodshop.test']
+  },
+  {
+    did: 'did:plc:mockfern',
+    handle: 'fern.garden.test',
+    display_name: 'Fern Alvarez',
+    avatar: avatar('fern'),
+    description: 'Vegetable beds, compost and far too many tomato varieties. #gardening',
+    banner: banner('tomato-beds'),
+    email: 'fern@example.com',
+    follows: ['wren.birds.test', 'purl.knits.test'],
+    blocks: ['gauge.trains.test']
+  }
+];
+
+export const fixturePosts: FixturePost[] = [
+  {
+    rkey: '3kmock0001',
+    author: 'maple.woodshop.test',
+    text: 'Finally finished the walnut end table. Hand-cut dovetails on the drawer, first time I got them gap-free! 🪚 #woodworking',
+    minutesAgo: 12,
+    images: [
+      { seed: 'walnut-table', alt: 'A small walnut end table with a single drawer', width: 1200, height: 900 },
+      { seed: 'dovetails', alt: 'Close-up of tight hand-cut dovetail joints', width: 900, height: 1200 }
+    ],
+    likedBy: ['wren.birds.test', 'kiln.pottery.test', 'fern.garden.test'],
+    repostedBy: ['kiln.pottery.test'],
+    replies: [
+      {
+        rkey: '3kmock0101',
+        author: 'kiln.pottery.test',
+        text: '@maple.woodshop.test those joints are so clean. What saw are you using?',
+        minutesAgo: 9,
+        replies: [
+          {
+            rkey: '3kmock0102',
+            author: 'maple.woodshop.test',
+            text: 'A cheap Japanese dozuki. Sharp teeth matter more than the brand.',
+            minutesAgo: 7
+          }
+        ]
+      },
+      {
+        rkey: '3kmock0103',
+        author: 'fern.garden.test',
+        text: 'Gorgeous grain. Is that an oil finish?',
+        minutesAgo: 5
+      }
+    ]
+  },
+  {
+    rkey: '3kmock0002',
+    author: 'wren.birds.test',
+    text: 'Dawn chorus walk this morning: 23 species, including a kingfisher on the canal. #birding',
+    minutesAgo: 47,
+    images: [
+      { seed: 'kingfisher', alt: 'A kingfisher perched on a branch over water', width: 1200, height: 800 }
+    ],
+    likedBy: ['fern.garden.test', 'maple.woodshop.test'],
+    replies: [
+      {
+        rkey: '3kmock0201',
+        author: 'fern.garden.test',
+        text: 'Jealous! Still waiting for my first kingfisher sighting.',
+        minutesAgo: 40
+      }
+    ]
+  },
+  {
+    rkey: '3kmock0003',
+    author: 'purl.knits.test',
+    text: 'Sweater progress: body done, starting the sleeves. Why do sleeves always feel twice as long?',
+    minutesAgo: 95,
+    images: [
+      { seed: 'sweater', alt: 'A half-finished green cable-knit sweater on needles', width: 1000, height: 1000 }
+    ],
+    likedBy: ['kiln.pottery.test'],
+    replies: [
+      {
+        rkey: '3kmock0301',
+        author: 'maple.woodshop.test',
+        text: 'Second sleeve syndrome is real.',
+        minutesAgo: 80
+      }
+    ]
+  },
+  {
+    rkey: '3kmock0004',
+    author: 'kiln.pottery.test',
+    text: 'Glaze test tiles out of the kiln. The celadon on the left is exactly what I was after.',
+    minutesAgo: 180,
+    images: [
+      { seed: 'glaze-1', alt: 'Row of glaze test tiles in greens and blues', width: 1200, height: 800 },
+      { seed: 'glaze-2', alt: 'Celadon glazed bowl', width: 800, height: 800 },
+      { seed: 'glaze-3', alt: 'Tenmoku glazed bowl', width: 800, height: 800 }
+    ],
+    likedBy: ['purl.knits.test', 'wren.birds.test', 'gauge.trains.test', 'maple.woodshop.test'],
+    repostedBy: ['purl.knits.test', 'wren.birds.test']
+  },
+  {
+    rkey: '3kmock0005',
+    author: 'gauge.trains.test',
+    text: 'Club layout open day on Saturday! Come see the new viaduct section, 10am to 4pm at the community hall. Details: https://example.com/club/open-day',
+    minutesAgo: 320,
+    likedBy: ['maple.woodshop.test'],
+    replies: [
+      {
+        rkey: '3kmock0501',
+        author: 'wren.birds.test',
+        text: 'Bringing my nephew, he will lose his mind.',
+        minutesAgo: 300
+      }
+    ]
+  },
+  {
+    rkey: '3kmock0006',
+    author: 'fern.garden.test',
+    text: 'First tomatoes of the season. Saving seeds from the best plant for next year.',
+    minutesAgo: 600,
+    images: [
+      { seed: 'tomatoes', alt: 'A bowl of ripe heirloom tomatoes', width: 1200, height: 900 },
+      { seed: 'seedlings', alt: 'Seedling trays on a windowsill', width: 1200, height: 900 },
+      { seed: 'raised-bed', alt: 'Raised garden bed with tomato cages', width: 900, height: 1200 },
+      { seed: 'seed-jar', alt: 'Labelled jar of dried tomato seeds', width: 900, height: 900 }
+    ],
+    likedBy: ['wren.birds.test', 'purl.knits.test']
+  },
+  {
+    rkey: '3kmock0007',
+    author: 'maple.woodshop.test',
+    text: 'PSA: sharpen your chisels before you think you need to. Future you will thank you.',
+    minutesAgo: 1440,
+    likedBy: ['kiln.pottery.test', 'gauge.trains.test']
+  },
+  {
+    rkey: '3kmock0008',
+    author: 'purl.knits.test',
+    text: 'Anyone have a favourite stretchy bind-off for toe-up socks?',
+    minutesAgo: 2000,
+    replies: [
+      {
+        rkey: '3kmock0801',
+        author: 'fern.garden.test',
+        text: "Jeny's Surprisingly Stretchy, every time.",
+        minutesAgo: 1900,
+        likedBy: ['purl.knits.test', 'kiln.pottery.test', 'wren.birds.test'],
+        replies: [
+          {
+            rkey: '3kmock0802',
+            author: 'purl.knits.test',
+            text: 'Does it flare at the top? My last pair looked like bells.',
+            minutesAgo: 1880,
+            replies: [
+              {
+                rkey: '3kmock0803',
+                author: 'fern.garden.test',
+                text: 'A little. Going down a needle size for the bind-off fixes it.',
+                minutesAgo: 1860,
+                likedBy: ['purl.knits.test'],
+                replies: [
+                  {
+                    rkey: '3kmock0804',
+                    author: 'purl.knits.test',
+                    text: 'Down one size, or two?',
+                    minutesAgo: 1850,
+                    replies: [
+                      {
+                        rkey: '3kmock0805',
+                        author: 'fern.garden.test',
+                        text: 'One. Two and you lose the stretch you were after.',
+                        minutesAgo: 1840,
+                        replies: [
+                          {
+                            rkey: '3kmock0806',
+                            author: 'purl.knits.test',
+                            text: 'Makes sense. Casting on tonight!',
+                            minutesAgo: 1830,
+                            replies: [
+                              {
+                                rkey: '3kmock0807',
+                                author: 'fern.garden.test',
+                                text: 'Post a photo when they are done.',
+                                minutesAgo: 1820,
+                                replies: [
+                                  {
+                                    rkey: '3kmock0808',
+                                    author: 'purl.knits.test',
+                                    text: 'Will do 🧦',
+                                    minutesAgo: 1810
+                                  }
+                                ]
+                              }
+                            ]
+                          }
+                        ]
+                      }
+                    ]
+                  }
+                ]
+              }
+            ]
+          }
+        ]
+      },
+      {
+        rkey: '3kmock0809',
+        author: 'kiln.pottery.test',
+        text: 'Not a knitter, but following this thread for the sock photos.',
+        minutesAgo: 1700
+      },
+      {
+        rkey: '3kmock0810',
+        author: 'maple.woodshop.test',
+        text: 'Tubular bind-off looks the neatest to me, though it takes forever.',
+        minutesAgo: 1950,
+        likedBy: ['purl.knits.test'],
+        replies: [
+          {
+            rkey: '3kmock0811',
+            author: 'purl.knits.test',
+            text: 'It does look lovely. Maybe for a gift pair.',
+            minutesAgo: 1920
+          }
+        ]
+      }
+    ]
+  }
+,
+  {
+    rkey: '3kmock0009',
+    author: 'gauge.trains.test',
+    text: 'Weathered a batch of coal wagons with pastel chalks. Subtle is harder than it looks.',
+    minutesAgo: 2300,
+    likedBy: ['maple.woodshop.test']
+  },
+  {
+    rkey: '3kmock0010',
+    author: 'wren.birds.test',
+    text: 'Goldfinches are back on the nyjer feeder. Eight at once this afternoon!',
+    minutesAgo: 2600,
+    likedBy: ['fern.garden.test', 'purl.knits.test']
+  },
+  {
+    rkey: '3kmock0011',
+    author: 'kiln.pottery.test',
+    text: 'Trimming day. Twenty bowls, one playlist on repeat.',
+    minutesAgo: 2900
+  },
+  {
+    rkey: '3kmock0012',
+    author: 'fern.garden.test',
+    text: 'Mulched every bed before the heatwave. My back has opinions.',
+    minutesAgo: 3200,
+    likedBy: ['kiln.pottery.test']
+  },
+  {
+    rkey: '3kmock0013',
+    author: 'maple.woodshop.test',
+    text: 'Flattening a workbench top with a No. 7 jointer. Shavings up to my ankles.',
+    minutesAgo: 3600,
+    likedBy: ['gauge.trains.test']
+  },
+  {
+    rkey: '3kmock0014',
+    author: 'purl.knits.test',
+    text: 'Cast on a lace shawl in undyed alpaca. Lifelines every ten rows, I have learned my lesson.',
+    minutesAgo: 4000,
+    likedBy: ['wren.birds.test']
+  },
+  {
+    rkey: '3kmock0015',
+    author: 'gauge.trains.test',
+    text: 'Finally wired the DCC bus properly. No more mystery stalls on the points.',
+    minutesAgo: 4500
+  },
+  {
+    rkey: '3kmock0016',
+    author: 'wren.birds.test',
+    text: 'Tip: sit still for ten minutes before you start counting. The birds forget you are there.',
+    minutesAgo: 5000,
+    likedBy: ['maple.woodshop.test', 'kiln.pottery.test']
+  },
+  {
+    rkey: '3kmock0017',
+    author: 'kiln.pottery.test',
+    text: 'Reclaiming a bucket of trimmings. Wedging is the gym membership I never cancel.',
+    minutesAgo: 5600,
+    likedBy: ['purl.knits.test']
+  },
+  {
+    rkey: '3kmock0018',
+    author: 'fern.garden.test',
+    text: 'Sowed a second round of beans where the peas finished. Succession planting for the win.',
+    minutesAgo: 6200
+  },
+  {
+    rkey: '3kmock0019',
+    author: 'maple.woodshop.test',
+    text: 'Made a shooting board from offcuts. Every end grain cut is now square, it is almost boring.',
+    minutesAgo: 7000,
+    likedBy: ['fern.garden.test']
+  },
+  {
+    rkey: '3kmock0020',
+    author: 'purl.knits.test',
+    text: 'Swatched three needle sizes for the same yarn. The middle one wins, as usual.',
+    minutesAgo: 7800,
+    likedBy: ['kiln.pottery.test']
+  },
+  {
+    rkey: '3kmock0021',
+    author: 'gauge.trains.test',
+    text: 'Scratch-built a signal box from card and coffee stirrers. Total cost: one latte.',
+    minutesAgo: 8600,
+    likedBy: ['wren.birds.test', 'maple.woodshop.test']
+  },
+  {
+    rkey: '3kmock0022',
+    author: 'wren.birds.test',
+    text: 'Heard a cuckoo for the first time this year. Spring is official.',
+    minutesAgo: 9400,
+    likedBy: ['fern.garden.test']
+  },
+  {
+    rkey: '3kmock0023',
+    author: 'kiln.pottery.test',
+    text: 'Pulled handles for a set of mugs. Trying a thumb rest on this batch.',
+    minutesAgo: 10200
+  },
+  {
+    rkey: '3kmock0024',
+    author: 'fern.garden.test',
+    text: 'Compost finally ready. Dark, crumbly and full of worms.',
+    minutesAgo: 11000,
+    likedBy: ['purl.knits.test', 'gauge.trains.test']
+  },
+  {
+    rkey: '3kmock0025',
+    author: 'fern.garden.test',
+    text: 'This is the kind of patience I aspire to. Might finally build that potting bench.',
+    minutesAgo: 30,
+    likedBy: ['maple.woodshop.test'],
+    quote: { author: 'maple.woodshop.test', rkey: '3kmock0001' }
+  },
+  {
+    rkey: '3kmock0026',
+    author: 'maple.woodshop.test',
+    text: 'Going to this one, who else is coming? Bringing the little shunting layout I built last winter.',
+    minutesAgo: 250,
+    images: [{ seed: 'shunting-layout', alt: 'A small shunting layout on a bookshelf', width: 1200, height: 600 }],
+    quote: { author: 'gauge.trains.test', rkey: '3kmock0005' }
+  },
+  {
+    rkey: '3kmock0027',
+    author: 'kiln.pottery.test',
+    text: 'Someone posted a great cone chart here and then deleted it. If that was you, please post it again!',
+    minutesAgo: 900,
+    quote: { author: 'purl.knits.test', rkey: '3kmock0gone' }
+  },
+  {
+    rkey: '3kmock0028',
+    author: 'purl.knits.test',
+    text: 'Primer jersey de lana terminado. Las mangas quedaron un poco largas, pero me encanta. #knitting',
+    minutesAgo: 1300,
+    langs: ['es'],
+    likedBy: ['fern.garden.test']
+  }
+];
+
+export const fixtureLivePosts: FixtureLivePost[] = [
+  { author: 'wren.birds.test', text: 'Just spotted a heron fishing right outside the window.' },
+  { author: 'kiln.pottery.test', text: 'Kiln is cooling. The hardest part of pottery is not opening it early.' },
+  { author: 'fern.garden.test', text: 'Rain at last. The water butts are filling up nicely.' },
+  { author: 'gauge.trains.test', text: 'Track cleaning car did a full lap without derailing. Small victories.' },
+  { author: 'purl.knits.test', text: 'Ripped back six rows to fix a cable crossed the wrong way. Worth it.' },
+  { author: 'maple.woodshop.test', text: 'Glue-up in progress. Never enough clamps.' },
+  { author: 'wren.birds.test', text: 'The swifts are screaming over the rooftops again. Best sound of summer.' },
+  { author: 'fern.garden.test', text: 'Pinched out the sweet peas. More flowers, fewer tendrils.' },
+  { author: 'kiln.pottery.test', text: '@wren.birds.test a wagtail has been hopping round the studio yard all morning. Which kind is it?' },
+  { author: 'maple.woodshop.test', text: 'Offcuts going spare if anyone wants them for a bird box, @wren.birds.test @fern.garden.test' }
+];
+
+export const fixtureFeeds: FixtureFeed[] = [
+  {
+    rkey: 'garden-birds',
+    owner: 'wren.birds.test',
+    name: 'Garden Birds',
+    description: 'Sightings from gardens, parks and canals',
+    authors: ['wren.birds.test', 'fern.garden.test'],
+    likedBy: ['fern.garden.test', 'maple.woodshop.test', 'purl.knits.test'],
+    pinnedBy: ['wren.birds.test', 'fern.garden.test']
+  },
+  {
+    rkey: 'makers',
+    owner: 'maple.woodshop.test',
+    name: 'Makers',
+    description: 'Things people made with their hands',
+    authors: ['maple.woodshop.test', 'kiln.pottery.test', 'purl.knits.test', 'gauge.trains.test'],
+    likedBy: ['wren.birds.test', 'kiln.pottery.test', 'purl.knits.test', 'gauge.trains.test', 'fern.garden.test'],
+    pinnedBy: ['maple.woodshop.test', 'purl.knits.test']
+  },
+  {
+    rkey: 'clay-and-glaze',
+    owner: 'kiln.pottery.test',
+    name: 'Clay & Glaze',
+    description: 'Pottery from the wheel to the kiln, glaze tests included',
+    authors: ['kiln.pottery.test'],
+    likedBy: ['maple.woodshop.test']
+  },
+  {
+    rkey: 'small-gauge',
+    owner: 'gauge.trains.test',
+    name: 'Small Gauge',
+    description: 'Model railways, layouts and shunting puzzles',
+    authors: ['gauge.trains.test', 'maple.woodshop.test']
+  }
+];
+
+export const fixtureConversations: FixtureConversation[] = [
+  {
+    members: ['wren.birds.test', 'fern.garden.test'],
+    messages: [
+      { from: 'fern.garden.test', text: 'Is the new feeder keeping the squirrels off?', minutesAgo: 26 * 60 },
+      { from: 'wren.birds.test', text: 'So far! The baffle works a treat.', minutesAgo: 25 * 60 },
+      { from: 'fern.garden.test', text: 'Brilliant. Which seed mix are you using?', minutesAgo: 90 },
+      { from: 'fern.garden.test', text: 'The goldfinches here ignore anything but nyjer.', minutesAgo: 88 }
+    ],
+    readBy: ['fern.garden.test']
+  },
+  {
+    members: ['wren.birds.test', 'maple.woodshop.test'],
+    messages: [
+      { from: 'wren.birds.test', text: 'Could you make a nest box with a 32mm hole? Happy to pay for the wood.', minutesAgo: 3 * 24 * 60 },
+      { from: 'maple.woodshop.test', text: 'Easy. Cedar offcuts, ready by the weekend.', minutesAgo: 3 * 24 * 60 - 45 }
+    ],
+    readBy: ['wren.birds.test', 'maple.woodshop.test']
+  },
+  {
+    members: ['purl.knits.test', 'kiln.pottery.test'],
+    messages: [{ from: 'kiln.pottery.test', text: 'Your yarn bowl is out of the kiln!', minutesAgo: 300 }],
+    readBy: ['kiln.pottery.test']
+  }
+];
+
+// Answers sent back by the other member after a message, in order, to simulate a conversation
+export const fixtureChatReplies: string[] = [
+  'Ha, good point.',
+  'Let me check and get back to you.',
+  'Sounds great!',
+  'I was just thinking the same thing.',
+  'Send pictures when you can 📷'
+];
+
+// Each fixture account's hobbies record: catalog ids (see src/utils/hobbies.ts) or custom hobbies
+export const fixtureHobbies: Record<string, (string | Hobby)[]> = {
+  'maple.woodshop.test': ['woodworking'],
+  'wren.birds.test': [
+    'birding',
+    'photography',
+    {
+      id: 'custom-garden-birds',
+      name: 'Garden birds',
+      emoji: '🪺',
+      keywords: ['feeder', 'nest box'],
+      hashtags: ['gardenbirds'],
+      feeds: ['at://did:plc:mockwren/app.bsky.feed.generator/garden-birds']
+    }
+  ],
+  'purl.knits.test': ['knitting'],
+  'kiln.pottery.test': ['pottery'],
+  'gauge.trains.test': ['model-railways'],
+  'fern.garden.test': ['gardening', 'birding']
+};
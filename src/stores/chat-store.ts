@@ -0,0 +1,503 @@
+/**
+ * chat-store.ts - Direct message conversations
+ *
+ * Conversation lists hold the conversations loaded so far for one account,
+ * most recently active first, as paginated lists (see paginated-list). Conversation stores hold the messages of one
+ * conversation, oldest first, loading older ones on demand and polling for
+ * new ones while the conversation is open. Both are cached, so leaving the
+ * messages page keeps them.
+ *
+ * Sent messages show up right away as outgoing messages. Once the chat
+ * service accepts one it joins the messages; one it rejects stays in the
+ * conversation as failed so that it can be retried or discarded.
+ *
+ * The unread counter polls the active account's conversations in the
+ * background for the badge on the sidebar envelope. Muted conversations do
+ * not count.
+ *
+ * Usage:
+ *   useEffect(() => unreadMessages.start(), []);
+ *   const { count } = useUnreadMessages();
+ *   const store = conversationStore(session.did, convoId);
+ *   useEffect(() => store.start(), [store]);
+ *   const { messages, outgoing } = useConversation(store);
+ */
+
+import { useSyncExternalStore } from 'react';
+import type { ChatMessage, Conversation } from '../types/models';
+import { client } from '../utils/bluesky-client';
+import { errorMessage, warnCheckFailed } from '../utils/errors';
+import { pollIntervalFromEnvironment } from './feed-store';
+import { createPaginatedList, mergeByKey, type PaginatedList } from './paginated-list';
+import { useStore } from './use-store';
+
+// How often an open conversation checks for new messages, in ms
+export const CONVERSATION_POLL_INTERVAL = 5000;
+
+/**
+ * ConversationList Interface
+ *
+ * A paginated list of conversations (see paginated-list), most recently
+ * active first. Refreshing merges the first page into the list.
+ *
+ * @method update - Replace a conversation in the list, adding it if missing
+ * @method remove - Drop a conversation from the list
+ */
+export interface ConversationList extends PaginatedList<Conversation> {
+  update(conversation: Conversation): void;
+  remove(convoId: string): void;
+}
+
+/**
+ * OutgoingMessage Interface
+ *
+ * A message written here that the chat service has not accepted yet.
+ *
+ * @property key - Identifies the message until it is sent
+ * @property text - Text as written
+ * @property status - Whether it is on its way or was rejected
+ * @property error - Why it was rejected
+ */
+export interface OutgoingMessage {
+  key: string;
+  text: string;
+  status: 'sending' | 'failed';
+  error?: string;
+}
+
+/**
+ * ConversationState Interface
+ *
+ * @property conversation - The conversation, once loaded
+ * @property messages - Messages loaded so far, oldest first
+ * @property outgoing - Messages being sent or that failed to send, oldest first
+ * @property cursor - Cursor for older messages
+ * @property hasOlder - Whether older messages can be requested
+ * @property loaded - Whether the newest messages have been received
+ * @property status - What the conversation is doing right now
+ * @property error - Message of the last failed load, if any
+ */
+export interface ConversationState {
+  conversation?: Conversation;
+  messages: ChatMessage[];
+  outgoing: OutgoingMessage[];
+  cursor?: string;
+  hasOlder: boolean;
+  loaded: boolean;
+  status: 'idle' | 'loading' | 'error';
+  error: string | null;
+}
+
+/**
+ * ConversationStore Interface
+ *
+ * @method start - Load the conversation and poll for new messages; returns a function that stops
+ * @method load - Fetch the conversation and its newest messages
+ * @method loadOlder - Fetch the page of messages before those loaded
+ * @method checkForNew - Fetch messages sent since the last check, marking them read while the window is shown
+ * @method send - Send a message
+ * @method retry - Send a failed message again
+ * @method discard - Forget a failed message
+ * @method setMuted - Mute or unmute the conversation
+ * @method leave - Leave the conversation
+ */
+export interface ConversationStore {
+  getState(): ConversationState;
+  subscribe(listener: () => void): () => void;
+  start(): () => void;
+  load(): Promise<void>;
+  loadOlder(): Promise<void>;
+  checkForNew(): Promise<void>;
+  send(text: string): Promise<void>;
+  retry(key: string): Promise<void>;
+  discard(key: string): void;
+  setMuted(muted: boolean): Promise<void>;
+  leave(): Promise<void>;
+}
+
+/**
+ * UnreadMessages Interface
+ *
+ * @method start - Poll the conversations of the active account; returns a function that stops
+ * @method check - Count unread messages now
+ */
+export interface UnreadMessages {
+  getState(): { count: number };
+  subscribe(listener: () => void): () => void;
+  start(): () => void;
+  check(): Promise<void>;
+}
+
+const INITIAL_CONVERSATION_STATE: ConversationState = {
+  messages: [],
+  outgoing: [],
+  hasOlder: true,
+  loaded: false,
+  status: 'idle',
+  error: null
+};
+
+// Most recently active conversations first
+const byLatestActivity = (a: Conversation, b: Conversation) => (a.rev < b.rev ? 1 : a.rev > b.rev ? -1 : 0);
+
+// Messages by id, the latest copy winning, oldest first
+const mergeMessages = (existing: ChatMessage[], incoming: ChatMessage[]): ChatMessage[] =>
+  mergeByKey(existing, incoming, m => m.id, (a, b) => (a.rev < b.rev ? -1 : a.rev > b.rev ? 1 : 0));
+
+// Conversations are only shown for the active account
+const assertActive = (did: string) => {
+  if (client.getSession()?.did !== did) throw new Error('Switch to this account to see its messages');
+};
+
+/**
+ * Create a list of an account's conversations
+ *
+ * @param did - The account
+ */
+export const createConversationList = (did: string): ConversationList => {
+  const list = createPaginatedList<Conversation>({
+    label: 'conversations',
+    loadPage: cursor => {
+      assertActive(did);
+      return client.listConversations(cursor);
+    },
+    keyOf: conversation => conversation.id,
+    compare: byLatestActivity,
+    refresh: 'merge'
+  });
+
+  const merge = (existing: Conversation[], incoming: Conversation[]) =>
+    mergeByKey(existing, incoming, conversation => conversation.id, byLatestActivity);
+
+  return {
+    getState: list.getState,
+
+    subscribe: list.subscribe,
+
+    loadMore: list.loadMore,
+
+    refresh: list.refresh,
+
+    update: (conversation) => {
+      list.update({ items: merge(list.getState().items, [conversation]) });
+    },
+
+    remove: (convoId) => {
+      const { items } = list.getState();
+      if (items.some(c => c.id === convoId)) {
+        list.update({ items: items.filter(c => c.id !== convoId) });
+      }
+    }
+  };
+};
+
+const lists = new Map<string, ConversationList>();
+
+/**
+ * Get the cached conversation list of an account, creating it on first use
+ *
+ * @param did - The account
+ */
+export const conversationList = (did: string): ConversationList => {
+  let list = lists.get(did);
+  if (!list) {
+    list = createConversationList(did);
+    lists.set(did, list);
+  }
+  return list;
+};
+
+/**
+ * Create the store of one conversation
+ *
+ * @param did - The account reading it
+ * @param convoId - The conversation
+ * @param interval - Time between checks for new messages in ms
+ */
+export const createConversationStore = (
+  did: string,
+  convoId: string,
+  interval: number = CONVERSATION_POLL_INTERVAL
+): ConversationStore => {
+  let state = INITIAL_CONVERSATION_STATE;
+  const listeners = new Set<() => void>();
+  let nextKey = 0;
+
+  const setState = (patch: Partial<ConversationState>) => {
+    state = { ...state, ...patch };
+    listeners.forEach(listener => listener());
+  };
+
+  // Keep the conversation list and the badge in step with this conversation
+  const setConversation = (conversation: Conversation) => {
+    setState({ conversation });
+    conversationList(did).update(conversation);
+  };
+
+  const markRead = async () => {
+    if (!state.conversation?.unread_count) return;
+    const conversation = await client.markConversationRead(convoId);
+    setConversation(conversation);
+    unreadMessages.check();
+  };
+
+  const load = async () => {
+    setState({ status: 'loading', error: null });
+    try {
+      assertActive(did);
+      const [conversation, page] = await Promise.all([
+        client.getConversation(convoId),
+        client.getMessages(convoId)
+      ]);
+      setConversation(conversation);
+      setState({
+        messages: mergeMessages(state.messages, page.items),
+        cursor: state.loaded ? state.cursor : page.cursor,
+        hasOlder: state.loaded ? state.hasOlder : !!page.cursor && page.items.length > 0,
+        loaded: true,
+        status: 'idle'
+      });
+      if (!document.hidden) await markRead();
+    } catch (err) {
+      console.error('Failed to load conversation:', err);
+      setState({ status: 'error', error: errorMessage(err) });
+    }
+  };
+
+  const checkForNew = async () => {
+    if (!state.loaded || client.getSession()?.did !== did) return;
+    try {
+      const [conversation, page] = await Promise.all([
+        client.getConversation(convoId),
+        client.getMessages(convoId)
+      ]);
+      setConversation(conversation);
+      setState({ messages: mergeMessages(state.messages, page.items) });
+      if (!document.hidden) await markRead();
+    } catch (err) {
+      warnCheckFailed('new messages', err);
+    }
+  };
+
+  const deliver = async (key: string, text: string) => {
+    try {
+      assertActive(did);
+      const message = await client.sendMessage(convoId, text);
+      setState({
+        messages: mergeMessages(state.messages, [message]),
+        outgoing: state.outgoing.filter(m => m.key !== key)
+      });
+      if (state.conversation) {
+        conversationList(did).update({ ...state.conversation, rev: message.rev, last_message: message });
+      }
+    } catch (err) {
+      console.error('Failed to send message:', err);
+      setState({
+        outgoing: state.outgoing.map(m => (m.key === key ? { ...m, status: 'failed', error: errorMessage(err) } : m))
+      });
+    }
+  };
+
+  return {
+    getState: () => state,
+
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    start: () => {
+      load();
+      const timer = setInterval(checkForNew, interval);
+      // Catch up right away when the window is shown again
+      const handleVisibilityChange = () => {
+        if (!document.hidden) checkForNew();
+      };
+      document.addEventListener('visibilitychange', handleVisibilityChange);
+      return () => {
+        clearInterval(timer);
+        document.removeEventListener('visibilitychange', handleVisibilityChange);
+      };
+    },
+
+    load,
+
+    loadOlder: async () => {
+      if (state.status === 'loading' || !state.loaded || !state.hasOlder) return;
+      setState({ status: 'loading', error: null });
+      try {
+        assertActive(did);
+        const page = await client.getMessages(convoId, state.cursor);
+        setState({
+          messages: mergeMessages(state.messages, page.items),
+          cursor: page.cursor,
+          hasOlder: !!page.cursor && page.items.length > 0,
+          status: 'idle'
+        });
+      } catch (err) {
+        console.error('Failed to load older messages:', err);
+        setState({ status: 'error', error: errorMessage(err) });
+      }
+    },
+
+    checkForNew,
+
+    send: async (text) => {
+      const key = `outgoing-${nextKey++}`;
+      setState({ outgoing: [...state.outgoing, { key, text, status: 'sending' }] });
+      await deliver(key, text);
+    },
+
+    retry: async (key) => {
+      const message = state.outgoing.find(m => m.key === key);
+      if (!message || message.status !== 'failed') return;
+      setState({
+        outgoing: state.outgoing.map(m => (m.key === key ? { key, text: m.text, status: 'sending' } : m))
+      });
+      await deliver(key, message.text);
+    },
+
+    discard: (key) => {
+      setState({ outgoing: state.outgoing.filter(m => m.key !== key) });
+    },
+
+    setMuted: async (muted) => {
+      assertActive(did);
+      setConversation(await client.muteConversation(convoId, muted));
+      unreadMessages.check();
+    },
+
+    leave: async () => {
+      assertActive(did);
+      await client.leaveConversation(convoId);
+      conversationList(did).remove(convoId);
+      stores.delete(`${did}:${convoId}`);
+      unreadMessages.check();
+    }
+  };
+};
+
+const stores = new Map<string, ConversationStore>();
+
+/**
+ * Get the cached store of a conversation, creating it on first use
+ *
+ * @param did - The account reading it
+ * @param convoId - The conversation
+ */
+export const conversationStore = (did: string, convoId: string): ConversationStore => {
+  const key = `${did}:${convoId}`;
+  let store = stores.get(key);
+  if (!store) {
+    store = createConversationStore(did, convoId);
+    stores.set(key, store);
+  }
+  return store;
+};
+
+/**
+ * Other members of a conversation, as seen by an account
+ *
+ * @param conversation - The conversation
+ * @param did - The account
+ */
+export const otherMembers = (conversation: Conversation, did: string) =>
+  conversation.members.filter(member => member.did !== did);
+
+/**
+ * Name a conversation after its other members
+ *
+ * @param conversation - The conversation
+ * @param did - The account reading it
+ */
+export const conversationTitle = (conversation: Conversation, did: string): string => {
+  const others = otherMembers(conversation, did);
+  if (others.length === 0) return 'Just you';
+  return others.map(member => member.display_name || member.handle).join(', ');
+};
+
+/**
+ * Create the unread message counter
+ *
+ * @param interval - Time between checks in ms
+ */
+export const createUnreadMessages = (interval: number = pollIntervalFromEnvironment()): UnreadMessages => {
+  let state = { count: 0 };
+  const listeners = new Set<() => void>();
+  // Account the count belongs to
+  let countedDid: string | undefined;
+
+  const setCount = (count: number) => {
+    if (count === state.count) return;
+    state = { count };
+    listeners.forEach(listener => listener());
+  };
+
+  const check = async () => {
+    const did = client.getSession()?.did;
+    countedDid = did;
+    if (!did) {
+      setCount(0);
+      return;
+    }
+    try {
+      const page = await client.listConversations();
+      if (client.getSession()?.did !== did) return;
+      // Keep an open messages page current as well
+      const list = conversationList(did);
+      if (list.getState().loaded) page.items.forEach(list.update);
+      setCount(page.items.filter(c => !c.muted).reduce((sum, c) => sum + c.unread_count, 0));
+    } catch (err) {
+      warnCheckFailed('messages', err);
+    }
+  };
+
+  return {
+    getState: () => state,
+
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    start: () => {
+      check();
+      const timer = setInterval(check, interval);
+      // Check right away when another account becomes active or the window is shown again
+      const stopWatchingAccounts = client.onAccountsChange(() => {
+        if (client.getSession()?.did !== countedDid) check();
+      });
+      const handleVisibilityChange = () => {
+        if (!document.hidden) check();
+      };
+      document.addEventListener('visibilitychange', handleVisibilityChange);
+      return () => {
+        clearInterval(timer);
+        stopWatchingAccounts();
+        document.removeEventListener('visibilitychange', handleVisibilityChange);
+      };
+    },
+
+    check
+  };
+};
+
+export const unreadMessages = createUnreadMessages();
+
+/**
+ * Subscribe a component to a conversation
+ *
+ * @param store - The conversation to read, or null while signed out
+ */
+export const useConversation = (store: ConversationStore | null): ConversationState =>
+  useStore(store, INITIAL_CONVERSATION_STATE);
+
+/**
+ * Follow the unread message count of the active account
+ */
+export const useUnreadMessages = (): { count: number } =>
+  useSyncExternalStore(unreadMessages.subscribe, unreadMessages.getState);
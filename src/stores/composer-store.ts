@@ -0,0 +1,101 @@
+/**
+ * composer-store.ts - Whether the post composer is open, and what for
+ *
+ * There is one composer dialog for the whole app (see components/Composer).
+ * Anything that wants to write a post opens it through this store: the
+ * sidebar and feed buttons for a new post, reply buttons with the post being
+ * answered and the repost menu with the post being quoted.
+ *
+ * It can also be opened on a saved draft or a scheduled post to edit them
+ * (see stores/drafts-store and stores/scheduler).
+ *
+ * Usage:
+ *   openComposer({ reply: post });
+ *   const { isOpen, context } = useComposer();
+ */
+
+import { useSyncExternalStore } from 'react';
+import type { PostData, PostDraft, ScheduledPost } from '../types/models';
+
+/**
+ * ComposerContext Interface
+ *
+ * @property reply - Post to reply to
+ * @property quote - Post to quote
+ * @property draft - Saved draft to continue
+ * @property scheduled - Scheduled post to edit
+ */
+export interface ComposerContext {
+  reply?: PostData;
+  quote?: PostData;
+  draft?: PostDraft;
+  scheduled?: ScheduledPost;
+}
+
+/**
+ * ComposerState Interface
+ *
+ * @property isOpen - Whether the composer dialog is shown
+ * @property context - What the composer was opened for
+ * @property session - Increases every time the composer opens, so each opening starts afresh
+ */
+export interface ComposerState {
+  isOpen: boolean;
+  context: ComposerContext;
+  session: number;
+}
+
+/**
+ * ComposerStore Interface
+ *
+ * @method open - Show the composer, optionally to reply to or quote a post
+ * @method close - Hide the composer
+ */
+export interface ComposerStore {
+  getState(): ComposerState;
+  subscribe(listener: () => void): () => void;
+  open(context?: ComposerContext): void;
+  close(): void;
+}
+
+/**
+ * Create a store for the composer dialog
+ */
+export const createComposerStore = (): ComposerStore => {
+  let state: ComposerState = { isOpen: false, context: {}, session: 0 };
+  const listeners = new Set<() => void>();
+
+  const setState = (next: ComposerState) => {
+    state = next;
+    listeners.forEach(listener => listener());
+  };
+
+  return {
+    getState: () => state,
+
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    open: (context = {}) => setState({ isOpen: true, context, session: state.session + 1 }),
+
+    close: () => setState({ ...state, isOpen: false })
+  };
+};
+
+export const composerStore = createComposerStore();
+
+/**
+ * Open the composer
+ *
+ * @param context - Post to reply to or quote, or draft or scheduled post to edit, if any
+ */
+export const openComposer = (context?: ComposerContext): void => composerStore.open(context);
+
+/**
+ * Follow whether the composer is open and what for
+ */
+export const useComposer = (): ComposerState => useSyncExternalStore(composerStore.subscribe, composerStore.getState);
@@ -0,0 +1,140 @@
+/**
+ * drafts-store.ts - Posts saved to finish later
+ *
+ * Each account has its own list of drafts in localStorage. The composer
+ * saves into this list while it is open, so a closed window or a crash
+ * loses nothing, and the Scheduled page lists the drafts to edit or delete.
+ * A draft leaves the list when it is posted, scheduled or discarded.
+ *
+ * Usage:
+ *   const { drafts } = useDrafts(session?.did);
+ *   draftsStore(did).save(draft);
+ */
+
+import type { PostData, PostDraft } from '../types/models';
+import { parsePostDraft } from '../types/validate';
+import { useStore } from './use-store';
+
+const STORAGE_PREFIX = 'hobbysky.drafts.';
+
+/**
+ * DraftsState Interface
+ *
+ * @property drafts - Saved drafts, most recently changed first
+ */
+export interface DraftsState {
+  drafts: PostDraft[];
+}
+
+/**
+ * DraftsStore Interface
+ *
+ * @method save - Add a draft, or replace the one with the same id
+ * @method remove - Delete a draft
+ */
+export interface DraftsStore {
+  getState(): DraftsState;
+  subscribe(listener: () => void): () => void;
+  save(draft: PostDraft): void;
+  remove(id: string): void;
+}
+
+// Read the stored drafts of an account, dropping any that are unreadable
+const loadLocal = (key: string): PostDraft[] => {
+  try {
+    const raw = localStorage.getItem(key);
+    const stored: unknown = raw ? JSON.parse(raw) : [];
+    return Array.isArray(stored) ? stored.map(parsePostDraft) : [];
+  } catch (err) {
+    console.warn('Discarding unreadable drafts:', err);
+    localStorage.removeItem(key);
+    return [];
+  }
+};
+
+const byUpdatedAt = (a: PostDraft, b: PostDraft) => b.updated_at.localeCompare(a.updated_at);
+
+/**
+ * Create the drafts store of one account
+ *
+ * @param did - The account
+ */
+export const createDraftsStore = (did: string): DraftsStore => {
+  const key = `${STORAGE_PREFIX}${did}`;
+  const listeners = new Set<() => void>();
+  let state: DraftsState = { drafts: loadLocal(key).sort(byUpdatedAt) };
+
+  const setDrafts = (drafts: PostDraft[]) => {
+    state = { drafts };
+    if (drafts.length > 0) {
+      localStorage.setItem(key, JSON.stringify(drafts));
+    } else {
+      localStorage.removeItem(key);
+    }
+    listeners.forEach(listener => listener());
+  };
+
+  return {
+    getState: () => state,
+
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    save: (draft) => setDrafts([draft, ...state.drafts.filter(d => d.id !== draft.id)].sort(byUpdatedAt)),
+
+    remove: (id) => {
+      if (state.drafts.some(d => d.id === id)) {
+        setDrafts(state.drafts.filter(d => d.id !== id));
+      }
+    }
+  };
+};
+
+const stores = new Map<string, DraftsStore>();
+
+/**
+ * Get the drafts store of an account, creating it on first use
+ *
+ * @param did - The account
+ */
+export const draftsStore = (did: string): DraftsStore => {
+  let store = stores.get(did);
+  if (!store) {
+    store = createDraftsStore(did);
+    stores.set(did, store);
+  }
+  return store;
+};
+
+const NO_DRAFTS: DraftsState = { drafts: [] };
+
+/**
+ * Follow the drafts of an account; none while signed out
+ *
+ * @param did - The account, or undefined when signed out
+ */
+export const useDrafts = (did: string | undefined): DraftsState => {
+  const store = did ? draftsStore(did) : null;
+  return useStore(store, NO_DRAFTS);
+};
+
+/**
+ * Id for a new draft
+ */
+export const newDraftId = (): string => crypto.randomUUID();
+
+/**
+ * Find a draft replying to or quoting the given post, to continue it when the
+ * same post is replied to or quoted again
+ *
+ * @param drafts - Saved drafts
+ * @param target - Post being replied to or quoted
+ */
+export const draftFor = (drafts: PostDraft[], target: { reply?: PostData; quote?: PostData }): PostDraft | undefined =>
+  target.reply || target.quote
+    ? drafts.find(d => d.reply?.id === target.reply?.id && d.quote?.id === target.quote?.id)
+    : undefined;
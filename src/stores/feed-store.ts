@@ -0,0 +1,229 @@
+/**
+ * feed-store.ts - Cursor-paginated post lists
+ *
+ * A feed store holds the posts loaded so far for one feed (e.g. the home
+ * timeline of one account), the cursor for the next page and the loading
+ * state, as a paginated list (see paginated-list). Stores live outside React
+ * and are cached by key, so navigating to a post and back, or remounting the
+ * app, reuses what was already loaded instead of refetching from scratch.
+ *
+ * Stores can also be polled for posts newer than the top of the list. These
+ * are held back in `newPosts` until the user asks to see them, so the list
+ * never shifts under the reader.
+ *
+ * Usage:
+ *   const store = homeFeedStore(session?.did);
+ *   const { items, status } = useFeedState(store);
+ *   useNewPostsPoller(store);
+ */
+
+import { useEffect, useSyncExternalStore } from 'react';
+import type { Page, PostData } from '../types/models';
+import { client } from '../utils/bluesky-client';
+import { warnCheckFailed } from '../utils/errors';
+import { createPaginatedList, mergeByKey, type LoadPage, type PaginatedListState } from './paginated-list';
+
+/**
+ * FeedState Interface
+ *
+ * A paginated list of posts (see paginated-list), plus:
+ *
+ * @property newPosts - Posts newer than the top of the list, waiting to be shown
+ */
+export interface FeedState extends PaginatedListState<PostData> {
+  newPosts: PostData[];
+}
+
+// Fetch the page after `cursor`, or the first page when it is undefined
+export type PageLoader = LoadPage<PostData>;
+
+/**
+ * FeedStore Interface
+ *
+ * @method loadMore - Fetch the next page (no-op while loading or at the end)
+ * @method refresh - Fetch the first page again and replace the list
+ * @method saveScroll - Remember the scroll position to restore on return
+ * @method savedScroll - Scroll position saved when the feed was last left
+ * @method checkForNew - Look for posts newer than the top of the list
+ * @method showNew - Insert the posts found by checkForNew at the top
+ */
+export interface FeedStore {
+  getState(): FeedState;
+  subscribe(listener: () => void): () => void;
+  loadMore(): Promise<void>;
+  refresh(): Promise<void>;
+  saveScroll(scrollY: number): void;
+  savedScroll(): number;
+  checkForNew(): Promise<void>;
+  showNew(): void;
+}
+
+// Default time between checks for new posts
+const DEFAULT_POLL_INTERVAL = 30 * 1000;
+
+const postKey = (post: PostData) => post.id;
+
+/**
+ * Create a store for one feed
+ *
+ * @param loadPage - Fetches a page of the feed
+ */
+export const createFeedStore = (loadPage: PageLoader): FeedStore => {
+  // First page seen by the last check, used instead of merging when nothing in it was known
+  let detachedPage: Page<PostData> | null = null;
+  // Kept out of the state, so that scrolling does not render the feed again
+  let scrollY = 0;
+
+  const list = createPaginatedList<PostData, Pick<FeedState, 'newPosts'>>(
+    {
+      label: 'feed page',
+      loadPage,
+      keyOf: postKey,
+      onReplace: () => {
+        detachedPage = null;
+        return { newPosts: [] };
+      }
+    },
+    { newPosts: [] }
+  );
+
+  return {
+    getState: list.getState,
+
+    subscribe: list.subscribe,
+
+    loadMore: list.loadMore,
+
+    refresh: list.refresh,
+
+    saveScroll: (y) => {
+      scrollY = y;
+    },
+
+    savedScroll: () => scrollY,
+
+    checkForNew: async () => {
+      const before = list.getState();
+      if (!before.loaded || before.status === 'loading') return;
+      try {
+        const page = await loadPage();
+        const state = list.getState();
+        // A page loaded meanwhile makes this check out of date
+        if (state.items !== before.items || state.status === 'loading') return;
+        const known = new Set(state.items.map(postKey));
+        const firstKnown = page.items.findIndex(post => known.has(post.id));
+        // More new posts than fit in a page: the rest of the list no longer follows on
+        detachedPage = firstKnown === -1 && state.items.length > 0 ? page : null;
+        const newPosts = firstKnown === -1 ? page.items : page.items.slice(0, firstKnown);
+        if (newPosts.length > 0 || state.newPosts.length > 0) {
+          list.update({ newPosts });
+        }
+      } catch (err) {
+        warnCheckFailed('new posts', err);
+      }
+    },
+
+    showNew: () => {
+      const { items, newPosts } = list.getState();
+      if (newPosts.length === 0) return;
+      if (detachedPage) {
+        list.replace(detachedPage);
+        return;
+      }
+      list.update({ items: mergeByKey(newPosts, items, postKey), newPosts: [] });
+    }
+  };
+};
+
+const stores = new Map<string, FeedStore>();
+
+/**
+ * Get the cached store for a feed, creating it on first use
+ *
+ * @param key - Identifies the feed and account, e.g. `home:did:plc:abc`
+ * @param loadPage - Fetches a page of the feed; only used when the store is created
+ */
+export const getFeedStore = (key: string, loadPage: PageLoader): FeedStore => {
+  let store = stores.get(key);
+  if (!store) {
+    store = createFeedStore(loadPage);
+    stores.set(key, store);
+  }
+  return store;
+};
+
+/**
+ * Store for an account's home timeline
+ *
+ * @param did - Active account, or undefined when signed out
+ */
+export const homeFeedStore = (did: string | undefined): FeedStore =>
+  getFeedStore(`home:${did ?? 'anonymous'}`, cursor => client.getTimeline(cursor));
+
+/**
+ * Store for a custom feed as seen by an account
+ *
+ * @param did - Active account, or undefined when signed out
+ * @param uri - AT URI of the feed generator
+ */
+export const customFeedStore = (did: string | undefined, uri: string): FeedStore =>
+  getFeedStore(`feed:${did ?? 'anonymous'}:${uri}`, cursor => client.getFeed(uri, cursor));
+
+/**
+ * Time between checks for new posts, from `?pollInterval=` or `VITE_POLL_INTERVAL`
+ */
+export const pollIntervalFromEnvironment = (): number => {
+  const params = new URLSearchParams(typeof window !== 'undefined' ? window.location.search : '');
+  const value = Number(params.get('pollInterval') ?? import.meta.env.VITE_POLL_INTERVAL);
+  return value > 0 ? value : DEFAULT_POLL_INTERVAL;
+};
+
+/**
+ * Subscribe a component to a feed store
+ *
+ * @param store - The store to read
+ */
+export const useFeedState = (store: FeedStore): FeedState =>
+  useSyncExternalStore(store.subscribe, store.getState);
+
+/**
+ * Check a feed store for new posts in the background
+ *
+ * Checks run every `interval` while the window is visible. Polling pauses when
+ * the window is hidden and resumes, with an immediate check, when it is shown.
+ *
+ * @param store - The store to poll
+ * @param interval - Time between checks in ms
+ */
+export const useNewPostsPoller = (store: FeedStore, interval: number = pollIntervalFromEnvironment()) => {
+  useEffect(() => {
+    let timer: ReturnType<typeof setInterval> | undefined;
+
+    const start = () => {
+      if (timer === undefined) {
+        timer = setInterval(() => store.checkForNew(), interval);
+      }
+    };
+
+    const stop = () => {
+      clearInterval(timer);
+      timer = undefined;
+    };
+
+    const handleVisibilityChange = () => {
+      if (document.hidden) {
+        stop();
+      } else {
+        store.checkForNew();
+        start();
+      }
+    };
+
+    if (!document.hidden) start();
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      stop();
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [store, interval]);
+};
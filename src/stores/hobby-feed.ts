@@ -0,0 +1,167 @@
+/**
+ * hobby-feed.ts - Timelines of a single hobby
+ *
+ * A hobby feed is assembled on the client from several sources:
+ * - the home timeline (the accounts the user follows), filtered to the hobby
+ * - a post search for each of the hobby's hashtags and keywords
+ * - the custom feed generators linked to the hobby, taken as they are
+ *
+ * Each page asks every source that still has posts for its next page, then
+ * merges the results, drops duplicates and ranks them. The cursor of a hobby
+ * feed records the cursor of every source.
+ *
+ * Usage:
+ *   const store = hobbyFeedStore(session?.did, hobby);
+ */
+
+import type { Hobby, Page, PostData } from '../types/models';
+import { client } from '../utils/bluesky-client';
+import { matchHobbies, normalizeHashtag } from '../utils/hobbies';
+import { getFeedStore, type FeedStore, type PageLoader } from './feed-store';
+
+// Most search queries made for one hobby; hashtags are used first
+const MAX_SEARCH_TERMS = 6;
+
+// Posts requested from each search or feed per page
+const SOURCE_PAGE_SIZE = 10;
+
+// Timeline pages are filtered down to the hobby, so more posts are scanned
+const TIMELINE_SCAN_SIZE = 50;
+
+// Rounds of fetching tried to fill a page before returning it empty
+const MAX_ROUNDS = 3;
+
+type SourceKind = 'follows' | 'search' | 'feed';
+
+// One place hobby posts come from
+interface HobbySource {
+  id: string;
+  kind: SourceKind;
+  // Whether posts must be checked against the hobby (custom feeds are trusted)
+  filter: boolean;
+  load: (cursor?: string) => Promise<Page<PostData>>;
+}
+
+// Cursor of every source keyed by source id; null once a source is exhausted
+type SourceCursors = Record<string, string | null>;
+
+// A post found by one or more sources
+interface Candidate {
+  post: PostData;
+  sources: Set<SourceKind>;
+  // Best position of the post within a source page, as a stand-in for recency
+  position: number;
+}
+
+// Queries to search for: hashtags as `#tag`, then keywords
+const searchTerms = (hobby: Hobby): string[] =>
+  [...hobby.hashtags.map(tag => `#${normalizeHashtag(tag)}`), ...hobby.keywords]
+    .filter((term, i, all) => term.length > 1 && all.indexOf(term) === i)
+    .slice(0, MAX_SEARCH_TERMS);
+
+const hobbySources = (hobby: Hobby): HobbySource[] => [
+  {
+    id: 'follows',
+    kind: 'follows',
+    filter: true,
+    load: cursor => client.getTimeline(cursor, TIMELINE_SCAN_SIZE)
+  },
+  ...searchTerms(hobby).map((term): HobbySource => ({
+    id: `search:${term}`,
+    kind: 'search',
+    filter: true,
+    load: cursor => client.searchPosts(term, cursor, SOURCE_PAGE_SIZE)
+  })),
+  ...hobby.feeds.map((uri): HobbySource => ({
+    id: `feed:${uri}`,
+    kind: 'feed',
+    filter: false,
+    load: cursor => client.getFeed(uri, cursor, SOURCE_PAGE_SIZE)
+  }))
+];
+
+/**
+ * Rank merged posts
+ *
+ * Posts from followed accounts come first, then posts found by several
+ * sources, then posts with more engagement; earlier positions in their
+ * source act as a recency tie-breaker.
+ */
+const score = ({ post, sources, position }: Candidate): number =>
+  (sources.has('follows') ? 2 : 0) +
+  (sources.size - 1) +
+  0.5 * Math.log2(1 + post.likes_count + 2 * post.reposts_count + post.replies_count) -
+  0.15 * position;
+
+const parseCursors = (cursor: string | undefined): SourceCursors => {
+  if (!cursor) return {};
+  try {
+    return JSON.parse(cursor) as SourceCursors;
+  } catch {
+    return {};
+  }
+};
+
+/**
+ * Create the page loader of a hobby feed
+ *
+ * A source that fails is retried on the next page; the page only fails when
+ * every source does.
+ *
+ * @param hobby - The hobby to build the feed for
+ */
+export const createHobbyFeedLoader = (hobby: Hobby): PageLoader => async (cursor) => {
+  const sources = hobbySources(hobby);
+  const cursors = parseCursors(cursor);
+  const candidates = new Map<string, Candidate>();
+
+  for (let round = 0; round < MAX_ROUNDS && candidates.size === 0; round++) {
+    const active = sources.filter(source => cursors[source.id] !== null);
+    if (active.length === 0) break;
+
+    const results = await Promise.allSettled(active.map(source => source.load(cursors[source.id] ?? undefined)));
+    if (results.every(result => result.status === 'rejected')) {
+      throw (results[0] as PromiseRejectedResult).reason;
+    }
+
+    results.forEach((result, i) => {
+      const source = active[i];
+      if (result.status === 'rejected') {
+        console.warn(`Hobby feed source ${source.id} failed:`, result.reason);
+        return;
+      }
+      cursors[source.id] = result.value.cursor ?? null;
+      result.value.items
+        .filter(post => !source.filter || matchHobbies(post, [hobby]).length > 0)
+        .forEach((post, position) => {
+          const existing = candidates.get(post.id);
+          if (existing) {
+            existing.sources.add(source.kind);
+            existing.position = Math.min(existing.position, position);
+          } else {
+            candidates.set(post.id, { post, sources: new Set([source.kind]), position });
+          }
+        });
+    });
+  }
+
+  const hasMore = sources.some(source => cursors[source.id] !== null);
+  return {
+    items: [...candidates.values()].sort((a, b) => score(b) - score(a)).map(candidate => candidate.post),
+    cursor: hasMore ? JSON.stringify(cursors) : undefined
+  };
+};
+
+// Everything the posts of a hobby feed depend on; a hobby edited or synced
+// with other sources gets a store of its own rather than the old posts
+const hobbyFeedKey = (hobby: Hobby): string =>
+  JSON.stringify([hobby.id, hobby.keywords, hobby.hashtags, hobby.feeds]);
+
+/**
+ * Store for the feed of one hobby
+ *
+ * @param did - Active account, or undefined when signed out
+ * @param hobby - The hobby to show
+ */
+export const hobbyFeedStore = (did: string | undefined, hobby: Hobby): FeedStore =>
+  getFeedStore(`hobby:${did ?? 'anonymous'}:${hobbyFeedKey(hobby)}`, createHobbyFeedLoader(hobby));
@@ -0,0 +1,196 @@
+/**
+ * hobby-store.ts - The hobbies each account follows
+ *
+ * Hobbies are kept per account in localStorage, so they are available
+ * immediately on launch and while signed out, and synced to the account's
+ * `app.hobbysky.actor.hobbies` record so other HobbySky clients see them.
+ *
+ * Sync rules:
+ * - Every change is saved locally first and then written to the repo
+ * - When a store is first used it reads the record; whichever copy has the
+ *   later `updated_at` wins and the other is overwritten
+ * - A failed write is retried on the next change or sync
+ *
+ * Usage:
+ *   const { hobbies, toggleHobby } = useHobbies(session?.did);
+ */
+
+import { useEffect, useSyncExternalStore } from 'react';
+import type { Hobby, HobbyPreferences } from '../types/models';
+import { parseHobbyPreferences } from '../types/validate';
+import { client } from '../utils/bluesky-client';
+import { errorMessage } from '../utils/errors';
+
+const STORAGE_PREFIX = 'hobbysky.hobbies.';
+
+/**
+ * HobbyState Interface
+ *
+ * @property hobbies - Hobbies the account follows, in the order they were added
+ * @property updatedAt - ISO time of the last local change, null if never changed
+ * @property status - Whether the local copy matches the repo record ('local' until the first sync)
+ * @property error - Message of the last failed sync, if any
+ */
+export interface HobbyState {
+  hobbies: Hobby[];
+  updatedAt: string | null;
+  status: 'local' | 'syncing' | 'synced' | 'error';
+  error: string | null;
+}
+
+/**
+ * HobbyStore Interface
+ *
+ * @method setHobbies - Replace the followed hobbies
+ * @method toggleHobby - Follow a hobby, or unfollow it if already followed
+ * @method sync - Reconcile the local copy with the repo record
+ */
+export interface HobbyStore {
+  getState(): HobbyState;
+  subscribe(listener: () => void): () => void;
+  setHobbies(hobbies: Hobby[]): Promise<void>;
+  toggleHobby(hobby: Hobby): Promise<void>;
+  sync(): Promise<void>;
+}
+
+// Read the stored hobbies of an account, discarding anything unreadable
+const loadLocal = (key: string): HobbyPreferences | null => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? parseHobbyPreferences(JSON.parse(raw)) : null;
+  } catch (err) {
+    console.warn('Discarding unreadable stored hobbies:', err);
+    localStorage.removeItem(key);
+    return null;
+  }
+};
+
+/**
+ * Create the hobby store of one account
+ *
+ * @param did - The account, or undefined for hobbies picked while signed out (never synced)
+ */
+export const createHobbyStore = (did: string | undefined): HobbyStore => {
+  const key = `${STORAGE_PREFIX}${did ?? 'anonymous'}`;
+  const listeners = new Set<() => void>();
+  const stored = loadLocal(key);
+
+  let state: HobbyState = {
+    hobbies: stored?.hobbies ?? [],
+    updatedAt: stored?.updated_at ?? null,
+    status: 'local',
+    error: null
+  };
+  // Latest sync or write, so an older one finishing late does not overwrite the status
+  let pending: Promise<void> | null = null;
+
+  const setState = (patch: Partial<HobbyState>) => {
+    state = { ...state, ...patch };
+    listeners.forEach(listener => listener());
+  };
+
+  const preferences = (): HobbyPreferences => ({
+    hobbies: state.hobbies,
+    updated_at: state.updatedAt ?? new Date(0).toISOString()
+  });
+
+  const saveLocal = () => localStorage.setItem(key, JSON.stringify(preferences()));
+
+  // Run a repo operation, tracking its progress in `status`
+  const track = (operation: () => Promise<void>): Promise<void> => {
+    if (!did) return Promise.resolve();
+    setState({ status: 'syncing', error: null });
+    const current = operation()
+      .then(() => {
+        if (pending === current) setState({ status: 'synced' });
+      })
+      .catch(err => {
+        console.error('Failed to sync hobbies:', err);
+        if (pending === current) setState({ status: 'error', error: errorMessage(err) });
+      });
+    pending = current;
+    return current;
+  };
+
+  const push = async () => {
+    await client.putHobbies(preferences(), { as: did });
+  };
+
+  const setHobbies = (hobbies: Hobby[]) => {
+    setState({ hobbies, updatedAt: new Date().toISOString() });
+    saveLocal();
+    return track(push);
+  };
+
+  return {
+    getState: () => state,
+
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    setHobbies,
+
+    toggleHobby: (hobby) =>
+      setHobbies(
+        state.hobbies.some(h => h.id === hobby.id)
+          ? state.hobbies.filter(h => h.id !== hobby.id)
+          : [...state.hobbies, hobby]
+      ),
+
+    sync: () =>
+      track(async () => {
+        const remote = await client.getHobbies(did as string);
+        if (remote && (!state.updatedAt || remote.updated_at > state.updatedAt)) {
+          setState({ hobbies: remote.hobbies, updatedAt: remote.updated_at });
+          saveLocal();
+        } else if (state.updatedAt && (!remote || remote.updated_at < state.updatedAt)) {
+          await push();
+        }
+      })
+  };
+};
+
+const stores = new Map<string, HobbyStore>();
+
+/**
+ * Get the hobby store of an account, creating it on first use
+ *
+ * @param did - The account, or undefined when signed out
+ */
+export const hobbyStore = (did: string | undefined): HobbyStore => {
+  const storeKey = did ?? 'anonymous';
+  let store = stores.get(storeKey);
+  if (!store) {
+    store = createHobbyStore(did);
+    stores.set(storeKey, store);
+  }
+  return store;
+};
+
+/**
+ * Read and change an account's hobbies
+ *
+ * @param did - The account, or undefined when signed out
+ */
+export const useHobbies = (did: string | undefined) => {
+  const store = hobbyStore(did);
+  const state = useSyncExternalStore(store.subscribe, store.getState);
+
+  // Reconcile with the repo record the first time the account's hobbies are shown
+  useEffect(() => {
+    if (did && store.getState().status === 'local') {
+      store.sync();
+    }
+  }, [store, did]);
+
+  return {
+    ...state,
+    setHobbies: store.setHobbies,
+    toggleHobby: store.toggleHobby,
+    sync: store.sync
+  };
+};
@@ -0,0 +1,194 @@
+/**
+ * interaction-store.ts - Likes and reposts by the signed-in account
+ *
+ * Every view of a post reads its like and repost state from here, so a like
+ * on a feed card shows on the detail page of the same post and back. Posts
+ * are keyed by URI, and hold the URIs of the account's like and repost
+ * records once it has interacted with them during this session.
+ *
+ * Toggling is optimistic:
+ * - The new state shows right away and the record is created or deleted
+ * - On success the record URI returned by the backend is kept, so the next
+ *   toggle deletes the right record
+ * - On failure the previous state is restored and the error is rethrown
+ * - Another toggle of the same kind on the same post is ignored until then
+ *
+ * Counts are derived from the post as fetched, adjusted by the difference
+ * between its viewer state and the one held here, so a post fetched after
+ * liking it is not counted twice. Switching accounts clears the store.
+ *
+ * Usage:
+ *   const { liked, likes_count, toggle } = useInteractions(post);
+ *   await toggle('like');
+ */
+
+import { useSyncExternalStore } from 'react';
+import type { PostData, ViewerState } from '../types/models';
+import { client } from '../utils/bluesky-client';
+
+// Record URI shown while the backend is creating a like or repost
+const PENDING_RECORD = 'pending';
+
+export type InteractionKind = 'like' | 'repost';
+
+/**
+ * PostInteraction Interface
+ *
+ * @property viewer - The account's like and repost records on the post
+ * @property sending - Kinds of interaction waiting for the backend
+ */
+export interface PostInteraction {
+  viewer: ViewerState;
+  sending: InteractionKind[];
+}
+
+/**
+ * InteractionState Interface
+ *
+ * @property byUri - Posts the account interacted with during this session, keyed by URI
+ */
+export interface InteractionState {
+  byUri: Record<string, PostInteraction>;
+}
+
+/**
+ * InteractionStore Interface
+ *
+ * @method toggle - Like or repost a post, or undo it if already done
+ */
+export interface InteractionStore {
+  getState(): InteractionState;
+  subscribe(listener: () => void): () => void;
+  toggle(post: PostData, kind: InteractionKind): Promise<void>;
+}
+
+/**
+ * PostInteractions Interface
+ *
+ * How a post should be shown to the signed-in account.
+ *
+ * @property liked - Whether the account likes the post
+ * @property reposted - Whether the account has reposted the post
+ * @property likes_count - Number of likes, including the account's own
+ * @property reposts_count - Number of reposts, including the account's own
+ * @property sending - Kinds of interaction waiting for the backend
+ */
+export interface PostInteractions {
+  liked: boolean;
+  reposted: boolean;
+  likes_count: number;
+  reposts_count: number;
+  sending: InteractionKind[];
+}
+
+/**
+ * Create a store of the active account's likes and reposts
+ */
+export const createInteractionStore = (): InteractionStore => {
+  let state: InteractionState = { byUri: {} };
+  const listeners = new Set<() => void>();
+  let activeDid = client.getAccounts().activeDid;
+
+  const setState = (next: InteractionState) => {
+    state = next;
+    listeners.forEach(listener => listener());
+  };
+
+  const setPost = (uri: string, interaction: PostInteraction) =>
+    setState({ byUri: { ...state.byUri, [uri]: interaction } });
+
+  // Viewer state belongs to one account; start over when another one is used
+  client.onAccountsChange(accounts => {
+    if (accounts.activeDid === activeDid) return;
+    activeDid = accounts.activeDid;
+    setState({ byUri: {} });
+  });
+
+  return {
+    getState: () => state,
+
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    toggle: async (post, kind) => {
+      const did = activeDid;
+      const current = state.byUri[post.id] ?? { viewer: post.viewer ?? {}, sending: [] };
+      if (current.sending.includes(kind)) return;
+
+      const previous = current.viewer[kind];
+      const settle = (record: string | undefined) => {
+        const entry = state.byUri[post.id];
+        // The answer is about an account that is no longer in use
+        if (activeDid !== did || !entry) return;
+        setPost(post.id, {
+          viewer: { ...entry.viewer, [kind]: record },
+          sending: entry.sending.filter(k => k !== kind)
+        });
+      };
+
+      setPost(post.id, {
+        viewer: { ...current.viewer, [kind]: previous ? undefined : PENDING_RECORD },
+        sending: [...current.sending, kind]
+      });
+
+      try {
+        if (previous) {
+          await (kind === 'like' ? client.unlikePost(previous) : client.unrepostPost(previous));
+          settle(undefined);
+        } else {
+          settle(await (kind === 'like' ? client.likePost(post) : client.repostPost(post)));
+        }
+      } catch (err) {
+        settle(previous);
+        throw err;
+      }
+    }
+  };
+};
+
+export const interactionStore = createInteractionStore();
+
+/**
+ * Work out how a post should be shown, given the interactions held in a store
+ *
+ * @param post - The post as fetched
+ * @param state - State of the interaction store
+ */
+export const interactionsFor = (post: PostData, state: InteractionState): PostInteractions => {
+  const fetched = post.viewer ?? {};
+  const entry = state.byUri[post.id];
+  const viewer = entry?.viewer ?? fetched;
+  // How many records the account has added (1) or removed (-1) since the post was fetched
+  const change = (kind: InteractionKind) => Number(!!viewer[kind]) - Number(!!fetched[kind]);
+
+  return {
+    liked: !!viewer.like,
+    reposted: !!viewer.repost,
+    likes_count: Math.max(0, post.likes_count + change('like')),
+    reposts_count: Math.max(0, post.reposts_count + change('repost')),
+    sending: entry?.sending ?? []
+  };
+};
+
+/**
+ * Follow the state of the interaction store, for views that work out the
+ * interactions of their posts with `interactionsFor`
+ */
+export const useInteractionState = (): InteractionState =>
+  useSyncExternalStore(interactionStore.subscribe, interactionStore.getState);
+
+/**
+ * Follow the signed-in account's interactions with a post
+ *
+ * @param post - The post as fetched
+ */
+export const useInteractions = (post: PostData): PostInteractions & {
+  toggle: (kind: InteractionKind) => Promise<void>;
+} => {
+  const state = useInteractionState();
+  return { ...interactionsFor(post, state), toggle: kind => interactionStore.toggle(post, kind) };
+};
@@ -0,0 +1,350 @@
+/**
+ * notification-store.ts - Notifications and the unread count
+ *
+ * Notification lists hold the notifications loaded so far for one account
+ * and filter, as paginated lists (see paginated-list). Lists are cached
+ * by account and filter, so leaving the notifications page keeps them.
+ *
+ * The unread counter polls the active account's unread count in the
+ * background for the badge on the sidebar bell. It keeps polling while the
+ * window is hidden, which is when desktop alerts matter:
+ * - When they are turned on, each new unread mention or reply is shown as a
+ *   desktop alert once (see utils/desktop-alerts)
+ * - Notifications already unread when an account is first checked are not
+ *   alerted, so launching the app does not replay old ones
+ *
+ * Marking notifications as read clears the unread highlight of every list of
+ * the account, up to the newest notification loaded in them, and counts the
+ * unread ones again for the badge.
+ *
+ * Usage:
+ *   useEffect(() => unreadNotifications.start(), []);
+ *   const { count } = useUnreadNotifications();
+ *   const store = notificationList(session.did, 'mentions');
+ *   const groups = groupNotifications(usePaginatedList(store).items);
+ */
+
+import { useSyncExternalStore } from 'react';
+import type { Author, NotificationData, NotificationReason, PostData } from '../types/models';
+import { client } from '../utils/bluesky-client';
+import { desktopAlertsSupported, requestDesktopAlerts, showDesktopAlert } from '../utils/desktop-alerts';
+import { warnCheckFailed } from '../utils/errors';
+import { pollIntervalFromEnvironment } from './feed-store';
+import { createPaginatedList, type PaginatedList } from './paginated-list';
+
+const ALERTS_STORAGE_KEY = 'hobbysky.desktopAlerts';
+
+// Notifications that are worth a desktop alert
+const ALERT_REASONS: NotificationReason[] = ['mention', 'reply'];
+
+/**
+ * Filter chips of the notifications page
+ */
+export type NotificationFilter = 'all' | 'mentions' | 'likes' | 'reposts' | 'follows';
+
+// Reasons listed by each filter; none means every notification
+export const FILTER_REASONS: Record<NotificationFilter, NotificationReason[]> = {
+  all: [],
+  mentions: ['mention', 'reply', 'quote'],
+  likes: ['like'],
+  reposts: ['repost'],
+  follows: ['follow']
+};
+
+/**
+ * NotificationList Interface
+ *
+ * A paginated list of notifications (see paginated-list), newest first.
+ *
+ * @method markRead - Show every loaded notification as read
+ */
+export interface NotificationList extends PaginatedList<NotificationData> {
+  markRead(): void;
+}
+
+/**
+ * NotificationGroup Interface
+ *
+ * Notifications shown as one row: likes or reposts of the same post, or
+ * follows. Mentions, replies and quotes are never grouped.
+ *
+ * @property key - Identifies the group within a list
+ * @property reason - Why its notifications were sent
+ * @property authors - Accounts behind them, most recent first, each once
+ * @property notifications - The notifications, newest first
+ * @property indexed_at - When the newest one was received
+ * @property is_read - Whether all of them are read
+ * @property subject - The account's post they are about, if any
+ * @property post - The post that mentions, replies or quotes, if any
+ */
+export interface NotificationGroup {
+  key: string;
+  reason: NotificationReason;
+  authors: Author[];
+  notifications: NotificationData[];
+  indexed_at: string;
+  is_read: boolean;
+  subject?: PostData;
+  post?: PostData;
+}
+
+/**
+ * UnreadState Interface
+ *
+ * @property count - Unread notifications of the active account
+ * @property alertsEnabled - Whether new mentions and replies are shown as desktop alerts
+ */
+export interface UnreadState {
+  count: number;
+  alertsEnabled: boolean;
+}
+
+/**
+ * UnreadNotifications Interface
+ *
+ * @method start - Poll the unread count of the active account; returns a function that stops
+ * @method check - Fetch the unread count now
+ * @method markAllRead - Mark the active account's loaded notifications as read
+ * @method setAlertsEnabled - Turn desktop alerts on, asking for permission, or off; resolves to whether they are on
+ */
+export interface UnreadNotifications {
+  getState(): UnreadState;
+  subscribe(listener: () => void): () => void;
+  start(): () => void;
+  check(): Promise<void>;
+  markAllRead(): Promise<void>;
+  setAlertsEnabled(enabled: boolean): Promise<boolean>;
+}
+
+/**
+ * Create a list of an account's notifications
+ *
+ * @param did - The account
+ * @param filter - Which notifications to list
+ */
+export const createNotificationList = (did: string, filter: NotificationFilter): NotificationList => {
+  const list = createPaginatedList<NotificationData>({
+    label: 'notifications',
+    loadPage: cursor => {
+      // Lists are only shown for the active account
+      if (client.getSession()?.did !== did) throw new Error('Switch to this account to see its notifications');
+      return client.listNotifications(FILTER_REASONS[filter], cursor);
+    },
+    keyOf: notification => notification.uri
+  });
+
+  return {
+    getState: list.getState,
+
+    subscribe: list.subscribe,
+
+    loadMore: list.loadMore,
+
+    refresh: list.refresh,
+
+    markRead: () => {
+      const { items } = list.getState();
+      if (items.some(n => !n.is_read)) {
+        list.update({ items: items.map(n => (n.is_read ? n : { ...n, is_read: true })) });
+      }
+    }
+  };
+};
+
+const lists = new Map<string, NotificationList>();
+
+/**
+ * Get the cached notification list of an account, creating it on first use
+ *
+ * @param did - The account
+ * @param filter - Which notifications to list
+ */
+export const notificationList = (did: string, filter: NotificationFilter): NotificationList => {
+  const key = `${did}:${filter}`;
+  let list = lists.get(key);
+  if (!list) {
+    list = createNotificationList(did, filter);
+    lists.set(key, list);
+  }
+  return list;
+};
+
+/**
+ * Group notifications for display
+ *
+ * Likes and reposts of the same post, and follows, are folded into the row of
+ * the newest of them, wherever the others are in the list.
+ *
+ * @param notifications - Notifications, newest first
+ */
+export const groupNotifications = (notifications: NotificationData[]): NotificationGroup[] => {
+  const groups: NotificationGroup[] = [];
+  const byKey = new Map<string, NotificationGroup>();
+
+  notifications.forEach(notification => {
+    const { reason, subject } = notification;
+    const key =
+      reason === 'follow'
+        ? 'follow'
+        : (reason === 'like' || reason === 'repost') && subject
+          ? `${reason}:${subject.id}`
+          : `${reason}:${notification.uri}`;
+    const group = byKey.get(key);
+    if (!group) {
+      const created: NotificationGroup = {
+        key,
+        reason,
+        authors: [notification.author],
+        notifications: [notification],
+        indexed_at: notification.indexed_at,
+        is_read: notification.is_read,
+        subject,
+        post: notification.post
+      };
+      byKey.set(key, created);
+      groups.push(created);
+      return;
+    }
+    group.notifications.push(notification);
+    group.is_read = group.is_read && notification.is_read;
+    if (!group.authors.some(author => author.did === notification.author.did)) {
+      group.authors.push(notification.author);
+    }
+  });
+
+  return groups;
+};
+
+const readAlertsSetting = (): boolean => {
+  try {
+    return localStorage.getItem(ALERTS_STORAGE_KEY) === 'true';
+  } catch {
+    return false;
+  }
+};
+
+// Title and text of the desktop alert for a notification
+const alertText = (notification: NotificationData): [string, string] => {
+  const name = notification.author.display_name || notification.author.handle;
+  const title = notification.reason === 'reply' ? `${name} replied to you` : `${name} mentioned you`;
+  return [title, notification.post?.text ?? ''];
+};
+
+/**
+ * Create the unread counter
+ *
+ * @param interval - Time between checks in ms
+ */
+export const createUnreadNotifications = (interval: number = pollIntervalFromEnvironment()): UnreadNotifications => {
+  let state: UnreadState = { count: 0, alertsEnabled: readAlertsSetting() };
+  const listeners = new Set<() => void>();
+  // Account the count belongs to
+  let countedDid: string | undefined;
+  // Notifications already alerted, or unread before alerts could be shown, per account
+  const alerted = new Map<string, Set<string>>();
+
+  const setState = (patch: Partial<UnreadState>) => {
+    state = { ...state, ...patch };
+    listeners.forEach(listener => listener());
+  };
+
+  // Alert the unread mentions and replies not seen by an earlier check
+  const alertNew = async (did: string, quiet: boolean) => {
+    const page = await client.listNotifications(ALERT_REASONS);
+    if (client.getSession()?.did !== did) return;
+    const seen = alerted.get(did) ?? new Set<string>();
+    alerted.set(did, seen);
+    page.items
+      .filter(n => !n.is_read && !seen.has(n.uri))
+      .reverse()
+      .forEach(n => {
+        seen.add(n.uri);
+        if (!quiet) showDesktopAlert(...alertText(n));
+      });
+  };
+
+  const check = async () => {
+    const did = client.getSession()?.did;
+    if (!did) {
+      countedDid = undefined;
+      if (state.count !== 0) setState({ count: 0 });
+      return;
+    }
+    try {
+      const count = await client.getUnreadCount();
+      if (client.getSession()?.did !== did) return;
+      const isNew = countedDid !== did;
+      const previous = isNew ? 0 : state.count;
+      countedDid = did;
+      if (count !== state.count) setState({ count });
+      if (state.alertsEnabled && (count > previous || !alerted.has(did))) {
+        await alertNew(did, !alerted.has(did));
+      }
+    } catch (err) {
+      warnCheckFailed('notifications', err);
+    }
+  };
+
+  return {
+    getState: () => state,
+
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    start: () => {
+      check();
+      const timer = setInterval(check, interval);
+      // Check right away when another account becomes active or the window is shown again
+      const stopWatchingAccounts = client.onAccountsChange(() => {
+        if (client.getSession()?.did !== countedDid) check();
+      });
+      const handleVisibilityChange = () => {
+        if (!document.hidden) check();
+      };
+      document.addEventListener('visibilitychange', handleVisibilityChange);
+      return () => {
+        clearInterval(timer);
+        stopWatchingAccounts();
+        document.removeEventListener('visibilitychange', handleVisibilityChange);
+      };
+    },
+
+    check,
+
+    markAllRead: async () => {
+      const did = client.getSession()?.did;
+      if (!did) return;
+      const accountLists = [...lists].filter(([key]) => key.startsWith(`${did}:`)).map(([, list]) => list);
+      // Only what the account has seen is read; notifications received since stay unread
+      const newest = accountLists
+        .flatMap(list => list.getState().items)
+        .reduce<NotificationData | undefined>(
+          (latest, n) => (!latest || Date.parse(n.indexed_at) > Date.parse(latest.indexed_at) ? n : latest),
+          undefined
+        );
+      if (!newest) return;
+      await client.markNotificationsRead(newest.indexed_at);
+      accountLists.forEach(list => list.markRead());
+      await check();
+    },
+
+    setAlertsEnabled: async (enabled) => {
+      const allowed = enabled && desktopAlertsSupported() && (await requestDesktopAlerts());
+      localStorage.setItem(ALERTS_STORAGE_KEY, String(allowed));
+      setState({ alertsEnabled: allowed });
+      return allowed;
+    }
+  };
+};
+
+export const unreadNotifications = createUnreadNotifications();
+
+/**
+ * Follow the unread count of the active account and the desktop alerts setting
+ */
+export const useUnreadNotifications = (): UnreadState =>
+  useSyncExternalStore(unreadNotifications.subscribe, unreadNotifications.getState);
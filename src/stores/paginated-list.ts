@@ -0,0 +1,258 @@
+/**
+ * paginated-list.ts - Cursor-paginated lists
+ *
+ * A paginated list holds the items loaded so far, the cursor for the next
+ * page and the loading state. Feeds, notifications, conversations, search
+ * results and suggestions are all such lists: each of their stores builds on
+ * one and adds what is particular to it, like new posts held back in a feed.
+ *
+ * - Pages are merged by the key of each item, so an item is listed once and
+ *   its latest copy is shown
+ * - A refresh fetches the first page again. By default it replaces the list
+ *   and a page requested before it is ignored; lists whose items change place
+ *   (conversations) can merge the first page in instead, keeping the pages
+ *   loaded after it
+ * - A list is at its end once a page comes back empty or without a cursor
+ *
+ * Usage:
+ *   const list = createPaginatedList({ label: 'notifications', loadPage, keyOf: n => n.uri });
+ *   const { items, status } = usePaginatedList(list);
+ *   await list.loadMore();
+ *   const sentinelRef = useLoadMoreSentinel(list);
+ */
+
+import { useEffect, useRef, type RefObject } from 'react';
+import type { Page } from '../types/models';
+import { errorMessage } from '../utils/errors';
+import { useStore, type ExternalStore } from './use-store';
+
+// Start loading the next page when the sentinel is this close to the viewport
+const PRELOAD_MARGIN = '600px';
+
+/**
+ * PaginatedListState Interface
+ *
+ * @property items - Items loaded so far, without duplicates
+ * @property cursor - Cursor for the next page
+ * @property hasMore - Whether another page can be requested
+ * @property loaded - Whether the first page has been received
+ * @property status - What the list is doing right now
+ * @property error - Message of the last failed load, if any
+ */
+export interface PaginatedListState<T> {
+  items: T[];
+  cursor?: string;
+  hasMore: boolean;
+  loaded: boolean;
+  status: 'idle' | 'loading' | 'error';
+  error: string | null;
+}
+
+// Fetch the page after `cursor`, or the first page when it is undefined
+export type LoadPage<T> = (cursor?: string) => Promise<Page<T>>;
+
+/**
+ * PaginatedListOptions Interface
+ *
+ * @property label - What is listed, for logs, e.g. `notifications`
+ * @property loadPage - Fetches a page of the list
+ * @property keyOf - Identifies an item
+ * @property compare - Order of the items; by default new pages go after the items loaded
+ * @property refresh - Whether a refresh replaces the list or merges the first page into it
+ * @property onReplace - Extra state to reset whenever the list is replaced
+ */
+export interface PaginatedListOptions<T, E> {
+  label: string;
+  loadPage: LoadPage<T>;
+  keyOf: (item: T) => string;
+  compare?: (a: T, b: T) => number;
+  refresh?: 'replace' | 'merge';
+  onReplace?: () => Partial<E>;
+}
+
+/**
+ * PaginatedList Interface
+ *
+ * @method loadMore - Fetch the next page, or the first (no-op while loading or at the end)
+ * @method refresh - Fetch the first page again
+ */
+export interface PaginatedList<T, E = object> extends ExternalStore<PaginatedListState<T> & E> {
+  loadMore(): Promise<void>;
+  refresh(): Promise<void>;
+}
+
+/**
+ * EditablePaginatedList Interface
+ *
+ * What the store built on a list sees of it.
+ *
+ * @method replace - Show a page in place of the list, ignoring any page still loading
+ * @method update - Change the state here, e.g. to show items as read
+ */
+export interface EditablePaginatedList<T, E = object> extends PaginatedList<T, E> {
+  replace(page: Page<T>): void;
+  update(patch: Partial<PaginatedListState<T> & E>): void;
+}
+
+/**
+ * State of a list before its first page
+ */
+export const EMPTY_LIST: PaginatedListState<never> = {
+  items: [],
+  hasMore: true,
+  loaded: false,
+  status: 'idle',
+  error: null
+};
+
+/**
+ * Merge items by key, the latest copy winning
+ *
+ * @param existing - Items listed so far
+ * @param incoming - Items to add; new ones go after the existing ones unless sorted
+ * @param keyOf - Identifies an item
+ * @param compare - Order to sort the result in, if any
+ */
+export const mergeByKey = <T>(
+  existing: T[],
+  incoming: T[],
+  keyOf: (item: T) => string,
+  compare?: (a: T, b: T) => number
+): T[] => {
+  const byKey = new Map(existing.map(item => [keyOf(item), item]));
+  incoming.forEach(item => byKey.set(keyOf(item), item));
+  const merged = [...byKey.values()];
+  return compare ? merged.sort(compare) : merged;
+};
+
+// Pages after the last one come back empty or without a cursor
+const hasNextPage = <T>(page: Page<T>) => !!page.cursor && page.items.length > 0;
+
+/**
+ * Create a paginated list
+ *
+ * @param options - How pages are fetched and merged
+ * @param extra - Initial value of the state a store keeps next to the list, if any
+ */
+export const createPaginatedList = <T, E extends object = object>(
+  options: PaginatedListOptions<T, E>,
+  extra?: E
+): EditablePaginatedList<T, E> => {
+  type State = PaginatedListState<T> & E;
+  const { label, loadPage, keyOf, compare, refresh = 'replace', onReplace } = options;
+  let state = { ...EMPTY_LIST, ...extra } as State;
+  const listeners = new Set<() => void>();
+  // Bumped by each request and replacement, so that an older page is ignored
+  let generation = 0;
+
+  const setState = (patch: Partial<PaginatedListState<T>>, extraPatch?: Partial<E>) => {
+    state = { ...state, ...extraPatch, ...patch };
+    listeners.forEach(listener => listener());
+  };
+
+  const merge = (existing: T[], incoming: T[]) => mergeByKey(existing, incoming, keyOf, compare);
+
+  const replaceWith = (page: Page<T>) => {
+    setState(
+      { items: merge([], page.items), cursor: page.cursor, hasMore: hasNextPage(page), loaded: true, status: 'idle', error: null },
+      onReplace?.()
+    );
+  };
+
+  const fetchPage = async (mode: 'append' | 'replace' | 'merge') => {
+    const request = ++generation;
+    setState({ status: 'loading', error: null });
+    try {
+      const page = await loadPage(mode === 'append' ? state.cursor : undefined);
+      if (request !== generation) return;
+      if (mode === 'replace') {
+        replaceWith(page);
+      } else if (mode === 'merge') {
+        // The pages loaded after the first still follow on, so their cursor is kept
+        setState({ items: merge(state.items, page.items), status: 'idle' });
+      } else {
+        setState({
+          items: merge(state.items, page.items),
+          cursor: page.cursor,
+          hasMore: hasNextPage(page),
+          loaded: true,
+          status: 'idle'
+        });
+      }
+    } catch (err) {
+      if (request !== generation) return;
+      console.error(`Failed to load ${label}:`, err);
+      setState({ status: 'error', error: errorMessage(err) });
+    }
+  };
+
+  return {
+    getState: () => state,
+
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    loadMore: async () => {
+      if (state.status === 'loading' || (state.loaded && !state.hasMore)) return;
+      await fetchPage(state.loaded ? 'append' : 'replace');
+    },
+
+    refresh: async () => {
+      if (refresh === 'merge' && state.loaded) {
+        if (state.status !== 'loading') await fetchPage('merge');
+        return;
+      }
+      await fetchPage('replace');
+    },
+
+    replace: (page) => {
+      generation++;
+      replaceWith(page);
+    },
+
+    update: (patch) => {
+      state = { ...state, ...patch };
+      listeners.forEach(listener => listener());
+    }
+  };
+};
+
+/**
+ * Subscribe a component to a paginated list
+ *
+ * @param list - The list to read, or null when there is none, e.g. while signed out
+ */
+export const usePaginatedList = <T>(list: PaginatedList<T> | null): PaginatedListState<T> => useStore(list, EMPTY_LIST);
+
+/**
+ * Load the next page of a list as an element below it approaches the viewport
+ *
+ * @param list - The list to load, or null when there is none
+ * @returns Ref for the sentinel element, placed after the last item
+ */
+export const useLoadMoreSentinel = <T>(list: PaginatedList<T> | null): RefObject<HTMLDivElement> => {
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  const { loaded, hasMore, status } = usePaginatedList(list);
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!list || !sentinel || !loaded || !hasMore || status !== 'idle') return;
+
+    const observer = new IntersectionObserver(
+      entries => {
+        if (entries.some(entry => entry.isIntersecting)) {
+          list.loadMore();
+        }
+      },
+      { rootMargin: PRELOAD_MARGIN }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [list, loaded, hasMore, status]);
+
+  return sentinelRef;
+};
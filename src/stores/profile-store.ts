@@ -0,0 +1,164 @@
+/**
+ * profile-store.ts - Profiles shown on profile pages
+ *
+ * A profile store holds one account's profile as seen by the signed-in user,
+ * and follows or unfollows it. Stores are cached by viewer and account, so
+ * returning to a profile shows it at once while it is loaded again.
+ *
+ * Following is optimistic, like likes and reposts (see interaction-store):
+ * - The button and the follower count change right away
+ * - On success the follow record URI returned by the backend is kept, so
+ *   unfollowing deletes the right record
+ * - On failure the previous state is restored and the error is rethrown
+ *
+ * Usage:
+ *   const store = profileStore(session?.did, actor);
+ *   const { profile, status } = useProfile(store);
+ *   await store.toggleFollow();
+ */
+
+import type { Profile } from '../types/models';
+import { client } from '../utils/bluesky-client';
+import { errorMessage } from '../utils/errors';
+import { useStore } from './use-store';
+
+// Record URI shown while the backend is creating a follow
+const PENDING_RECORD = 'pending';
+
+/**
+ * ProfileState Interface
+ *
+ * @property profile - The profile, once loaded
+ * @property status - What the store is doing right now
+ * @property error - Message of the last failed load, if any
+ * @property isFollowPending - Whether a follow or unfollow is waiting for the backend
+ */
+export interface ProfileState {
+  profile: Profile | null;
+  status: 'idle' | 'loading' | 'error';
+  error: string | null;
+  isFollowPending: boolean;
+}
+
+/**
+ * ProfileStore Interface
+ *
+ * @method load - Fetch the profile, keeping the one shown until it arrives
+ * @method toggleFollow - Follow the account, or unfollow it if already followed
+ * @method setProfile - Show a profile received otherwise, e.g. after editing it
+ */
+export interface ProfileStore {
+  getState(): ProfileState;
+  subscribe(listener: () => void): () => void;
+  load(): Promise<void>;
+  toggleFollow(): Promise<void>;
+  setProfile(profile: Profile): void;
+}
+
+const INITIAL_STATE: ProfileState = { profile: null, status: 'idle', error: null, isFollowPending: false };
+
+/**
+ * Create a store for one account's profile
+ *
+ * @param actor - Handle or DID of the account
+ */
+export const createProfileStore = (actor: string): ProfileStore => {
+  let state = INITIAL_STATE;
+  const listeners = new Set<() => void>();
+
+  const setState = (patch: Partial<ProfileState>) => {
+    state = { ...state, ...patch };
+    listeners.forEach(listener => listener());
+  };
+
+  // Set the viewer's follow record, counting the viewer in or out of the followers
+  const setFollowing = (following: string | undefined) => {
+    const { profile } = state;
+    if (!profile) return;
+    const change = Number(!!following) - Number(!!profile.viewer?.following);
+    setState({
+      profile: {
+        ...profile,
+        followers_count: Math.max(0, profile.followers_count + change),
+        viewer: { ...profile.viewer, following }
+      }
+    });
+  };
+
+  return {
+    getState: () => state,
+
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    load: async () => {
+      if (state.status === 'loading') return;
+      setState({ status: 'loading', error: null });
+      try {
+        const profile = await client.getProfile(actor);
+        // Keep a follow change the backend has not confirmed yet
+        setState({
+          profile: state.isFollowPending && state.profile ? { ...profile, viewer: state.profile.viewer } : profile,
+          status: 'idle'
+        });
+      } catch (err) {
+        console.error(`Failed to load profile ${actor}:`, err);
+        setState({ status: 'error', error: errorMessage(err) });
+      }
+    },
+
+    toggleFollow: async () => {
+      const { profile } = state;
+      if (!profile || state.isFollowPending) return;
+
+      const previous = profile.viewer?.following;
+      setFollowing(previous ? undefined : PENDING_RECORD);
+      setState({ isFollowPending: true });
+      try {
+        if (previous) {
+          await client.unfollowActor(previous);
+          setFollowing(undefined);
+        } else {
+          setFollowing(await client.followActor(profile.did));
+        }
+      } catch (err) {
+        setFollowing(previous);
+        throw err;
+      } finally {
+        setState({ isFollowPending: false });
+      }
+    },
+
+    setProfile: (profile) => setState({ profile, status: 'idle', error: null })
+  };
+};
+
+const stores = new Map<string, ProfileStore>();
+
+/**
+ * Get the cached store for a profile as seen by an account, creating it on first use
+ *
+ * @param viewer - Active account, or undefined when signed out
+ * @param actor - Handle or DID of the profile's account
+ */
+export const profileStore = (viewer: string | undefined, actor: string): ProfileStore => {
+  const key = `${viewer ?? 'anonymous'}:${actor.toLowerCase()}`;
+  let store = stores.get(key);
+  if (!store) {
+    store = createProfileStore(actor);
+    stores.set(key, store);
+  }
+  return store;
+};
+
+/**
+ * Subscribe a component to a profile store
+ *
+ * @param store - The store to read, or null when there is no profile to show
+ */
+export const useProfile = (store: ProfileStore | null): ProfileState =>
+  useStore(store, INITIAL_STATE);
@@ -0,0 +1,181 @@
+/**
+ * reply-store.ts - Replies sent during this session
+ *
+ * Replies appear in their thread as soon as they are submitted, before the
+ * backend has created them:
+ * - `send` adds the reply right away with a temporary id and status 'sending'
+ * - On success it takes the URI and CID of the created record and becomes 'sent'
+ * - On failure it is removed again and the error is rethrown for the composer
+ *   to show, which still holds the text and images
+ *
+ * Threads merge these replies into the ones they fetched with
+ * `withPendingReplies`, so they stay visible until the backend returns them.
+ *
+ * Usage:
+ *   await replyStore.send(parent, author, text, { images });
+ *   const pending = usePendingReplies();
+ *   const nodes = withPendingReplies(post.id, thread.replies, pending);
+ */
+
+import { useSyncExternalStore } from 'react';
+import {
+  replyRefTo,
+  type Author,
+  type Embed,
+  type Facet,
+  type PostData,
+  type Reply,
+  type StrongRef,
+  type ThreadNode
+} from '../types/models';
+import { client, type PostImage, type PostOptions } from '../utils/bluesky-client';
+import { detectFacets } from '../utils/rich-text';
+
+// Prefix of the ids given to replies until the backend has created them
+const PENDING_PREFIX = 'pending:';
+
+/**
+ * PendingReply Interface
+ *
+ * @property post - The reply as shown; its id is temporary while sending
+ * @property status - Whether the backend has created it yet
+ */
+export interface PendingReply {
+  post: Reply;
+  status: 'sending' | 'sent';
+}
+
+/**
+ * ReplyState Interface
+ *
+ * @property byParent - Replies sent this session keyed by the URI of the post they answer, oldest first
+ */
+export interface ReplyState {
+  byParent: Record<string, PendingReply[]>;
+}
+
+/**
+ * ReplyStore Interface
+ *
+ * @method send - Show a reply immediately and create it through the backend
+ */
+export interface ReplyStore {
+  getState(): ReplyState;
+  subscribe(listener: () => void): () => void;
+  send(parent: PostData, author: Author, text: string, options?: PostOptions): Promise<StrongRef>;
+}
+
+// Links and hashtags can be shown right away; mentions wait for the backend to resolve them
+const previewFacets = (text: string): Facet[] =>
+  detectFacets(text).flatMap(({ index, feature }): Facet[] =>
+    feature.type === 'mention_handle' ? [] : [{ index, features: [feature] }]
+  );
+
+// Images embed shown from the local blobs until the uploaded ones are fetched
+const previewEmbed = (images: PostImage[], urls: string[]): Embed | undefined =>
+  images.length > 0
+    ? {
+        type: 'images',
+        images: images.map((image, i) => ({
+          thumb: urls[i],
+          fullsize: urls[i],
+          alt: image.alt,
+          aspect_ratio: { width: image.width, height: image.height }
+        }))
+      }
+    : undefined;
+
+/**
+ * Create a store of replies sent during this session
+ */
+export const createReplyStore = (): ReplyStore => {
+  let state: ReplyState = { byParent: {} };
+  const listeners = new Set<() => void>();
+  let nextId = 1;
+
+  const updateReplies = (parentId: string, change: (replies: PendingReply[]) => PendingReply[]) => {
+    state = { byParent: { ...state.byParent, [parentId]: change(state.byParent[parentId] ?? []) } };
+    listeners.forEach(listener => listener());
+  };
+
+  return {
+    getState: () => state,
+
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    send: async (parent, author, text, options = {}) => {
+      const id = `${PENDING_PREFIX}${nextId++}`;
+      const images = options.images ?? [];
+      // Object URLs of the previews; kept after sending since the reply keeps showing them
+      const urls = images.map(image => URL.createObjectURL(image.blob));
+
+      const post: Reply = {
+        id,
+        cid: '',
+        author,
+        text,
+        created_at: 'now',
+        facets: previewFacets(text),
+        embed: previewEmbed(images, urls),
+        reply: replyRefTo(parent),
+        likes_count: 0,
+        reposts_count: 0,
+        replies_count: 0
+      };
+      updateReplies(parent.id, replies => [...replies, { post, status: 'sending' }]);
+
+      try {
+        const created = await client.createReply(parent, text, options);
+        updateReplies(parent.id, replies =>
+          replies.map(reply =>
+            reply.post.id === id
+              ? { post: { ...reply.post, id: created.uri, cid: created.cid }, status: 'sent' }
+              : reply
+          )
+        );
+        return created;
+      } catch (err) {
+        urls.forEach(url => URL.revokeObjectURL(url));
+        updateReplies(parent.id, replies => replies.filter(reply => reply.post.id !== id));
+        throw err;
+      }
+    }
+  };
+};
+
+export const replyStore = createReplyStore();
+
+/**
+ * Follow the replies sent during this session
+ */
+export const usePendingReplies = (): ReplyState => useSyncExternalStore(replyStore.subscribe, replyStore.getState);
+
+/**
+ * Add the replies sent during this session to a fetched reply tree
+ *
+ * They are listed first at their level, so a new reply shows up next to the
+ * composer. Replies the backend already returned are not added twice.
+ *
+ * @param parentId - URI of the post the nodes reply to
+ * @param nodes - Replies as fetched
+ * @param pending - State of the reply store
+ */
+export const withPendingReplies = (parentId: string, nodes: ThreadNode[], pending: ReplyState): ThreadNode[] => {
+  const fetched = new Set(nodes.map(node => node.post.id));
+  const added = (pending.byParent[parentId] ?? [])
+    .filter(reply => !fetched.has(reply.post.id))
+    .map(reply => ({ post: reply.post, replies: withPendingReplies(reply.post.id, [], pending) }));
+  const merged = nodes.map(node => {
+    const replies = withPendingReplies(node.post.id, node.replies, pending);
+    return {
+      post: { ...node.post, replies_count: Math.max(node.post.replies_count, replies.length) },
+      replies
+    };
+  });
+  return [...added, ...merged];
+};
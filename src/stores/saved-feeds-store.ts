@@ -0,0 +1,206 @@
+/**
+ * saved-feeds-store.ts - Feeds each account has pinned
+ *
+ * Mirrors the account's saved feeds preference, which the official app reads
+ * and writes too, so a feed pinned here is pinned there. The preference is
+ * read the first time it is needed and again each time the home feed is
+ * shown, and written whole after every change; entries this app does not
+ * show, like lists, are kept as they are. The saved feed generators are
+ * fetched along with it, so pinned feeds can be shown by name.
+ *
+ * Pinning is optimistic, like following (see profile-store):
+ * - The pin shows or disappears right away and the preference is written
+ * - On failure the change is undone and the error is rethrown
+ * - Another change to the same feed is ignored until then
+ *
+ * Usage:
+ *   const store = savedFeedsStore(session.did);
+ *   const pinned = pinnedFeedGenerators(useSavedFeeds(store));
+ *   await store.togglePin(feed);
+ */
+
+import type { FeedGenerator, SavedFeed } from '../types/models';
+import { client } from '../utils/bluesky-client';
+import { errorMessage } from '../utils/errors';
+import { useStore } from './use-store';
+
+/**
+ * SavedFeedsState Interface
+ *
+ * @property feeds - Entries of the preference, in the order the user arranged them
+ * @property generators - Saved feed generators, keyed by URI
+ * @property loaded - Whether the preference has been read
+ * @property status - What the store is doing right now
+ * @property error - Message of the last failed load, if any
+ * @property pending - URIs of the feeds whose pin is waiting for the backend
+ */
+export interface SavedFeedsState {
+  feeds: SavedFeed[];
+  generators: Record<string, FeedGenerator>;
+  loaded: boolean;
+  status: 'idle' | 'loading' | 'error';
+  error: string | null;
+  pending: string[];
+}
+
+/**
+ * SavedFeedsStore Interface
+ *
+ * @method load - Read the preference again
+ * @method togglePin - Pin a feed generator, or unpin it if already pinned
+ */
+export interface SavedFeedsStore {
+  getState(): SavedFeedsState;
+  subscribe(listener: () => void): () => void;
+  load(): Promise<void>;
+  togglePin(feed: FeedGenerator): Promise<void>;
+}
+
+const INITIAL_STATE: SavedFeedsState = { feeds: [], generators: {}, loaded: false, status: 'idle', error: null, pending: [] };
+
+/**
+ * Whether a feed generator is pinned
+ *
+ * @param feeds - Entries of the saved feeds preference
+ * @param uri - AT URI of the feed generator
+ */
+export const isPinnedFeed = (feeds: SavedFeed[], uri: string): boolean =>
+  feeds.some(feed => feed.type === 'feed' && feed.value === uri && feed.pinned);
+
+/**
+ * Pinned feed generators, in the order the user arranged them
+ *
+ * Feeds whose generator could not be fetched are left out.
+ *
+ * @param state - State of a saved feeds store
+ */
+export const pinnedFeedGenerators = (state: Pick<SavedFeedsState, 'feeds' | 'generators'>): FeedGenerator[] =>
+  state.feeds.flatMap(feed => (feed.type === 'feed' && feed.pinned && state.generators[feed.value] ? [state.generators[feed.value]] : []));
+
+// Pin a feed, saving it first if needed
+const withPin = (feeds: SavedFeed[], uri: string): SavedFeed[] =>
+  feeds.some(feed => feed.type === 'feed' && feed.value === uri)
+    ? feeds.map(feed => (feed.type === 'feed' && feed.value === uri ? { ...feed, pinned: true } : feed))
+    : [...feeds, { id: crypto.randomUUID(), type: 'feed', value: uri, pinned: true }];
+
+// Unpinning removes the feed from the saved ones, as the app has no other way to manage them
+const withoutPin = (feeds: SavedFeed[], uri: string): SavedFeed[] =>
+  feeds.filter(feed => !(feed.type === 'feed' && feed.value === uri));
+
+/**
+ * Create the saved feeds store of a signed-in account
+ *
+ * @param did - The account
+ */
+export const createSavedFeedsStore = (did: string): SavedFeedsStore => {
+  let state = INITIAL_STATE;
+  const listeners = new Set<() => void>();
+  let loading: Promise<void> | null = null;
+  // Pins shown but not written yet, by feed URI
+  const unconfirmed = new Map<string, boolean>();
+  // Writes run one after the other, each sending the preference as it is by then
+  let writing: Promise<void> = Promise.resolve();
+
+  const setState = (patch: Partial<SavedFeedsState>) => {
+    state = { ...state, ...patch };
+    listeners.forEach(listener => listener());
+  };
+
+  const load = (): Promise<void> => {
+    loading ??= (async () => {
+      setState({ status: 'loading', error: null });
+      try {
+        let feeds = await client.getSavedFeeds({ as: did });
+        // Keep the changes still being written
+        unconfirmed.forEach((pinned, uri) => {
+          feeds = pinned ? withPin(feeds, uri) : withoutPin(feeds, uri);
+        });
+        // Feeds without a generator still count as saved; they are just not shown
+        const uris = feeds.filter(feed => feed.type === 'feed').map(feed => feed.value);
+        const generators = await client.getFeedGenerators(uris).catch((err): FeedGenerator[] => {
+          console.warn('Failed to load saved feed generators:', err);
+          return [];
+        });
+        setState({
+          feeds,
+          generators: { ...state.generators, ...Object.fromEntries(generators.map(generator => [generator.uri, generator])) },
+          loaded: true,
+          status: 'idle'
+        });
+      } catch (err) {
+        console.error('Failed to load saved feeds:', err);
+        setState({ status: 'error', error: errorMessage(err) });
+      } finally {
+        loading = null;
+      }
+    })();
+    return loading;
+  };
+
+  const write = (): Promise<void> => {
+    const next = writing.then(() => client.putSavedFeeds(state.feeds, { as: did }));
+    writing = next.catch(() => {});
+    return next;
+  };
+
+  return {
+    getState: () => state,
+
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    load,
+
+    togglePin: async (generator) => {
+      const { uri } = generator;
+      if (state.pending.includes(uri)) return;
+      setState({ pending: [...state.pending, uri], generators: { ...state.generators, [uri]: generator } });
+      try {
+        // The whole preference is written, so it must be known first
+        if (!state.loaded) await load();
+        if (!state.loaded) throw new Error(state.error ?? 'Your feeds could not be loaded');
+
+        const wasPinned = isPinnedFeed(state.feeds, uri);
+        unconfirmed.set(uri, !wasPinned);
+        setState({ feeds: wasPinned ? withoutPin(state.feeds, uri) : withPin(state.feeds, uri) });
+        try {
+          await write();
+        } catch (err) {
+          setState({ feeds: wasPinned ? withPin(state.feeds, uri) : withoutPin(state.feeds, uri) });
+          throw err;
+        }
+      } finally {
+        unconfirmed.delete(uri);
+        setState({ pending: state.pending.filter(pending => pending !== uri) });
+      }
+    }
+  };
+};
+
+const stores = new Map<string, SavedFeedsStore>();
+
+/**
+ * Get the saved feeds store of an account, creating it on first use
+ *
+ * @param did - The account
+ */
+export const savedFeedsStore = (did: string): SavedFeedsStore => {
+  let store = stores.get(did);
+  if (!store) {
+    store = createSavedFeedsStore(did);
+    stores.set(did, store);
+  }
+  return store;
+};
+
+/**
+ * Subscribe a component to a saved feeds store
+ *
+ * @param store - The store to read, or null when signed out
+ */
+export const useSavedFeeds = (store: SavedFeedsStore | null): SavedFeedsState =>
+  useStore(store, INITIAL_STATE);
@@ -0,0 +1,225 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { PostDraft, ScheduledPost } from '../types/models';
+import { createScheduler, memoryScheduleStorage, type Clock, type PublishPost } from './scheduler';
+
+// Posts are published through the `publish` option; the real client is never used
+vi.mock('../utils/bluesky-client', () => ({ client: {} }));
+
+// The app's own scheduler is created on import and reads localStorage, which Node lacks
+vi.hoisted(() => {
+  const items = new Map<string, string>();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => items.set(key, value),
+    removeItem: (key: string) => items.delete(key)
+  });
+});
+
+const MINUTE = 60_000;
+const LAUNCH = Date.parse('2026-03-01T12:00:00.000Z');
+const DID = 'did:plc:wren';
+
+// Let the scheduler finish what it does in response to a timer or a publish
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+// A clock that only moves when told to, firing the timers due on the way
+const fakeClock = (start: number) => {
+  let time = start;
+  let timers: { at: number; callback: () => void }[] = [];
+
+  const clock: Clock = {
+    now: () => time,
+    setTimer: (callback, delay) => {
+      const timer = { at: time + delay, callback };
+      timers.push(timer);
+      return () => {
+        timers = timers.filter(t => t !== timer);
+      };
+    }
+  };
+
+  const advance = async (ms: number) => {
+    const end = time + ms;
+    for (;;) {
+      await flush();
+      const [next] = timers.filter(t => t.at <= end).sort((a, b) => a.at - b.at);
+      if (!next) break;
+      timers = timers.filter(t => t !== next);
+      time = Math.max(time, next.at);
+      next.callback();
+    }
+    time = end;
+    await flush();
+  };
+
+  return { clock, advance };
+};
+
+const draft = (id: string, text: string): PostDraft => ({
+  id,
+  text,
+  langs: ['en'],
+  labels: [],
+  updated_at: new Date(LAUNCH).toISOString()
+});
+
+const stored = (id: string, publishAt: number, patch: Partial<ScheduledPost> = {}): ScheduledPost => ({
+  ...draft(id, `Post ${id}`),
+  did: DID,
+  publish_at: new Date(publishAt).toISOString(),
+  status: 'pending',
+  attempts: 0,
+  ...patch
+});
+
+describe('createScheduler', () => {
+  let stop: (() => void) | undefined;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    stop?.();
+    stop = undefined;
+    vi.restoreAllMocks();
+  });
+
+  it('sends a post when it falls due', async () => {
+    const { clock, advance } = fakeClock(LAUNCH);
+    const storage = memoryScheduleStorage();
+    const publish = vi.fn<PublishPost>().mockResolvedValue(undefined);
+    const scheduler = createScheduler({ publish, clock, storage });
+    stop = scheduler.start();
+
+    scheduler.schedule(draft('a', 'Off to the hide at dawn'), DID, new Date(LAUNCH + 10 * MINUTE).toISOString());
+    expect(storage.load()).toHaveLength(1);
+
+    await advance(10 * MINUTE - 1);
+    expect(publish).not.toHaveBeenCalled();
+
+    await advance(1);
+    expect(publish).toHaveBeenCalledOnce();
+    expect(publish.mock.calls[0][0]).toMatchObject({ id: 'a', text: 'Off to the hide at dawn', did: DID });
+    expect(scheduler.getState().posts).toEqual([]);
+    expect(storage.load()).toEqual([]);
+  });
+
+  it('retries after 1, 5 and 15 minutes, then marks the post failed', async () => {
+    const { clock, advance } = fakeClock(LAUNCH);
+    const publish = vi.fn<PublishPost>().mockRejectedValue(new Error('Network is down'));
+    const scheduler = createScheduler({ publish, clock });
+    stop = scheduler.start();
+    scheduler.schedule(draft('a', 'Heron sighting'), DID, new Date(LAUNCH + MINUTE).toISOString());
+
+    await advance(MINUTE);
+    expect(publish).toHaveBeenCalledTimes(1);
+    expect(scheduler.getState().posts[0]).toMatchObject({
+      status: 'pending',
+      attempts: 1,
+      retry_at: new Date(LAUNCH + 2 * MINUTE).toISOString(),
+      error: 'Network is down'
+    });
+
+    for (const [delay, attempts] of [
+      [MINUTE, 2],
+      [5 * MINUTE, 3]
+    ]) {
+      await advance(delay - 1);
+      expect(publish).toHaveBeenCalledTimes(attempts - 1);
+      await advance(1);
+      expect(publish).toHaveBeenCalledTimes(attempts);
+      expect(scheduler.getState().posts[0]).toMatchObject({ status: 'pending', attempts });
+    }
+    expect(scheduler.getState().posts[0].retry_at).toBe(new Date(clock.now() + 15 * MINUTE).toISOString());
+
+    await advance(15 * MINUTE);
+    expect(publish).toHaveBeenCalledTimes(4);
+    expect(scheduler.getState().posts[0]).toMatchObject({ status: 'failed', attempts: 4, error: 'Network is down' });
+    expect(scheduler.getState().posts[0].retry_at).toBeUndefined();
+
+    await advance(60 * MINUTE);
+    expect(publish).toHaveBeenCalledTimes(4);
+  });
+
+  it('marks posts more than 15 minutes overdue on launch as missed and sends the others', async () => {
+    const { clock, advance } = fakeClock(LAUNCH);
+    const storage = memoryScheduleStorage([
+      stored('missed', LAUNCH - 16 * MINUTE),
+      stored('late', LAUNCH - 14 * MINUTE),
+      stored('later', LAUNCH + 30 * MINUTE)
+    ]);
+    const publish = vi.fn<PublishPost>().mockResolvedValue(undefined);
+    const scheduler = createScheduler({ publish, clock, storage });
+    stop = scheduler.start();
+    await advance(0);
+
+    expect(publish.mock.calls.map(([post]) => post.id)).toEqual(['late']);
+    expect(scheduler.getState().posts.map(post => [post.id, post.status])).toEqual([
+      ['missed', 'missed'],
+      ['later', 'pending']
+    ]);
+    expect(storage.load().map(post => post.status)).toEqual(['missed', 'pending']);
+  });
+
+  it('only looks for missed posts on the first start', async () => {
+    const { clock, advance } = fakeClock(LAUNCH);
+    const publish = vi.fn<PublishPost>().mockResolvedValue(undefined);
+    const scheduler = createScheduler({
+      publish,
+      clock,
+      storage: memoryScheduleStorage([stored('a', LAUNCH + MINUTE)])
+    });
+    scheduler.start()();
+    await advance(20 * MINUTE);
+    stop = scheduler.start();
+    await advance(0);
+
+    expect(publish).toHaveBeenCalledOnce();
+  });
+
+  it('marks a post that was being sent when the app closed as failed on relaunch', async () => {
+    const { clock, advance } = fakeClock(LAUNCH);
+    const publish = vi.fn<PublishPost>().mockResolvedValue(undefined);
+    const scheduler = createScheduler({
+      publish,
+      clock,
+      storage: memoryScheduleStorage([stored('a', LAUNCH - MINUTE, { status: 'sending' })])
+    });
+    stop = scheduler.start();
+    await advance(60 * MINUTE);
+
+    expect(publish).not.toHaveBeenCalled();
+    expect(scheduler.getState().posts[0].status).toBe('failed');
+    expect(scheduler.getState().posts[0].error).toMatch(/closed while this post was being sent/);
+  });
+
+  it('sends a failed post again when asked, without retrying it', async () => {
+    const { clock, advance } = fakeClock(LAUNCH);
+    const publish = vi.fn<PublishPost>().mockRejectedValueOnce(new Error('Rate limited')).mockResolvedValue(undefined);
+    const scheduler = createScheduler({
+      publish,
+      clock,
+      storage: memoryScheduleStorage([stored('a', LAUNCH - 30 * MINUTE)])
+    });
+    stop = scheduler.start();
+
+    await scheduler.publishNow('a');
+    expect(scheduler.getState().posts[0]).toMatchObject({ status: 'failed', attempts: 1, error: 'Rate limited' });
+    await advance(60 * MINUTE);
+    expect(publish).toHaveBeenCalledOnce();
+
+    await scheduler.publishNow('a');
+    expect(scheduler.getState().posts).toEqual([]);
+  });
+
+  it('only schedules single posts in the future', () => {
+    const { clock } = fakeClock(LAUNCH);
+    const scheduler = createScheduler({ publish: vi.fn<PublishPost>(), clock });
+    const inAnHour = new Date(LAUNCH + 60 * MINUTE).toISOString();
+
+    expect(() => scheduler.schedule(draft('a', 'Too late'), DID, new Date(LAUNCH).toISOString())).toThrow(/future/);
+    expect(() => scheduler.schedule({ ...draft('b', 'First'), thread: ['Second'] }, DID, inAnHour)).toThrow(/Threads/);
+    expect(scheduler.getState().posts).toEqual([]);
+  });
+});
@@ -0,0 +1,348 @@
+/**
+ * scheduler.ts - Posts published at a set time
+ *
+ * Holds scheduled posts until their publish time and then sends them through
+ * the backend. The posts of every account are kept together in localStorage
+ * and are only sent while the app is running.
+ *
+ * Rules:
+ * - One timer is armed for the next post due; when it fires, every post due
+ *   by then is sent, one after the other
+ * - A failed attempt is retried after 1, 5 and 15 minutes; after that the post
+ *   is marked failed and waits for the user
+ * - On launch, posts whose time passed more than 15 minutes ago while the app
+ *   was closed are marked missed instead of being sent late; the user posts
+ *   them now, reschedules or deletes them. Posts due more recently go out
+ *   right away.
+ * - A post that was being sent when the app closed may or may not have been
+ *   created, so it is marked failed rather than sent a second time
+ *
+ * Time comes from a Clock and posts are kept in a ScheduleStorage, so the
+ * scheduler can be driven by a fake clock and memory storage in tests.
+ *
+ * Usage:
+ *   useEffect(() => scheduler.start(), []);
+ *   scheduler.schedule(draft, did, publishAt);
+ *   const { posts } = useScheduledPosts(session?.did);
+ */
+
+import { useSyncExternalStore } from 'react';
+import type { PostDraft, ScheduledPost } from '../types/models';
+import { parseScheduledPosts } from '../types/validate';
+import { client } from '../utils/bluesky-client';
+import { errorMessage } from '../utils/errors';
+
+const STORAGE_KEY = 'hobbysky.scheduled';
+
+// Waits before each retry of a failed post, in ms
+const RETRY_DELAYS = [60_000, 5 * 60_000, 15 * 60_000];
+
+// How late a post may be sent on launch before it counts as missed, in ms
+const MISSED_AFTER = 15 * 60_000;
+
+// Longest the timer is set for; it is re-armed after waking, which also
+// catches up after the computer slept
+const MAX_TIMER_DELAY = 60 * 60_000;
+
+/**
+ * Clock Interface
+ *
+ * Source of time for the scheduler.
+ *
+ * @method now - Current time in ms since the epoch
+ * @method setTimer - Call back after a delay in ms; returns a function that cancels it
+ */
+export interface Clock {
+  now(): number;
+  setTimer(callback: () => void, delay: number): () => void;
+}
+
+/**
+ * The real clock
+ */
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimer: (callback, delay) => {
+    const timer = setTimeout(callback, delay);
+    return () => clearTimeout(timer);
+  }
+};
+
+/**
+ * ScheduleStorage Interface
+ *
+ * Where the scheduler keeps its posts between launches.
+ */
+export interface ScheduleStorage {
+  load(): ScheduledPost[];
+  save(posts: ScheduledPost[]): void;
+}
+
+/**
+ * Storage backed by window.localStorage
+ */
+export const localScheduleStorage: ScheduleStorage = {
+  load: () => {
+    try {
+      const raw = localStorage.getItem(STORAGE_KEY);
+      return raw ? parseScheduledPosts(JSON.parse(raw)) : [];
+    } catch (err) {
+      console.warn('Discarding unreadable scheduled posts:', err);
+      localStorage.removeItem(STORAGE_KEY);
+      return [];
+    }
+  },
+
+  save: (posts) => {
+    if (posts.length > 0) {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(posts));
+    } else {
+      localStorage.removeItem(STORAGE_KEY);
+    }
+  }
+};
+
+/**
+ * Storage that forgets everything, for tests and non-browser environments
+ *
+ * @param initial - Posts to start with
+ */
+export const memoryScheduleStorage = (initial: ScheduledPost[] = []): ScheduleStorage => {
+  let stored = initial;
+  return {
+    load: () => stored,
+    save: (posts) => {
+      stored = posts;
+    }
+  };
+};
+
+/**
+ * Create the post of a scheduled post through the backend
+ */
+export type PublishPost = (post: ScheduledPost) => Promise<void>;
+
+/**
+ * SchedulerOptions Interface
+ *
+ * @property publish - Creates the post; rejects when it was not created
+ * @property clock - Source of time, the real clock by default
+ * @property storage - Where posts are kept, memory by default
+ */
+export interface SchedulerOptions {
+  publish: PublishPost;
+  clock?: Clock;
+  storage?: ScheduleStorage;
+}
+
+/**
+ * SchedulerState Interface
+ *
+ * @property posts - Scheduled posts of every account, soonest first
+ */
+export interface SchedulerState {
+  posts: ScheduledPost[];
+}
+
+/**
+ * Scheduler Interface
+ *
+ * @method start - Check for missed posts on first start, then send posts as they fall due; returns a function that stops
+ * @method schedule - Schedule a draft, or reschedule the post with the draft's id; throws for threads and unless the time is in the future
+ * @method publishNow - Send a post right away, whatever its status; a failure marks it failed
+ * @method remove - Delete a post
+ */
+export interface Scheduler {
+  getState(): SchedulerState;
+  subscribe(listener: () => void): () => void;
+  start(): () => void;
+  schedule(draft: PostDraft, did: string, publishAt: string): ScheduledPost;
+  publishNow(id: string): Promise<void>;
+  remove(id: string): void;
+}
+
+const byPublishAt = (a: ScheduledPost, b: ScheduledPost) => a.publish_at.localeCompare(b.publish_at);
+
+// When a post is next due: its retry after a failure, otherwise its publish time
+const dueAt = (post: ScheduledPost): number => Date.parse(post.retry_at ?? post.publish_at);
+
+/**
+ * Create a scheduler
+ *
+ * @param options - How posts are published, timed and kept
+ */
+export const createScheduler = ({
+  publish,
+  clock = systemClock,
+  storage = memoryScheduleStorage()
+}: SchedulerOptions): Scheduler => {
+  const listeners = new Set<() => void>();
+  let state: SchedulerState = { posts: [...storage.load()].sort(byPublishAt) };
+  // Missed posts are only looked for on the first start, i.e. on launch
+  let launched = false;
+  let started = false;
+  let isRunning = false;
+  let cancelTimer: (() => void) | null = null;
+
+  // Send every post due by now, then wait for the next one
+  const runDue = async () => {
+    cancelTimer = null;
+    if (isRunning) return;
+    isRunning = true;
+    try {
+      let due: ScheduledPost | undefined;
+      while (started && (due = state.posts.find(p => p.status === 'pending' && dueAt(p) <= clock.now()))) {
+        await send(due, true);
+      }
+    } finally {
+      isRunning = false;
+    }
+    arm();
+  };
+
+  // Set the timer for the next pending post
+  const arm = () => {
+    cancelTimer?.();
+    cancelTimer = null;
+    if (!started || isRunning) return;
+    const times = state.posts.filter(p => p.status === 'pending').map(dueAt);
+    if (times.length === 0) return;
+    const delay = Math.min(Math.max(0, Math.min(...times) - clock.now()), MAX_TIMER_DELAY);
+    cancelTimer = clock.setTimer(runDue, delay);
+  };
+
+  const setPosts = (posts: ScheduledPost[]) => {
+    state = { posts: [...posts].sort(byPublishAt) };
+    storage.save(state.posts);
+    listeners.forEach(listener => listener());
+    arm();
+  };
+
+  const update = (id: string, patch: Partial<ScheduledPost>) =>
+    setPosts(state.posts.map(p => (p.id === id ? { ...p, ...patch } : p)));
+
+  // Publish one post; failures are retried later only when `retry` is set
+  const send = async (post: ScheduledPost, retry: boolean) => {
+    update(post.id, { status: 'sending' });
+    try {
+      await publish(post);
+    } catch (err) {
+      console.error('Failed to publish scheduled post:', err);
+      const attempts = post.attempts + 1;
+      const delay = retry ? RETRY_DELAYS[post.attempts] : undefined;
+      update(
+        post.id,
+        delay === undefined
+          ? { status: 'failed', attempts, retry_at: undefined, error: errorMessage(err) }
+          : {
+              status: 'pending',
+              attempts,
+              retry_at: new Date(clock.now() + delay).toISOString(),
+              error: errorMessage(err)
+            }
+      );
+      return;
+    }
+    setPosts(state.posts.filter(p => p.id !== post.id));
+  };
+
+  // Flag the posts that fell due, or were being sent, while the app was closed
+  const markMissed = () => {
+    const cutoff = clock.now() - MISSED_AFTER;
+    setPosts(
+      state.posts.map((post): ScheduledPost => {
+        if (post.status === 'sending') {
+          return {
+            ...post,
+            status: 'failed',
+            error: 'The app closed while this post was being sent. Check your profile before posting it again.'
+          };
+        }
+        return post.status === 'pending' && dueAt(post) < cutoff ? { ...post, status: 'missed' } : post;
+      })
+    );
+  };
+
+  return {
+    getState: () => state,
+
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    start: () => {
+      started = true;
+      if (!launched) {
+        launched = true;
+        markMissed();
+      }
+      arm();
+      return () => {
+        started = false;
+        cancelTimer?.();
+        cancelTimer = null;
+      };
+    },
+
+    schedule: (draft, did, publishAt) => {
+      // Only the text of one post is kept, so a thread would lose every post after the first
+      if (draft.thread && draft.thread.length > 0) {
+        throw new Error("Threads can't be scheduled yet");
+      }
+      if (!(Date.parse(publishAt) > clock.now())) {
+        throw new Error('Choose a time in the future');
+      }
+      const post: ScheduledPost = {
+        id: draft.id,
+        text: draft.text,
+        langs: draft.langs,
+        labels: draft.labels,
+        reply: draft.reply,
+        quote: draft.quote,
+        updated_at: new Date(clock.now()).toISOString(),
+        did,
+        publish_at: new Date(publishAt).toISOString(),
+        status: 'pending',
+        attempts: 0
+      };
+      const existing = state.posts.find(p => p.id === post.id);
+      if (existing?.status === 'sending') {
+        throw new Error('This post is being sent right now');
+      }
+      setPosts([...state.posts.filter(p => p.id !== post.id), post]);
+      return post;
+    },
+
+    publishNow: async (id) => {
+      const post = state.posts.find(p => p.id === id);
+      if (post && post.status !== 'sending') await send(post, false);
+    },
+
+    remove: (id) => setPosts(state.posts.filter(p => p.id !== id))
+  };
+};
+
+// Create the post, or the reply, as the account it was scheduled for
+const publishWithClient: PublishPost = async (post) => {
+  const options = { as: post.did, langs: post.langs, labels: post.labels, quote: post.quote };
+  if (post.reply) {
+    await client.createReply(post.reply, post.text, options);
+  } else {
+    await client.createPost(post.text, options);
+  }
+};
+
+export const scheduler = createScheduler({ publish: publishWithClient, storage: localScheduleStorage });
+
+/**
+ * Follow the scheduled posts of an account; none while signed out
+ *
+ * @param did - The account, or undefined when signed out
+ */
+export const useScheduledPosts = (did: string | undefined): SchedulerState => {
+  const { posts } = useSyncExternalStore(scheduler.subscribe, scheduler.getState);
+  return { posts: posts.filter(post => post.did === did) };
+};
@@ -0,0 +1,221 @@
+/**
+ * search-store.ts - Search history and search results
+ *
+ * Each account keeps its recent searches and the searches it saved in
+ * localStorage; signed out, searches are kept for the browser. Recent
+ * searches are remembered when a search is run, newest first, without
+ * repeats. Saved searches stay until they are removed.
+ *
+ * Account and feed results are paginated lists (see paginated-list), cached
+ * by account and search terms so that switching tabs or coming back from a
+ * profile keeps them. Post results are feed stores, cached the same way by
+ * account and query. Only the most recently shown searches of each kind are
+ * kept.
+ *
+ * Usage:
+ *   const { recent, saved } = useSearchHistory(session?.did);
+ *   searchHistory(session?.did).addRecent(query);
+ *   const { items } = usePaginatedList(peopleResults(session?.did, terms));
+ */
+
+import { useSyncExternalStore } from 'react';
+import type { FeedGenerator, Profile } from '../types/models';
+import { client } from '../utils/bluesky-client';
+import { createFeedStore, type FeedStore } from './feed-store';
+import { createPaginatedList, type LoadPage, type PaginatedList } from './paginated-list';
+
+const STORAGE_PREFIX = 'hobbysky.searches.';
+
+// Most recent searches remembered
+export const MAX_RECENT_SEARCHES = 10;
+
+// Most searches of each kind whose results are kept
+const MAX_CACHED_RESULTS = 20;
+
+// Stands in for the account while signed out
+const SIGNED_OUT = 'signed-out';
+
+/**
+ * SearchHistoryState Interface
+ *
+ * @property recent - Searches run lately, newest first
+ * @property saved - Searches saved to run again, most recently saved first
+ */
+export interface SearchHistoryState {
+  recent: string[];
+  saved: string[];
+}
+
+/**
+ * SearchHistory Interface
+ *
+ * @method addRecent - Remember a search that was run
+ * @method removeRecent - Forget one recent search
+ * @method clearRecent - Forget every recent search
+ * @method save - Save a search
+ * @method unsave - Remove a saved search
+ */
+export interface SearchHistory {
+  getState(): SearchHistoryState;
+  subscribe(listener: () => void): () => void;
+  addRecent(query: string): void;
+  removeRecent(query: string): void;
+  clearRecent(): void;
+  save(query: string): void;
+  unsave(query: string): void;
+}
+
+// Compare searches the way people read them: case and spacing do not matter
+const sameSearch = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// Read the stored searches of an account, dropping them if unreadable
+const loadLocal = (key: string): SearchHistoryState => {
+  const strings = (value: unknown): string[] =>
+    Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+  try {
+    const raw = localStorage.getItem(key);
+    const stored = raw ? JSON.parse(raw) : {};
+    return { recent: strings(stored?.recent), saved: strings(stored?.saved) };
+  } catch (err) {
+    console.warn('Discarding unreadable search history:', err);
+    localStorage.removeItem(key);
+    return { recent: [], saved: [] };
+  }
+};
+
+/**
+ * Create the search history of one account
+ *
+ * @param did - The account, or undefined while signed out
+ */
+export const createSearchHistory = (did: string | undefined): SearchHistory => {
+  const key = `${STORAGE_PREFIX}${did ?? SIGNED_OUT}`;
+  const listeners = new Set<() => void>();
+  let state = loadLocal(key);
+
+  const setState = (patch: Partial<SearchHistoryState>) => {
+    state = { ...state, ...patch };
+    if (state.recent.length > 0 || state.saved.length > 0) {
+      localStorage.setItem(key, JSON.stringify(state));
+    } else {
+      localStorage.removeItem(key);
+    }
+    listeners.forEach(listener => listener());
+  };
+
+  return {
+    getState: () => state,
+
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    addRecent: (query) => {
+      const trimmed = query.trim();
+      if (!trimmed || sameSearch(state.recent[0] ?? '', trimmed)) return;
+      setState({ recent: [trimmed, ...state.recent.filter(q => !sameSearch(q, trimmed))].slice(0, MAX_RECENT_SEARCHES) });
+    },
+
+    removeRecent: (query) => setState({ recent: state.recent.filter(q => !sameSearch(q, query)) }),
+
+    clearRecent: () => setState({ recent: [] }),
+
+    save: (query) => {
+      const trimmed = query.trim();
+      if (!trimmed || state.saved.some(q => sameSearch(q, trimmed))) return;
+      setState({ saved: [trimmed, ...state.saved] });
+    },
+
+    unsave: (query) => setState({ saved: state.saved.filter(q => !sameSearch(q, query)) })
+  };
+};
+
+const histories = new Map<string, SearchHistory>();
+
+/**
+ * Get the search history of an account, creating it on first use
+ *
+ * @param did - The account, or undefined while signed out
+ */
+export const searchHistory = (did: string | undefined): SearchHistory => {
+  const key = did ?? SIGNED_OUT;
+  let history = histories.get(key);
+  if (!history) {
+    history = createSearchHistory(did);
+    histories.set(key, history);
+  }
+  return history;
+};
+
+/**
+ * Whether a search is among the saved ones
+ *
+ * @param saved - Saved searches
+ * @param query - The search
+ */
+export const isSavedSearch = (saved: string[], query: string): boolean => saved.some(q => sameSearch(q, query));
+
+// Result lists by account and search, least recently shown first
+const postLists = new Map<string, FeedStore>();
+const peopleLists = new Map<string, PaginatedList<Profile>>();
+const feedLists = new Map<string, PaginatedList<FeedGenerator>>();
+
+// Get a cached result list, creating it on first use, and drop the least recently shown past the limit
+const cachedResults = <L>(lists: Map<string, L>, did: string | undefined, search: string, create: () => L): L => {
+  const key = `${did ?? SIGNED_OUT}:${search.toLowerCase()}`;
+  const list = lists.get(key) ?? create();
+  lists.delete(key);
+  lists.set(key, list);
+  if (lists.size > MAX_CACHED_RESULTS) {
+    const [oldest] = lists.keys();
+    lists.delete(oldest);
+  }
+  return list;
+};
+
+// A result list of accounts or feeds
+const resultList = <T>(loadPage: LoadPage<T>, keyOf: (item: T) => string): PaginatedList<T> =>
+  createPaginatedList({ label: 'search results', loadPage, keyOf });
+
+/**
+ * Get the cached posts matching a search
+ *
+ * @param did - The account searching, or undefined while signed out
+ * @param query - The search, operators included
+ */
+export const postResults = (did: string | undefined, query: string): FeedStore =>
+  cachedResults(postLists, did, query, () => createFeedStore(cursor => client.searchPosts(query, cursor)));
+
+/**
+ * Get the cached accounts matching a search
+ *
+ * @param did - The account searching, or undefined while signed out
+ * @param terms - Words to search for
+ */
+export const peopleResults = (did: string | undefined, terms: string): PaginatedList<Profile> =>
+  cachedResults(peopleLists, did, terms, () =>
+    resultList(cursor => client.searchActors(terms, cursor), profile => profile.did)
+  );
+
+/**
+ * Get the cached feeds matching a search
+ *
+ * @param did - The account searching, or undefined while signed out
+ * @param terms - Words to search for
+ */
+export const feedResults = (did: string | undefined, terms: string): PaginatedList<FeedGenerator> =>
+  cachedResults(feedLists, did, terms, () => resultList(cursor => client.searchFeeds(terms, cursor), feed => feed.uri));
+
+/**
+ * Follow the search history of an account
+ *
+ * @param did - The account, or undefined while signed out
+ */
+export const useSearchHistory = (did: string | undefined): SearchHistoryState => {
+  const history = searchHistory(did);
+  return useSyncExternalStore(history.subscribe, history.getState);
+};
+
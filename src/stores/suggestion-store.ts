@@ -0,0 +1,104 @@
+/**
+ * suggestion-store.ts - Suggested feeds and accounts to follow
+ *
+ * The widgets column and the "Show more" pages read the same lists, cached
+ * per account, so moving between pages does not fetch them again. A list is
+ * fetched again when shown once it is older than `SUGGESTIONS_TTL`.
+ *
+ * Suggested feeds come most popular first; each page is then reordered so
+ * feeds about the account's hobbies come first (see utils/hobbies). Pages are
+ * reordered one at a time, so loading more never moves the feeds shown.
+ *
+ * Usage:
+ *   const list = suggestedFeeds(session?.did);
+ *   useEffect(() => { list.load(); }, [list]);
+ *   const { items } = usePaginatedList(list);
+ */
+
+import type { FeedGenerator, Profile } from '../types/models';
+import { client } from '../utils/bluesky-client';
+import { rankFeedsByHobbies } from '../utils/hobbies';
+import { hobbyStore } from './hobby-store';
+import { createPaginatedList, type LoadPage, type PaginatedList } from './paginated-list';
+
+// How long suggestions are shown before they are fetched again, in ms
+export const SUGGESTIONS_TTL = 10 * 60 * 1000;
+
+/**
+ * SuggestionList Interface
+ *
+ * A paginated list of suggestions (see paginated-list), best first.
+ *
+ * @method load - Fetch the first page, unless the list was fetched recently
+ */
+export interface SuggestionList<T> extends PaginatedList<T> {
+  load(): Promise<void>;
+}
+
+/**
+ * Create a paginated list of suggestions
+ *
+ * @param loadPage - Fetches the page after a cursor
+ * @param keyOf - Identifies a suggestion
+ */
+export const createSuggestionList = <T>(loadPage: LoadPage<T>, keyOf: (item: T) => string): SuggestionList<T> => {
+  const list = createPaginatedList({ label: 'suggestions', loadPage, keyOf });
+  // When the first page was last received
+  let loadedAt: number | null = null;
+
+  return {
+    getState: list.getState,
+
+    subscribe: list.subscribe,
+
+    loadMore: list.loadMore,
+
+    refresh: list.refresh,
+
+    load: async () => {
+      if (list.getState().status === 'loading') return;
+      if (loadedAt !== null && Date.now() - loadedAt < SUGGESTIONS_TTL) return;
+      await list.refresh();
+      if (list.getState().status === 'idle') loadedAt = Date.now();
+    }
+  };
+};
+
+const feedLists = new Map<string, SuggestionList<FeedGenerator>>();
+const followLists = new Map<string, SuggestionList<Profile>>();
+
+/**
+ * Get the feeds suggested to an account, creating the list on first use
+ *
+ * @param did - The account, or undefined when signed out
+ */
+export const suggestedFeeds = (did: string | undefined): SuggestionList<FeedGenerator> => {
+  const key = did ?? 'anonymous';
+  let list = feedLists.get(key);
+  if (!list) {
+    list = createSuggestionList(
+      async cursor => {
+        const page = await client.getSuggestedFeeds(cursor);
+        return { ...page, items: rankFeedsByHobbies(page.items, hobbyStore(did).getState().hobbies) };
+      },
+      feed => feed.uri
+    );
+    feedLists.set(key, list);
+  }
+  return list;
+};
+
+/**
+ * Get the accounts suggested for an account to follow, creating the list on first use
+ *
+ * @param did - The account, or undefined when signed out
+ */
+export const suggestedFollows = (did: string | undefined): SuggestionList<Profile> => {
+  const key = did ?? 'anonymous';
+  let list = followLists.get(key);
+  if (!list) {
+    list = createSuggestionList(cursor => client.getSuggestedFollows(cursor), profile => profile.did);
+    followLists.set(key, list);
+  }
+  return list;
+};
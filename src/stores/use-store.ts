@@ -0,0 +1,34 @@
+/**
+ * use-store.ts - Reading stores from components
+ *
+ * Stores keep their state outside React, so that it outlives the components
+ * showing it (see feed-store). Components read them through
+ * useSyncExternalStore; stores that only exist while signed in are passed as
+ * null otherwise, and read as their initial state.
+ *
+ * Usage:
+ *   export const useProfile = (store: ProfileStore | null): ProfileState => useStore(store, INITIAL_STATE);
+ */
+
+import { useSyncExternalStore } from 'react';
+
+/**
+ * ExternalStore Interface
+ *
+ * What every store offers: its current state, and a way to hear about changes.
+ */
+export interface ExternalStore<S> {
+  getState(): S;
+  subscribe(listener: () => void): () => void;
+}
+
+const noSubscription = () => () => {};
+
+/**
+ * Subscribe a component to a store
+ *
+ * @param store - The store to read, or null when there is none
+ * @param fallback - State read while there is no store; keep it the same object between renders
+ */
+export const useStore = <S>(store: ExternalStore<S> | null, fallback: S): S =>
+  useSyncExternalStore(store?.subscribe ?? noSubscription, store ? store.getState : () => fallback);
@@ -0,0 +1,678 @@
+/**
+ * models.ts - Shared Domain Model
+ *
+ * Defines the data structures used throughout the application. These mirror
+ * the structures serialized by the Rust backend (see `src-tauri/src/lib.rs`),
+ * which is why field names use snake_case.
+ *
+ * Values received from the backend should go through the parsers in
+ * `./validate` before being used, so that a malformed payload is reported
+ * instead of rendering an empty card.
+ */
+
+/**
+ * Author Interface
+ *
+ * Defines the structure for user profile data throughout the application.
+ *
+ * @property did - Decentralized identifier for the user
+ * @property handle - User's handle (username)
+ * @property display_name - Display name of the user
+ * @property avatar - URL to the profile image
+ */
+export interface Author {
+  did: string;
+  handle: string;
+  display_name: string;
+  avatar?: string;
+}
+
+/**
+ * ProfileViewerState Interface
+ *
+ * How the signed-in user and an account follow each other.
+ *
+ * @property following - URI of the viewer's follow record for the account, if following it
+ * @property followed_by - URI of the account's follow record for the viewer, if it follows back
+ */
+export interface ProfileViewerState {
+  following?: string;
+  followed_by?: string;
+}
+
+/**
+ * Profile Interface
+ *
+ * Full profile of an account, as shown on profile pages and the account switcher.
+ *
+ * @property description - Bio text
+ * @property description_facets - Mentions, links and hashtags in the bio
+ * @property banner - URL of the banner image
+ * @property followers_count - Number of accounts following this one
+ * @property follows_count - Number of accounts this one follows
+ * @property posts_count - Number of posts by the account
+ * @property viewer - Follow state between the signed-in user and the account
+ */
+export interface Profile extends Author {
+  description?: string;
+  description_facets?: Facet[];
+  banner?: string;
+  followers_count: number;
+  follows_count: number;
+  posts_count: number;
+  viewer?: ProfileViewerState;
+}
+
+/**
+ * What to do with the avatar or banner when saving a profile: keep the
+ * current image, remove it, or replace it with an uploaded one.
+ */
+export type ProfileImageChange = { type: 'keep' } | { type: 'remove' } | { type: 'set'; image: BlobRef };
+
+/**
+ * ProfileUpdate Interface
+ *
+ * New contents of the signed-in account's profile record.
+ *
+ * @property display_name - Display name, empty to show the handle
+ * @property description - Bio text
+ * @property avatar - Change to the avatar
+ * @property banner - Change to the banner
+ */
+export interface ProfileUpdate {
+  display_name: string;
+  description: string;
+  avatar: ProfileImageChange;
+  banner: ProfileImageChange;
+}
+
+/**
+ * Session Interface
+ *
+ * An authenticated AT Protocol session, as returned by login.
+ *
+ * @property access_jwt - Short-lived token sent with each request
+ * @property refresh_jwt - Long-lived token used to obtain a new access token
+ * @property did - Decentralized identifier of the account
+ * @property handle - Handle of the account
+ * @property service - PDS endpoint hosting the account
+ */
+export interface Session {
+  access_jwt: string;
+  refresh_jwt: string;
+  did: string;
+  handle: string;
+  service: string;
+}
+
+/**
+ * StrongRef Interface
+ *
+ * Reference to a specific version of a record.
+ *
+ * @property uri - AT URI of the record
+ * @property cid - Content hash of the record version
+ */
+export interface StrongRef {
+  uri: string;
+  cid: string;
+}
+
+/**
+ * ReplyRef Interface
+ *
+ * Position of a reply within a thread.
+ *
+ * @property root - The post that started the thread
+ * @property parent - The post being replied to
+ */
+export interface ReplyRef {
+  root: StrongRef;
+  parent: StrongRef;
+}
+
+/**
+ * AspectRatio Interface
+ *
+ * Intrinsic dimensions of an image, used to reserve layout space.
+ */
+export interface AspectRatio {
+  width: number;
+  height: number;
+}
+
+/**
+ * BlobRef Interface
+ *
+ * A blob uploaded to the user's PDS, referenced from a record.
+ *
+ * @property ref - CID of the blob
+ * @property mime_type - Content type of the blob
+ * @property size - Size in bytes
+ */
+export interface BlobRef {
+  ref: string;
+  mime_type: string;
+  size: number;
+}
+
+/**
+ * ImageUpload Interface
+ *
+ * An uploaded image to attach to a new post.
+ *
+ * @property image - The uploaded blob
+ * @property alt - Alt text, empty if the author gave none
+ * @property aspect_ratio - Dimensions of the image
+ */
+export interface ImageUpload {
+  image: BlobRef;
+  alt: string;
+  aspect_ratio?: AspectRatio;
+}
+
+/**
+ * ImageView Interface
+ *
+ * An image attached to a post.
+ *
+ * @property thumb - URL of the thumbnail used in feeds
+ * @property fullsize - URL of the full resolution image
+ * @property alt - Alt text provided by the author (may be empty)
+ * @property aspect_ratio - Optional intrinsic dimensions
+ */
+export interface ImageView {
+  thumb: string;
+  fullsize: string;
+  alt: string;
+  aspect_ratio?: AspectRatio;
+}
+
+/**
+ * ExternalView Interface
+ *
+ * A link card attached to a post.
+ */
+export interface ExternalView {
+  uri: string;
+  title: string;
+  description: string;
+  thumb?: string;
+}
+
+/**
+ * Embeds that carry media, which may appear alongside a quoted post.
+ */
+export type MediaEmbed =
+  | { type: 'images'; images: ImageView[] }
+  | { type: 'external'; external: ExternalView };
+
+/**
+ * EmbeddedPost Interface
+ *
+ * A quoted post as shown inside another post.
+ */
+export interface EmbeddedPost {
+  id: string;
+  cid: string;
+  author: Author;
+  text: string;
+  created_at: string;
+  embed?: MediaEmbed;
+}
+
+/**
+ * A quoted record as seen by the viewer: the post itself, or a tombstone
+ * when it was deleted or a block stands between the viewer and its author.
+ */
+export type EmbeddedRecord =
+  | { type: 'post'; post: EmbeddedPost }
+  | { type: 'not_found'; uri: string }
+  | { type: 'blocked'; uri: string };
+
+/**
+ * Everything that can be embedded in a post.
+ */
+export type Embed =
+  | MediaEmbed
+  | { type: 'record'; record: EmbeddedRecord }
+  | { type: 'record_with_media'; record: EmbeddedRecord; media: MediaEmbed };
+
+/**
+ * ByteSlice Interface
+ *
+ * Range of a facet within the post text, in UTF-8 bytes. End is exclusive.
+ */
+export interface ByteSlice {
+  byte_start: number;
+  byte_end: number;
+}
+
+/**
+ * What a facet points at.
+ */
+export type FacetFeature =
+  | { type: 'mention'; did: string }
+  | { type: 'link'; uri: string }
+  | { type: 'tag'; tag: string };
+
+/**
+ * Facet Interface
+ *
+ * Rich text annotation over a range of the post text.
+ */
+export interface Facet {
+  index: ByteSlice;
+  features: FacetFeature[];
+}
+
+/**
+ * ViewerState Interface
+ *
+ * How the signed-in user has interacted with a post.
+ *
+ * @property like - URI of the viewer's like record, if liked
+ * @property repost - URI of the viewer's repost record, if reposted
+ */
+export interface ViewerState {
+  like?: string;
+  repost?: string;
+}
+
+/**
+ * Why a post appears in a feed other than being posted by someone followed.
+ */
+export type FeedReason = { type: 'repost'; by: Author; indexed_at: string };
+
+/**
+ * PostData Interface
+ *
+ * Defines the structure for post objects throughout the application.
+ *
+ * @property id - URI identifier for the post
+ * @property cid - Content hash of the post record
+ * @property author - Author information
+ * @property text - The content of the post
+ * @property created_at - When the post was created (as a formatted string)
+ * @property facets - Rich text annotations over the text
+ * @property embed - Images, link card or quoted post attached to the post
+ * @property reply - Thread position if this post is a reply
+ * @property viewer - The signed-in user's interactions with the post
+ * @property likes_count - Number of likes on the post
+ * @property reposts_count - Number of reposts of the post
+ * @property replies_count - Number of replies to the post
+ * @property labels - Content warnings on the post's media, see utils/labels
+ * @property reason - Set on feed items that are there because someone reposted the post
+ */
+export interface PostData {
+  id: string;
+  cid: string;
+  author: Author;
+  text: string;
+  created_at: string;
+  facets?: Facet[];
+  embed?: Embed;
+  reply?: ReplyRef;
+  viewer?: ViewerState;
+  likes_count: number;
+  reposts_count: number;
+  replies_count: number;
+  labels?: string[];
+  reason?: FeedReason;
+}
+
+/**
+ * Replies share the post structure; `reply` points at their parent.
+ */
+export type Reply = PostData;
+
+/**
+ * ThreadNode Interface
+ *
+ * A reply and the replies under it.
+ *
+ * @property post - The reply
+ * @property replies - Direct replies to it; empty below the requested depth
+ *                     even when `post.replies_count` is not zero
+ */
+export interface ThreadNode {
+  post: Reply;
+  replies: ThreadNode[];
+}
+
+/**
+ * PostThread Interface
+ *
+ * A post with the conversation around it.
+ *
+ * @property post - The post the thread was requested for
+ * @property parents - Posts it replies to, from the thread root down to its direct parent
+ * @property replies - Replies below it, as a tree
+ */
+export interface PostThread {
+  post: PostData;
+  parents: PostData[];
+  replies: ThreadNode[];
+}
+
+/**
+ * Order of replies at each level of a thread: oldest first, newest first,
+ * or most liked first.
+ */
+export type ThreadSort = 'oldest' | 'newest' | 'top';
+
+/**
+ * Posts listed on a profile:
+ * - posts: posts that are not replies, and the account's reposts
+ * - replies: every post of the account, replies included
+ * - media: posts with images
+ */
+export type AuthorFeedFilter = 'posts' | 'replies' | 'media';
+
+/**
+ * Why a notification was sent: someone liked, reposted, replied to or quoted
+ * one of the account's posts, followed it, or mentioned it in a post.
+ */
+export type NotificationReason = 'like' | 'repost' | 'follow' | 'mention' | 'reply' | 'quote';
+
+/**
+ * NotificationData Interface
+ *
+ * One notification of the signed-in account.
+ *
+ * @property uri - URI of the record behind it: the like, repost, follow or post
+ * @property reason - Why it was sent
+ * @property author - Account that liked, reposted, followed, mentioned, replied or quoted
+ * @property indexed_at - When it was received (ISO 8601)
+ * @property is_read - Whether it arrived before notifications were last marked as read
+ * @property subject - The account's post that was liked, reposted, replied to or quoted;
+ *                     absent for follows and mentions, or when that post was deleted
+ * @property post - The post that mentions, replies or quotes; absent for likes, reposts and follows
+ */
+export interface NotificationData {
+  uri: string;
+  reason: NotificationReason;
+  author: Author;
+  indexed_at: string;
+  is_read: boolean;
+  subject?: PostData;
+  post?: PostData;
+}
+
+/**
+ * ChatMessage Interface
+ *
+ * A direct message in a conversation.
+ *
+ * @property id - Identifier of the message within its conversation
+ * @property rev - Revision of the conversation when it was sent; later messages have greater revisions
+ * @property text - The message
+ * @property facets - Rich text annotations over the text
+ * @property sender - DID of the member who sent it
+ * @property sent_at - When it was sent (as a formatted string)
+ */
+export interface ChatMessage {
+  id: string;
+  rev: string;
+  text: string;
+  facets?: Facet[];
+  sender: string;
+  sent_at: string;
+}
+
+/**
+ * Conversation Interface
+ *
+ * A direct message conversation, as seen by the signed-in account.
+ *
+ * @property id - Identifier of the conversation on the chat service
+ * @property rev - Revision, raised by every message; conversations with recent activity have greater revisions
+ * @property members - Everyone in it, the signed-in account included
+ * @property last_message - Newest message, if any
+ * @property muted - Whether the account muted it; muted conversations do not count as unread
+ * @property unread_count - Messages from the others that the account has not read
+ */
+export interface Conversation {
+  id: string;
+  rev: string;
+  members: Author[];
+  last_message?: ChatMessage;
+  muted: boolean;
+  unread_count: number;
+}
+
+/**
+ * FeedGenerator Interface
+ *
+ * A custom feed published by an account, e.g. as found by a feed search.
+ *
+ * @property uri - AT URI of the generator record; pass it to get_feed for its posts
+ * @property cid - CID of the generator record
+ * @property creator - Account that published it
+ * @property display_name - Name of the feed
+ * @property description - What the feed shows, if described
+ * @property avatar - URL of the feed's avatar image
+ * @property like_count - Number of accounts that liked it
+ */
+export interface FeedGenerator {
+  uri: string;
+  cid: string;
+  creator: Author;
+  display_name: string;
+  description?: string;
+  avatar?: string;
+  like_count: number;
+}
+
+/**
+ * What a saved feed shows: a feed generator, a list, or the home timeline
+ */
+export type SavedFeedType = 'feed' | 'list' | 'timeline';
+
+/**
+ * SavedFeed Interface
+ *
+ * An entry of the account's saved feeds preference, shared with the official
+ * app. Pinned entries are the feeds the user wants at hand.
+ *
+ * @property id - Identifies the entry within the preference
+ * @property type - What the entry shows
+ * @property value - AT URI of the feed generator or list; `following` for the home timeline
+ * @property pinned - Whether the feed is pinned
+ */
+export interface SavedFeed {
+  id: string;
+  type: SavedFeedType;
+  value: string;
+  pinned: boolean;
+}
+
+/**
+ * Page Interface
+ *
+ * One page of a cursor-paginated list.
+ *
+ * @property items - Entries on this page, newest first
+ * @property cursor - Pass back to fetch the next page; absent on the last page
+ */
+export interface Page<T> {
+  items: T[];
+  cursor?: string;
+}
+
+/**
+ * Hobby Interface
+ *
+ * A hobby the user follows, either from the built-in catalog or created by
+ * the user. Posts are matched to a hobby by its keywords and hashtags.
+ *
+ * @property id - Stable identifier; catalog ids are plain slugs, custom ones start with `custom-`
+ * @property name - Display name
+ * @property emoji - Shown on hobby chips
+ * @property keywords - Words or phrases that mark a post as being about the hobby
+ * @property hashtags - Hashtags without the leading `#`, lower case
+ * @property feeds - AT URIs of custom feed generators associated with the hobby
+ */
+export interface Hobby {
+  id: string;
+  name: string;
+  emoji?: string;
+  keywords: string[];
+  hashtags: string[];
+  feeds: string[];
+}
+
+/**
+ * HobbyPreferences Interface
+ *
+ * The user's hobbies, as stored in the `app.hobbysky.actor.hobbies` record of
+ * their repo so that other HobbySky clients can read them.
+ *
+ * @property hobbies - Hobbies in the order the user added them
+ * @property updated_at - ISO 8601 time of the last change, used to reconcile copies
+ */
+export interface HobbyPreferences {
+  hobbies: Hobby[];
+  updated_at: string;
+}
+
+/**
+ * PostDraft Interface
+ *
+ * A post being written, kept on the device until it is sent. Attached
+ * images are not part of drafts.
+ *
+ * @property id - Local id of the draft
+ * @property text - Text written so far
+ * @property thread - Text of the posts following the first, when writing a thread
+ * @property langs - Languages of the text, as BCP 47 tags
+ * @property labels - Content warnings chosen for the images
+ * @property reply - Post being replied to, if any
+ * @property quote - Post being quoted, if any
+ * @property updated_at - ISO 8601 time of the last change
+ */
+export interface PostDraft {
+  id: string;
+  text: string;
+  thread?: string[];
+  langs: string[];
+  labels: string[];
+  reply?: PostData;
+  quote?: PostData;
+  updated_at: string;
+}
+
+/**
+ * Where a scheduled post is on its way to being published:
+ * - pending: waiting for its publish time, or for its next attempt after a failure
+ * - sending: being created by the backend right now
+ * - failed: every attempt failed, or the app closed while it was being sent
+ * - missed: its time passed while the app was closed; waits for the user
+ */
+export type ScheduleStatus = 'pending' | 'sending' | 'failed' | 'missed';
+
+/**
+ * ScheduledPost Interface
+ *
+ * A draft to be published by the app at a set time. Scheduled posts stay on
+ * the device; they are only sent while the app is running.
+ *
+ * @property did - Account to post as
+ * @property publish_at - ISO 8601 time to publish at
+ * @property status - Progress of the post, see ScheduleStatus
+ * @property attempts - Failed attempts so far
+ * @property retry_at - ISO 8601 time of the next attempt after a failure
+ * @property error - Message of the last failed attempt
+ */
+export interface ScheduledPost extends PostDraft {
+  did: string;
+  publish_at: string;
+  status: ScheduleStatus;
+  attempts: number;
+  retry_at?: string;
+  error?: string;
+}
+
+/**
+ * Get the DID of the repo a record lives in from its AT URI, e.g. the author
+ * of a post from `at://did:plc:abc/app.bsky.feed.post/3k…`.
+ *
+ * @param uri - AT URI of the record
+ */
+export const uriDid = (uri: string): string => uri.replace(/^at:\/\//, '').split('/')[0];
+
+/**
+ * Reference a post by URI and CID, as likes, reposts and replies do.
+ *
+ * @param post - The post to reference
+ */
+export const strongRefTo = (post: PostData): StrongRef => ({ uri: post.id, cid: post.cid });
+
+/**
+ * Build the thread references for a reply to a post: the reply joins the
+ * thread of its parent, or starts one if the parent is not a reply itself.
+ *
+ * @param parent - The post being replied to
+ */
+export const replyRefTo = (parent: PostData): ReplyRef => ({
+  root: parent.reply?.root ?? strongRefTo(parent),
+  parent: strongRefTo(parent)
+});
+
+/**
+ * Get the images attached to a post, whether directly or next to a quote.
+ *
+ * @param embed - The post's embed
+ */
+export const embedImages = (embed?: Embed | MediaEmbed): ImageView[] => {
+  if (!embed) return [];
+  switch (embed.type) {
+    case 'images':
+      return embed.images;
+    case 'record_with_media':
+      return embedImages(embed.media);
+    default:
+      return [];
+  }
+};
+
+/**
+ * Get the media attached to a post, without the quoted post if there is one.
+ *
+ * @param embed - The post's embed
+ */
+export const embedMedia = (embed?: Embed): MediaEmbed | undefined => {
+  if (!embed) return undefined;
+  switch (embed.type) {
+    case 'images':
+    case 'external':
+      return embed;
+    case 'record_with_media':
+      return embed.media;
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * Get the record quoted by a post, if any.
+ *
+ * @param embed - The post's embed
+ */
+export const embedRecord = (embed?: Embed): EmbeddedRecord | undefined =>
+  embed?.type === 'record' || embed?.type === 'record_with_media' ? embed.record : undefined;
+
+/**
+ * Shape a post as it appears when quoted by another post. Quotes only carry
+ * the media of the quoted post, not the post it quotes in turn.
+ *
+ * @param post - The quoted post
+ */
+export const toEmbeddedPost = (post: PostData): EmbeddedPost => ({
+  id: post.id,
+  cid: post.cid,
+  author: post.author,
+  text: post.text,
+  created_at: post.created_at,
+  embed: embedMedia(post.embed)
+});
@@ -0,0 +1,541 @@
+/**
+ * validate.ts - Runtime validation of backend payloads
+ *
+ * The backend is a separate process, so TypeScript cannot guarantee the shape
+ * of what it returns. The parsers below check a value against the domain
+ * model and either return it typed or throw a `ModelValidationError` naming
+ * the offending field, e.g.
+ * `Malformed data from backend at post.author.handle: expected string, got undefined`.
+ */
+
+import type {
+  Author,
+  AspectRatio,
+  BlobRef,
+  ByteSlice,
+  ChatMessage,
+  Conversation,
+  Embed,
+  EmbeddedPost,
+  EmbeddedRecord,
+  ExternalView,
+  Facet,
+  FacetFeature,
+  FeedGenerator,
+  FeedReason,
+  Hobby,
+  HobbyPreferences,
+  ImageView,
+  MediaEmbed,
+  NotificationData,
+  NotificationReason,
+  Page,
+  PostData,
+  PostDraft,
+  PostThread,
+  Profile,
+  ProfileViewerState,
+  ScheduledPost,
+  ScheduleStatus,
+  ReplyRef,
+  SavedFeed,
+  SavedFeedType,
+  Session,
+  StrongRef,
+  ThreadNode,
+  ViewerState
+} from './models';
+
+/**
+ * ModelValidationError
+ *
+ * Raised when a backend payload does not match the domain model.
+ *
+ * @property path - Location of the invalid field, e.g. `post.author.did`
+ */
+export class ModelValidationError extends Error {
+  readonly path: string;
+
+  constructor(path: string, expected: string, received: unknown) {
+    super(`Malformed data from backend at ${path}: expected ${expected}, got ${describe(received)}`);
+    this.name = 'ModelValidationError';
+    this.path = path;
+  }
+}
+
+// Short description of a value for error messages
+const describe = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'string') return `"${value.length > 40 ? value.slice(0, 40) + '…' : value}"`;
+  return typeof value;
+};
+
+// A validator checks a value found at `path` and returns it typed
+export type Validator<T> = (value: unknown, path: string) => T;
+
+const string: Validator<string> = (value, path) => {
+  if (typeof value !== 'string') throw new ModelValidationError(path, 'string', value);
+  return value;
+};
+
+const number: Validator<number> = (value, path) => {
+  if (typeof value !== 'number' || Number.isNaN(value)) throw new ModelValidationError(path, 'number', value);
+  return value;
+};
+
+const boolean: Validator<boolean> = (value, path) => {
+  if (typeof value !== 'boolean') throw new ModelValidationError(path, 'boolean', value);
+  return value;
+};
+
+// Accepts undefined and null (serde serializes `None` as null)
+const optional = <T>(validator: Validator<T>): Validator<T | undefined> => (value, path) =>
+  value === undefined || value === null ? undefined : validator(value, path);
+
+const array = <T>(validator: Validator<T>): Validator<T[]> => (value, path) => {
+  if (!Array.isArray(value)) throw new ModelValidationError(path, 'array', value);
+  return value.map((item, i) => validator(item, `${path}[${i}]`));
+};
+
+const record = (value: unknown, path: string): Record<string, unknown> => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new ModelValidationError(path, 'object', value);
+  }
+  return value as Record<string, unknown>;
+};
+
+// Validate each declared field; optional fields that are absent are dropped
+const object = <T>(fields: { [K in keyof T]-?: Validator<T[K]> }): Validator<T> => (value, path) => {
+  const input = record(value, path);
+  const output: Partial<T> = {};
+  for (const key of Object.keys(fields) as (keyof T & string)[]) {
+    const parsed = fields[key](input[key], `${path}.${key}`);
+    if (parsed !== undefined) output[key] = parsed;
+  }
+  return output as T;
+};
+
+// Pick the validator for a tagged union from its `type` field
+const tagged = <T>(variants: Record<string, Validator<T>>): Validator<T> => (value, path) => {
+  const type = record(value, path).type;
+  const variant = typeof type === 'string' ? variants[type] : undefined;
+  if (!variant) {
+    throw new ModelValidationError(`${path}.type`, Object.keys(variants).join(' | '), type);
+  }
+  return variant(value, path);
+};
+
+const literal = <T extends string>(expected: T): Validator<T> => (value, path) => {
+  if (value !== expected) throw new ModelValidationError(path, `"${expected}"`, value);
+  return expected;
+};
+
+const author: Validator<Author> = object<Author>({
+  did: string,
+  handle: string,
+  display_name: string,
+  avatar: optional(string)
+});
+
+const session = object<Session>({
+  access_jwt: string,
+  refresh_jwt: string,
+  did: string,
+  handle: string,
+  service: string
+});
+
+const strongRef = object<StrongRef>({ uri: string, cid: string });
+
+const replyRef = object<ReplyRef>({ root: strongRef, parent: strongRef });
+
+const aspectRatio = object<AspectRatio>({ width: number, height: number });
+
+const blobRef = object<BlobRef>({ ref: string, mime_type: string, size: number });
+
+const imageView = object<ImageView>({
+  thumb: string,
+  fullsize: string,
+  alt: string,
+  aspect_ratio: optional(aspectRatio)
+});
+
+const externalView = object<ExternalView>({
+  uri: string,
+  title: string,
+  description: string,
+  thumb: optional(string)
+});
+
+const mediaEmbed: Validator<MediaEmbed> = tagged<MediaEmbed>({
+  images: object<{ type: 'images'; images: ImageView[] }>({ type: literal('images'), images: array(imageView) }),
+  external: object<{ type: 'external'; external: ExternalView }>({ type: literal('external'), external: externalView })
+});
+
+const embeddedPost = object<EmbeddedPost>({
+  id: string,
+  cid: string,
+  author,
+  text: string,
+  created_at: string,
+  embed: optional(mediaEmbed)
+});
+
+const embeddedRecord: Validator<EmbeddedRecord> = tagged<EmbeddedRecord>({
+  post: object<{ type: 'post'; post: EmbeddedPost }>({ type: literal('post'), post: embeddedPost }),
+  not_found: object<{ type: 'not_found'; uri: string }>({ type: literal('not_found'), uri: string }),
+  blocked: object<{ type: 'blocked'; uri: string }>({ type: literal('blocked'), uri: string })
+});
+
+const embed: Validator<Embed> = tagged<Embed>({
+  images: mediaEmbed,
+  external: mediaEmbed,
+  record: object<{ type: 'record'; record: EmbeddedRecord }>({ type: literal('record'), record: embeddedRecord }),
+  record_with_media: object<{ type: 'record_with_media'; record: EmbeddedRecord; media: MediaEmbed }>({
+    type: literal('record_with_media'),
+    record: embeddedRecord,
+    media: mediaEmbed
+  })
+});
+
+const byteSlice = object<ByteSlice>({ byte_start: number, byte_end: number });
+
+const facetFeature: Validator<FacetFeature> = tagged<FacetFeature>({
+  mention: object<{ type: 'mention'; did: string }>({ type: literal('mention'), did: string }),
+  link: object<{ type: 'link'; uri: string }>({ type: literal('link'), uri: string }),
+  tag: object<{ type: 'tag'; tag: string }>({ type: literal('tag'), tag: string })
+});
+
+const facet = object<Facet>({ index: byteSlice, features: array(facetFeature) });
+
+const viewerState = object<ViewerState>({ like: optional(string), repost: optional(string) });
+
+const profileViewerState = object<ProfileViewerState>({ following: optional(string), followed_by: optional(string) });
+
+const profile = object<Profile>({
+  did: string,
+  handle: string,
+  display_name: string,
+  avatar: optional(string),
+  description: optional(string),
+  description_facets: optional(array(facet)),
+  banner: optional(string),
+  followers_count: number,
+  follows_count: number,
+  posts_count: number,
+  viewer: optional(profileViewerState)
+});
+
+const feedReason: Validator<FeedReason> = tagged<FeedReason>({
+  repost: object<FeedReason>({ type: literal('repost'), by: author, indexed_at: string })
+});
+
+const post: Validator<PostData> = object<PostData>({
+  id: string,
+  cid: string,
+  author,
+  text: string,
+  created_at: string,
+  facets: optional(array(facet)),
+  embed: optional(embed),
+  reply: optional(replyRef),
+  viewer: optional(viewerState),
+  likes_count: number,
+  reposts_count: number,
+  replies_count: number,
+  labels: optional(array(string)),
+  reason: optional(feedReason)
+});
+
+const NOTIFICATION_REASONS: NotificationReason[] = ['like', 'repost', 'follow', 'mention', 'reply', 'quote'];
+
+const notificationReason: Validator<NotificationReason> = (value, path) => {
+  if (!NOTIFICATION_REASONS.includes(value as NotificationReason)) {
+    throw new ModelValidationError(path, 'notification reason', value);
+  }
+  return value as NotificationReason;
+};
+
+const notification = object<NotificationData>({
+  uri: string,
+  reason: notificationReason,
+  author,
+  indexed_at: string,
+  is_read: boolean,
+  subject: optional(post),
+  post: optional(post)
+});
+
+const chatMessage = object<ChatMessage>({
+  id: string,
+  rev: string,
+  text: string,
+  facets: optional(array(facet)),
+  sender: string,
+  sent_at: string
+});
+
+const conversation = object<Conversation>({
+  id: string,
+  rev: string,
+  members: array(author),
+  last_message: optional(chatMessage),
+  muted: boolean,
+  unread_count: number
+});
+
+const feedGenerator = object<FeedGenerator>({
+  uri: string,
+  cid: string,
+  creator: author,
+  display_name: string,
+  description: optional(string),
+  avatar: optional(string),
+  like_count: number
+});
+
+const SAVED_FEED_TYPES: SavedFeedType[] = ['feed', 'list', 'timeline'];
+
+const savedFeedType: Validator<SavedFeedType> = (value, path) => {
+  if (!SAVED_FEED_TYPES.includes(value as SavedFeedType)) {
+    throw new ModelValidationError(path, 'saved feed type', value);
+  }
+  return value as SavedFeedType;
+};
+
+const savedFeed = object<SavedFeed>({ id: string, type: savedFeedType, value: string, pinned: boolean });
+
+const hobby = object<Hobby>({
+  id: string,
+  name: string,
+  emoji: optional(string),
+  keywords: array(string),
+  hashtags: array(string),
+  feeds: array(string)
+});
+
+const hobbyPreferences = object<HobbyPreferences>({ hobbies: array(hobby), updated_at: string });
+
+const postDraft = object<PostDraft>({
+  id: string,
+  text: string,
+  thread: optional(array(string)),
+  langs: array(string),
+  labels: array(string),
+  reply: optional(post),
+  quote: optional(post),
+  updated_at: string
+});
+
+const scheduleStatus: Validator<ScheduleStatus> = (value, path) => {
+  if (value !== 'pending' && value !== 'sending' && value !== 'failed' && value !== 'missed') {
+    throw new ModelValidationError(path, 'schedule status', value);
+  }
+  return value;
+};
+
+const scheduledPost = object<ScheduledPost>({
+  id: string,
+  text: string,
+  thread: optional(array(string)),
+  langs: array(string),
+  labels: array(string),
+  reply: optional(post),
+  quote: optional(post),
+  updated_at: string,
+  did: string,
+  publish_at: string,
+  status: scheduleStatus,
+  attempts: number,
+  retry_at: optional(string),
+  error: optional(string)
+});
+
+// Declared as a function so the validator can refer to itself for nested replies
+const threadNode: Validator<ThreadNode> = (value, path) =>
+  object<ThreadNode>({ post, replies: array(threadNode) })(value, path);
+
+const postThread = object<PostThread>({ post, parents: array(post), replies: array(threadNode) });
+
+const page = <T>(item: Validator<T>): Validator<Page<T>> =>
+  object<Page<T>>({ items: array(item), cursor: optional(string) });
+
+/**
+ * Parse a single post returned by the backend
+ *
+ * @param value - Raw value received over IPC
+ * @throws ModelValidationError if the value is not a valid post
+ */
+export const parsePost = (value: unknown): PostData => post(value, 'post');
+
+/**
+ * Parse a page of posts returned by the backend
+ *
+ * @param value - Raw value received over IPC
+ * @throws ModelValidationError if the value is not a valid page of posts
+ */
+export const parsePostPage = (value: unknown): Page<PostData> => page(post)(value, 'page');
+
+/**
+ * Parse a post thread returned by the backend
+ *
+ * @param value - Raw value received over IPC
+ * @throws ModelValidationError if the thread or any post in it is not valid
+ */
+export const parsePostThread = (value: unknown): PostThread => postThread(value, 'thread');
+
+/**
+ * Parse a page of notifications returned by the backend
+ *
+ * @param value - Raw value received over IPC
+ * @throws ModelValidationError if the value is not a valid page of notifications
+ */
+export const parseNotificationPage = (value: unknown): Page<NotificationData> =>
+  page(notification)(value, 'notifications');
+
+/**
+ * Parse a conversation returned by the backend
+ *
+ * @param value - Raw value received over IPC
+ * @throws ModelValidationError if the value is not a valid conversation
+ */
+export const parseConversation = (value: unknown): Conversation => conversation(value, 'convo');
+
+/**
+ * Parse a page of conversations returned by the backend
+ *
+ * @param value - Raw value received over IPC
+ * @throws ModelValidationError if the value is not a valid page of conversations
+ */
+export const parseConversationPage = (value: unknown): Page<Conversation> => page(conversation)(value, 'convos');
+
+/**
+ * Parse a direct message returned by the backend
+ *
+ * @param value - Raw value received over IPC
+ * @throws ModelValidationError if the value is not a valid message
+ */
+export const parseChatMessage = (value: unknown): ChatMessage => chatMessage(value, 'message');
+
+/**
+ * Parse a page of direct messages returned by the backend
+ *
+ * @param value - Raw value received over IPC
+ * @throws ModelValidationError if the value is not a valid page of messages
+ */
+export const parseChatMessagePage = (value: unknown): Page<ChatMessage> => page(chatMessage)(value, 'messages');
+
+/**
+ * Parse a page of profiles returned by the backend, e.g. by an account search
+ *
+ * @param value - Raw value received over IPC
+ * @throws ModelValidationError if the value is not a valid page of profiles
+ */
+export const parseProfilePage = (value: unknown): Page<Profile> => page(profile)(value, 'profiles');
+
+/**
+ * Parse a list of accounts returned by the backend
+ *
+ * @param value - Raw value received over IPC
+ * @throws ModelValidationError if the value is not a list of accounts
+ */
+export const parseAuthors = (value: unknown): Author[] => array(author)(value, 'actors');
+
+/**
+ * Parse a page of feed generators returned by the backend
+ *
+ * @param value - Raw value received over IPC
+ * @throws ModelValidationError if the value is not a valid page of feed generators
+ */
+export const parseFeedGeneratorPage = (value: unknown): Page<FeedGenerator> =>
+  page(feedGenerator)(value, 'feeds');
+
+/**
+ * Parse feed generators returned by the backend
+ *
+ * @param value - Raw value received over IPC
+ * @throws ModelValidationError if the value is not a list of feed generators
+ */
+export const parseFeedGenerators = (value: unknown): FeedGenerator[] => array(feedGenerator)(value, 'feeds');
+
+/**
+ * Parse the saved feeds preference returned by the backend
+ *
+ * @param value - Raw value received over IPC
+ * @throws ModelValidationError if the value is not a list of saved feeds
+ */
+export const parseSavedFeeds = (value: unknown): SavedFeed[] => array(savedFeed)(value, 'saved_feeds');
+
+/**
+ * Parse a session returned by the backend or read from storage
+ *
+ * @param value - Raw session value
+ * @throws ModelValidationError if the value is not a valid session
+ */
+export const parseSession = (value: unknown): Session => session(value, 'session');
+
+/**
+ * Parse a profile returned by the backend
+ *
+ * @param value - Raw value received over IPC
+ * @throws ModelValidationError if the value is not a valid profile
+ */
+export const parseProfile = (value: unknown): Profile => profile(value, 'profile');
+
+/**
+ * Parse hobby preferences returned by the backend or read from storage
+ *
+ * @param value - Raw value; null when the account has no hobbies record
+ * @throws ModelValidationError if the value is neither null nor valid preferences
+ */
+export const parseHobbyPreferences = (value: unknown): HobbyPreferences | null =>
+  value === null || value === undefined ? null : hobbyPreferences(value, 'hobbies');
+
+/**
+ * Parse a post draft read from storage
+ *
+ * @param value - Raw value
+ * @throws ModelValidationError if the value is not a valid draft
+ */
+export const parsePostDraft = (value: unknown): PostDraft => postDraft(value, 'draft');
+
+/**
+ * Parse the scheduled posts read from storage
+ *
+ * @param value - Raw value
+ * @throws ModelValidationError if the value is not a list of scheduled posts
+ */
+export const parseScheduledPosts = (value: unknown): ScheduledPost[] => array(scheduledPost)(value, 'scheduled');
+
+/**
+ * Parse a reference to an uploaded blob returned by the backend
+ *
+ * @param value - Raw value received over IPC
+ * @throws ModelValidationError if the value is not a valid blob reference
+ */
+export const parseBlobRef = (value: unknown): BlobRef => blobRef(value, 'blob');
+
+/**
+ * Parse a reference to a record created by the backend
+ *
+ * @param value - Raw value received over IPC
+ * @throws ModelValidationError if the value is not a valid URI and CID pair
+ */
+export const parseStrongRef = (value: unknown): StrongRef => strongRef(value, 'ref');
+
+/**
+ * Parse the AT URI of a record created by the backend, e.g. a like or a follow
+ *
+ * @param value - Raw value received over IPC
+ * @throws ModelValidationError if the value is not a string
+ */
+export const parseRecordUri = (value: unknown): string => string(value, 'uri');
+
+/**
+ * Parse the number of unread notifications returned by the backend
+ *
+ * @param value - Raw value received over IPC
+ * @throws ModelValidationError if the value is not a number
+ */
+export const parseUnreadCount = (value: unknown): number => number(value, 'count');
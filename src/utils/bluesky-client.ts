@@ -0,0 +1,739 @@
+/**
+ * Bluesky client
+ *
+ * Typed wrapper around the backend commands. The client carries the service
+ * URL and the signed-in accounts so that components only pass the arguments
+ * specific to each call. Payloads are validated against the domain model, so
+ * callers can rely on the returned types.
+ *
+ * Session handling:
+ * - Several accounts can be signed in; calls use the active one unless an
+ *   account is given explicitly (e.g. posting as another account)
+ * - Accounts are restored from storage when the client is created
+ * - Authenticated calls that fail with an expired access token refresh the
+ *   session once and are retried transparently
+ * - If the refresh fails that account is signed out and listeners are notified
+ *
+ * Posts are sent with facets for their mentions, links and hashtags, see
+ * `rich-text.ts`.
+ *
+ * Usage:
+ *   import { client } from '../utils/bluesky-client';
+ *   const { items, cursor } = await client.getTimeline();
+ */
+
+import { invoke } from './tauri-api';
+import { resolveFacets } from './rich-text';
+import { blobToBase64 } from './images';
+import { isExpiredTokenError, localSessionStorage, type AccountsState, type SessionStorage } from './session';
+import {
+  replyRefTo,
+  strongRefTo,
+  type Author,
+  type AuthorFeedFilter,
+  type BlobRef,
+  type ChatMessage,
+  type Conversation,
+  type FeedGenerator,
+  type HobbyPreferences,
+  type ImageUpload,
+  type NotificationData,
+  type NotificationReason,
+  type Page,
+  type PostData,
+  type PostThread,
+  type Profile,
+  type ProfileImageChange,
+  type ReplyRef,
+  type SavedFeed,
+  type Session,
+  type StrongRef,
+  type ThreadSort
+} from '../types/models';
+import {
+  parseAuthors,
+  parseBlobRef,
+  parseChatMessage,
+  parseChatMessagePage,
+  parseConversation,
+  parseConversationPage,
+  parseFeedGeneratorPage,
+  parseFeedGenerators,
+  parseHobbyPreferences,
+  parseNotificationPage,
+  parsePost,
+  parsePostPage,
+  parsePostThread,
+  parseProfile,
+  parseProfilePage,
+  parseRecordUri,
+  parseSavedFeeds,
+  parseSession,
+  parseStrongRef,
+  parseUnreadCount
+} from '../types/validate';
+
+// Service used when none is configured through VITE_BSKY_SERVICE
+export const DEFAULT_SERVICE = 'https://bsky.social';
+
+// Number of posts or notifications requested per timeline, search, feed or notifications page
+export const TIMELINE_PAGE_SIZE = 20;
+
+// Number of accounts suggested while typing a search
+export const TYPEAHEAD_LIMIT = 8;
+
+// Number of conversations or messages requested per page
+export const CHAT_PAGE_SIZE = 30;
+
+// Levels of replies and of parents requested with a thread
+export const THREAD_DEPTH = 6;
+export const THREAD_PARENT_HEIGHT = 10;
+
+// Called whenever an account signs in, refreshes, signs out or becomes active
+export type AccountsListener = (state: AccountsState) => void;
+
+/**
+ * PostImage Interface
+ *
+ * An image to attach to a new post, already resized (see `images.ts`).
+ *
+ * @property blob - Image data
+ * @property alt - Alt text
+ * @property width - Width in pixels
+ * @property height - Height in pixels
+ */
+export interface PostImage {
+  blob: Blob;
+  alt: string;
+  width: number;
+  height: number;
+}
+
+/**
+ * PostOptions Interface
+ *
+ * @property as - DID of the signed-in account to act as (defaults to the active one)
+ * @property images - Images to attach when creating a post
+ * @property quote - Post to quote; only new posts can quote, not replies
+ * @property langs - Languages the post is written in, as BCP 47 tags
+ * @property labels - Content warnings for the attached images
+ */
+export interface PostOptions {
+  as?: string;
+  images?: PostImage[];
+  quote?: PostData;
+  langs?: string[];
+  labels?: string[];
+}
+
+/**
+ * ProfileEdit Interface
+ *
+ * Changes to the signed-in account's profile. Images are already resized
+ * (see `images.ts`).
+ *
+ * @property display_name - New display name
+ * @property description - New bio
+ * @property avatar - New avatar, null to remove it, or undefined to keep the current one
+ * @property banner - New banner, null to remove it, or undefined to keep the current one
+ */
+export interface ProfileEdit {
+  display_name: string;
+  description: string;
+  avatar?: Blob | null;
+  banner?: Blob | null;
+}
+
+/**
+ * BlueskyClient Interface
+ *
+ * One method per backend command, plus account management.
+ */
+export interface BlueskyClient {
+  readonly service: string;
+  getSession(): Session | null;
+  getAccounts(): AccountsState;
+  onAccountsChange(listener: AccountsListener): () => void;
+  login(identifier: string, password: string): Promise<Session>;
+  logout(did?: string): void;
+  switchAccount(did: string): void;
+  refreshSession(did?: string): Promise<Session>;
+  getTimeline(cursor?: string, limit?: number): Promise<Page<PostData>>;
+  searchPosts(query: string, cursor?: string, limit?: number): Promise<Page<PostData>>;
+  searchActors(query: string, cursor?: string, limit?: number): Promise<Page<Profile>>;
+  searchActorsTypeahead(query: string, limit?: number): Promise<Author[]>;
+  searchFeeds(query: string, cursor?: string, limit?: number): Promise<Page<FeedGenerator>>;
+  getFeedGenerators(feedUris: string[]): Promise<FeedGenerator[]>;
+  getSuggestedFeeds(cursor?: string, limit?: number): Promise<Page<FeedGenerator>>;
+  getSuggestedFollows(cursor?: string, limit?: number): Promise<Page<Profile>>;
+  getSavedFeeds(options?: PostOptions): Promise<SavedFeed[]>;
+  putSavedFeeds(feeds: SavedFeed[], options?: PostOptions): Promise<void>;
+  getFeed(feedUri: string, cursor?: string, limit?: number): Promise<Page<PostData>>;
+  resolveHandle(handle: string): Promise<string>;
+  createPost(text: string, options?: PostOptions): Promise<StrongRef>;
+  createReply(parent: PostData, text: string, options?: PostOptions): Promise<StrongRef>;
+  createThreadReply(reply: ReplyRef, text: string, options?: PostOptions): Promise<StrongRef>;
+  likePost(post: PostData): Promise<string>;
+  unlikePost(likeUri: string): Promise<void>;
+  repostPost(post: PostData): Promise<string>;
+  unrepostPost(repostUri: string): Promise<void>;
+  getPostDetail(postUri: string): Promise<PostData>;
+  getPostThread(postUri: string, sort?: ThreadSort): Promise<PostThread>;
+  getProfile(actor: string): Promise<Profile>;
+  getAuthorFeed(actor: string, filter: AuthorFeedFilter, cursor?: string, limit?: number): Promise<Page<PostData>>;
+  getActorLikes(actor: string, cursor?: string, limit?: number): Promise<Page<PostData>>;
+  followActor(did: string): Promise<string>;
+  unfollowActor(followUri: string): Promise<void>;
+  updateProfile(edit: ProfileEdit, options?: PostOptions): Promise<Profile>;
+  listNotifications(reasons?: NotificationReason[], cursor?: string, limit?: number): Promise<Page<NotificationData>>;
+  getUnreadCount(): Promise<number>;
+  markNotificationsRead(seenAt?: string): Promise<void>;
+  listConversations(cursor?: string, limit?: number): Promise<Page<Conversation>>;
+  getConversation(convoId: string): Promise<Conversation>;
+  getConversationWith(dids: string[]): Promise<Conversation>;
+  getMessages(convoId: string, cursor?: string, limit?: number): Promise<Page<ChatMessage>>;
+  sendMessage(convoId: string, text: string): Promise<ChatMessage>;
+  markConversationRead(convoId: string): Promise<Conversation>;
+  muteConversation(convoId: string, muted: boolean): Promise<Conversation>;
+  leaveConversation(convoId: string): Promise<void>;
+  getHobbies(actor: string): Promise<HobbyPreferences | null>;
+  putHobbies(preferences: HobbyPreferences, options?: PostOptions): Promise<string>;
+}
+
+/**
+ * BlueskyClientOptions Interface
+ *
+ * @property service - Service used to sign in (the PDS from the session is used afterwards)
+ * @property storage - Where accounts are persisted between launches
+ */
+export interface BlueskyClientOptions {
+  service?: string;
+  storage?: SessionStorage;
+}
+
+/**
+ * Create a client bound to a service
+ *
+ * @param options - Service URL and session storage
+ */
+export const createBlueskyClient = (options: BlueskyClientOptions = {}): BlueskyClient => {
+  const service = options.service ?? DEFAULT_SERVICE;
+  const storage = options.storage ?? localSessionStorage;
+  const listeners = new Set<AccountsListener>();
+
+  let accounts: AccountsState = storage.load();
+  // Refreshes in flight keyed by DID, shared by every call that hit an expired token
+  const refreshing = new Map<string, Promise<Session>>();
+
+  const setAccounts = (next: AccountsState) => {
+    accounts = next;
+    storage.save(next);
+    listeners.forEach(listener => listener(next));
+  };
+
+  const sessionFor = (did: string | null | undefined): Session | null =>
+    accounts.sessions.find(s => s.did === did) ?? null;
+
+  // Add or replace an account's session, optionally making it active
+  const putSession = (session: Session, activate: boolean) => {
+    const exists = accounts.sessions.some(s => s.did === session.did);
+    setAccounts({
+      sessions: exists
+        ? accounts.sessions.map(s => (s.did === session.did ? session : s))
+        : [...accounts.sessions, session],
+      activeDid: activate ? session.did : accounts.activeDid ?? session.did
+    });
+  };
+
+  const removeSession = (did: string) => {
+    const sessions = accounts.sessions.filter(s => s.did !== did);
+    setAccounts({
+      sessions,
+      activeDid: accounts.activeDid === did ? sessions[0]?.did ?? null : accounts.activeDid
+    });
+  };
+
+  // Signed-in calls go to the account's PDS
+  const serviceFor = (current: Session | null) => current?.service ?? service;
+
+  const refreshSession = (did: string | undefined = accounts.activeDid ?? undefined): Promise<Session> => {
+    const current = sessionFor(did);
+    if (!current) {
+      return Promise.reject(new Error('You must be logged in to refresh the session'));
+    }
+    let pending = refreshing.get(current.did);
+    if (!pending) {
+      pending = invoke('refresh_session', { service: serviceFor(current), refresh_jwt: current.refresh_jwt })
+        .then(result => {
+          const refreshed = parseSession(result);
+          putSession(refreshed, false);
+          return refreshed;
+        })
+        .catch(err => {
+          console.error('Failed to refresh session:', err);
+          removeSession(current.did);
+          throw new Error(`The session for @${current.handle} has expired. Please sign in again.`);
+        })
+        .finally(() => {
+          refreshing.delete(current.did);
+        });
+      refreshing.set(current.did, pending);
+    }
+    return pending;
+  };
+
+  // Run a call with an account's session, refreshing and retrying once if the token expired
+  const withFreshSession = async <T>(current: Session, call: (session: Session) => Promise<T>): Promise<T> => {
+    try {
+      return await call(current);
+    } catch (err) {
+      if (!isExpiredTokenError(err)) throw err;
+      return call(await refreshSession(current.did));
+    }
+  };
+
+  // Like withFreshSession, for calls that also work signed out
+  const withSession = <T>(current: Session | null, call: (session: Session | null) => Promise<T>): Promise<T> =>
+    current ? withFreshSession(current, call) : call(null);
+
+  // Like withFreshSession, for commands that need a signed-in account
+  const withRequiredSession = <T>(
+    action: string,
+    call: (session: Session) => Promise<T>,
+    did: string | null = accounts.activeDid
+  ): Promise<T> => {
+    const current = sessionFor(did);
+    if (!current) {
+      return Promise.reject(new Error(`You must be logged in to ${action}`));
+    }
+    return withFreshSession(current, call);
+  };
+
+  const resolveHandle = (handle: string): Promise<string> =>
+    invoke('resolve_handle', { service: serviceFor(sessionFor(accounts.activeDid)), handle: handle.replace(/^@/, '') });
+
+  // Uploads are calls of their own, so a record created after them and retried
+  // with a refreshed token does not upload its images again
+  const uploadBlob = async (action: string, did: string | null, blob: Blob): Promise<BlobRef> => {
+    const data = await blobToBase64(blob);
+    return withRequiredSession(
+      action,
+      async current =>
+        parseBlobRef(await invoke('upload_blob', {
+          service: serviceFor(current),
+          session: current,
+          data,
+          mime_type: blob.type || 'image/jpeg'
+        })),
+      did
+    );
+  };
+
+  // Upload an image's blob and describe it for the images embed
+  const uploadImage = async (action: string, did: string | null, image: PostImage): Promise<ImageUpload> => ({
+    image: await uploadBlob(action, did, image.blob),
+    alt: image.alt.trim(),
+    aspect_ratio: { width: image.width, height: image.height }
+  });
+
+  // Upload a new avatar or banner; undefined keeps the current one and null removes it
+  const profileImageChange = async (did: string | null, blob: Blob | null | undefined): Promise<ProfileImageChange> =>
+    blob === undefined
+      ? { type: 'keep' }
+      : blob === null
+        ? { type: 'remove' }
+        : { type: 'set', image: await uploadBlob('edit your profile', did, blob) };
+
+  // Facets, uploaded images, languages and labels of a new post or reply
+  const postContent = async (action: string, did: string | null, text: string, options: PostOptions) => {
+    const images = options.images ?? [];
+    return {
+      facets: await resolveFacets(text, resolveHandle),
+      images: await Promise.all(images.map(image => uploadImage(action, did, image))),
+      langs: options.langs ?? [],
+      // Labels warn about media, so they are dropped from posts without any
+      labels: images.length > 0 ? options.labels ?? [] : []
+    };
+  };
+
+  // Reply with explicit thread references; also continues a thread whose posts were just created
+  const createThreadReply = async (reply: ReplyRef, text: string, options: PostOptions = {}): Promise<StrongRef> => {
+    const did = options.as ?? accounts.activeDid;
+    const content = await postContent('reply', did, text, options);
+    return withRequiredSession(
+      'reply',
+      async current =>
+        parseStrongRef(await invoke('create_reply', {
+          service: serviceFor(current),
+          session: current,
+          text,
+          ...content,
+          reply
+        })),
+      did
+    );
+  };
+
+  // Calls that also work signed out use the active account when there is one
+  const withActiveSession = <T>(call: (session: Session | null) => Promise<T>): Promise<T> =>
+    withSession(sessionFor(accounts.activeDid), call);
+
+  return {
+    service,
+
+    getSession: () => sessionFor(accounts.activeDid),
+
+    getAccounts: () => accounts,
+
+    onAccountsChange: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    login: async (identifier, password) => {
+      const result = parseSession(await invoke('login', { service, identifier, password }));
+      putSession(result, true);
+      return result;
+    },
+
+    logout: (did = accounts.activeDid ?? undefined) => {
+      if (did) removeSession(did);
+    },
+
+    switchAccount: (did) => {
+      if (!sessionFor(did)) {
+        throw new Error(`Account ${did} is not signed in`);
+      }
+      setAccounts({ ...accounts, activeDid: did });
+    },
+
+    refreshSession,
+
+    getTimeline: (cursor, limit = TIMELINE_PAGE_SIZE) =>
+      withActiveSession(async current =>
+        parsePostPage(await invoke('get_timeline', {
+          service: serviceFor(current),
+          session: current,
+          cursor: cursor ?? null,
+          limit
+        }))
+      ),
+
+    searchPosts: (query, cursor, limit = TIMELINE_PAGE_SIZE) =>
+      withActiveSession(async current =>
+        parsePostPage(await invoke('search_posts', {
+          service: serviceFor(current),
+          session: current,
+          query,
+          cursor: cursor ?? null,
+          limit
+        }))
+      ),
+
+    searchActors: (query, cursor, limit = TIMELINE_PAGE_SIZE) =>
+      withActiveSession(async current =>
+        parseProfilePage(await invoke('search_actors', {
+          service: serviceFor(current),
+          session: current,
+          query,
+          cursor: cursor ?? null,
+          limit
+        }))
+      ),
+
+    searchActorsTypeahead: (query, limit = TYPEAHEAD_LIMIT) =>
+      withActiveSession(async current =>
+        parseAuthors(await invoke('search_actors_typeahead', {
+          service: serviceFor(current),
+          session: current,
+          query,
+          limit
+        }))
+      ),
+
+    searchFeeds: (query, cursor, limit = TIMELINE_PAGE_SIZE) =>
+      withActiveSession(async current =>
+        parseFeedGeneratorPage(await invoke('search_feeds', {
+          service: serviceFor(current),
+          session: current,
+          query,
+          cursor: cursor ?? null,
+          limit
+        }))
+      ),
+
+    getFeedGenerators: (feedUris) =>
+      feedUris.length === 0
+        ? Promise.resolve([])
+        : withActiveSession(async current =>
+            parseFeedGenerators(await invoke('get_feed_generators', {
+              service: serviceFor(current),
+              session: current,
+              feeds: feedUris
+            }))
+          ),
+
+    getSuggestedFeeds: (cursor, limit = TIMELINE_PAGE_SIZE) =>
+      withActiveSession(async current =>
+        parseFeedGeneratorPage(await invoke('get_suggested_feeds', {
+          service: serviceFor(current),
+          session: current,
+          cursor: cursor ?? null,
+          limit
+        }))
+      ),
+
+    getSuggestedFollows: (cursor, limit = TIMELINE_PAGE_SIZE) =>
+      withActiveSession(async current =>
+        parseProfilePage(await invoke('get_suggestions', {
+          service: serviceFor(current),
+          session: current,
+          cursor: cursor ?? null,
+          limit
+        }))
+      ),
+
+    getSavedFeeds: (options = {}) =>
+      withRequiredSession(
+        'see your feeds',
+        async current => parseSavedFeeds(await invoke('get_saved_feeds', { service: serviceFor(current), session: current })),
+        options.as ?? accounts.activeDid
+      ),
+
+    putSavedFeeds: (feeds, options = {}) =>
+      withRequiredSession(
+        'pin feeds',
+        async current => {
+          await invoke('put_saved_feeds', { service: serviceFor(current), session: current, feeds });
+        },
+        options.as ?? accounts.activeDid
+      ),
+
+    getFeed: (feedUri, cursor, limit = TIMELINE_PAGE_SIZE) =>
+      withActiveSession(async current =>
+        parsePostPage(await invoke('get_feed', {
+          service: serviceFor(current),
+          session: current,
+          feed: feedUri,
+          cursor: cursor ?? null,
+          limit
+        }))
+      ),
+
+    resolveHandle,
+
+    createPost: async (text, options = {}) => {
+      const did = options.as ?? accounts.activeDid;
+      const content = await postContent('post', did, text, options);
+      return withRequiredSession(
+        'post',
+        async current =>
+          parseStrongRef(await invoke('create_post', {
+            service: serviceFor(current),
+            session: current,
+            text,
+            ...content,
+            quote: options.quote ? strongRefTo(options.quote) : null
+          })),
+        did
+      );
+    },
+
+    createReply: (parent, text, options = {}) => createThreadReply(replyRefTo(parent), text, options),
+
+    createThreadReply,
+
+    likePost: (post) =>
+      withRequiredSession('like posts', async current =>
+        parseRecordUri(await invoke('like_post', { service: serviceFor(current), session: current, subject: strongRefTo(post) }))
+      ),
+
+    unlikePost: (likeUri) =>
+      withRequiredSession('unlike posts', async current => {
+        await invoke('unlike_post', { service: serviceFor(current), session: current, like_uri: likeUri });
+      }),
+
+    repostPost: (post) =>
+      withRequiredSession('repost', async current =>
+        parseRecordUri(await invoke('repost_post', { service: serviceFor(current), session: current, subject: strongRefTo(post) }))
+      ),
+
+    unrepostPost: (repostUri) =>
+      withRequiredSession('undo reposts', async current => {
+        await invoke('unrepost_post', { service: serviceFor(current), session: current, repost_uri: repostUri });
+      }),
+
+    getPostDetail: (postUri) =>
+      withActiveSession(async current =>
+        parsePost(await invoke('get_post_detail', { service: serviceFor(current), session: current, post_uri: postUri }))
+      ),
+
+    getPostThread: (postUri, sort = 'oldest') =>
+      withActiveSession(async current =>
+        parsePostThread(await invoke('get_post_thread', {
+          service: serviceFor(current),
+          session: current,
+          post_uri: postUri,
+          depth: THREAD_DEPTH,
+          parent_height: THREAD_PARENT_HEIGHT,
+          sort
+        }))
+      ),
+
+    getProfile: (actor) =>
+      withActiveSession(async current =>
+        parseProfile(await invoke('get_profile', { service: serviceFor(current), session: current, actor }))
+      ),
+
+    getAuthorFeed: (actor, filter, cursor, limit = TIMELINE_PAGE_SIZE) =>
+      withActiveSession(async current =>
+        parsePostPage(await invoke('get_author_feed', {
+          service: serviceFor(current),
+          session: current,
+          actor,
+          filter,
+          cursor: cursor ?? null,
+          limit
+        }))
+      ),
+
+    getActorLikes: (actor, cursor, limit = TIMELINE_PAGE_SIZE) =>
+      withRequiredSession('see liked posts', async current =>
+        parsePostPage(await invoke('get_actor_likes', {
+          service: serviceFor(current),
+          session: current,
+          actor,
+          cursor: cursor ?? null,
+          limit
+        }))
+      ),
+
+    followActor: (did) =>
+      withRequiredSession('follow accounts', async current =>
+        parseRecordUri(await invoke('follow_actor', { service: serviceFor(current), session: current, subject: did }))
+      ),
+
+    unfollowActor: (followUri) =>
+      withRequiredSession('unfollow accounts', async current => {
+        await invoke('unfollow_actor', { service: serviceFor(current), session: current, follow_uri: followUri });
+      }),
+
+    updateProfile: async (edit, options = {}) => {
+      const did = options.as ?? accounts.activeDid;
+      const [avatar, banner] = await Promise.all([profileImageChange(did, edit.avatar), profileImageChange(did, edit.banner)]);
+      return withRequiredSession(
+        'edit your profile',
+        async current =>
+          parseProfile(await invoke('update_profile', {
+            service: serviceFor(current),
+            session: current,
+            profile: { display_name: edit.display_name.trim(), description: edit.description.trim(), avatar, banner }
+          })),
+        did
+      );
+    },
+
+    listNotifications: (reasons = [], cursor, limit = TIMELINE_PAGE_SIZE) =>
+      withRequiredSession('see notifications', async current =>
+        parseNotificationPage(await invoke('list_notifications', {
+          service: serviceFor(current),
+          session: current,
+          reasons,
+          cursor: cursor ?? null,
+          limit
+        }))
+      ),
+
+    getUnreadCount: () =>
+      withRequiredSession('see notifications', async current =>
+        parseUnreadCount(await invoke('get_unread_count', { service: serviceFor(current), session: current }))
+      ),
+
+    markNotificationsRead: (seenAt = new Date().toISOString()) =>
+      withRequiredSession('mark notifications as read', async current => {
+        await invoke('update_seen', { service: serviceFor(current), session: current, seen_at: seenAt });
+      }),
+
+    listConversations: (cursor, limit = CHAT_PAGE_SIZE) =>
+      withRequiredSession('see your messages', async current =>
+        parseConversationPage(await invoke('list_convos', {
+          service: serviceFor(current),
+          session: current,
+          cursor: cursor ?? null,
+          limit
+        }))
+      ),
+
+    getConversation: (convoId) =>
+      withRequiredSession('see your messages', async current =>
+        parseConversation(await invoke('get_convo', { service: serviceFor(current), session: current, convo_id: convoId }))
+      ),
+
+    getConversationWith: (dids) =>
+      withRequiredSession('send messages', async current =>
+        parseConversation(await invoke('get_convo_for_members', {
+          service: serviceFor(current),
+          session: current,
+          members: dids
+        }))
+      ),
+
+    getMessages: (convoId, cursor, limit = CHAT_PAGE_SIZE) =>
+      withRequiredSession('see your messages', async current =>
+        parseChatMessagePage(await invoke('get_messages', {
+          service: serviceFor(current),
+          session: current,
+          convo_id: convoId,
+          cursor: cursor ?? null,
+          limit
+        }))
+      ),
+
+    sendMessage: (convoId, text) =>
+      withRequiredSession('send messages', async current =>
+        parseChatMessage(await invoke('send_message', {
+          service: serviceFor(current),
+          session: current,
+          convo_id: convoId,
+          text,
+          facets: await resolveFacets(text, resolveHandle)
+        }))
+      ),
+
+    markConversationRead: (convoId) =>
+      withRequiredSession('see your messages', async current =>
+        parseConversation(await invoke('update_read', { service: serviceFor(current), session: current, convo_id: convoId }))
+      ),
+
+    muteConversation: (convoId, muted) =>
+      withRequiredSession(muted ? 'mute conversations' : 'unmute conversations', async current =>
+        parseConversation(await invoke(muted ? 'mute_convo' : 'unmute_convo', {
+          service: serviceFor(current),
+          session: current,
+          convo_id: convoId
+        }))
+      ),
+
+    leaveConversation: (convoId) =>
+      withRequiredSession('leave conversations', async current => {
+        await invoke('leave_convo', { service: serviceFor(current), session: current, convo_id: convoId });
+      }),
+
+    getHobbies: (actor) =>
+      withActiveSession(async current =>
+        parseHobbyPreferences(await invoke('get_hobbies', { service: serviceFor(current), session: current, actor }))
+      ),
+
+    putHobbies: (preferences, options = {}) =>
+      withRequiredSession(
+        'save hobbies',
+        async current => parseRecordUri(await invoke('put_hobbies', { service: serviceFor(current), session: current, preferences })),
+        options.as ?? accounts.activeDid
+      )
+  };
+};
+
+// Shared client used by the application
+export const client = createBlueskyClient({ service: import.meta.env.VITE_BSKY_SERVICE || DEFAULT_SERVICE });
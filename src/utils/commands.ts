@@ -0,0 +1,307 @@
+/**
+ * Backend command contract
+ *
+ * This file declares every command exposed by the Rust backend together with
+ * the arguments it expects and the value it resolves to. The IPC layer and the
+ * typed client are both checked against this map, so a misspelled command name
+ * or a wrong argument shape is caught by the compiler instead of at runtime.
+ *
+ * When adding a command to `src-tauri/src/lib.rs`, add a matching entry here.
+ * Payload types live in `src/types/models.ts`.
+ */
+
+import type {
+  AuthorFeedFilter,
+  BlobRef,
+  ChatMessage,
+  Conversation,
+  Author,
+  Facet,
+  FeedGenerator,
+  HobbyPreferences,
+  ImageUpload,
+  NotificationData,
+  NotificationReason,
+  Page,
+  PostData,
+  PostThread,
+  Profile,
+  ProfileUpdate,
+  ReplyRef,
+  SavedFeed,
+  Session,
+  StrongRef,
+  ThreadSort
+} from '../types/models';
+
+/**
+ * CommandMap Interface
+ *
+ * Maps each backend command name to its argument and result types.
+ */
+export interface CommandMap {
+  login: {
+    args: { service: string; identifier: string; password: string };
+    result: Session;
+  };
+  refresh_session: {
+    args: { service: string; refresh_jwt: string };
+    result: Session;
+  };
+  get_timeline: {
+    args: { service: string; session: Session | null; cursor: string | null; limit: number };
+    result: Page<PostData>;
+  };
+  // Full-text search, newest first. Besides words the query may hold the operators
+  // `#tag`, `from:handle`, `since:YYYY-MM-DD` and `lang:code` (see utils/search)
+  search_posts: {
+    args: { service: string; session: Session | null; query: string; cursor: string | null; limit: number };
+    result: Page<PostData>;
+  };
+  // Accounts whose handle, name or bio match the query, best matches first
+  search_actors: {
+    args: { service: string; session: Session | null; query: string; cursor: string | null; limit: number };
+    result: Page<Profile>;
+  };
+  // Accounts whose handle or name start with the query, for suggestions while typing
+  search_actors_typeahead: {
+    args: { service: string; session: Session | null; query: string; limit: number };
+    result: Author[];
+  };
+  // Feed generators whose name or description match the query, most liked first
+  search_feeds: {
+    args: { service: string; session: Session | null; query: string; cursor: string | null; limit: number };
+    result: Page<FeedGenerator>;
+  };
+  // Feed generators by AT URI, in the order asked for; those that no longer exist are left out
+  get_feed_generators: {
+    args: { service: string; session: Session | null; feeds: string[] };
+    result: FeedGenerator[];
+  };
+  // Feed generators suggested to the account, most popular first (the popular ones when signed out)
+  get_suggested_feeds: {
+    args: { service: string; session: Session | null; cursor: string | null; limit: number };
+    result: Page<FeedGenerator>;
+  };
+  // Accounts suggested for the signed-in account to follow (popular ones when signed out)
+  get_suggestions: {
+    args: { service: string; session: Session | null; cursor: string | null; limit: number };
+    result: Page<Profile>;
+  };
+  // The saved feeds preference of the signed-in account, in the order the user arranged it
+  get_saved_feeds: {
+    args: { service: string; session: Session };
+    result: SavedFeed[];
+  };
+  // Replace the saved feeds preference, keeping the account's other preferences
+  put_saved_feeds: {
+    args: { service: string; session: Session; feeds: SavedFeed[] };
+    result: null;
+  };
+  // Posts of a custom feed generator, identified by its AT URI
+  get_feed: {
+    args: { service: string; session: Session | null; feed: string; cursor: string | null; limit: number };
+    result: Page<PostData>;
+  };
+  // Resolve a handle (without the `@`) to the DID of its account
+  resolve_handle: {
+    args: { service: string; handle: string };
+    result: string;
+  };
+  // Upload binary data, base64 encoded, to the account's PDS
+  upload_blob: {
+    args: { service: string; session: Session; data: string; mime_type: string };
+    result: BlobRef;
+  };
+  // Facets carry UTF-8 byte offsets into `text`; images are attached as an images embed,
+  // next to the quoted post when `quote` is set. `langs` are BCP 47 language tags and
+  // `labels` self-labels for the images (see utils/labels). Resolves to the new record's URI and CID
+  create_post: {
+    args: {
+      service: string;
+      session: Session;
+      text: string;
+      facets: Facet[];
+      images: ImageUpload[];
+      langs: string[];
+      labels: string[];
+      quote: StrongRef | null;
+    };
+    result: StrongRef;
+  };
+  // Like create_post, threaded under `reply.parent`; resolves to the new record's URI and CID
+  create_reply: {
+    args: {
+      service: string;
+      session: Session;
+      text: string;
+      facets: Facet[];
+      images: ImageUpload[];
+      langs: string[];
+      labels: string[];
+      reply: ReplyRef;
+    };
+    result: StrongRef;
+  };
+  // Create a like or repost record for `subject`, resolving to the new record's URI
+  like_post: {
+    args: { service: string; session: Session; subject: StrongRef };
+    result: string;
+  };
+  repost_post: {
+    args: { service: string; session: Session; subject: StrongRef };
+    result: string;
+  };
+  // Delete a like or repost record of the signed-in account
+  unlike_post: {
+    args: { service: string; session: Session; like_uri: string };
+    result: null;
+  };
+  unrepost_post: {
+    args: { service: string; session: Session; repost_uri: string };
+    result: null;
+  };
+  get_post_detail: {
+    args: { service: string; session: Session | null; post_uri: string };
+    result: PostData;
+  };
+  // The post with up to `parent_height` parents and `depth` levels of replies, each level in `sort` order
+  get_post_thread: {
+    args: { service: string; session: Session | null; post_uri: string; depth: number; parent_height: number; sort: ThreadSort };
+    result: PostThread;
+  };
+  get_profile: {
+    args: { service: string; session: Session | null; actor: string };
+    result: Profile;
+  };
+  // Posts of an account, newest first; see AuthorFeedFilter for what each filter lists
+  get_author_feed: {
+    args: {
+      service: string;
+      session: Session | null;
+      actor: string;
+      filter: AuthorFeedFilter;
+      cursor: string | null;
+      limit: number;
+    };
+    result: Page<PostData>;
+  };
+  // Posts liked by an account, most recently liked first; only allowed for the signed-in account
+  get_actor_likes: {
+    args: { service: string; session: Session; actor: string; cursor: string | null; limit: number };
+    result: Page<PostData>;
+  };
+  // Create a follow record for the account with DID `subject`, resolving to the new record's URI
+  follow_actor: {
+    args: { service: string; session: Session; subject: string };
+    result: string;
+  };
+  // Delete a follow record of the signed-in account
+  unfollow_actor: {
+    args: { service: string; session: Session; follow_uri: string };
+    result: null;
+  };
+  // Rewrite the signed-in account's profile record, resolving to the updated profile
+  update_profile: {
+    args: { service: string; session: Session; profile: ProfileUpdate };
+    result: Profile;
+  };
+  // Notifications of the signed-in account, newest first; only those with one of `reasons`, unless it is empty
+  list_notifications: {
+    args: {
+      service: string;
+      session: Session;
+      reasons: NotificationReason[];
+      cursor: string | null;
+      limit: number;
+    };
+    result: Page<NotificationData>;
+  };
+  // Number of notifications received since the account last marked them as read
+  get_unread_count: {
+    args: { service: string; session: Session };
+    result: number;
+  };
+  // Mark every notification received up to `seen_at` (ISO 8601) as read
+  update_seen: {
+    args: { service: string; session: Session; seen_at: string };
+    result: null;
+  };
+  // Direct messages go to the chat service through the account's PDS.
+  // Conversations of the signed-in account, most recently active first
+  list_convos: {
+    args: { service: string; session: Session; cursor: string | null; limit: number };
+    result: Page<Conversation>;
+  };
+  get_convo: {
+    args: { service: string; session: Session; convo_id: string };
+    result: Conversation;
+  };
+  // The conversation between the signed-in account and the DIDs in `members`, started if there is none
+  get_convo_for_members: {
+    args: { service: string; session: Session; members: string[] };
+    result: Conversation;
+  };
+  // Messages of a conversation, newest first
+  get_messages: {
+    args: { service: string; session: Session; convo_id: string; cursor: string | null; limit: number };
+    result: Page<ChatMessage>;
+  };
+  // Facets carry UTF-8 byte offsets into `text`; resolves to the message as stored
+  send_message: {
+    args: { service: string; session: Session; convo_id: string; text: string; facets: Facet[] };
+    result: ChatMessage;
+  };
+  // Mark every message of a conversation as read
+  update_read: {
+    args: { service: string; session: Session; convo_id: string };
+    result: Conversation;
+  };
+  mute_convo: {
+    args: { service: string; session: Session; convo_id: string };
+    result: Conversation;
+  };
+  unmute_convo: {
+    args: { service: string; session: Session; convo_id: string };
+    result: Conversation;
+  };
+  // Leave a conversation; it is no longer listed unless someone writes again
+  leave_convo: {
+    args: { service: string; session: Session; convo_id: string };
+    result: null;
+  };
+  // Read an account's `app.hobbysky.actor.hobbies` record; null if it has none
+  get_hobbies: {
+    args: { service: string; session: Session | null; actor: string };
+    result: HobbyPreferences | null;
+  };
+  // Write the signed-in account's hobbies record, resolving to its URI
+  put_hobbies: {
+    args: { service: string; session: Session; preferences: HobbyPreferences };
+    result: string;
+  };
+}
+
+// Name of any command known to the backend
+export type CommandName = keyof CommandMap;
+
+// Arguments accepted by a given command
+export type CommandArgs<K extends CommandName> = CommandMap[K]['args'];
+
+// Value a given command resolves to
+export type CommandResult<K extends CommandName> = CommandMap[K]['result'];
+
+/**
+ * Backend Interface
+ *
+ * Anything able to execute backend commands: the Tauri process or the
+ * in-memory mock in `src/mock/backend.ts`.
+ *
+ * Like Tauri commands returning `Result<T, String>`, a failed command
+ * rejects with the error message as a plain string. Authenticated commands
+ * whose access token has expired reject with a message starting with
+ * `ExpiredToken`.
+ */
+export interface Backend {
+  invoke<K extends CommandName>(command: K, args: CommandArgs<K>): Promise<CommandResult<K>>;
+}
@@ -0,0 +1,48 @@
+/**
+ * Desktop alerts
+ *
+ * System notifications shown outside the app window, e.g. when someone
+ * replies while the app is in the background. They go through the web
+ * Notification API: inside Tauri the notification plugin provides it and
+ * shows native notifications, in a browser the browser shows them.
+ *
+ * Alerts are only shown once the user has granted permission; where the API
+ * is missing they are silently skipped.
+ */
+
+/**
+ * Whether this environment can show desktop alerts at all
+ */
+export const desktopAlertsSupported = (): boolean =>
+  typeof window !== 'undefined' && typeof window.Notification !== 'undefined';
+
+/**
+ * Ask for permission to show desktop alerts, if not asked before
+ *
+ * @returns Whether alerts may be shown
+ */
+export const requestDesktopAlerts = async (): Promise<boolean> => {
+  if (!desktopAlertsSupported()) return false;
+  if (Notification.permission === 'default') {
+    await Notification.requestPermission();
+  }
+  return Notification.permission === 'granted';
+};
+
+/**
+ * Show a desktop alert, if permission was granted
+ *
+ * @param title - First line of the alert
+ * @param body - Text below it
+ */
+export const showDesktopAlert = (title: string, body: string): void => {
+  if (!desktopAlertsSupported() || Notification.permission !== 'granted') return;
+  try {
+    // Clicking the alert brings the app to the front
+    const alert = new Notification(title, { body });
+    alert.onclick = () => window.focus();
+  } catch (err) {
+    // Some webviews only allow notifications from a service worker
+    console.warn('Failed to show desktop alert:', err);
+  }
+};
@@ -0,0 +1,24 @@
+/**
+ * Error reporting
+ *
+ * Backend commands reject with a string and validation fails with an Error,
+ * so errors are turned into a message before being shown. Background checks
+ * only log theirs: polling failures are not worth interrupting the reader
+ * for, and the next check tries again.
+ */
+
+/**
+ * Message to show for an error of any kind
+ *
+ * @param err - What was thrown or rejected
+ */
+export const errorMessage = (err: unknown): string =>
+  typeof err === 'string' ? err : err instanceof Error ? err.message : 'Something went wrong';
+
+/**
+ * Log a failed background check without showing it
+ *
+ * @param what - What was being checked for, e.g. `new posts`
+ * @param err - What was thrown or rejected
+ */
+export const warnCheckFailed = (what: string, err: unknown) => console.warn(`Failed to check for ${what}:`, err);
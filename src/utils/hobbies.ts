@@ -0,0 +1,205 @@
+/**
+ * Hobbies
+ *
+ * The built-in hobby catalog and the rules used to decide which hobbies a
+ * post is about. A post matches a hobby when it carries one of the hobby's
+ * hashtags (as a tag facet or written in the text) or mentions one of its
+ * keywords as a whole word. A feed generator matches a hobby that lists it,
+ * or whose name and description match like a post would.
+ *
+ * Usage:
+ *   const chips = matchHobbies(post, hobbies);
+ */
+
+import type { FeedGenerator, Hobby, PostData } from '../types/models';
+
+// Hobbies offered in the picker; users can add their own on top
+export const HOBBY_CATALOG: Hobby[] = [
+  {
+    id: 'woodworking',
+    name: 'Woodworking',
+    emoji: '🪚',
+    keywords: ['woodworking', 'dovetail', 'dovetails', 'chisel', 'chisels', 'workbench', 'hand plane', 'jointer', 'shooting board', 'end grain'],
+    hashtags: ['woodworking', 'woodwork', 'handtools'],
+    feeds: []
+  },
+  {
+    id: 'birding',
+    name: 'Birding',
+    emoji: '🐦',
+    keywords: ['birding', 'birdwatching', 'birds', 'kingfisher', 'heron', 'goldfinch', 'goldfinches', 'swifts', 'cuckoo', 'dawn chorus'],
+    hashtags: ['birding', 'birdwatching', 'birds'],
+    feeds: []
+  },
+  {
+    id: 'knitting',
+    name: 'Knitting',
+    emoji: '🧶',
+    keywords: ['knitting', 'knit', 'yarn', 'sweater', 'sleeves', 'bind-off', 'cast on', 'swatch', 'swatched', 'shawl'],
+    hashtags: ['knitting', 'knitstagram', 'yarn'],
+    feeds: []
+  },
+  {
+    id: 'pottery',
+    name: 'Pottery',
+    emoji: '🏺',
+    keywords: ['pottery', 'ceramics', 'kiln', 'glaze', 'celadon', 'wedging', 'trimming', 'clay', 'mugs'],
+    hashtags: ['pottery', 'ceramics', 'wheelthrown'],
+    feeds: []
+  },
+  {
+    id: 'model-railways',
+    name: 'Model railways',
+    emoji: '🚂',
+    keywords: ['model railway', 'layout', 'viaduct', 'wagons', 'DCC', 'signal box', 'locomotive'],
+    hashtags: ['modelrailway', 'modeltrains', 'trains'],
+    feeds: []
+  },
+  {
+    id: 'gardening',
+    name: 'Gardening',
+    emoji: '🌱',
+    keywords: ['gardening', 'garden', 'tomatoes', 'seedlings', 'compost', 'mulched', 'sowed', 'sweet peas'],
+    hashtags: ['gardening', 'garden', 'growyourown'],
+    feeds: []
+  },
+  {
+    id: 'photography',
+    name: 'Photography',
+    emoji: '📷',
+    keywords: ['photography', 'camera', 'lens', 'aperture', 'shutter speed', 'film photography'],
+    hashtags: ['photography', 'filmphotography', 'photo'],
+    feeds: []
+  },
+  {
+    id: 'baking',
+    name: 'Baking',
+    emoji: '🍞',
+    keywords: ['baking', 'sourdough', 'loaf', 'proofing', 'croissant'],
+    hashtags: ['baking', 'sourdough', 'breadbaking'],
+    feeds: []
+  },
+  {
+    id: 'astronomy',
+    name: 'Astronomy',
+    emoji: '🔭',
+    keywords: ['astronomy', 'telescope', 'nebula', 'meteor shower', 'astrophotography'],
+    hashtags: ['astronomy', 'astrophotography', 'space'],
+    feeds: []
+  },
+  {
+    id: 'climbing',
+    name: 'Climbing',
+    emoji: '🧗',
+    keywords: ['climbing', 'bouldering', 'crag', 'belay'],
+    hashtags: ['climbing', 'bouldering'],
+    feeds: []
+  }
+];
+
+// Split a comma or space separated list typed by the user
+const splitList = (value: string, separator: RegExp): string[] =>
+  value.split(separator).map(item => item.trim()).filter(Boolean);
+
+// Hashtags are compared without the `#` and case-insensitively
+export const normalizeHashtag = (tag: string): string => tag.trim().replace(/^#/, '').toLowerCase();
+
+/**
+ * Create a user-defined hobby
+ *
+ * @param name - Display name
+ * @param keywords - Comma-separated words or phrases
+ * @param hashtags - Hashtags separated by commas or spaces, with or without `#`
+ * @param feeds - Feed generator URIs separated by commas or whitespace
+ * @param emoji - Optional emoji shown on chips
+ */
+export const createCustomHobby = (
+  name: string,
+  keywords: string,
+  hashtags: string,
+  feeds = '',
+  emoji?: string
+): Hobby => {
+  const slug = name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return {
+    id: `custom-${slug || Date.now().toString(36)}`,
+    name: name.trim(),
+    emoji: emoji?.trim() || undefined,
+    keywords: splitList(keywords, /,/),
+    hashtags: [...new Set(splitList(hashtags, /[,\s]+/).map(normalizeHashtag).filter(Boolean))],
+    feeds: splitList(feeds, /[,\s]+/)
+  };
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Compiled keyword patterns, cached per hobby object
+const keywordPatterns = new WeakMap<Hobby, RegExp | null>();
+
+const keywordPattern = (hobby: Hobby): RegExp | null => {
+  if (!keywordPatterns.has(hobby)) {
+    const words = hobby.keywords.map(word => word.trim()).filter(Boolean);
+    keywordPatterns.set(
+      hobby,
+      words.length > 0 ? new RegExp(`(^|[^\\p{L}\\p{N}])(${words.map(escapeRegExp).join('|')})(?![\\p{L}\\p{N}])`, 'iu') : null
+    );
+  }
+  return keywordPatterns.get(hobby) ?? null;
+};
+
+/**
+ * Hashtags carried by a post, from its tag facets and its text
+ *
+ * @param post - The post to inspect
+ */
+export const postHashtags = (post: Pick<PostData, 'text' | 'facets'>): Set<string> => {
+  const tags = new Set<string>();
+  post.facets?.forEach(facet =>
+    facet.features.forEach(feature => {
+      if (feature.type === 'tag') tags.add(normalizeHashtag(feature.tag));
+    })
+  );
+  for (const match of post.text.matchAll(/(?:^|\s)#([\p{L}\p{N}_]+)/gu)) {
+    tags.add(normalizeHashtag(match[1]));
+  }
+  return tags;
+};
+
+/**
+ * Hobbies a post is about
+ *
+ * @param post - The post to classify
+ * @param hobbies - Hobbies to check, in the order they should be returned
+ */
+export const matchHobbies = (post: Pick<PostData, 'text' | 'facets'>, hobbies: Hobby[]): Hobby[] => {
+  if (hobbies.length === 0) return [];
+  const tags = postHashtags(post);
+  return hobbies.filter(hobby =>
+    hobby.hashtags.some(tag => tags.has(normalizeHashtag(tag))) || !!keywordPattern(hobby)?.test(post.text)
+  );
+};
+
+/**
+ * Hobbies a feed generator is about
+ *
+ * @param feed - The feed to classify
+ * @param hobbies - Hobbies to check, in the order they should be returned
+ */
+export const feedHobbies = (feed: Pick<FeedGenerator, 'uri' | 'display_name' | 'description'>, hobbies: Hobby[]): Hobby[] => {
+  const about = { text: `${feed.display_name}\n${feed.description ?? ''}` };
+  return hobbies.filter(hobby => hobby.feeds.includes(feed.uri) || matchHobbies(about, [hobby]).length > 0);
+};
+
+/**
+ * Order feed generators so those about more of the hobbies come first
+ *
+ * Feeds about as many hobbies keep their order.
+ *
+ * @param feeds - Feeds in the order received
+ * @param hobbies - Hobbies of the account
+ */
+export const rankFeedsByHobbies = (feeds: FeedGenerator[], hobbies: Hobby[]): FeedGenerator[] => {
+  if (hobbies.length === 0) return feeds;
+  const scores = new Map(feeds.map(feed => [feed.uri, feedHobbies(feed, hobbies).length]));
+  return [...feeds].sort((a, b) => (scores.get(b.uri) ?? 0) - (scores.get(a.uri) ?? 0));
+};
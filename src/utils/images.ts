@@ -0,0 +1,151 @@
+/**
+ * Image attachments
+ *
+ * Photos are prepared in the browser before upload: they are decoded with
+ * their EXIF orientation applied, scaled down to at most `MAX_IMAGE_DIMENSION`
+ * pixels on the long side and re-encoded as JPEG until they fit the blob size
+ * limit. Re-encoding through a canvas writes no metadata, so EXIF data such
+ * as GPS location and camera details never leaves the device.
+ *
+ * Images of received posts can be saved with `downloadImage`.
+ */
+
+// Most images attached to one post
+export const MAX_IMAGES = 4;
+
+// Largest blob the PDS accepts for a post image, in bytes
+export const MAX_IMAGE_BYTES = 1_000_000;
+
+// Longest side of an uploaded image, in pixels
+export const MAX_IMAGE_DIMENSION = 2000;
+
+// Longest alt text accepted by the composer, in characters
+export const MAX_ALT_TEXT_LENGTH = 2000;
+
+// JPEG qualities tried at each size, best first
+const QUALITIES = [0.9, 0.8, 0.7, 0.6];
+
+// Factor applied to the size when no quality fits the limit
+const DOWNSCALE_STEP = 0.75;
+
+const MAX_ATTEMPTS = 6;
+
+/**
+ * PreparedImage Interface
+ *
+ * @property blob - Re-encoded JPEG, without metadata
+ * @property width - Width in pixels after scaling
+ * @property height - Height in pixels after scaling
+ * @property previewUrl - Object URL of the blob; revoke it when the preview goes away
+ */
+export interface PreparedImage {
+  blob: Blob;
+  width: number;
+  height: number;
+  previewUrl: string;
+}
+
+const canvasToBlob = (canvas: HTMLCanvasElement, quality: number): Promise<Blob> =>
+  new Promise((resolve, reject) =>
+    canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new Error('Could not encode the image'))),
+      'image/jpeg',
+      quality
+    )
+  );
+
+/**
+ * Downscale and re-encode an image so it can be attached to a post
+ *
+ * @param file - Image picked, dropped or pasted by the user
+ * @throws Error if the file is not a readable image or cannot be made small enough
+ */
+export const prepareImage = async (file: File): Promise<PreparedImage> => {
+  if (!file.type.startsWith('image/')) {
+    throw new Error(`${file.name || 'This file'} is not an image`);
+  }
+
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  } catch {
+    throw new Error(`Could not read ${file.name || 'the image'}`);
+  }
+
+  try {
+    let scale = Math.min(1, MAX_IMAGE_DIMENSION / Math.max(bitmap.width, bitmap.height));
+    for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++, scale *= DOWNSCALE_STEP) {
+      const width = Math.max(1, Math.round(bitmap.width * scale));
+      const height = Math.max(1, Math.round(bitmap.height * scale));
+      const canvas = document.createElement('canvas');
+      canvas.width = width;
+      canvas.height = height;
+      const context = canvas.getContext('2d');
+      if (!context) throw new Error('Image processing is not available');
+
+      // JPEG has no transparency; flatten onto white rather than black
+      context.fillStyle = '#ffffff';
+      context.fillRect(0, 0, width, height);
+      context.drawImage(bitmap, 0, 0, width, height);
+
+      for (const quality of QUALITIES) {
+        const blob = await canvasToBlob(canvas, quality);
+        if (blob.size <= MAX_IMAGE_BYTES) {
+          return { blob, width, height, previewUrl: URL.createObjectURL(blob) };
+        }
+      }
+    }
+    throw new Error(`${file.name || 'The image'} is too large to attach`);
+  } finally {
+    bitmap.close();
+  }
+};
+
+/**
+ * Encode a blob as base64 for sending over IPC
+ *
+ * @param blob - Binary data
+ */
+export const blobToBase64 = async (blob: Blob): Promise<string> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = '';
+  // Chunked so large images do not exceed the argument limit of fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+// File extensions for the image types served by the CDN
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif'
+};
+
+/**
+ * Save an image to the user's downloads
+ *
+ * The image is fetched first because the `download` attribute of a link is
+ * ignored for cross-origin URLs such as the CDN's.
+ *
+ * @param url - URL of the image
+ * @param name - File name without extension
+ * @throws Error if the image cannot be fetched
+ */
+export const downloadImage = async (url: string, name: string): Promise<void> => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Download failed with status ${response.status}`);
+  const blob = await response.blob();
+  const objectUrl = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = objectUrl;
+  link.download = `${name}.${EXTENSIONS[blob.type] ?? 'jpg'}`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser time to start the download before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(objectUrl), 10_000);
+};
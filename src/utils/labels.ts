@@ -0,0 +1,35 @@
+/**
+ * Content warnings
+ *
+ * Authors can label their own posts so that readers see a warning before
+ * the attached media. These are the self-labels understood by Bluesky apps;
+ * they only apply to media, so a post without images carries none.
+ */
+
+/**
+ * SelfLabel Interface
+ *
+ * @property value - Label value sent with the post
+ * @property name - Name shown in the composer and on the warning
+ * @property description - What the label is for
+ */
+export interface SelfLabel {
+  value: string;
+  name: string;
+  description: string;
+}
+
+export const SELF_LABELS: SelfLabel[] = [
+  { value: 'sexual', name: 'Suggestive', description: 'Pictures meant for adults' },
+  { value: 'nudity', name: 'Nudity', description: 'Artistic or non-erotic nudity' },
+  { value: 'porn', name: 'Adult', description: 'Sexual activity or erotic nudity' },
+  { value: 'graphic-media', name: 'Graphic media', description: 'Violence, injury or gore' }
+];
+
+/**
+ * Name of a label for display, or the raw value for labels not listed above
+ *
+ * @param value - Label value
+ */
+export const labelName = (value: string): string =>
+  SELF_LABELS.find(label => label.value === value)?.name ?? value;
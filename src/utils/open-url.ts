@@ -0,0 +1,29 @@
+/**
+ * External links
+ *
+ * Links in posts open in the user's browser. Inside Tauri this goes through
+ * the opener plugin, since the webview cannot open new windows itself; in a
+ * plain browser a new tab is opened instead.
+ */
+
+import { isTauri } from '@tauri-apps/api/core';
+import { openUrl } from '@tauri-apps/plugin-opener';
+
+/**
+ * Open a web link outside the app
+ *
+ * Only http and https links are opened.
+ *
+ * @param url - The link to open
+ */
+export const openExternal = async (url: string): Promise<void> => {
+  const { protocol } = new URL(url);
+  if (protocol !== 'http:' && protocol !== 'https:') {
+    throw new Error(`Refusing to open ${protocol} link`);
+  }
+  if (isTauri()) {
+    await openUrl(url);
+  } else {
+    window.open(url, '_blank', 'noopener,noreferrer');
+  }
+};
@@ -0,0 +1,233 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { Facet } from '../types/models';
+import { detectFacets, resolveFacets, segmentRichText, utf16Index, utf8Length, utf8Offset } from './rich-text';
+
+// 👩‍👩‍👧: three 4-byte emoji joined by two 3-byte zero width joiners
+const FAMILY = '\u{1F469}‍\u{1F469}‍\u{1F467}';
+
+const tagFacet = (byteStart: number, byteEnd: number, tag: string): Facet => ({
+  index: { byte_start: byteStart, byte_end: byteEnd },
+  features: [{ type: 'tag', tag }]
+});
+
+describe('utf8Offset', () => {
+  it('counts one byte per ASCII character', () => {
+    expect(utf8Offset('hello world', 0)).toBe(0);
+    expect(utf8Offset('hello world', 6)).toBe(6);
+    expect(utf8Offset('hello world', 11)).toBe(11);
+  });
+
+  it('counts two bytes for é', () => {
+    expect(utf8Offset('café au lait', 3)).toBe(3);
+    expect(utf8Offset('café au lait', 4)).toBe(5);
+    expect(utf8Length('café')).toBe(5);
+  });
+
+  it('counts three bytes per CJK character', () => {
+    expect(utf8Offset('日本語 #tag', 3)).toBe(9);
+    expect(utf8Offset('日本語 #tag', 4)).toBe(10);
+  });
+
+  it('counts four bytes for an emoji made of a surrogate pair', () => {
+    expect('🪚'.length).toBe(2);
+    expect(utf8Offset('🪚 #woodworking', 2)).toBe(4);
+    expect(utf8Offset('🪚 #woodworking', 3)).toBe(5);
+  });
+
+  it('counts every code point of a ZWJ sequence', () => {
+    expect(FAMILY.length).toBe(8);
+    expect(utf8Offset(FAMILY, FAMILY.length)).toBe(18);
+    expect(utf8Offset(`${FAMILY} hi`, FAMILY.length + 1)).toBe(19);
+  });
+});
+
+describe('utf16Index', () => {
+  it('inverts utf8Offset at every character boundary', () => {
+    ['plain ascii', 'café crème', '日本語のテキスト', '🪚 #woodworking 🧶', `${FAMILY} family`, 'mixé 日本 🪚 ＃タグ'].forEach(text => {
+      let index = 0;
+      for (const char of text) {
+        expect(utf16Index(text, utf8Offset(text, index))).toBe(index);
+        index += char.length;
+      }
+      expect(utf16Index(text, utf8Length(text))).toBe(text.length);
+    });
+  });
+
+  it('maps byte offsets after multi-byte characters', () => {
+    expect(utf16Index('café au lait', 5)).toBe(4);
+    expect(utf16Index('日本語 #tag', 10)).toBe(4);
+    expect(utf16Index('🪚 #woodworking', 5)).toBe(3);
+    expect(utf16Index(`${FAMILY} hi`, 19)).toBe(9);
+  });
+
+  it('rejects offsets inside a character', () => {
+    expect(utf16Index('é', 1)).toBe(-1);
+    expect(utf16Index('日本', 1)).toBe(-1);
+    expect(utf16Index('日本', 4)).toBe(-1);
+    expect(utf16Index('🪚', 2)).toBe(-1);
+    expect(utf16Index(FAMILY, 5)).toBe(-1);
+  });
+
+  it('rejects offsets out of range', () => {
+    expect(utf16Index('abc', -1)).toBe(-1);
+    expect(utf16Index('abc', 4)).toBe(-1);
+    expect(utf16Index('abc', 1.5)).toBe(-1);
+    expect(utf16Index('', 0)).toBe(0);
+  });
+});
+
+describe('detectFacets', () => {
+  it('finds a hashtag in ASCII text', () => {
+    expect(detectFacets('I love #knitting')).toEqual([
+      { index: { byte_start: 7, byte_end: 16 }, feature: { type: 'tag', tag: 'knitting' } }
+    ]);
+  });
+
+  it('offsets a hashtag after a surrogate-pair emoji in bytes', () => {
+    expect(detectFacets('🪚 #woodworking')).toEqual([
+      { index: { byte_start: 5, byte_end: 17 }, feature: { type: 'tag', tag: 'woodworking' } }
+    ]);
+  });
+
+  it('offsets a mention after a ZWJ sequence in bytes', () => {
+    expect(detectFacets(`${FAMILY} @alice.bsky.social hi`)).toEqual([
+      {
+        index: { byte_start: 19, byte_end: 37 },
+        feature: { type: 'mention_handle', handle: 'alice.bsky.social' }
+      }
+    ]);
+  });
+
+  it('finds a fullwidth ＃ hashtag in CJK text', () => {
+    expect(detectFacets('今日は ＃写真')).toEqual([
+      { index: { byte_start: 10, byte_end: 19 }, feature: { type: 'tag', tag: '写真' } }
+    ]);
+  });
+
+  it('finds tags with accented letters', () => {
+    expect(detectFacets('#café time')).toEqual([
+      { index: { byte_start: 0, byte_end: 6 }, feature: { type: 'tag', tag: 'café' } }
+    ]);
+  });
+
+  it('ignores number-only tags, overlong tags and tags inside words', () => {
+    expect(detectFacets('#123 is not a tag')).toEqual([]);
+    expect(detectFacets(`#${'a'.repeat(65)}`)).toEqual([]);
+    expect(detectFacets('issue#42 and a#b')).toEqual([]);
+  });
+
+  it('ignores mentions that are not handles', () => {
+    expect(detectFacets('hi @alice and @-bad.example')).toEqual([]);
+  });
+
+  it('drops trailing punctuation from links', () => {
+    const text = 'See https://example.com/a. Next, https://example.org/b?x=1! Done';
+    expect(detectFacets(text)).toEqual([
+      { index: { byte_start: 4, byte_end: 25 }, feature: { type: 'link', uri: 'https://example.com/a' } },
+      { index: { byte_start: 33, byte_end: 58 }, feature: { type: 'link', uri: 'https://example.org/b?x=1' } }
+    ]);
+  });
+
+  it('keeps parentheses that belong to a link', () => {
+    const [facet] = detectFacets('(see https://en.wikipedia.org/wiki/Knot_(unit)).');
+    expect(facet.feature).toEqual({ type: 'link', uri: 'https://en.wikipedia.org/wiki/Knot_(unit)' });
+    expect(facet.index).toEqual({ byte_start: 5, byte_end: 46 });
+  });
+
+  it('drops a closing parenthesis around a link', () => {
+    expect(detectFacets('(https://example.com)')).toEqual([
+      { index: { byte_start: 1, byte_end: 20 }, feature: { type: 'link', uri: 'https://example.com' } }
+    ]);
+  });
+
+  it('offsets links after multi-byte text in bytes', () => {
+    expect(detectFacets('日本 https://例え.jp')).toEqual([
+      { index: { byte_start: 7, byte_end: 24 }, feature: { type: 'link', uri: 'https://例え.jp' } }
+    ]);
+  });
+
+  it('sorts facets of every kind by position', () => {
+    const facets = detectFacets('#yarn by @bob.test at https://shop.example 🧶 #wool');
+    expect(facets.map(facet => facet.feature.type)).toEqual(['tag', 'mention_handle', 'link', 'tag']);
+    expect(facets.map(facet => facet.index.byte_start)).toEqual([0, 9, 22, 48]);
+  });
+});
+
+describe('resolveFacets', () => {
+  it('resolves mentions to DIDs and leaves unknown handles as text', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const resolveHandle = async (handle: string) => {
+      if (handle === 'alice.test') return 'did:plc:alice';
+      throw new Error('not found');
+    };
+    expect(await resolveFacets('@alice.test and @nobody.test #hi', resolveHandle)).toEqual([
+      { index: { byte_start: 0, byte_end: 11 }, features: [{ type: 'mention', did: 'did:plc:alice' }] },
+      { index: { byte_start: 29, byte_end: 32 }, features: [{ type: 'tag', tag: 'hi' }] }
+    ]);
+    expect(warn).toHaveBeenCalledOnce();
+    warn.mockRestore();
+  });
+});
+
+describe('segmentRichText', () => {
+  it('returns plain text without facets', () => {
+    expect(segmentRichText('hello')).toEqual([{ text: 'hello' }]);
+    expect(segmentRichText('')).toEqual([]);
+  });
+
+  it('splits text around facets after multi-byte characters', () => {
+    const text = '🪚 #woodworking and ＃写真 too';
+    expect(segmentRichText(text, [tagFacet(22, 31, '写真'), tagFacet(5, 17, 'woodworking')])).toEqual([
+      { text: '🪚 ' },
+      { text: '#woodworking', feature: { type: 'tag', tag: 'woodworking' } },
+      { text: ' and ' },
+      { text: '＃写真', feature: { type: 'tag', tag: '写真' } },
+      { text: ' too' }
+    ]);
+  });
+
+  it('round-trips detected facets', () => {
+    const text = `${FAMILY} #family at https://example.com, café #日本`;
+    const facets = detectFacets(text).map(({ index, feature }) => ({ index, features: [feature as Facet['features'][number]] }));
+    expect(segmentRichText(text, facets).map(segment => segment.text).join('')).toBe(text);
+    expect(segmentRichText(text, facets).filter(segment => segment.feature).map(segment => segment.text)).toEqual([
+      '#family',
+      'https://example.com',
+      '#日本'
+    ]);
+  });
+
+  it('ignores facets out of range', () => {
+    expect(segmentRichText('short', [tagFacet(2, 9, 'x')])).toEqual([{ text: 'short' }]);
+    expect(segmentRichText('short', [tagFacet(-1, 2, 'x')])).toEqual([{ text: 'short' }]);
+  });
+
+  it('ignores empty and reversed facets', () => {
+    expect(segmentRichText('abc', [tagFacet(1, 1, 'x'), tagFacet(2, 1, 'y')])).toEqual([{ text: 'abc' }]);
+  });
+
+  it('ignores facets overlapping an earlier one', () => {
+    expect(segmentRichText('#one #two', [tagFacet(0, 6, 'one'), tagFacet(5, 9, 'two')])).toEqual([
+      { text: '#one #', feature: { type: 'tag', tag: 'one' } },
+      { text: 'two' }
+    ]);
+  });
+
+  it('ignores facets that start inside a character', () => {
+    // é takes bytes 0-1
+    expect(segmentRichText('é #tag', [tagFacet(1, 7, 'tag')])).toEqual([{ text: 'é #tag' }]);
+    // 🪚 takes bytes 0-3
+    expect(segmentRichText('🪚#tag', [tagFacet(2, 8, 'tag')])).toEqual([{ text: '🪚#tag' }]);
+  });
+
+  it('ignores facets that end inside a character', () => {
+    // 本 takes bytes 4-6
+    expect(segmentRichText('#日本', [tagFacet(0, 5, '日本')])).toEqual([{ text: '#日本' }]);
+    // the final 👧 takes bytes 14-17
+    expect(segmentRichText(FAMILY, [tagFacet(0, 16, 'x')])).toEqual([{ text: FAMILY }]);
+  });
+
+  it('ignores facets without features', () => {
+    expect(segmentRichText('#tag', [{ index: { byte_start: 0, byte_end: 4 }, features: [] }])).toEqual([{ text: '#tag' }]);
+  });
+});
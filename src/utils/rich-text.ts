@@ -0,0 +1,292 @@
+/**
+ * Rich text
+ *
+ * Mentions, links and hashtags are carried alongside the post text as AT
+ * Protocol facets. A facet points at a range of the text in UTF-8 bytes, not
+ * JavaScript string indexes (which count UTF-16 code units), so every offset
+ * goes through the conversions below. For example in "🪚 #woodworking" the
+ * emoji is 2 code units but 4 bytes, and the tag starts at byte 5.
+ *
+ * Outgoing: `detectFacets` finds mentions, links and hashtags in typed text and
+ * `resolveFacets` turns mentioned handles into DIDs.
+ * Incoming: `segmentRichText` splits text into plain and faceted segments for
+ * rendering, ignoring facets whose offsets do not fit the text.
+ *
+ * Post length is limited in graphemes (what a reader sees as one character),
+ * so "👩‍👩‍👧" counts once although it is 8 code units; see `graphemeLength`.
+ * Text too long for one post is split into a thread at sentence boundaries
+ * (see utils/threads), with `splitSentences` and `splitGraphemes`.
+ */
+
+import type { ByteSlice, Facet, FacetFeature } from '../types/models';
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+// Longest hashtag accepted, in characters, matching the Bluesky app
+const MAX_TAG_LENGTH = 64;
+
+// Longest post text accepted by the PDS, in graphemes and in UTF-8 bytes;
+// text made mostly of emoji reaches the byte limit first
+export const MAX_POST_GRAPHEMES = 300;
+export const MAX_POST_BYTES = 3000;
+
+// Longest display name and bio of a profile, in graphemes
+export const MAX_DISPLAY_NAME_GRAPHEMES = 64;
+export const MAX_DESCRIPTION_GRAPHEMES = 256;
+
+// Longest direct message accepted by the chat service, in graphemes
+export const MAX_MESSAGE_GRAPHEMES = 1000;
+
+// Intl.Segmenter is newer than the ES2020 library this project is typed against
+type TextSegmenter = { segment(text: string): Iterable<{ segment: string }> };
+const Segmenter = (Intl as unknown as {
+  Segmenter?: new (locale?: string, options?: { granularity: 'grapheme' | 'sentence' }) => TextSegmenter;
+}).Segmenter;
+const graphemes = Segmenter ? new Segmenter(undefined, { granularity: 'grapheme' }) : null;
+const sentences = Segmenter ? new Segmenter(undefined, { granularity: 'sentence' }) : null;
+
+/**
+ * Length of a string in UTF-8 bytes
+ *
+ * @param text - Any string
+ */
+export const utf8Length = (text: string): number => encoder.encode(text).length;
+
+/**
+ * Length of a string in graphemes, falling back to code points where the
+ * runtime cannot segment text
+ *
+ * @param text - Any string
+ */
+export const graphemeLength = (text: string): number => {
+  if (!graphemes) return [...text].length;
+  let count = 0;
+  for (const _ of graphemes.segment(text)) count++;
+  return count;
+};
+
+/**
+ * Whether text is short enough for one post, in graphemes and in bytes
+ *
+ * @param text - Text of the post
+ */
+export const fitsInPost = (text: string): boolean =>
+  graphemeLength(text) <= MAX_POST_GRAPHEMES && utf8Length(text) <= MAX_POST_BYTES;
+
+/**
+ * Split a string into graphemes, or code points where the runtime cannot
+ * segment text
+ *
+ * @param text - Any string
+ */
+export const splitGraphemes = (text: string): string[] =>
+  graphemes ? Array.from(graphemes.segment(text), ({ segment }) => segment) : [...text];
+
+/**
+ * Split a string into sentences, each keeping the whitespace that follows it.
+ * Without runtime support, sentences end at ".", "!", "?", "…" or a line break.
+ *
+ * @param text - Any string
+ */
+export const splitSentences = (text: string): string[] =>
+  sentences
+    ? Array.from(sentences.segment(text), ({ segment }) => segment)
+    : text.match(/[^.!?…\n]*(?:[.!?…]+["'”’)\]]*|\n|$)\s*/g)?.filter(Boolean) ?? [];
+
+/**
+ * Convert a string index (UTF-16 code units) to a UTF-8 byte offset
+ *
+ * @param text - The full text
+ * @param index - Index into `text`, as returned by String or RegExp methods
+ */
+export const utf8Offset = (text: string, index: number): number => utf8Length(text.slice(0, index));
+
+/**
+ * Convert a UTF-8 byte offset to a string index (UTF-16 code units)
+ *
+ * @param text - The full text
+ * @param offset - Byte offset; must fall on a character boundary
+ * @returns The index, or -1 if the offset is out of range or splits a character
+ */
+export const utf16Index = (text: string, offset: number): number => {
+  const bytes = encoder.encode(text);
+  if (!isCharBoundary(bytes, offset)) return -1;
+  return decoder.decode(bytes.subarray(0, offset)).length;
+};
+
+// Whether a byte offset falls between two characters
+const isCharBoundary = (bytes: Uint8Array, offset: number): boolean =>
+  Number.isInteger(offset) &&
+  offset >= 0 &&
+  offset <= bytes.length &&
+  (offset === bytes.length || (bytes[offset] & 0xc0) !== 0x80);
+
+// A facet feature found in typed text; mentions carry the handle until it is resolved
+export type DetectedFeature = FacetFeature | { type: 'mention_handle'; handle: string };
+
+/**
+ * DetectedFacet Interface
+ *
+ * @property index - UTF-8 byte range of the facet in the text
+ * @property feature - What the range refers to
+ */
+export interface DetectedFacet {
+  index: ByteSlice;
+  feature: DetectedFeature;
+}
+
+// A handle is a domain name: dot-separated labels ending in a letter-led TLD
+const HANDLE_PATTERN = /^([a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]([a-z0-9-]{0,61}[a-z0-9])?$/i;
+
+const MENTION_REGEX = /(^|\s|\()@([a-zA-Z0-9.-]+)/g;
+const URL_REGEX = /(^|\s|\()(https?:\/\/\S+)/gi;
+const TAG_REGEX = /(^|\s)[#＃]([\p{L}\p{N}_]*[\p{L}_][\p{L}\p{N}_]*)/gu;
+
+// Drop punctuation that ends a sentence rather than the URL, and closing
+// parentheses that have no opening one inside the URL
+const trimUrl = (url: string): string => {
+  let trimmed = url.replace(/[.,;:!?'"]+$/, '');
+  const count = (char: string) => trimmed.split(char).length - 1;
+  while (trimmed.endsWith(')') && count(')') > count('(')) {
+    trimmed = trimmed.slice(0, -1).replace(/[.,;:!?'"]+$/, '');
+  }
+  return trimmed;
+};
+
+// Byte range of `length` code units starting at string index `start`
+const byteSlice = (text: string, start: number, length: number): ByteSlice => ({
+  byte_start: utf8Offset(text, start),
+  byte_end: utf8Offset(text, start + length)
+});
+
+/**
+ * Find mentions, links and hashtags in text
+ *
+ * @param text - Text as typed by the user
+ * @returns Facets sorted by position; mentions are not resolved yet
+ */
+export const detectFacets = (text: string): DetectedFacet[] => {
+  const facets: DetectedFacet[] = [];
+
+  for (const match of text.matchAll(MENTION_REGEX)) {
+    const handle = match[2].replace(/[.-]+$/, '');
+    if (!HANDLE_PATTERN.test(handle)) continue;
+    const start = match.index! + match[1].length;
+    facets.push({
+      index: byteSlice(text, start, handle.length + 1),
+      feature: { type: 'mention_handle', handle: handle.toLowerCase() }
+    });
+  }
+
+  for (const match of text.matchAll(URL_REGEX)) {
+    const uri = trimUrl(match[2]);
+    try {
+      new URL(uri);
+    } catch {
+      continue;
+    }
+    const start = match.index! + match[1].length;
+    facets.push({ index: byteSlice(text, start, uri.length), feature: { type: 'link', uri } });
+  }
+
+  for (const match of text.matchAll(TAG_REGEX)) {
+    const tag = match[2];
+    if ([...tag].length > MAX_TAG_LENGTH) continue;
+    const start = match.index! + match[1].length;
+    facets.push({ index: byteSlice(text, start, tag.length + 1), feature: { type: 'tag', tag } });
+  }
+
+  return facets.sort((a, b) => a.index.byte_start - b.index.byte_start);
+};
+
+/**
+ * Build the facets to send with a post, resolving mentioned handles to DIDs
+ *
+ * Mentions of handles that cannot be resolved are left as plain text.
+ *
+ * @param text - Text as typed by the user
+ * @param resolveHandle - Looks up the DID of a handle
+ */
+export const resolveFacets = async (
+  text: string,
+  resolveHandle: (handle: string) => Promise<string>
+): Promise<Facet[]> => {
+  const detected = detectFacets(text);
+  const handles = [
+    ...new Set(detected.flatMap(facet => (facet.feature.type === 'mention_handle' ? [facet.feature.handle] : [])))
+  ];
+  const dids = new Map<string, string>();
+  await Promise.all(
+    handles.map(async handle => {
+      try {
+        dids.set(handle, await resolveHandle(handle));
+      } catch (err) {
+        console.warn(`Could not resolve @${handle}, leaving it as text:`, err);
+      }
+    })
+  );
+
+  return detected.flatMap((facet): Facet[] => {
+    const { feature } = facet;
+    if (feature.type !== 'mention_handle') {
+      return [{ index: facet.index, features: [feature] }];
+    }
+    const did = dids.get(feature.handle);
+    return did ? [{ index: facet.index, features: [{ type: 'mention', did }] }] : [];
+  });
+};
+
+/**
+ * RichTextSegment Interface
+ *
+ * @property text - Part of the post text
+ * @property feature - What the part links to, absent for plain text
+ */
+export interface RichTextSegment {
+  text: string;
+  feature?: FacetFeature;
+}
+
+/**
+ * Split text into plain and faceted segments for rendering
+ *
+ * Facets that are out of range, split a character, are empty or overlap an
+ * earlier facet are ignored, so malformed facets never garble the text.
+ *
+ * @param text - Post text
+ * @param facets - Facets received with the post
+ */
+export const segmentRichText = (text: string, facets: Facet[] = []): RichTextSegment[] => {
+  if (facets.length === 0) return text ? [{ text }] : [];
+
+  const bytes = encoder.encode(text);
+  const segments: RichTextSegment[] = [];
+  let position = 0;
+
+  const pushText = (start: number, end: number) => {
+    if (end > start) segments.push({ text: decoder.decode(bytes.subarray(start, end)) });
+  };
+
+  [...facets]
+    .sort((a, b) => a.index.byte_start - b.index.byte_start)
+    .forEach(facet => {
+      const { byte_start: start, byte_end: end } = facet.index;
+      const feature = facet.features[0];
+      if (
+        !feature ||
+        start < position ||
+        end <= start ||
+        !isCharBoundary(bytes, start) ||
+        !isCharBoundary(bytes, end)
+      ) {
+        return;
+      }
+      pushText(position, start);
+      segments.push({ text: decoder.decode(bytes.subarray(start, end)), feature });
+      position = end;
+    });
+
+  pushText(position, bytes.length);
+  return segments;
+};
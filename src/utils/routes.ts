@@ -0,0 +1,68 @@
+/**
+ * Route helpers
+ * 
+ * Post and feed URIs (`at://did/collection/rkey`) contain slashes and colons, so they
+ * are encoded when placed in a path segment and decoded when read back.
+ */
+
+import { hashtagQuery } from './search';
+
+/**
+ * Path of the detail page for a post
+ * 
+ * @param uri - AT URI of the post
+ */
+export const postPath = (uri: string): string => `/post/${encodeURIComponent(uri)}`;
+
+/**
+ * Path of the profile page of an account
+ * 
+ * @param actor - Handle or DID of the account
+ */
+export const profilePath = (actor: string): string => `/profile/${encodeURIComponent(actor)}`;
+
+/**
+ * Path of the explore page showing the results of a search
+ * 
+ * @param query - The search, operators included
+ * @param tab - Results to show; posts unless given
+ */
+export const searchPath = (query: string, tab?: 'people' | 'feeds'): string => {
+  const params = new URLSearchParams({ q: query });
+  if (tab) params.set('tab', tab);
+  return `/explore?${params}`;
+};
+
+/**
+ * Path of the page listing posts with a hashtag: a search for it
+ * 
+ * @param tag - The hashtag, without the `#`
+ */
+export const hashtagPath = (tag: string): string => searchPath(hashtagQuery(tag));
+
+/**
+ * Path of the page showing a custom feed
+ * 
+ * @param uri - AT URI of the feed generator
+ */
+export const feedPath = (uri: string): string => `/feed/${encodeURIComponent(uri)}`;
+
+/**
+ * Path of a direct message conversation
+ * 
+ * @param convoId - Id of the conversation
+ */
+export const conversationPath = (convoId: string): string => `/messages/${encodeURIComponent(convoId)}`;
+
+/**
+ * Decode a route parameter produced by one of the helpers above
+ * 
+ * @param param - Value returned by useParams
+ */
+export const decodeParam = (param: string): string => {
+  try {
+    return decodeURIComponent(param);
+  } catch {
+    return param;
+  }
+};
@@ -0,0 +1,102 @@
+/**
+ * Search queries
+ *
+ * Post searches take operators next to plain words, as on bsky.app:
+ * - `from:handle` lists posts by one account, `from:me` those of the signed-in one
+ * - `since:YYYY-MM-DD` lists posts made on or after a day
+ * - `lang:code` lists posts in a language, e.g. `lang:es`
+ * - `#tag` lists posts carrying a hashtag
+ *
+ * Every word and operator has to match. The query is sent to the backend as
+ * typed; this module splits it up so the explore page can show what is being
+ * searched for, and so the mock backend can match posts the same way.
+ */
+
+import { normalizeHashtag } from './hobbies';
+
+/**
+ * SearchQuery Interface
+ *
+ * A post search split into its parts.
+ *
+ * @property words - Plain words, lower case
+ * @property tags - Hashtags without the `#`, lower case
+ * @property from - Handle (without the `@`) or DID of the author, or `me`
+ * @property since - Earliest day, as YYYY-MM-DD
+ * @property lang - Language code, lower case
+ */
+export interface SearchQuery {
+  words: string[];
+  tags: string[];
+  from?: string;
+  since?: string;
+  lang?: string;
+}
+
+/**
+ * Operators explained on the explore page, in the order shown
+ */
+export const SEARCH_OPERATORS: { syntax: string; description: string }[] = [
+  { syntax: 'from:handle', description: 'Posts by an account; from:me for your own' },
+  { syntax: 'since:2024-01-31', description: 'Posts made on or after a day' },
+  { syntax: 'lang:en', description: 'Posts in a language' },
+  { syntax: '#tag', description: 'Posts with a hashtag' }
+];
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Split a post search into words and operators
+ *
+ * Operators with a malformed value, e.g. `since:yesterday`, count as words.
+ *
+ * @param query - The query as typed
+ */
+export const parseSearchQuery = (query: string): SearchQuery => {
+  const parsed: SearchQuery = { words: [], tags: [] };
+  query
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean)
+    .forEach(part => {
+      const [, operator, value] = part.match(/^(from|since|lang):(.+)$/i) ?? [];
+      const key = operator?.toLowerCase();
+      if (key === 'from') {
+        parsed.from = value.replace(/^@/, '').toLowerCase();
+      } else if (key === 'since' && DAY_PATTERN.test(value) && !Number.isNaN(Date.parse(value))) {
+        parsed.since = value;
+      } else if (key === 'lang' && /^[a-z]{2,3}(-[a-z0-9]+)*$/i.test(value)) {
+        parsed.lang = value.toLowerCase();
+      } else if (/^#[\p{L}\p{N}_]+$/u.test(part)) {
+        parsed.tags.push(normalizeHashtag(part));
+      } else {
+        parsed.words.push(part.toLowerCase());
+      }
+    });
+  return parsed;
+};
+
+/**
+ * Whether a query has nothing to search for
+ *
+ * @param query - The query, split up
+ */
+export const isEmptySearchQuery = (query: SearchQuery): boolean =>
+  query.words.length === 0 && query.tags.length === 0 && !query.from && !query.since && !query.lang;
+
+/**
+ * The query listing the posts with a hashtag
+ *
+ * @param tag - The hashtag, with or without the `#`
+ */
+export const hashtagQuery = (tag: string): string => `#${tag.replace(/^#/, '')}`;
+
+/**
+ * Plain words of a query, for the account and feed searches that do not take operators
+ *
+ * @param query - The query as typed
+ */
+export const searchTerms = (query: string): string => {
+  const { words, tags } = parseSearchQuery(query);
+  return [...words, ...tags].join(' ');
+};
@@ -0,0 +1,96 @@
+/**
+ * Session persistence
+ *
+ * Keeps the signed-in accounts in localStorage so they survive reloads and
+ * app restarts. Several accounts can be signed in at once; one of them is
+ * active and used for reading timelines and posting by default.
+ *
+ * The stored value is validated when read back; anything unreadable is
+ * discarded and the user simply starts signed out.
+ */
+
+import type { Session } from '../types/models';
+import { parseSession } from '../types/validate';
+
+const STORAGE_KEY = 'hobbysky.accounts';
+
+/**
+ * AccountsState Interface
+ *
+ * @property sessions - Every signed-in account, in the order they were added
+ * @property activeDid - DID of the account currently in use
+ */
+export interface AccountsState {
+  sessions: Session[];
+  activeDid: string | null;
+}
+
+export const EMPTY_ACCOUNTS: AccountsState = { sessions: [], activeDid: null };
+
+/**
+ * SessionStorage Interface
+ *
+ * Where the client keeps its accounts between launches.
+ */
+export interface SessionStorage {
+  load(): AccountsState;
+  save(state: AccountsState): void;
+}
+
+// Validate a stored accounts value, dropping an active DID that has no session
+const parseAccounts = (value: unknown): AccountsState => {
+  const raw = value as Partial<AccountsState> | null;
+  if (!raw || !Array.isArray(raw.sessions)) return EMPTY_ACCOUNTS;
+  const sessions = raw.sessions.map(parseSession);
+  const activeDid = sessions.some(s => s.did === raw.activeDid)
+    ? (raw.activeDid as string)
+    : sessions[0]?.did ?? null;
+  return { sessions, activeDid };
+};
+
+/**
+ * Storage backed by window.localStorage
+ */
+export const localSessionStorage: SessionStorage = {
+  load: () => {
+    try {
+      const raw = localStorage.getItem(STORAGE_KEY);
+      return raw ? parseAccounts(JSON.parse(raw)) : EMPTY_ACCOUNTS;
+    } catch (err) {
+      console.warn('Discarding unreadable stored accounts:', err);
+      localStorage.removeItem(STORAGE_KEY);
+      return EMPTY_ACCOUNTS;
+    }
+  },
+
+  save: (state) => {
+    if (state.sessions.length > 0) {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+    } else {
+      localStorage.removeItem(STORAGE_KEY);
+    }
+  }
+};
+
+/**
+ * Storage that forgets everything, for tests and non-browser environments
+ */
+export const memorySessionStorage = (): SessionStorage => {
+  let stored: AccountsState = EMPTY_ACCOUNTS;
+  return {
+    load: () => stored,
+    save: (state) => {
+      stored = state;
+    }
+  };
+};
+
+/**
+ * Whether a backend error means the access token has expired
+ *
+ * @param err - Rejection value from a backend command
+ */
+export const isExpiredTokenError = (err: unknown): boolean => {
+  const message = typeof err === 'string' ? err : err instanceof Error ? err.message : '';
+  return message.startsWith('ExpiredToken');
+};
@@ -3,49 +3,59 @@
  * 
  * This file provides a centralized way to interact with the Tauri API
  * and handles fallbacks for development environments where the API might not be available.
+ * 
+ * Commands and their argument/result types are declared in `./commands`,
+ * so only known commands can be invoked.
+ * 
+ * Backend selection happens once at startup:
+ * - `?backend=mock` or `?backend=tauri` in the URL wins
+ * - otherwise `VITE_BACKEND` ("mock" or "tauri")
+ * - otherwise Tauri when running inside the app, the mock backend in a browser
  */
 
-// Define our mock implementations for development mode
-const mockInvoke = <T>(command: string, args?: Record<string, unknown>): Promise<T> => {
-  console.warn(`Mock invoke called for command: ${command}`, args);
-  
-  // Return mock data based on the command
-  // This allows development to proceed even without Tauri backend available
-  if (command === 'login') {
-    return Promise.resolve('mock-session-data' as unknown as T);
-  } else if (command === 'get_timeline') {
-    return Promise.resolve([] as unknown as T);
-  } else if (command === 'create_post') {
-    return Promise.resolve('mock-post-uri' as unknown as T);
-  } else if (command === 'like_post') {
-    return Promise.resolve(true as unknown as T);
-  } else if (command === 'get_post_detail') {
-    return Promise.resolve({} as unknown as T);
-  } else if (command === 'get_post_replies') {
-    return Promise.resolve([] as unknown as T);
+import { invoke as invokeTauri, isTauri } from '@tauri-apps/api/core';
+import type { Backend, CommandArgs, CommandName, CommandResult } from './commands';
+import { createMockBackend, mockOptionsFromEnvironment } from '../mock/backend';
+
+// Forwards commands to the Rust backend
+const tauriBackend: Backend = {
+  invoke: <K extends CommandName>(command: K, args: CommandArgs<K>): Promise<CommandResult<K>> => {
+    if (!isTauri()) {
+      return Promise.reject('Tauri backend is not available');
+    }
+    return invokeTauri<CommandResult<K>>(command, args);
   }
-  
-  return Promise.reject(new Error('Unimplemented mock for: ' + command));
 };
 
-// Check if we're in a Tauri environment
-const isTauri = (): boolean => {
-  return typeof window !== 'undefined' && window.__TAURI_IPC__ !== undefined;
-};
+// Pick the backend for this session from the URL, environment and runtime
+const selectBackend = (): Backend => {
+  const requested = typeof window !== 'undefined'
+    ? new URLSearchParams(window.location.search).get('backend') ?? import.meta.env.VITE_BACKEND
+    : import.meta.env.VITE_BACKEND;
 
-// Simplified invoke function that works in both environments
-export const invoke = <T>(command: string, args?: Record<string, unknown>): Promise<T> => {
-  if (isTauri() && window.__TAURI_IPC__) {
-    return window.__TAURI_IPC__.invoke(command, args);
+  if (requested === 'tauri' || (requested !== 'mock' && isTauri())) {
+    return tauriBackend;
   }
-  return mockInvoke(command, args);
+
+  console.warn('Using the mock backend; data is not sent to Bluesky');
+  return createMockBackend(mockOptionsFromEnvironment());
 };
 
-// Define global Tauri interfaces to avoid TS errors
-declare global {
-  interface Window {
-    __TAURI_IPC__?: {
-      invoke<T>(command: string, args?: Record<string, unknown>): Promise<T>;
-    };
-  }
-} 
\ No newline at end of file
+let backend: Backend = selectBackend();
+
+/**
+ * Replace the active backend
+ * 
+ * Mainly useful for tests, which can install a mock backend with known
+ * latency and error settings.
+ * 
+ * @param next - The backend that will receive subsequent commands
+ */
+export const setBackend = (next: Backend): void => {
+  backend = next;
+};
+
+// Simplified invoke function that works in both environments
+export const invoke = <K extends CommandName>(command: K, args: CommandArgs<K>): Promise<CommandResult<K>> => {
+  return backend.invoke(command, args);
+};
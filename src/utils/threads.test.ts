@@ -0,0 +1,167 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { PostData, StrongRef } from '../types/models';
+import type { BlueskyClient } from './bluesky-client';
+import { fitsInPost, graphemeLength, MAX_POST_GRAPHEMES, utf8Length } from './rich-text';
+import { numberPost, publishThread, splitIntoPosts, type ThreadPost } from './threads';
+
+const client = vi.hoisted(() => ({
+  createPost: vi.fn<BlueskyClient['createPost']>(),
+  createReply: vi.fn<BlueskyClient['createReply']>(),
+  createThreadReply: vi.fn<BlueskyClient['createThreadReply']>()
+}));
+
+vi.mock('./bluesky-client', () => ({ client }));
+
+// 👩‍👩‍👧: one grapheme of 18 UTF-8 bytes
+const FAMILY = '\u{1F469}‍\u{1F469}‍\u{1F467}';
+
+const DID = 'did:plc:wren';
+
+// A sentence of about 140 graphemes, so two fit in a post but three do not
+const sentence = (day: number) => `Day ${day} of restoring the lathe went ${'slowly '.repeat(14)}but well.`;
+
+describe('splitIntoPosts', () => {
+  it('returns no posts for blank text', () => {
+    expect(splitIntoPosts('')).toEqual([]);
+    expect(splitIntoPosts('  \n ')).toEqual([]);
+  });
+
+  it('keeps text that fits as one post', () => {
+    expect(splitIntoPosts('  Glued the tenons today.\n')).toEqual(['Glued the tenons today.']);
+  });
+
+  it('splits at sentence boundaries', () => {
+    const text = [1, 2, 3, 4, 5].map(sentence).join(' ');
+
+    expect(splitIntoPosts(text)).toEqual([
+      `${sentence(1)} ${sentence(2)}`,
+      `${sentence(3)} ${sentence(4)}`,
+      sentence(5)
+    ]);
+  });
+
+  it('leaves room for the numbering in each post', () => {
+    const longest = 'ab '.repeat(98).trim();
+    expect(graphemeLength(longest)).toBe(MAX_POST_GRAPHEMES - 6 - 1);
+    expect(splitIntoPosts(`${longest}c`)).toEqual([`${longest}c`]);
+
+    const posts = splitIntoPosts(`${longest} cd`);
+    expect(posts).toEqual([longest, 'cd']);
+    posts.forEach((post, index) => expect(fitsInPost(numberPost(post, index, 15))).toBe(true));
+  });
+
+  it('splits words longer than a post between graphemes', () => {
+    expect(splitIntoPosts('x'.repeat(700)).map(graphemeLength)).toEqual([294, 294, 112]);
+  });
+
+  it('counts graphemes rather than UTF-16 code units', () => {
+    expect(splitIntoPosts('\u{1FA9A}'.repeat(294))).toHaveLength(1);
+  });
+
+  it('keeps posts within the byte limit when it is reached first', () => {
+    const text = FAMILY.repeat(200);
+    const posts = splitIntoPosts(text);
+
+    // 166 families are 2988 bytes, well short of the grapheme limit
+    expect(posts.map(graphemeLength)).toEqual([166, 34]);
+    posts.forEach(post => expect(utf8Length(post)).toBeLessThanOrEqual(2994));
+    expect(posts.join('')).toBe(text);
+  });
+
+  it('takes custom limits', () => {
+    expect(splitIntoPosts('One two three. Four five.', 10)).toEqual(['One two', 'three.', 'Four five.']);
+    expect(splitIntoPosts('\u{1FA9A}'.repeat(4), 10, 8)).toEqual(['\u{1FA9A}'.repeat(2), '\u{1FA9A}'.repeat(2)]);
+  });
+});
+
+describe('numberPost', () => {
+  it('leaves a single post as it is', () => {
+    expect(numberPost('Just the one ', 0, 1)).toBe('Just the one ');
+  });
+
+  it('appends the position in the thread', () => {
+    expect(numberPost('Second part ', 1, 5)).toBe('Second part 2/5');
+  });
+});
+
+describe('publishThread', () => {
+  let created = 0;
+  const ref = (n: number): StrongRef => ({ uri: `at://${DID}/app.bsky.feed.post/${n}`, cid: `cid${n}` });
+  const nextRef = async () => ref(++created);
+
+  const thread = (count: number): ThreadPost[] =>
+    Array.from({ length: count }, (_, index) => ({ text: `Part ${index + 1}/${count}`, images: [] }));
+
+  const parent: PostData = {
+    id: 'at://did:plc:heron/app.bsky.feed.post/parent',
+    cid: 'parentcid',
+    author: { did: 'did:plc:heron', handle: 'heron.bsky.social', display_name: 'Heron' },
+    text: 'What are you working on?',
+    created_at: '2026-03-01T12:00:00.000Z',
+    reply: {
+      root: { uri: 'at://did:plc:heron/app.bsky.feed.post/root', cid: 'rootcid' },
+      parent: { uri: 'at://did:plc:heron/app.bsky.feed.post/root', cid: 'rootcid' }
+    },
+    likes_count: 0,
+    reposts_count: 0,
+    replies_count: 0
+  };
+
+  beforeEach(() => {
+    created = 0;
+    vi.resetAllMocks();
+    client.createPost.mockImplementation(nextRef);
+    client.createReply.mockImplementation(nextRef);
+    client.createThreadReply.mockImplementation(nextRef);
+  });
+
+  it('chains each post to the one before it', async () => {
+    const refs = await publishThread(thread(3), { as: DID, langs: ['en'], quote: parent });
+
+    expect(refs).toEqual([ref(1), ref(2), ref(3)]);
+    expect(client.createPost).toHaveBeenCalledExactlyOnceWith('Part 1/3', {
+      as: DID,
+      langs: ['en'],
+      images: [],
+      quote: parent
+    });
+    expect(client.createThreadReply.mock.calls).toEqual([
+      [{ root: ref(1), parent: ref(1) }, 'Part 2/3', { as: DID, langs: ['en'], images: [] }],
+      [{ root: ref(1), parent: ref(2) }, 'Part 3/3', { as: DID, langs: ['en'], images: [] }]
+    ]);
+  });
+
+  it('joins the thread of the post it replies to', async () => {
+    await publishThread(thread(2), { reply: parent });
+
+    expect(client.createPost).not.toHaveBeenCalled();
+    expect(client.createReply).toHaveBeenCalledExactlyOnceWith(parent, 'Part 1/2', { images: [] });
+    expect(client.createThreadReply).toHaveBeenCalledExactlyOnceWith(
+      { root: parent.reply!.root, parent: ref(1) },
+      'Part 2/2',
+      { images: [] }
+    );
+  });
+
+  it('resumes after a post fails without posting the earlier ones again', async () => {
+    client.createThreadReply.mockImplementationOnce(nextRef).mockRejectedValueOnce(new Error('Rate limited'));
+    const published: StrongRef[] = [];
+    const onPublished = vi.fn((postRef: StrongRef) => published.push(postRef));
+
+    await expect(publishThread(thread(4), {}, [], onPublished)).rejects.toThrow('Rate limited');
+    expect(onPublished.mock.calls).toEqual([
+      [ref(1), 0],
+      [ref(2), 1]
+    ]);
+
+    const refs = await publishThread(thread(4), {}, published, onPublished);
+
+    expect(refs).toEqual([ref(1), ref(2), ref(3), ref(4)]);
+    expect(client.createPost).toHaveBeenCalledOnce();
+    expect(client.createThreadReply.mock.calls.slice(2).map(([reply, text]) => [reply, text])).toEqual([
+      [{ root: ref(1), parent: ref(2) }, 'Part 3/4'],
+      [{ root: ref(1), parent: ref(3) }, 'Part 4/4']
+    ]);
+    expect(onPublished).toHaveBeenLastCalledWith(ref(4), 3);
+  });
+});
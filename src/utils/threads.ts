@@ -0,0 +1,155 @@
+/**
+ * Threads
+ *
+ * Write-ups too long for one post go out as a thread: a chain of posts, each
+ * replying to the one before it.
+ *
+ * `splitIntoPosts` breaks long text into posts at sentence boundaries, falling
+ * back to word and then grapheme boundaries for sentences that do not fit a
+ * post on their own. Posts are kept within both the grapheme and the byte
+ * limit of a post. `numberPost` appends "1/3" style numbering, which is kept
+ * out of the text being edited and added when the thread is published.
+ *
+ * `publishThread` creates the posts one at a time. When a post fails, the
+ * ones before it stay published; calling it again with their references
+ * resumes from the post that failed, so nothing is posted twice.
+ */
+
+import { replyRefTo, type PostData, type StrongRef } from '../types/models';
+import { client, type PostImage } from './bluesky-client';
+import { graphemeLength, MAX_POST_BYTES, MAX_POST_GRAPHEMES, splitGraphemes, splitSentences, utf8Length } from './rich-text';
+
+// Room left in each post for its numbering when splitting, e.g. " 12/15"
+export const NUMBERING_ROOM = 6;
+
+/**
+ * Add a post's position in its thread to its text, e.g. "… 2/5".
+ * A single post is left as it is.
+ *
+ * @param text - Text of the post
+ * @param index - Position of the post, from 0
+ * @param total - Number of posts in the thread
+ */
+export const numberPost = (text: string, index: number, total: number): string =>
+  total > 1 ? `${text.trimEnd()} ${index + 1}/${total}` : text;
+
+// Break a piece of text that is too long for one post at spaces, or between
+// graphemes within words that are still too long
+const splitLongSentence = (sentence: string, fits: (text: string) => boolean): string[] => {
+  const pieces: string[] = [];
+  for (const word of sentence.split(/(?<=\s)/)) {
+    if (fits(word.trim())) {
+      pieces.push(word);
+      continue;
+    }
+    let piece = '';
+    for (const character of splitGraphemes(word)) {
+      if (piece && !fits((piece + character).trim())) {
+        pieces.push(piece);
+        piece = '';
+      }
+      piece += character;
+    }
+    if (piece) pieces.push(piece);
+  }
+  return pieces;
+};
+
+/**
+ * Split text into posts of at most `limit` graphemes and `byteLimit` bytes
+ * each, keeping whole sentences together where they fit
+ *
+ * @param text - Text to split
+ * @param limit - Longest post in graphemes; leaves room for numbering by default
+ * @param byteLimit - Longest post in UTF-8 bytes; leaves room for numbering by default
+ * @returns The posts, trimmed; none for blank text
+ */
+export const splitIntoPosts = (
+  text: string,
+  limit: number = MAX_POST_GRAPHEMES - NUMBERING_ROOM,
+  byteLimit: number = MAX_POST_BYTES - NUMBERING_ROOM
+): string[] => {
+  const fits = (post: string) => graphemeLength(post) <= limit && utf8Length(post) <= byteLimit;
+  const posts: string[] = [];
+  let current = '';
+
+  for (const sentence of splitSentences(text)) {
+    const pieces = fits(sentence.trim()) ? [sentence] : splitLongSentence(sentence, fits);
+    for (const piece of pieces) {
+      if (current.trim() && !fits((current + piece).trim())) {
+        posts.push(current.trim());
+        current = '';
+      }
+      current += piece;
+    }
+  }
+
+  if (current.trim()) posts.push(current.trim());
+  return posts;
+};
+
+/**
+ * ThreadPost Interface
+ *
+ * @property text - Text of the post as it is published, numbering included
+ * @property images - Images attached to this post
+ */
+export interface ThreadPost {
+  text: string;
+  images: PostImage[];
+}
+
+/**
+ * ThreadOptions Interface
+ *
+ * @property as - DID of the account to post as; defaults to the active one
+ * @property langs - Languages of the posts
+ * @property labels - Content warnings, applied to the posts that have images
+ * @property reply - Post the thread replies to, if any
+ * @property quote - Post quoted by the first post, if any
+ */
+export interface ThreadOptions {
+  as?: string;
+  langs?: string[];
+  labels?: string[];
+  reply?: PostData;
+  quote?: PostData;
+}
+
+/**
+ * Publish a thread, each post replying to the one before it
+ *
+ * @param posts - The posts, in order
+ * @param options - Account, languages and context of the thread
+ * @param published - References of the posts already published by an earlier, failed call
+ * @param onPublished - Called with each post as it is created, so a failure can be resumed from
+ * @returns References of every post of the thread
+ * @throws The backend's error for the first post that could not be created
+ */
+export const publishThread = async (
+  posts: ThreadPost[],
+  options: ThreadOptions,
+  published: StrongRef[] = [],
+  onPublished?: (ref: StrongRef, index: number) => void
+): Promise<StrongRef[]> => {
+  const { reply, quote, ...postOptions } = options;
+  const refs = [...published];
+
+  for (let index = refs.length; index < posts.length; index++) {
+    const { text, images } = posts[index];
+    let ref: StrongRef;
+    if (index > 0) {
+      // A thread replying to a post joins that post's thread
+      const root = reply ? replyRefTo(reply).root : refs[0];
+      ref = await client.createThreadReply({ root, parent: refs[index - 1] }, text, { ...postOptions, images });
+    } else if (reply) {
+      ref = await client.createReply(reply, text, { ...postOptions, images });
+    } else {
+      ref = await client.createPost(text, { ...postOptions, images, quote });
+    }
+    refs.push(ref);
+    onPublished?.(ref, index);
+  }
+
+  return refs;
+};
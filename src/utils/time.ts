@@ -0,0 +1,24 @@
+/**
+ * Timestamps
+ *
+ * Posts and notifications show how long ago they were made in the short form
+ * used by Bluesky apps, falling back to a date once they are a week old.
+ */
+
+const MINUTE = 60 * 1000;
+
+/**
+ * Format a timestamp the way the feed displays it: "now", "5m", "3h", "2d",
+ * or a short date for anything older than a week.
+ *
+ * @param time - The time to format, in ms since the epoch
+ * @param now - Current time in ms since the epoch
+ */
+export const formatTimestamp = (time: number, now: number = Date.now()): string => {
+  const minutes = Math.floor((now - time) / MINUTE);
+  if (minutes < 1) return 'now';
+  if (minutes < 60) return `${minutes}m`;
+  if (minutes < 60 * 24) return `${Math.floor(minutes / 60)}h`;
+  if (minutes < 60 * 24 * 7) return `${Math.floor(minutes / (60 * 24))}d`;
+  return new Date(time).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+};
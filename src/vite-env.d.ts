@@ -1 +1,26 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Base URL of the Bluesky service, defaults to https://bsky.social
+  readonly VITE_BSKY_SERVICE?: string;
+  // Backend to use: "tauri" or "mock" (defaults to tauri when available)
+  readonly VITE_BACKEND?: string;
+  // Mock backend response delay in ms
+  readonly VITE_MOCK_LATENCY?: string;
+  // Mock backend probability (0 to 1) that a command fails
+  readonly VITE_MOCK_ERROR_RATE?: string;
+  // Comma-separated commands the mock backend always fails
+  readonly VITE_MOCK_FAIL?: string;
+  // Mock backend access token lifetime in ms
+  readonly VITE_MOCK_TOKEN_TTL?: string;
+  // Mock backend interval in ms between posts from other accounts
+  readonly VITE_MOCK_ACTIVITY?: string;
+  // Mock backend delay in ms before the other member answers a direct message
+  readonly VITE_MOCK_CHAT_REPLY?: string;
+  // How often the timeline checks for new posts, in ms
+  readonly VITE_POLL_INTERVAL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}